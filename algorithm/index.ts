@@ -5,6 +5,8 @@
  * - Effort level detection (DETERMINED triggers SpecFirst)
  * - Phase integration (SpecFirst executes in PLAN/BUILD phases)
  * - ISC format conversion (tasks.md → Algorithm ISC tracker)
+ * - ISC write-back (Algorithm ISC tracker → tasks.md and database)
+ * - ISC verification (runs each criterion's Verify method)
  * 
  * ISC Coverage:
  * - ISC #46: DETERMINED effort detection triggers SpecFirst capability activation
@@ -51,3 +53,25 @@ export {
   type AntiCriterionEntry,
   type LoadedISC,
 } from "./isc-loader";
+
+// ISC Sync (tracker → tasks.md write-back)
+export {
+  updateCriterionInTasksFile,
+  syncTrackerToTasks,
+  STATUS_TO_CRITERION,
+  type SyncOptions,
+  type SyncResult,
+} from "./isc-sync";
+
+// ISC Verifier (executes Verify methods)
+export {
+  parseVerifyMethod,
+  runVerifyStep,
+  verifyFeature,
+  formatVerificationReport,
+  type VerifyStep,
+  type VerifyOutcome,
+  type VerificationResult,
+  type VerificationReport,
+  type VerifyOptions,
+} from "./verifier";
@@ -14,13 +14,13 @@
  * Design Principle (ISC #49):
  * The Algorithm's ISC tracker is the PRIMARY state mechanism. This module
  * provides READ-ONLY conversion from tasks.md to ISC tracker format.
- * It does NOT write back to tasks.md - that remains SpecFirst's responsibility.
+ * Writing tracker changes back to tasks.md lives in isc-sync.
  * 
  * Flow:
  * 1. SpecFirst generates tasks.md with ISC criteria
  * 2. This module loads tasks.md → Algorithm ISC tracker format
  * 3. Algorithm tracks progress in its own ISC tracker
- * 4. SpecFirst updates tasks.md based on completed work
+ * 4. isc-sync writes status/evidence changes back to tasks.md and the database
  * 
  * @module algorithm/isc-loader
  * @version 4.0.0
@@ -29,6 +29,8 @@
 import { readFile } from "fs/promises";
 import { existsSync } from "fs";
 import { parseTasksFile } from "../artifacts/tasks";
+import { parseFrontmatter } from "../artifacts/frontmatter";
+import { getConfig, type ValidationSettings } from "../lib/config";
 
 export type ISCStatus = "⬜" | "🔄" | "✅" | "❌";
 
@@ -87,8 +89,8 @@ export interface LoadedISC {
  * ISC #49: Algorithm ISC tracker remains primary state mechanism
  * 
  * This is a READ-ONLY operation. The Algorithm ISC tracker becomes
- * the primary state mechanism after loading. Updates to task status
- * happen in the Algorithm tracker, not back to tasks.md.
+ * the primary state mechanism after loading. Status changes made in the
+ * tracker are written back with syncTrackerToTasks() (algorithm/isc-sync).
  * 
  * @param tasksPath - Path to tasks.md file
  * @returns LoadedISC with criteria, anti-criteria, and metadata
@@ -224,12 +226,9 @@ function extractIdeal(content: string): string | undefined {
  */
 function extractFeatureName(content: string, filePath: string): string {
   // Try to extract from YAML frontmatter
-  const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
-  if (yamlMatch) {
-    const featureMatch = yamlMatch[1].match(/feature:\s*(.+)/);
-    if (featureMatch) {
-      return featureMatch[1].trim();
-    }
+  const { feature } = parseFrontmatter(content);
+  if (typeof feature === "string" && feature.trim()) {
+    return feature.trim();
   }
   
   // Fallback: extract from file path
@@ -247,19 +246,22 @@ function extractFeatureName(content: string, filePath: string): string {
  * Validates that loaded ISC entries meet Algorithm v1.8.0 requirements.
  * 
  * Checks:
- * - All criteria are 8-12 words (v1.8.0 — was exactly 8)
+ * - All criteria are 8-12 words (v1.8.0 — was exactly 8; configurable)
  * - All criteria have valid status symbols
  * - Criteria IDs are sequential (supports both numeric and ISC-C format)
  * 
  * @param entries - ISC entries to validate
+ * @param settings - Word range (default: getConfig())
  * @returns Validation result with errors if any
  */
 export function validateLoadedISC(
-  entries: ISCEntry[]
+  entries: ISCEntry[],
+  settings: Pick<ValidationSettings, "iscMinWords" | "iscMaxWords"> = getConfig()
 ): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
+  const { iscMinWords: min, iscMaxWords: max } = settings;
   
-  // Check word count for each criterion (8-12 words, strip confidence/priority tags)
+  // Check word count for each criterion (8-12 words by default, strip confidence/priority tags)
   for (const entry of entries) {
     const clean = entry.criterion
       .replace(/\s*\[(E|I|R)\]\s*/g, '')
@@ -267,9 +269,9 @@ export function validateLoadedISC(
       .split("|")[0] // Strip verify suffix if inline
       .trim();
     const words = clean.split(/\s+/).filter(w => w.length > 0);
-    if (words.length < 8 || words.length > 12) {
+    if (words.length < min || words.length > max) {
       errors.push(
-        `ISC #${entry.id}: Criterion has ${words.length} words (expected 8-12): "${entry.criterion}"`
+        `ISC #${entry.id}: Criterion has ${words.length} words (expected ${min}-${max}): "${entry.criterion}"`
       );
     }
   }
@@ -0,0 +1,146 @@
+/**
+ * ISC Sync Module - SpecFirst 4.0
+ *
+ * Writes Algorithm ISC tracker state back into tasks.md and mirrors it into
+ * the `criteria` table, so the tracker, the artifact and the database agree.
+ *
+ * The Algorithm tracker stays the primary state mechanism (ISC #49);
+ * isc-loader reads tasks.md into the tracker and this module writes the
+ * tracker's status and evidence changes back. releasePhase reads the
+ * ✅ statuses written here to decide release readiness.
+ *
+ * @module algorithm/isc-sync
+ * @version 4.0.0
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import {
+  applyCriterionUpdates,
+  parseTasksFile,
+  type CriterionUpdate,
+  type TasksUpdateResult,
+} from "../artifacts/tasks";
+import { getArtifactPath } from "../lib/config";
+import { initDatabase, getCriteria, updateCriterionStatus, type CriterionStatus } from "../lib/database";
+import type { ISCStatus } from "./isc-loader";
+
+/** Map ISC status symbols to criteria table statuses */
+export const STATUS_TO_CRITERION: Record<ISCStatus, CriterionStatus> = {
+  "⬜": "pending",
+  "🔄": "in_progress",
+  "✅": "verified",
+  "❌": "failed",
+};
+
+export interface SyncOptions {
+  /** Project root holding tasks.md and .specfirst/specfirst.db (defaults to cwd) */
+  projectPath?: string;
+  /** Skip mirroring into the criteria table */
+  skipDatabase?: boolean;
+}
+
+export interface SyncResult extends TasksUpdateResult {
+  tasksPath: string;
+  /** Number of criteria table rows updated */
+  mirrored: number;
+}
+
+/**
+ * Applies criterion updates to a tasks.md file in place.
+ *
+ * @param tasksPath - Path to tasks.md
+ * @param updates - Status/evidence changes keyed by ISC-C/ISC-A ID
+ * @returns Which IDs were updated or not found
+ * @throws Error if the file does not exist or an update is invalid
+ *
+ * @example
+ * ```typescript
+ * const result = await updateCriterionInTasksFile(tasksPath, [
+ *   { id: "ISC-C1", status: "✅", evidence: "curl returned 200" },
+ * ]);
+ * if (result.notFound.length > 0) console.warn(`Unknown: ${result.notFound.join(", ")}`);
+ * ```
+ */
+export async function updateCriterionInTasksFile(
+  tasksPath: string,
+  updates: CriterionUpdate[]
+): Promise<TasksUpdateResult> {
+  if (!existsSync(tasksPath)) {
+    throw new Error(`Tasks file not found: ${tasksPath}`);
+  }
+
+  const content = await readFile(tasksPath, "utf-8");
+  const result = applyCriterionUpdates(content, updates);
+
+  if (result.updated.length > 0) {
+    await writeFile(tasksPath, result.content, "utf-8");
+  }
+
+  return result;
+}
+
+/**
+ * Syncs Algorithm tracker changes for a feature into tasks.md and the
+ * criteria table.
+ *
+ * Database rows are matched to tasks.md rows by criterion text, since the
+ * table uses generated IDs. Anti-criteria are not stored in the database
+ * and are only written to tasks.md.
+ *
+ * @param featureName - Feature name
+ * @param updates - Status/evidence changes from the tracker
+ * @param options - Project path and database options
+ * @returns SyncResult
+ *
+ * @example
+ * ```typescript
+ * await syncTrackerToTasks("user-auth", [
+ *   { id: 3, status: "✅", evidence: "bun test auth: 12 pass" },
+ *   { id: "ISC-A1", status: "✅" },
+ * ]);
+ * ```
+ */
+export async function syncTrackerToTasks(
+  featureName: string,
+  updates: CriterionUpdate[],
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const tasksPath = getArtifactPath(featureName, "tasks", options.projectPath);
+  const result = await updateCriterionInTasksFile(tasksPath, updates);
+
+  let mirrored = 0;
+  if (!options.skipDatabase && result.updated.some(id => id.startsWith("ISC-C"))) {
+    initDatabase(options.projectPath ?? process.cwd());
+    mirrored = mirrorToDatabase(featureName, result);
+  }
+
+  return { ...result, tasksPath, mirrored };
+}
+
+/**
+ * Copies status and evidence of updated ISC-C rows into the criteria table.
+ */
+function mirrorToDatabase(featureName: string, result: TasksUpdateResult): number {
+  const rows = getCriteria(featureName);
+  let mirrored = 0;
+
+  for (const criterion of parseTasksFile(result.content).criteria) {
+    if (!result.updated.includes(`ISC-C${criterion.id}`)) continue;
+
+    // tasks.md rows may carry confidence/priority tags after the text
+    const row = rows.find(r => criterion.criterion === r.criterion || criterion.criterion.startsWith(`${r.criterion} [`));
+    if (!row) continue;
+
+    const evidence = criterion.evidence && criterion.evidence !== "-" ? criterion.evidence : undefined;
+    updateCriterionStatus(row.id, STATUS_TO_CRITERION[criterion.status as ISCStatus] ?? "pending", evidence);
+    mirrored++;
+  }
+
+  return mirrored;
+}
+
+// Export for testing
+export const __testing = {
+  mirrorToDatabase,
+};
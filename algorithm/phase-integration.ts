@@ -23,10 +23,15 @@
  * - Algorithm VERIFY phase:
  *   - SpecFirst verification → Check ISC criteria completion
  * 
+ * Custom workflows (lib/workflow) declare the Algorithm phase of each of
+ * their phases; pass the workflow to use those mappings.
+ * 
  * @module algorithm/phase-integration
  * @version 4.0.0
  */
 
+import type { WorkflowDefinition } from "../lib/workflow";
+
 export type SpecFirstPhase = "propose" | "specify" | "plan" | "implement" | "release";
 export type AlgorithmPhase = "OBSERVE" | "THINK" | "PLAN" | "BUILD" | "EXECUTE" | "VERIFY" | "LEARN";
 
@@ -63,6 +68,7 @@ const PHASE_MAP: Record<SpecFirstPhase, AlgorithmPhase> = {
  * ISC #47: All SpecFirst phases execute within PLAN or BUILD or EXECUTE phases
  * 
  * @param specFirstPhase - The SpecFirst phase to map
+ * @param workflow - Workflow declaring the phase (default: built-in mapping)
  * @returns The corresponding Algorithm phase (PLAN, BUILD, or EXECUTE)
  * 
  * @example
@@ -72,9 +78,21 @@ const PHASE_MAP: Record<SpecFirstPhase, AlgorithmPhase> = {
  * mapToAlgorithmPhase("plan");      // "PLAN"
  * mapToAlgorithmPhase("implement"); // "BUILD"
  * mapToAlgorithmPhase("release");   // "BUILD"
+ * mapToAlgorithmPhase("security-review", getWorkflow("secure")); // "VERIFY"
  * ```
  */
-export function mapToAlgorithmPhase(specFirstPhase: string): AlgorithmPhase {
+export function mapToAlgorithmPhase(specFirstPhase: string, workflow?: WorkflowDefinition): AlgorithmPhase {
+  if (workflow) {
+    const phase = workflow.phases.find(p => p.name === specFirstPhase);
+    if (!phase) {
+      throw new Error(
+        `Invalid SpecFirst phase: "${specFirstPhase}". ` +
+        `Must be one of: ${workflow.phases.map(p => p.name).join(", ")}`
+      );
+    }
+    return phase.algorithmPhase;
+  }
+
   const normalized = specFirstPhase.toLowerCase() as SpecFirstPhase;
   
   if (!(normalized in PHASE_MAP)) {
@@ -101,6 +119,7 @@ export function mapToAlgorithmPhase(specFirstPhase: string): AlgorithmPhase {
  * 
  * @param specFirstPhase - The SpecFirst phase to check
  * @param currentAlgorithmPhase - The current Algorithm phase
+ * @param workflow - Workflow declaring the phase (default: built-in mapping)
  * @returns true if execution is allowed, false otherwise
  * 
  * @example
@@ -113,10 +132,11 @@ export function mapToAlgorithmPhase(specFirstPhase: string): AlgorithmPhase {
  */
 export function canExecuteInPhase(
   specFirstPhase: string,
-  currentAlgorithmPhase: string
+  currentAlgorithmPhase: string,
+  workflow?: WorkflowDefinition
 ): boolean {
   try {
-    const requiredPhase = mapToAlgorithmPhase(specFirstPhase);
+    const requiredPhase = mapToAlgorithmPhase(specFirstPhase, workflow);
     const normalizedCurrent = currentAlgorithmPhase.toUpperCase();
     
     return requiredPhase === normalizedCurrent;
@@ -0,0 +1,527 @@
+/**
+ * ISC Verifier - SpecFirst 4.0
+ *
+ * Executes the `Verify` method of each ISC criterion and anti-criterion in
+ * tasks.md, records the outcome as evidence and flips the status to ✅/❌
+ * in tasks.md and the database (via isc-sync). This makes release
+ * readiness evidence-based instead of relying on hand-edited status cells.
+ *
+ * Supported verify methods (Verify column of tasks.md):
+ * - `CLI: <command>`      Shell command; passes on exit code 0
+ * - `Static: <command>`   Same as CLI (type checkers, linters)
+ * - `Test: <filter>`      `bun test <filter>`; a full `bun test ...` command is also accepted
+ * - `Grep: <pattern> in <path>`  Passes when the pattern matches; `!<pattern>` passes when it does not.
+ *                         Patterns are literal, "quoted" or /regex/flags
+ * - `Read: <path>`        Passes when the file exists and is not empty
+ *
+ * Browser and Custom methods need a human and are reported as skipped.
+ *
+ * Commands run in a subprocess confined to the project directory with a
+ * minimal environment, no stdin and a hard timeout that kills the whole
+ * process group. Grep and Read only accept paths inside the project.
+ *
+ * @module algorithm/verifier
+ * @version 4.0.0
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync, lstatSync, realpathSync } from "fs";
+import { readFile } from "fs/promises";
+import { join, relative, resolve, isAbsolute } from "path";
+import { parseTasksFile, normalizeCriterionId, type CriterionUpdate } from "../artifacts/tasks";
+import { getArtifactPath } from "../lib/config";
+import { syncTrackerToTasks } from "./isc-sync";
+import type { VerifyMethod } from "../artifacts/types";
+
+/** Default per-step timeout */
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** Captured output is truncated to this many characters */
+const MAX_OUTPUT_CHARS = 64 * 1024;
+
+/** Evidence written to tasks.md is truncated to this many characters */
+const MAX_EVIDENCE_CHARS = 80;
+
+/** Directories never searched by Grep steps */
+const GREP_SKIP_DIRS = new Set([".git", "node_modules", ".specfirst"]);
+
+/**
+ * A parsed, executable verify step.
+ */
+export type VerifyStep =
+  | { kind: "CLI" | "Static"; command: string }
+  | { kind: "Test"; args: string[] }
+  | { kind: "Grep"; pattern: RegExp; path: string; negate: boolean }
+  | { kind: "Read"; path: string };
+
+export type VerifyOutcome = "passed" | "failed" | "skipped";
+
+/**
+ * Outcome of one criterion's verify step.
+ */
+export interface VerificationResult {
+  /** ISC-C{N} or ISC-A{N} */
+  id: string;
+  criterion: string;
+  /** Verify column as written in tasks.md */
+  method: string;
+  kind: VerifyMethod | null;
+  outcome: VerifyOutcome;
+  /** One-line summary suitable for the Evidence column */
+  evidence: string;
+  /** Captured stdout/stderr (truncated) */
+  output: string;
+  exitCode?: number | null;
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+/**
+ * Result of verifying a feature.
+ */
+export interface VerificationReport {
+  feature: string;
+  tasksPath: string;
+  results: VerificationResult[];
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+  };
+  /** True when statuses were written to tasks.md and the database */
+  written: boolean;
+}
+
+export interface VerifyOptions {
+  /** Project whose tasks.md is verified; commands run in it and paths resolve against it (defaults to cwd) */
+  projectPath?: string;
+  /** Per-step timeout in milliseconds (default 60s) */
+  timeoutMs?: number;
+  /** Only verify these IDs (3, "ISC-C3", "ISC-A1") */
+  ids?: Array<number | string>;
+  /** Run steps without writing statuses back */
+  dryRun?: boolean;
+  /** Do not mirror statuses into the criteria table */
+  skipDatabase?: boolean;
+}
+
+/**
+ * Parses a Verify column value into an executable step.
+ *
+ * @param method - e.g. "CLI: bun run lint" or "Grep: /TODO/i in src"
+ * @returns The step, or null when the method cannot be executed automatically
+ *
+ * @example
+ * ```typescript
+ * parseVerifyMethod("Test: auth");              // { kind: "Test", args: ["auth"] }
+ * parseVerifyMethod("Grep: !console.log in src"); // negated literal pattern
+ * parseVerifyMethod("Browser: check login");    // null
+ * ```
+ */
+export function parseVerifyMethod(method: string): VerifyStep | null {
+  const match = method.trim().match(/^(\w+):\s*(.+)$/);
+  if (!match) return null;
+
+  const kind = match[1];
+  const body = match[2].trim();
+
+  switch (kind) {
+    case "CLI":
+    case "Static":
+      return { kind, command: body };
+    case "Test": {
+      const args = body.split(/\s+/).filter(Boolean);
+      // "Test: bun test auth" and "Test: auth" both run `bun test auth`
+      return { kind: "Test", args: args[0] === "bun" && args[1] === "test" ? args.slice(2) : args };
+    }
+    case "Grep": {
+      const grep = body.match(/^(!)?(.+?)\s+in\s+(\S+)$/);
+      if (!grep) return null;
+      const pattern = toRegExp(grep[2].trim());
+      return pattern ? { kind: "Grep", pattern, path: grep[3], negate: grep[1] === "!" } : null;
+    }
+    case "Read":
+      return { kind: "Read", path: body };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Runs a single verify step.
+ *
+ * @param step - Parsed step
+ * @param options - Project path and timeout
+ * @returns Outcome without criterion metadata
+ */
+export async function runVerifyStep(
+  step: VerifyStep,
+  options: { projectPath?: string; timeoutMs?: number } = {}
+): Promise<Omit<VerificationResult, "id" | "criterion" | "method" | "kind">> {
+  const projectPath = resolve(options.projectPath ?? process.cwd());
+  const started = Date.now();
+
+  switch (step.kind) {
+    case "CLI":
+    case "Static":
+      return runCommand(["sh", "-c", step.command], projectPath, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    case "Test":
+      return runCommand(["bun", "test", ...step.args], projectPath, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    case "Grep":
+      return { ...runGrep(step, projectPath), durationMs: Date.now() - started };
+    case "Read":
+      return { ...runRead(step.path, projectPath), durationMs: Date.now() - started };
+  }
+}
+
+/**
+ * Verifies every criterion of a feature that has an executable Verify
+ * method and writes ✅/❌ plus evidence back to tasks.md and the database.
+ *
+ * @param featureName - Feature name
+ * @param options - Verification options
+ * @returns VerificationReport
+ * @throws Error if tasks.md does not exist
+ *
+ * @example
+ * ```typescript
+ * const report = await verifyFeature("user-auth", { timeoutMs: 120_000 });
+ * console.log(formatVerificationReport(report));
+ * if (report.summary.failed > 0) process.exit(1);
+ * ```
+ */
+export async function verifyFeature(featureName: string, options: VerifyOptions = {}): Promise<VerificationReport> {
+  const tasksPath = getArtifactPath(featureName, "tasks", options.projectPath);
+  if (!existsSync(tasksPath)) {
+    throw new Error(`Tasks file not found: ${tasksPath}`);
+  }
+
+  const { criteria, antiCriteria } = parseTasksFile(await readFile(tasksPath, "utf-8"));
+  const wanted = options.ids ? new Set(options.ids.map(normalizeCriterionId)) : null;
+
+  const targets = [
+    ...criteria.map(c => ({ id: `ISC-C${c.id}`, criterion: c.criterion, method: c.verifyMethod })),
+    ...antiCriteria.map(a => ({ id: a.id, criterion: a.criterion, method: a.verifyMethod })),
+  ].filter(t => !wanted || wanted.has(t.id));
+
+  const results: VerificationResult[] = [];
+  for (const target of targets) {
+    const method = target.method && target.method !== "-" ? target.method : "";
+    const step = method ? parseVerifyMethod(method) : null;
+
+    if (!step) {
+      results.push({
+        id: target.id,
+        criterion: target.criterion,
+        method,
+        kind: methodKind(method),
+        outcome: "skipped",
+        evidence: method ? "Requires manual verification" : "No verify method",
+        output: "",
+        durationMs: 0,
+      });
+      continue;
+    }
+
+    const outcome = await runVerifyStep(step, options);
+    results.push({ id: target.id, criterion: target.criterion, method, kind: step.kind, ...outcome });
+  }
+
+  const updates: CriterionUpdate[] = results
+    .filter(r => r.outcome !== "skipped")
+    .map(r => ({
+      id: r.id,
+      status: r.outcome === "passed" ? "✅" : "❌",
+      // Anti-criteria have no evidence column
+      ...(r.id.startsWith("ISC-C") ? { evidence: r.evidence } : {}),
+    }));
+
+  const written = !options.dryRun && updates.length > 0;
+  if (written) {
+    await syncTrackerToTasks(featureName, updates, {
+      projectPath: options.projectPath,
+      skipDatabase: options.skipDatabase,
+    });
+  }
+
+  return {
+    feature: featureName,
+    tasksPath,
+    results,
+    summary: {
+      total: results.length,
+      passed: results.filter(r => r.outcome === "passed").length,
+      failed: results.filter(r => r.outcome === "failed").length,
+      skipped: results.filter(r => r.outcome === "skipped").length,
+    },
+    written,
+  };
+}
+
+/**
+ * Formats a verification report for terminal output.
+ *
+ * @param report - Verification report
+ * @returns Multi-line summary
+ */
+export function formatVerificationReport(report: VerificationReport): string {
+  const icon: Record<VerifyOutcome, string> = { passed: "✅", failed: "❌", skipped: "⏭️ " };
+  const lines = [`🔬 Verification: ${report.feature}`, ""];
+
+  for (const r of report.results) {
+    lines.push(`${icon[r.outcome]} ${r.id} ${r.criterion}`);
+    lines.push(`   ${r.method || "(no verify method)"} → ${r.evidence}`);
+  }
+
+  const { passed, failed, skipped, total } = report.summary;
+  lines.push("", `${passed}/${total} passed, ${failed} failed, ${skipped} skipped`);
+  if (!report.written) {
+    lines.push("(statuses not written)");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Runs a command in a sandboxed subprocess and captures its output.
+ */
+async function runCommand(
+  argv: string[],
+  cwd: string,
+  timeoutMs: number
+): Promise<Omit<VerificationResult, "id" | "criterion" | "method" | "kind">> {
+  const started = Date.now();
+  const proc = Bun.spawn(argv, {
+    cwd,
+    env: sandboxEnv(),
+    stdin: "ignore",
+    stdout: "pipe",
+    stderr: "pipe",
+    // Own process group so a timeout also kills grandchildren
+    detached: true,
+  });
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-proc.pid, "SIGKILL");
+      } catch {
+        proc.kill("SIGKILL");
+      }
+      resolve(null);
+    }, timeoutMs);
+  });
+
+  // A grandchild that left the process group (setsid) can keep the pipes
+  // open after the kill, so reads stop at the timeout too
+  const [stdout, stderr, exitCode] = await Promise.all([
+    readUntil(proc.stdout, timeout),
+    readUntil(proc.stderr, timeout),
+    Promise.race([proc.exited, timeout]),
+  ]);
+  clearTimeout(timer);
+
+  const output = truncate(`${stdout}${stderr ? `\n${stderr}` : ""}`.trim(), MAX_OUTPUT_CHARS);
+  const durationMs = Date.now() - started;
+
+  if (timedOut) {
+    return {
+      outcome: "failed",
+      evidence: `Timed out after ${Math.round(timeoutMs / 1000)}s`,
+      output,
+      exitCode: null,
+      timedOut: true,
+      durationMs,
+    };
+  }
+
+  const lastLine = output.split("\n").map(l => l.trim()).filter(Boolean).pop() ?? "";
+  return {
+    outcome: exitCode === 0 ? "passed" : "failed",
+    evidence: truncate(`exit ${exitCode}${lastLine ? `: ${lastLine}` : ""}`, MAX_EVIDENCE_CHARS),
+    output,
+    exitCode,
+    durationMs,
+  };
+}
+
+/**
+ * Reads a stream as text until it closes or `stop` settles.
+ */
+async function readUntil(stream: ReadableStream<Uint8Array>, stop: Promise<null>): Promise<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (true) {
+    const chunk = await Promise.race([reader.read(), stop]);
+    if (!chunk || chunk.done) break;
+    text += decoder.decode(chunk.value, { stream: true });
+  }
+  reader.cancel().catch(() => {});
+  return text + decoder.decode();
+}
+
+/**
+ * Searches a file or directory tree for a pattern.
+ */
+function runGrep(
+  step: Extract<VerifyStep, { kind: "Grep" }>,
+  projectPath: string
+): Omit<VerificationResult, "id" | "criterion" | "method" | "kind" | "durationMs"> {
+  const target = confine(step.path, projectPath);
+  if (!target) {
+    return { outcome: "failed", evidence: `Path outside project: ${step.path}`, output: "" };
+  }
+  if (!existsSync(target)) {
+    return { outcome: "failed", evidence: `Not found: ${step.path}`, output: "" };
+  }
+
+  const hit = findMatch(target, step.pattern);
+  const location = hit ? `${relative(projectPath, hit.file) || step.path}:${hit.line}` : "";
+  const passed = step.negate ? !hit : Boolean(hit);
+
+  let evidence: string;
+  if (hit) {
+    evidence = `${step.negate ? "Unexpected match" : "Match"} at ${location}`;
+  } else {
+    evidence = `No match for ${step.pattern} in ${step.path}`;
+  }
+
+  return {
+    outcome: passed ? "passed" : "failed",
+    evidence: truncate(evidence, MAX_EVIDENCE_CHARS),
+    output: hit ? `${location}: ${hit.text}` : "",
+  };
+}
+
+/**
+ * Checks that a file exists and is readable and not empty.
+ */
+function runRead(
+  path: string,
+  projectPath: string
+): Omit<VerificationResult, "id" | "criterion" | "method" | "kind" | "durationMs"> {
+  const target = confine(path, projectPath);
+  if (!target) {
+    return { outcome: "failed", evidence: `Path outside project: ${path}`, output: "" };
+  }
+
+  try {
+    const content = readFileSync(target, "utf-8");
+    if (content.trim().length === 0) {
+      return { outcome: "failed", evidence: `Empty file: ${path}`, output: "" };
+    }
+    return {
+      outcome: "passed",
+      evidence: truncate(`Read ${path} (${content.split("\n").length} lines)`, MAX_EVIDENCE_CHARS),
+      output: truncate(content, MAX_OUTPUT_CHARS),
+    };
+  } catch {
+    return { outcome: "failed", evidence: `Cannot read: ${path}`, output: "" };
+  }
+}
+
+/**
+ * Returns the first line matching the pattern in a file or directory tree.
+ * Symlinks inside the tree are skipped so they cannot lead out of the
+ * project; `path` itself was already confined.
+ */
+function findMatch(path: string, pattern: RegExp): { file: string; line: number; text: string } | null {
+  if (statSync(path).isDirectory()) {
+    for (const entry of readdirSync(path).sort()) {
+      if (GREP_SKIP_DIRS.has(entry)) continue;
+      const child = join(path, entry);
+      if (lstatSync(child).isSymbolicLink()) continue;
+      const hit = findMatch(child, pattern);
+      if (hit) return hit;
+    }
+    return null;
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, "utf-8");
+  } catch {
+    return null;
+  }
+
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    if (pattern.test(lines[i])) {
+      return { file: path, line: i + 1, text: lines[i].trim() };
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves a path against the project and rejects anything outside it,
+ * including paths that only lead outside through a symlink.
+ */
+function confine(path: string, projectPath: string): string | null {
+  const target = resolve(projectPath, path);
+  const inside = (from: string, to: string) => {
+    const rel = relative(from, to);
+    return !rel.startsWith("..") && !isAbsolute(rel);
+  };
+  if (!inside(projectPath, target)) {
+    return null;
+  }
+  try {
+    return inside(realpathSync(projectPath), realpathSync(target)) ? target : null;
+  } catch {
+    // Missing paths are reported by the caller
+    return target;
+  }
+}
+
+/**
+ * Builds a grep pattern from a literal, "quoted" or /regex/flags string.
+ */
+function toRegExp(raw: string): RegExp | null {
+  const regex = raw.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    if (regex) return new RegExp(regex[1], regex[2].replace("g", ""));
+  } catch {
+    return null;
+  }
+  const literal = raw.replace(/^(["'])(.*)\1$/, "$2");
+  return new RegExp(literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+}
+
+/**
+ * Minimal environment for verify subprocesses.
+ */
+function sandboxEnv(): Record<string, string> {
+  const env: Record<string, string> = { CI: "1", SPECFIRST_VERIFY: "1" };
+  for (const key of ["PATH", "HOME", "LANG", "TMPDIR", "BUN_INSTALL"]) {
+    const value = process.env[key];
+    if (value) env[key] = value;
+  }
+  return env;
+}
+
+/**
+ * Extracts the method category from a Verify value, if recognizable.
+ */
+function methodKind(method: string): VerifyMethod | null {
+  const kind = method.match(/^(\w+):/)?.[1];
+  const known: VerifyMethod[] = ["CLI", "Test", "Static", "Browser", "Grep", "Read", "Custom"];
+  return known.includes(kind as VerifyMethod) ? (kind as VerifyMethod) : null;
+}
+
+/**
+ * Shortens text to at most `max` characters.
+ */
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Export for testing
+export const __testing = {
+  toRegExp,
+  confine,
+  sandboxEnv,
+};
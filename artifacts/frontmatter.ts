@@ -0,0 +1,375 @@
+/**
+ * Artifact Frontmatter - SpecFirst 4.0
+ *
+ * Single place where artifact YAML frontmatter is read, validated and
+ * written. Parsing uses a real YAML parser, so lists, quoted strings and
+ * nested keys work; validation checks the common ArtifactFrontmatter fields
+ * plus the per-phase extensions (`based_on`, `milestone`) and reports
+ * errors with the line of the offending key.
+ *
+ * @module artifacts/frontmatter
+ * @version 4.0.0
+ */
+
+import { YAML } from "bun";
+import type { ArtifactFrontmatter, ValidationError } from "./types";
+
+export type ArtifactPhase = "propose" | "specify" | "plan" | "implement";
+
+/**
+ * Frontmatter block extracted from an artifact.
+ */
+export interface FrontmatterBlock {
+  /** Parsed YAML mapping (empty when the YAML is invalid) */
+  data: Record<string, unknown>;
+  /** 1-based line numbers of top-level keys */
+  keyLines: Record<string, number>;
+  /** 1-based line of the closing `---` */
+  endLine: number;
+  /** 0-based index of the first body line */
+  bodyStart: number;
+  /** True when the YAML failed to parse */
+  invalid: boolean;
+}
+
+/**
+ * Per-phase frontmatter extensions on top of ArtifactFrontmatter.
+ */
+interface PhaseSchema {
+  required: string[];
+  optional: string[];
+  statuses: string[];
+}
+
+const COMMON_REQUIRED = ["feature", "phase", "status", "created"];
+const COMMON_OPTIONAL = ["updated", "version", "author"];
+const DOCUMENT_STATUSES = ["draft", "review", "complete"];
+
+/**
+ * Frontmatter schema per phase. tasks.md (implement) tracks progress, so it
+ * also accepts the ISC progress statuses.
+ */
+const PHASE_SCHEMAS: Record<ArtifactPhase, PhaseSchema> = {
+  propose: { required: [], optional: [], statuses: DOCUMENT_STATUSES },
+  specify: { required: ["based_on"], optional: ["milestone"], statuses: DOCUMENT_STATUSES },
+  plan: { required: ["based_on"], optional: [], statuses: DOCUMENT_STATUSES },
+  implement: {
+    required: ["based_on"],
+    optional: [],
+    statuses: ["pending", "in_progress", ...DOCUMENT_STATUSES],
+  },
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Extracts and parses the frontmatter block at the top of an artifact.
+ *
+ * @param content - Raw markdown
+ * @param errors - Collector for missing, unterminated or invalid frontmatter
+ * @returns The block, or null when the content has no (terminated) frontmatter
+ *
+ * @example
+ * ```typescript
+ * const errors: ValidationError[] = [];
+ * const block = extractFrontmatter("---\nfeature: auth\ntags: [a, b]\n---\n# Auth", errors);
+ * block?.data.tags; // ["a", "b"]
+ * ```
+ */
+export function extractFrontmatter(content: string, errors: ValidationError[]): FrontmatterBlock | null {
+  const lines = content.split("\n");
+
+  if (lines[0]?.trim() !== "---") {
+    errors.push({ field: "frontmatter", message: "Missing YAML frontmatter", line: 1 });
+    return null;
+  }
+
+  const end = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+  if (end === -1) {
+    errors.push({ field: "frontmatter", message: "Unterminated YAML frontmatter", line: 1 });
+    return null;
+  }
+
+  const yamlLines = lines.slice(1, end);
+  const keyLines: Record<string, number> = {};
+  yamlLines.forEach((l, i) => {
+    const match = l.match(/^([\w-]+)\s*:/);
+    if (match && !(match[1] in keyLines)) {
+      keyLines[match[1]] = i + 2;
+    }
+  });
+
+  let data: Record<string, unknown> = {};
+  let invalid = false;
+  try {
+    const parsed = parseYamlLines(yamlLines);
+    if (parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)) {
+      data = parsed as Record<string, unknown>;
+    } else if (parsed !== null && parsed !== undefined) {
+      invalid = true;
+      errors.push({ field: "frontmatter", message: "Frontmatter must be a YAML mapping", line: 2 });
+    }
+  } catch (error) {
+    invalid = true;
+    errors.push({
+      field: "frontmatter",
+      message: `Invalid YAML frontmatter: ${error instanceof Error ? error.message : String(error)}`,
+      line: locateYamlError(yamlLines) + 1,
+    });
+  }
+
+  return { data, keyLines, endLine: end + 1, bodyStart: end + 1, invalid };
+}
+
+/**
+ * Parses frontmatter leniently: returns an empty object when the content has
+ * no frontmatter or the YAML is invalid.
+ *
+ * @param content - Raw markdown
+ * @returns Parsed key/values
+ *
+ * @example
+ * ```typescript
+ * parseFrontmatter("---\nstatus: complete\n---\nBody").status; // "complete"
+ * ```
+ */
+export function parseFrontmatter(content: string): Record<string, unknown> {
+  return extractFrontmatter(content, [])?.data ?? {};
+}
+
+/**
+ * Validates a frontmatter block against ArtifactFrontmatter and the phase
+ * extensions, and returns it with scalar values normalized to strings.
+ *
+ * @param block - Extracted frontmatter
+ * @param phase - Expected phase value
+ * @param errors - Collector for schema errors
+ * @returns Typed frontmatter (may be incomplete when errors were recorded)
+ */
+export function validateFrontmatter(
+  block: FrontmatterBlock,
+  phase: ArtifactPhase,
+  errors: ValidationError[]
+): ArtifactFrontmatter & Record<string, string> {
+  const schema = PHASE_SCHEMAS[phase];
+  const known = [...COMMON_REQUIRED, ...COMMON_OPTIONAL, ...schema.required, ...schema.optional];
+  const result: Record<string, string> = {};
+  const lineOf = (key: string) => block.keyLines[key] ?? 1;
+
+  // The syntax error is already reported; field errors would only be noise
+  if (block.invalid) {
+    return result as ArtifactFrontmatter & Record<string, string>;
+  }
+
+  for (const key of known) {
+    const value = block.data[key];
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    if (typeof value === "object") {
+      errors.push({
+        field: `frontmatter.${key}`,
+        message: `Frontmatter field ${key} must be a single value`,
+        line: lineOf(key),
+      });
+      continue;
+    }
+    result[key] = String(value);
+  }
+
+  for (const key of [...COMMON_REQUIRED, ...schema.required]) {
+    if (!result[key] && !errors.some(e => e.field === `frontmatter.${key}`)) {
+      errors.push({ field: `frontmatter.${key}`, message: `Missing frontmatter field: ${key}`, line: 1 });
+    }
+  }
+
+  if (result.phase && result.phase !== phase) {
+    errors.push({
+      field: "frontmatter.phase",
+      message: `Expected phase "${phase}", found "${result.phase}"`,
+      line: lineOf("phase"),
+    });
+  }
+
+  if (result.status && !schema.statuses.includes(result.status)) {
+    errors.push({
+      field: "frontmatter.status",
+      message: `Invalid status "${result.status}". Must be one of: ${schema.statuses.join(", ")}`,
+      line: lineOf("status"),
+    });
+  }
+
+  for (const key of ["created", "updated"]) {
+    if (result[key] && !ISO_DATE.test(result[key])) {
+      errors.push({
+        field: `frontmatter.${key}`,
+        message: `Invalid ${key} date "${result[key]}". Expected YYYY-MM-DD`,
+        line: lineOf(key),
+      });
+    }
+  }
+
+  // Unknown keys are kept as-is so custom metadata survives parsing
+  for (const [key, value] of Object.entries(block.data)) {
+    if (!known.includes(key) && value !== null && typeof value !== "object") {
+      result[key] = String(value);
+    }
+  }
+
+  return result as ArtifactFrontmatter & Record<string, string>;
+}
+
+/**
+ * Extracts and validates artifact frontmatter in one step.
+ *
+ * @param content - Raw markdown
+ * @param phase - Expected phase value
+ * @returns Line-numbered validation errors (empty when valid)
+ *
+ * @example
+ * ```typescript
+ * for (const e of checkArtifactFrontmatter(specMd, "specify")) {
+ *   console.error(`Line ${e.line}: ${e.message}`);
+ * }
+ * ```
+ */
+export function checkArtifactFrontmatter(content: string, phase: ArtifactPhase): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const block = extractFrontmatter(content, errors);
+  if (block) {
+    validateFrontmatter(block, phase, errors);
+  }
+  return errors;
+}
+
+/**
+ * Renders key/values as a frontmatter block. Values that would not
+ * round-trip as plain YAML scalars (e.g. containing ": ") are quoted.
+ *
+ * @param fields - Ordered key/values; undefined values are skipped
+ * @returns `---`-delimited block without a trailing newline
+ *
+ * @example
+ * ```typescript
+ * formatFrontmatter({ feature: "auth", milestone: "M1: Beta" });
+ * // ---\nfeature: auth\nmilestone: "M1: Beta"\n---
+ * ```
+ */
+export function formatFrontmatter(fields: Record<string, string | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${formatScalar(value as string)}`);
+  return `---\n${lines.join("\n")}\n---`;
+}
+
+/**
+ * Sets top-level frontmatter keys in existing content, leaving every other
+ * line untouched. Existing single-line keys are replaced in place; new keys
+ * are appended before the closing `---`.
+ *
+ * @param content - Raw markdown with frontmatter
+ * @param fields - Key/values to set
+ * @returns Updated content, or the input unchanged when it has no frontmatter
+ *
+ * @example
+ * ```typescript
+ * setFrontmatterFields(planMarkdown, { status: "review", updated: "2026-01-31" });
+ * ```
+ */
+export function setFrontmatterFields(content: string, fields: Record<string, string>): string {
+  const block = extractFrontmatter(content, []);
+  if (!block) {
+    return content;
+  }
+
+  const lines = content.split("\n");
+  const closing = block.endLine - 1;
+  const appended: string[] = [];
+
+  for (const [key, value] of Object.entries(fields)) {
+    const line = `${key}: ${formatScalar(value)}`;
+    const at = block.keyLines[key];
+    if (at !== undefined) {
+      lines[at - 1] = line;
+    } else {
+      appended.push(line);
+    }
+  }
+
+  lines.splice(closing, 0, ...appended);
+  return lines.join("\n");
+}
+
+/**
+ * Formats a frontmatter error for string-based validators.
+ */
+export function formatFrontmatterError(error: ValidationError): string {
+  return error.line ? `Line ${error.line}: ${error.message}` : error.message;
+}
+
+/**
+ * Quotes a string when YAML would not read it back unchanged.
+ */
+function formatScalar(value: string): string {
+  try {
+    if ((YAML.parse(`v: ${value}`) as { v?: unknown } | null)?.v === value) {
+      return value;
+    }
+  } catch {
+    // Fall through to quoting
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Parses frontmatter YAML. Plain values containing ": " (`title: Auth: SSO`)
+ * are invalid YAML but were accepted by the line-based parser before 4.0,
+ * so when parsing fails they are quoted and parsed again.
+ */
+function parseYamlLines(yamlLines: string[]): unknown {
+  try {
+    return YAML.parse(yamlLines.join("\n"));
+  } catch (error) {
+    let quoted = false;
+    const lines = yamlLines.map(line => {
+      const match = line.match(/^([\w-]+):[ \t]+(.*\S)[ \t]*$/);
+      if (!match || /^["'[{|>&*!#]/.test(match[2]) || !/:(\s|$)/.test(match[2])) {
+        return line;
+      }
+      quoted = true;
+      return `${match[1]}: ${JSON.stringify(match[2])}`;
+    });
+    if (!quoted) {
+      throw error;
+    }
+    try {
+      return YAML.parse(lines.join("\n"));
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Finds the 1-based YAML line where parsing breaks: the line after the
+ * longest prefix that still parses. Bun's YAML errors carry no position.
+ */
+function locateYamlError(yamlLines: string[]): number {
+  let lastValid = 0;
+  for (let i = 1; i <= yamlLines.length; i++) {
+    try {
+      YAML.parse(yamlLines.slice(0, i).join("\n"));
+      lastValid = i;
+    } catch {
+      // Keep scanning: multi-line values fail until they are closed
+    }
+  }
+  return Math.min(lastValid + 1, yamlLines.length);
+}
+
+// Export for testing
+export const __testing = {
+  PHASE_SCHEMAS,
+  formatScalar,
+  locateYamlError,
+};
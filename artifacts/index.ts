@@ -32,26 +32,67 @@ export type {
   ValidationWarning,
 } from "./types";
 
+// Parsing
+export { ArtifactParseError } from "./markdown";
+
+// Frontmatter
+export {
+  extractFrontmatter,
+  parseFrontmatter,
+  validateFrontmatter,
+  checkArtifactFrontmatter,
+  formatFrontmatter,
+  setFrontmatterFields,
+} from "./frontmatter";
+export type { ArtifactPhase, FrontmatterBlock } from "./frontmatter";
+
+// Templates
+export {
+  renderTemplate,
+  resolveTemplate,
+  validateTemplate,
+  renderArtifact,
+  TemplateError,
+  ARTIFACT_TEMPLATE_NAMES,
+  BUILTIN_TEMPLATES_DIR,
+} from "./template";
+export type {
+  ArtifactTemplateName,
+  ArtifactTemplateSpec,
+  ResolvedTemplate,
+  TemplateSource,
+  TemplateOptions,
+} from "./template";
+
 // Proposal
 export {
   generateProposal,
   createProposalTemplate,
   validateProposal,
+  parseProposal,
+  proposalTemplate,
 } from "./proposal";
+export type { ProposalView } from "./proposal";
 
 // Spec
 export {
   generateSpec,
   createSpecTemplate,
   validateSpec,
+  parseSpec,
+  specTemplate,
 } from "./spec";
+export type { SpecView } from "./spec";
 
 // Plan
 export {
   generatePlan,
   createPlanTemplate,
   validatePlan,
+  parsePlan,
+  planTemplate,
 } from "./plan";
+export type { PlanView } from "./plan";
 
 // Tasks (ISC format)
 export {
@@ -60,4 +101,7 @@ export {
   validateTasks,
   validateCriterionWordCount,
   parseTasksFile,
+  applyCriterionUpdates,
+  tasksTemplate,
 } from "./tasks";
+export type { CriterionUpdate, TasksUpdateResult, TasksView, CriterionRowView } from "./tasks";
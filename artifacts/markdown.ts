@@ -0,0 +1,301 @@
+/**
+ * Markdown Parsing Helpers - SpecFirst 4.0
+ *
+ * Shared line-oriented helpers used by the artifact parsers to turn
+ * generated markdown back into structured data. Every helper keeps the
+ * 1-based source line number so parse errors can point at the file.
+ *
+ * @module artifacts/markdown
+ * @version 4.0.0
+ */
+
+import type { ArtifactFrontmatter, ValidationError } from "./types";
+import {
+  extractFrontmatter,
+  validateFrontmatter,
+  type ArtifactPhase,
+  type FrontmatterBlock,
+} from "./frontmatter";
+
+/**
+ * A single markdown line with its 1-based line number.
+ */
+export interface MarkdownLine {
+  text: string;
+  line: number;
+}
+
+/**
+ * A heading and the lines below it (up to the next heading of the same level).
+ */
+export interface MarkdownSection {
+  title: string;
+  line: number;
+  lines: MarkdownLine[];
+}
+
+/**
+ * A labeled field such as `**Objective:** text` or `**Context:**` followed
+ * by a block of lines.
+ */
+export interface LabeledField {
+  /** Text on the label line after the label */
+  inline: string;
+  /** Lines following the label line until the next label */
+  lines: MarkdownLine[];
+  line: number;
+}
+
+/**
+ * A parsed table row.
+ */
+export interface TableRow {
+  cells: string[];
+  line: number;
+}
+
+/**
+ * Parsed artifact: frontmatter block plus body lines.
+ */
+export interface ArtifactDocument {
+  /** Null when the frontmatter is missing or unterminated */
+  frontmatter: FrontmatterBlock | null;
+  body: MarkdownLine[];
+}
+
+/**
+ * Error thrown when an artifact cannot be parsed into its typed structure.
+ * Carries every problem found, each with a field name and line number.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parsePlan(content);
+ * } catch (error) {
+ *   if (error instanceof ArtifactParseError) {
+ *     for (const e of error.errors) console.error(`Line ${e.line}: ${e.message}`);
+ *   }
+ * }
+ * ```
+ */
+export class ArtifactParseError extends Error {
+  constructor(
+    public readonly artifact: string,
+    public readonly errors: ValidationError[]
+  ) {
+    super(
+      `Failed to parse ${artifact}:\n` +
+      errors.map(e => `  ${e.line ? `Line ${e.line}: ` : ""}${e.message}`).join("\n")
+    );
+    this.name = "ArtifactParseError";
+  }
+}
+
+/**
+ * Splits artifact content into frontmatter and body lines.
+ * The trailing "Generated by SpecFirst" footer is dropped from the body.
+ *
+ * @param content - Raw markdown
+ * @param errors - Collector for parse errors
+ * @returns ArtifactDocument
+ */
+export function readArtifactDocument(content: string, errors: ValidationError[]): ArtifactDocument {
+  const rawLines = content.split("\n");
+  const frontmatter = extractFrontmatter(content, errors);
+  const bodyStart = frontmatter?.bodyStart ?? 0;
+
+  const body: MarkdownLine[] = rawLines
+    .slice(bodyStart)
+    .map((text, i) => ({ text, line: bodyStart + i + 1 }));
+
+  // Drop generated footer: blank lines, "*Generated by SpecFirst ...*", rule
+  trimTrailing(body);
+  if (body.length > 0 && /^\*Generated by SpecFirst.*\*$/.test(body[body.length - 1].text.trim())) {
+    body.pop();
+    trimTrailing(body);
+  }
+
+  return { frontmatter, body };
+}
+
+/**
+ * Validates the document's frontmatter for the given phase and returns the
+ * typed frontmatter.
+ *
+ * @param doc - Parsed document
+ * @param phase - Expected phase value
+ * @param errors - Collector for parse errors
+ */
+export function readFrontmatter(
+  doc: ArtifactDocument,
+  phase: ArtifactPhase,
+  errors: ValidationError[]
+): ArtifactFrontmatter & Record<string, string> {
+  if (!doc.frontmatter) {
+    return {} as ArtifactFrontmatter & Record<string, string>;
+  }
+  return validateFrontmatter(doc.frontmatter, phase, errors);
+}
+
+/**
+ * Splits lines into sections at headings of the given level.
+ *
+ * @param lines - Lines to split
+ * @param level - Heading level (2 for `##`, 3 for `###`)
+ * @returns Lines before the first heading and the sections
+ */
+export function splitSections(
+  lines: MarkdownLine[],
+  level: 2 | 3
+): { preamble: MarkdownLine[]; sections: MarkdownSection[] } {
+  const marker = "#".repeat(level) + " ";
+  const stopPrefixes = level === 3 ? ["## ", "### "] : ["## "];
+  const preamble: MarkdownLine[] = [];
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection | null = null;
+  let inFence = false;
+
+  for (const l of lines) {
+    // Headings inside fenced code blocks (diagrams, examples) are content
+    if (l.text.trim().startsWith("```")) {
+      inFence = !inFence;
+    }
+    if (!inFence && l.text.startsWith(marker)) {
+      current = { title: l.text.slice(marker.length).trim(), line: l.line, lines: [] };
+      sections.push(current);
+      continue;
+    }
+    if (!inFence && current && stopPrefixes.some(p => l.text.startsWith(p))) {
+      current = null;
+    }
+    if (current) {
+      current.lines.push(l);
+    } else {
+      preamble.push(l);
+    }
+  }
+
+  return { preamble, sections };
+}
+
+/**
+ * Finds a level-2 section by title (exact match or prefix followed by " (").
+ */
+export function findSection(sections: MarkdownSection[], title: string): MarkdownSection | undefined {
+  return sections.find(s => s.title === title || s.title.startsWith(`${title} (`));
+}
+
+/**
+ * Finds a required level-2 section, recording an error when it is missing.
+ */
+export function requireSection(
+  sections: MarkdownSection[],
+  title: string,
+  errors: ValidationError[]
+): MarkdownSection | undefined {
+  const section = findSection(sections, title);
+  if (!section) {
+    errors.push({ field: title, message: `Missing required section: ${title}` });
+  }
+  return section;
+}
+
+/**
+ * Joins lines into trimmed text, dropping surrounding blank lines and
+ * trailing horizontal rules.
+ */
+export function sectionText(lines: MarkdownLine[]): string {
+  const copy = [...lines];
+  trimTrailing(copy);
+  return copy.map(l => l.text).join("\n").trim();
+}
+
+/**
+ * Extracts `- item` bullet entries.
+ */
+export function parseBulletList(lines: MarkdownLine[]): MarkdownLine[] {
+  return lines
+    .filter(l => /^\s*[-*]\s+/.test(l.text))
+    .map(l => ({ text: l.text.replace(/^\s*[-*]\s+/, "").trim(), line: l.line }));
+}
+
+/**
+ * Extracts data rows from the first markdown table in the lines.
+ * The header row and separator row are skipped. Empty cells are preserved.
+ */
+export function parseTableRows(lines: MarkdownLine[]): TableRow[] {
+  const rows: TableRow[] = [];
+  let seenHeader = false;
+
+  for (const l of lines) {
+    const trimmed = l.text.trim();
+    if (!trimmed.startsWith("|") || !trimmed.endsWith("|")) {
+      continue;
+    }
+    if (/^\|[\s\-:|]+\|$/.test(trimmed)) {
+      continue;
+    }
+    if (!seenHeader) {
+      seenHeader = true;
+      continue;
+    }
+    rows.push({
+      cells: trimmed.split("|").slice(1, -1).map(c => c.trim()),
+      line: l.line,
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Collects `**Label:** value` fields and the lines that follow each label.
+ *
+ * @returns Map keyed by label (without asterisks and colon)
+ */
+export function parseLabeledFields(lines: MarkdownLine[]): Map<string, LabeledField> {
+  const fields = new Map<string, LabeledField>();
+  let current: LabeledField | null = null;
+
+  for (const l of lines) {
+    const match = l.text.match(/^\*\*([^*]+?):\*\*\s*(.*)$/);
+    if (match) {
+      current = { inline: match[2].trim(), lines: [], line: l.line };
+      fields.set(match[1].trim(), current);
+      continue;
+    }
+    if (current) {
+      current.lines.push(l);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Returns the text of a labeled field: the inline value, or the block
+ * below the label when the inline value is empty.
+ */
+export function fieldText(field: LabeledField | undefined): string {
+  if (!field) return "";
+  return field.inline || sectionText(field.lines);
+}
+
+/**
+ * Removes trailing blank lines and horizontal rules in place.
+ */
+function trimTrailing(lines: MarkdownLine[]): void {
+  while (lines.length > 0) {
+    const last = lines[lines.length - 1].text.trim();
+    if (last === "" || last === "---") {
+      lines.pop();
+    } else {
+      break;
+    }
+  }
+}
+
+// Export for testing
+export const __testing = {
+  trimTrailing,
+};
@@ -14,145 +14,160 @@ import type {
   ImplementationPhase, 
   TestingStrategy,
   Risk,
-  Dependency 
+  Dependency,
+  ValidationError,
 } from "./types";
+import {
+  ArtifactParseError,
+  readArtifactDocument,
+  readFrontmatter,
+  splitSections,
+  requireSection,
+  findSection,
+  sectionText,
+  parseBulletList,
+  parseTableRows,
+  parseLabeledFields,
+  fieldText,
+  type LabeledField,
+  type MarkdownSection,
+} from "./markdown";
+import { checkArtifactFrontmatter, formatFrontmatter, formatFrontmatterError } from "./frontmatter";
+import { parseTraceList } from "./traceability";
+import { renderArtifact, type ArtifactTemplateSpec, type TemplateOptions } from "./template";
+import { getConfig, type ValidationSettings } from "../lib/config";
+
+const LEVELS = ["low", "medium", "high"] as const;
+const ADR_STATUSES: ADR["status"][] = ["proposed", "accepted", "deprecated", "superseded"];
 
 /**
- * Generates YAML frontmatter for plan artifact.
+ * Frontmatter fields for a new plan artifact.
  */
-function generateFrontmatter(featureName: string): string {
-  const now = new Date().toISOString().split("T")[0];
-  
-  return `---
-feature: ${featureName}
-phase: plan
-status: draft
-created: ${now}
-based_on: spec.md
-version: 1.0.0
----`;
+function frontmatterFields(featureName: string): Record<string, string | undefined> {
+  return {
+    feature: featureName,
+    phase: "plan",
+    status: "draft",
+    created: new Date().toISOString().split("T")[0],
+    based_on: "spec.md",
+    version: "1.0.0",
+  };
 }
 
 /**
- * Generates an ADR section.
+ * Generates YAML frontmatter for plan artifact.
  */
-function generateADR(adr: ADR): string {
-  const alternatives = adr.alternatives
-    .map(a => `- **${a.name}:** ${a.reason}`)
-    .join("\n");
-  
-  const consequences = adr.consequences
-    .map(c => `- ${c}`)
-    .join("\n");
-  
-  return `### ${adr.id}: ${adr.title}
-
-**Status:** ${adr.status}
-**Date:** ${adr.date}
-
-**Context:**
-${adr.context}
-
-**Decision:**
-${adr.decision}
-
-**Rationale:**
-${adr.rationale}
-
-**Alternatives Considered:**
-${alternatives}
-
-**Consequences:**
-${consequences}`;
+function generateFrontmatter(featureName: string): string {
+  return formatFrontmatter(frontmatterFields(featureName));
 }
 
-/**
- * Generates an implementation phase section.
- */
-function generatePhase(phase: ImplementationPhase): string {
-  const deliverables = phase.deliverables
-    .map(d => `- ${d}`)
-    .join("\n");
-  
-  const criteria = phase.acceptanceCriteria
-    .map(c => `- ${c}`)
-    .join("\n");
-  
-  const deps = phase.dependencies.length > 0
-    ? phase.dependencies.map(d => `- ${d}`).join("\n")
-    : "- None";
-  
-  const risks = phase.risks.length > 0
-    ? phase.risks.map(r => `- ${r}`).join("\n")
-    : "- None identified";
-  
-  return `### Phase ${phase.number}: ${phase.name}
-
-**Objective:** ${phase.objective}
-
-**Deliverables:**
-${deliverables}
-
-**Acceptance Criteria:**
-${criteria}
-
-**Dependencies:**
-${deps}
-
-**Risks:**
-${risks}
-
-**Estimated Effort:** ${phase.estimatedEffort}`;
+/** View rendered by the plan template */
+export interface PlanView extends Omit<PlanArtifact, "frontmatter" | "implementationPhases" | "riskMatrix" | "dependencies"> {
+  featureName: string;
+  frontmatter: Record<string, string | undefined>;
+  frontmatterYaml: string;
+  implementationPhases: (ImplementationPhase & { hasTraces: boolean; tracesList: string })[];
+  riskMatrix: (Risk & { probabilityLabel: string; impactLabel: string })[];
+  dependencies: (Dependency & { riskLabel: string })[];
 }
 
 /**
- * Generates testing strategy section.
+ * Builds the template view for a plan.
  */
-function generateTestingStrategy(strategy: TestingStrategy): string {
-  return `### Test Pyramid
-
-| Level | Approach | Coverage Target |
-|-------|----------|-----------------|
-| Unit Tests | ${strategy.unitTests} | ${strategy.coverageTarget} |
-| Integration Tests | ${strategy.integrationTests} | - |
-| E2E Tests | ${strategy.e2eTests} | - |
-| Performance Tests | ${strategy.performanceTests} | - |`;
-}
+function buildPlanView(
+  featureName: string,
+  executiveSummary: string,
+  adrs: ADR[],
+  phases: ImplementationPhase[],
+  testingStrategy: TestingStrategy,
+  risks: Risk[],
+  dependencies: Dependency[],
+  rollbackProcedures: string
+): PlanView {
+  const frontmatter = frontmatterFields(featureName);
 
-/**
- * Generates risk matrix table.
- */
-function generateRiskMatrix(risks: Risk[]): string {
-  if (risks.length === 0) {
-    return "| ID | Risk | Probability | Impact | Mitigation |\n|---|---|---|---|---|\n| - | No risks identified | - | - | - |";
-  }
-  
-  const header = "| ID | Risk | Probability | Impact | Mitigation |\n|---|---|---|---|---|";
-  const rows = risks
-    .map(r => `| ${r.id} | ${r.description} | ${r.probability.toUpperCase()} | ${r.impact.toUpperCase()} | ${r.mitigation} |`)
-    .join("\n");
-  
-  return `${header}\n${rows}`;
+  return {
+    featureName,
+    frontmatter,
+    frontmatterYaml: formatFrontmatter(frontmatter),
+    executiveSummary,
+    adrs,
+    implementationPhases: phases.map(phase => ({
+      ...phase,
+      hasTraces: (phase.traces ?? []).length > 0,
+      tracesList: (phase.traces ?? []).join(", "),
+    })),
+    testingStrategy,
+    riskMatrix: risks.map(r => ({
+      ...r,
+      probabilityLabel: r.probability.toUpperCase(),
+      impactLabel: r.impact.toUpperCase(),
+    })),
+    dependencies: dependencies.map(d => ({ ...d, riskLabel: d.risk.toUpperCase() })),
+    rollbackProcedures,
+  };
 }
 
 /**
- * Generates dependencies section.
+ * Template spec for plan.md: sample data and the validator/parser check
+ * applied to overrides.
  */
-function generateDependencies(deps: Dependency[]): string {
-  if (deps.length === 0) {
-    return "| Dependency | Type | Risk | Mitigation |\n|---|---|---|---|\n| None | - | - | - |";
-  }
-  
-  const header = "| Dependency | Type | Risk | Mitigation |\n|---|---|---|---|";
-  const rows = deps
-    .map(d => `| ${d.name} | ${d.type} | ${d.risk.toUpperCase()} | ${d.mitigation} |`)
-    .join("\n");
-  
-  return `${header}\n${rows}`;
-}
+export const planTemplate: ArtifactTemplateSpec<PlanView> = {
+  name: "plan",
+  sampleView: () => buildPlanView(
+    "sample-feature",
+    "Add self-service password reset using signed email links.",
+    [{
+      id: "ADR-001",
+      title: "Signed tokens",
+      status: "accepted",
+      date: "2025-01-01",
+      context: "Reset links must not be guessable.",
+      decision: "Use HMAC-signed tokens.",
+      rationale: "No extra storage needed.",
+      alternatives: [{ name: "Random tokens", reason: "Require a lookup table" }],
+      consequences: ["Key rotation invalidates links"],
+    }],
+    [1, 2].map(number => ({
+      number,
+      name: number === 1 ? "Tokens" : "Email",
+      objective: number === 1 ? "Issue and verify tokens" : "Send reset emails",
+      deliverables: ["Token service"],
+      acceptanceCriteria: ["Tokens verify"],
+      estimatedEffort: "2 days",
+      dependencies: number === 1 ? [] : ["Phase 1"],
+      risks: number === 1 ? ["Clock skew"] : [],
+      traces: number === 1 ? ["FR-001"] : undefined,
+    })),
+    {
+      unitTests: "Token signing",
+      integrationTests: "Reset flow",
+      e2eTests: "Browser reset",
+      performanceTests: "Mail queue",
+      coverageTarget: "80%",
+    },
+    [{ id: "R-001", description: "Mail provider outage", probability: "low", impact: "high", mitigation: "Retry queue" }],
+    [{ name: "Mail provider", type: "external", risk: "medium", mitigation: "Fallback provider" }],
+    "Disable the reset endpoint behind a flag."
+  ),
+  check: (content, options = {}) => {
+    const errors = validatePlan(content, getConfig(options.projectPath)).errors;
+    try {
+      parsePlan(content);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    return errors;
+  },
+};
 
 /**
  * Generates a complete plan.md artifact.
+ *
+ * Rendered from the plan template (see artifacts/template), which a
+ * project can override in .specfirst/templates/plan.md.
+ *
+ * @param options - Project whose template overrides apply (default: cwd)
  */
 export function generatePlan(
   featureName: string,
@@ -162,68 +177,14 @@ export function generatePlan(
   testingStrategy: TestingStrategy,
   risks: Risk[],
   dependencies: Dependency[],
-  rollbackProcedures: string
+  rollbackProcedures: string,
+  options: TemplateOptions = {}
 ): string {
-  const frontmatter = generateFrontmatter(featureName);
-  const adrSections = adrs.map(generateADR).join("\n\n---\n\n");
-  const phaseSections = phases.map(generatePhase).join("\n\n---\n\n");
-  const testingSection = generateTestingStrategy(testingStrategy);
-  const riskTable = generateRiskMatrix(risks);
-  const depsTable = generateDependencies(dependencies);
-  
-  return `${frontmatter}
-
-# ${featureName} - Implementation Plan
-
-**Version:** 1.0.0
-**Status:** Draft
-
----
-
-## Executive Summary
-
-${executiveSummary}
-
----
-
-## Architecture Decision Records (ADRs)
-
-${adrSections}
-
----
-
-## Implementation Phases
-
-${phaseSections}
-
----
-
-## Testing Strategy
-
-${testingSection}
-
----
-
-## Risk Matrix
-
-${riskTable}
-
----
-
-## Dependencies
-
-${depsTable}
-
----
-
-## Rollback Procedures
-
-${rollbackProcedures}
-
----
-
-*Generated by SpecFirst 3.0*
-`;
+  return renderArtifact(
+    planTemplate,
+    buildPlanView(featureName, executiveSummary, adrs, phases, testingStrategy, risks, dependencies, rollbackProcedures),
+    options
+  );
 }
 
 /**
@@ -336,24 +297,18 @@ export function createPlanTemplate(featureName: string): string {
 
 /**
  * Validates a plan artifact structure.
+ * 
+ * @param content - plan.md content
+ * @param settings - Validation settings (default: getConfig())
  */
-export function validatePlan(content: string): { valid: boolean; errors: string[] } {
+export function validatePlan(content: string, settings: ValidationSettings = getConfig()): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   
-  // Check for frontmatter
-  if (!content.startsWith("---")) {
-    errors.push("Missing YAML frontmatter");
-  }
-  
-  // Check for required sections
-  const requiredSections = [
-    "Executive Summary",
-    "Implementation Phases",
-    "Testing Strategy",
-    "Risk Matrix",
-  ];
+  // Check frontmatter against the plan schema
+  errors.push(...checkArtifactFrontmatter(content, "plan").map(formatFrontmatterError));
   
-  for (const section of requiredSections) {
+  // Check for required sections (configurable per project)
+  for (const section of settings.requiredSections.plan) {
     if (!content.includes(`## ${section}`)) {
       errors.push(`Missing required section: ${section}`);
     }
@@ -370,11 +325,229 @@ export function validatePlan(content: string): { valid: boolean; errors: string[
   };
 }
 
+/**
+ * Returns bullet items of a labeled field, dropping the generator's
+ * "None" placeholders.
+ */
+function fieldList(field: LabeledField | undefined, placeholder?: string): string[] {
+  const items = parseBulletList(field?.lines ?? []).map(l => l.text);
+  return placeholder && items.length === 1 && items[0] === placeholder ? [] : items;
+}
+
+/**
+ * Parses a LOW/MEDIUM/HIGH cell, recording an error for anything else.
+ */
+function parseLevel(
+  value: string,
+  field: string,
+  line: number,
+  errors: ValidationError[]
+): "low" | "medium" | "high" {
+  const normalized = value.toLowerCase();
+  if (!(LEVELS as readonly string[]).includes(normalized)) {
+    errors.push({
+      field,
+      message: `Invalid level "${value}". Must be one of: LOW, MEDIUM, HIGH`,
+      line,
+    });
+    return "low";
+  }
+  return normalized as "low" | "medium" | "high";
+}
+
+/**
+ * Parses one `### ADR-XXX: title` section.
+ */
+function parseADRSection(section: MarkdownSection, errors: ValidationError[]): ADR | null {
+  const match = section.title.match(/^(ADR-\d+):\s*(.+)$/);
+  if (!match) {
+    errors.push({
+      field: "adrs",
+      message: `ADR heading must be "ADR-XXX: title", found "${section.title}"`,
+      line: section.line,
+    });
+    return null;
+  }
+
+  const fields = parseLabeledFields(section.lines);
+  const status = fieldText(fields.get("Status")).toLowerCase() as ADR["status"];
+  if (!ADR_STATUSES.includes(status)) {
+    errors.push({
+      field: `adrs.${match[1]}.status`,
+      message: `Invalid ADR status "${fieldText(fields.get("Status"))}". Must be one of: ${ADR_STATUSES.join(", ")}`,
+      line: fields.get("Status")?.line ?? section.line,
+    });
+  }
+
+  const alternatives = parseBulletList(fields.get("Alternatives Considered")?.lines ?? [])
+    .map(l => {
+      const alt = l.text.match(/^\*\*(.+?):\*\*\s*(.*)$/);
+      return alt ? { name: alt[1].trim(), reason: alt[2].trim() } : { name: l.text, reason: "" };
+    });
+
+  return {
+    id: match[1],
+    title: match[2].trim(),
+    status,
+    date: fieldText(fields.get("Date")),
+    context: fieldText(fields.get("Context")),
+    decision: fieldText(fields.get("Decision")),
+    rationale: fieldText(fields.get("Rationale")),
+    alternatives,
+    consequences: fieldList(fields.get("Consequences")),
+  };
+}
+
+/**
+ * Parses one `### Phase N: name` section.
+ */
+function parsePhaseSection(section: MarkdownSection, errors: ValidationError[]): ImplementationPhase | null {
+  const match = section.title.match(/^Phase (\d+):\s*(.+)$/);
+  if (!match) {
+    errors.push({
+      field: "implementationPhases",
+      message: `Phase heading must be "Phase N: name", found "${section.title}"`,
+      line: section.line,
+    });
+    return null;
+  }
+
+  const fields = parseLabeledFields(section.lines);
+  if (!fields.has("Objective")) {
+    errors.push({
+      field: `implementationPhases.${match[1]}.objective`,
+      message: `Phase ${match[1]} is missing **Objective:**`,
+      line: section.line,
+    });
+  }
+
+  const phase: ImplementationPhase = {
+    number: parseInt(match[1], 10),
+    name: match[2].trim(),
+    objective: fieldText(fields.get("Objective")),
+    deliverables: fieldList(fields.get("Deliverables")),
+    acceptanceCriteria: fieldList(fields.get("Acceptance Criteria")),
+    estimatedEffort: fieldText(fields.get("Estimated Effort")),
+    dependencies: fieldList(fields.get("Dependencies"), "None"),
+    risks: fieldList(fields.get("Risks"), "None identified"),
+  };
+  
+  const traces = parseTraceList(fieldText(fields.get("Traces")));
+  if (traces.length > 0) {
+    phase.traces = traces;
+  }
+  
+  return phase;
+}
+
+/**
+ * Parses plan.md content back into a PlanArtifact.
+ *
+ * Round-trips the markdown produced by generatePlan().
+ *
+ * @param content - plan.md content
+ * @returns Structured plan
+ * @throws ArtifactParseError with line-numbered errors
+ *
+ * @example
+ * ```typescript
+ * const plan = parsePlan(await readFile(planPath, "utf-8"));
+ * for (const phase of plan.implementationPhases) {
+ *   console.log(`Phase ${phase.number}: ${phase.name}`);
+ * }
+ * ```
+ */
+export function parsePlan(content: string): PlanArtifact {
+  const errors: ValidationError[] = [];
+  const doc = readArtifactDocument(content, errors);
+  const frontmatter = readFrontmatter(doc, "plan", errors);
+  const { sections } = splitSections(doc.body, 2);
+
+  const summarySection = requireSection(sections, "Executive Summary", errors);
+  const phasesSection = requireSection(sections, "Implementation Phases", errors);
+  const testingSection = requireSection(sections, "Testing Strategy", errors);
+  const riskSection = requireSection(sections, "Risk Matrix", errors);
+  const adrSection = findSection(sections, "Architecture Decision Records");
+  const depsSection = findSection(sections, "Dependencies");
+  const rollbackSection = findSection(sections, "Rollback Procedures");
+
+  const adrs = splitSections(adrSection?.lines ?? [], 3).sections
+    .map(s => parseADRSection(s, errors))
+    .filter((a): a is ADR => a !== null);
+
+  const phaseSections = splitSections(phasesSection?.lines ?? [], 3).sections;
+  if (phasesSection && phaseSections.length === 0) {
+    errors.push({
+      field: "implementationPhases",
+      message: "Missing implementation phases (need at least one ### Phase section)",
+      line: phasesSection.line,
+    });
+  }
+  const implementationPhases = phaseSections
+    .map(s => parsePhaseSection(s, errors))
+    .filter((p): p is ImplementationPhase => p !== null);
+
+  const testingRows = new Map(
+    parseTableRows(testingSection?.lines ?? []).map(r => [r.cells[0], r.cells])
+  );
+  const testingStrategy: TestingStrategy = {
+    unitTests: testingRows.get("Unit Tests")?.[1] ?? "",
+    integrationTests: testingRows.get("Integration Tests")?.[1] ?? "",
+    e2eTests: testingRows.get("E2E Tests")?.[1] ?? "",
+    performanceTests: testingRows.get("Performance Tests")?.[1] ?? "",
+    coverageTarget: testingRows.get("Unit Tests")?.[2] ?? "",
+  };
+
+  const riskMatrix: Risk[] = parseTableRows(riskSection?.lines ?? [])
+    .filter(r => r.cells[0] !== "-")
+    .map(r => {
+      const [id, description = "", probability = "", impact = "", mitigation = ""] = r.cells;
+      return {
+        id,
+        description,
+        probability: parseLevel(probability, `riskMatrix.${id}.probability`, r.line, errors),
+        impact: parseLevel(impact, `riskMatrix.${id}.impact`, r.line, errors),
+        mitigation,
+      };
+    });
+
+  const dependencies: Dependency[] = parseTableRows(depsSection?.lines ?? [])
+    .filter(r => !(r.cells[0] === "None" && r.cells[1] === "-"))
+    .map(r => {
+      const [name, type = "", risk = "", mitigation = ""] = r.cells;
+      if (type !== "internal" && type !== "external") {
+        errors.push({
+          field: `dependencies.${name}.type`,
+          message: `Invalid dependency type "${type}". Must be one of: internal, external`,
+          line: r.line,
+        });
+      }
+      return {
+        name,
+        type: type as Dependency["type"],
+        risk: parseLevel(risk, `dependencies.${name}.risk`, r.line, errors),
+        mitigation,
+      };
+    });
+
+  if (errors.length > 0) {
+    throw new ArtifactParseError("plan.md", errors);
+  }
+
+  return {
+    frontmatter: frontmatter as unknown as PlanArtifact["frontmatter"],
+    executiveSummary: sectionText(summarySection!.lines),
+    adrs,
+    implementationPhases,
+    testingStrategy,
+    riskMatrix,
+    rollbackProcedures: rollbackSection ? sectionText(rollbackSection.lines) : "",
+    dependencies,
+  };
+}
+
 // Export for testing
 export const __testing = {
   generateFrontmatter,
-  generateADR,
-  generatePhase,
-  generateTestingStrategy,
-  generateRiskMatrix,
+  buildPlanView,
 };
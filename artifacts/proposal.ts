@@ -7,45 +7,116 @@
  * @version 3.0.0
  */
 
-import type { ProposalArtifact, SolutionApproach } from "./types";
+import type { ProposalArtifact, SolutionApproach, ValidationError } from "./types";
+import {
+  ArtifactParseError,
+  readArtifactDocument,
+  readFrontmatter,
+  splitSections,
+  findSection,
+  requireSection,
+  sectionText,
+  parseBulletList,
+  parseLabeledFields,
+} from "./markdown";
+import { checkArtifactFrontmatter, formatFrontmatter, formatFrontmatterError } from "./frontmatter";
+import { renderArtifact, type ArtifactTemplateSpec, type TemplateOptions } from "./template";
+import { getConfig, type ValidationSettings } from "../lib/config";
 
 /**
- * Generates YAML frontmatter for proposal artifact.
+ * Frontmatter fields for a new proposal artifact.
  */
-function generateFrontmatter(featureName: string): string {
-  const now = new Date().toISOString().split("T")[0];
-  
-  return `---
-feature: ${featureName}
-phase: propose
-status: draft
-created: ${now}
-version: 1.0.0
----`;
+function frontmatterFields(featureName: string): Record<string, string | undefined> {
+  return {
+    feature: featureName,
+    phase: "propose",
+    status: "draft",
+    created: new Date().toISOString().split("T")[0],
+    version: "1.0.0",
+  };
 }
 
 /**
- * Generates a solution approach section.
+ * Generates YAML frontmatter for proposal artifact.
  */
-function generateApproachSection(approach: SolutionApproach, index: number): string {
-  const letter = String.fromCharCode(65 + index); // A, B, C...
-  
-  const pros = approach.pros.map(p => `- ${p}`).join("\n");
-  const cons = approach.cons.map(c => `- ${c}`).join("\n");
-  
-  return `### Option ${letter}: ${approach.name}
+function generateFrontmatter(featureName: string): string {
+  return formatFrontmatter(frontmatterFields(featureName));
+}
 
-${approach.description}
+/** View rendered by the proposal template */
+export interface ProposalView extends Omit<ProposalArtifact, "frontmatter" | "solutionApproaches" | "openQuestions"> {
+  featureName: string;
+  frontmatter: Record<string, string | undefined>;
+  frontmatterYaml: string;
+  solutionApproaches: (SolutionApproach & { letter: string })[];
+  openQuestions: string[];
+  hasOpenQuestions: boolean;
+}
 
-**Pros:**
-${pros}
+/**
+ * Builds the template view for a proposal.
+ */
+function buildProposalView(
+  featureName: string,
+  problemStatement: string,
+  approaches: SolutionApproach[],
+  recommendedApproach: string,
+  antiPatterns: string[],
+  openQuestions: string[]
+): ProposalView {
+  const frontmatter = frontmatterFields(featureName);
 
-**Cons:**
-${cons}`;
+  return {
+    featureName,
+    frontmatter,
+    frontmatterYaml: formatFrontmatter(frontmatter),
+    problemStatement,
+    solutionApproaches: approaches.map((approach, i) => ({
+      ...approach,
+      letter: String.fromCharCode(65 + i), // A, B, C...
+    })),
+    recommendedApproach,
+    antiPatterns,
+    openQuestions,
+    hasOpenQuestions: openQuestions.length > 0,
+  };
 }
 
+/**
+ * Template spec for proposal.md: sample data and the validator/parser
+ * check applied to overrides.
+ */
+export const proposalTemplate: ArtifactTemplateSpec<ProposalView> = {
+  name: "proposal",
+  sampleView: () => buildProposalView(
+    "sample-feature",
+    "Users cannot recover their accounts without contacting support.",
+    [
+      { name: "Email link", description: "Send a signed reset link.", pros: ["Familiar"], cons: ["Email delays"] },
+      { name: "SMS code", description: "Send a one-time code.", pros: ["Fast"], cons: ["Carrier costs"] },
+    ],
+    "Option A, because every account has a verified email.",
+    ["Storing reset tokens in plain text"],
+    ["Should links expire after one hour?"]
+  ),
+  check: (content, options = {}) => {
+    const errors = validateProposal(content, getConfig(options.projectPath)).errors;
+    try {
+      parseProposal(content);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    return errors;
+  },
+};
+
 /**
  * Generates a complete proposal.md artifact.
+ *
+ * Rendered from the proposal template (see artifacts/template), which a
+ * project can override in .specfirst/templates/proposal.md.
+ *
+ * @param options - Project whose template overrides apply (default: cwd)
  */
 export function generateProposal(
   featureName: string,
@@ -53,50 +124,14 @@ export function generateProposal(
   approaches: SolutionApproach[],
   recommendedApproach: string,
   antiPatterns: string[] = [],
-  openQuestions: string[] = []
+  openQuestions: string[] = [],
+  options: TemplateOptions = {}
 ): string {
-  const frontmatter = generateFrontmatter(featureName);
-  
-  const approachSections = approaches
-    .map((a, i) => generateApproachSection(a, i))
-    .join("\n\n");
-  
-  const antiPatternsList = antiPatterns.length > 0
-    ? antiPatterns.map(ap => `- ${ap}`).join("\n")
-    : "- None identified yet";
-  
-  const openQuestionsList = openQuestions.length > 0
-    ? openQuestions.map(q => `- ${q}`).join("\n")
-    : "";
-  
-  const openQuestionsSection = openQuestionsList
-    ? `\n\n## Open Questions\n\n${openQuestionsList}`
-    : "";
-  
-  return `${frontmatter}
-
-# ${featureName} - Proposal
-
-## Problem Statement
-
-${problemStatement}
-
-## Solution Approaches
-
-${approachSections}
-
-## Recommended Approach
-
-${recommendedApproach}
-
-## Anti-Patterns to Avoid
-
-${antiPatternsList}${openQuestionsSection}
-
----
-
-*Generated by SpecFirst 3.0*
-`;
+  return renderArtifact(
+    proposalTemplate,
+    buildProposalView(featureName, problemStatement, approaches, recommendedApproach, antiPatterns, openQuestions),
+    options
+  );
 }
 
 /**
@@ -161,23 +196,18 @@ export function createProposalTemplate(featureName: string): string {
 
 /**
  * Validates a proposal artifact structure.
+ * 
+ * @param content - proposal.md content
+ * @param settings - Validation settings (default: getConfig())
  */
-export function validateProposal(content: string): { valid: boolean; errors: string[] } {
+export function validateProposal(content: string, settings: ValidationSettings = getConfig()): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   
-  // Check for frontmatter
-  if (!content.startsWith("---")) {
-    errors.push("Missing YAML frontmatter");
-  }
+  // Check frontmatter against the propose schema
+  errors.push(...checkArtifactFrontmatter(content, "propose").map(formatFrontmatterError));
   
-  // Check for required sections
-  const requiredSections = [
-    "Problem Statement",
-    "Solution Approaches", 
-    "Recommended Approach",
-  ];
-  
-  for (const section of requiredSections) {
+  // Check for required sections (configurable per project)
+  for (const section of settings.requiredSections.proposal) {
     if (!content.includes(`## ${section}`)) {
       errors.push(`Missing required section: ${section}`);
     }
@@ -194,8 +224,84 @@ export function validateProposal(content: string): { valid: boolean; errors: str
   };
 }
 
+/**
+ * Parses proposal.md content back into a ProposalArtifact.
+ *
+ * Round-trips the markdown produced by generateProposal().
+ *
+ * @param content - proposal.md content
+ * @returns Structured proposal
+ * @throws ArtifactParseError with line-numbered errors
+ *
+ * @example
+ * ```typescript
+ * const proposal = parseProposal(await readFile(proposalPath, "utf-8"));
+ * console.log(proposal.recommendedApproach);
+ * ```
+ */
+export function parseProposal(content: string): ProposalArtifact {
+  const errors: ValidationError[] = [];
+  const doc = readArtifactDocument(content, errors);
+  const frontmatter = readFrontmatter(doc, "propose", errors);
+  const { sections } = splitSections(doc.body, 2);
+
+  const problemSection = requireSection(sections, "Problem Statement", errors);
+  const approachesSection = requireSection(sections, "Solution Approaches", errors);
+  const recommendedSection = requireSection(sections, "Recommended Approach", errors);
+  const antiPatternsSection = findSection(sections, "Anti-Patterns to Avoid");
+  const openQuestionsSection = findSection(sections, "Open Questions");
+
+  const solutionApproaches: SolutionApproach[] = [];
+  if (approachesSection) {
+    const options = splitSections(approachesSection.lines, 3).sections;
+    for (const option of options) {
+      const match = option.title.match(/^Option [A-Z]+:\s*(.+)$/);
+      if (!match) {
+        errors.push({
+          field: "solutionApproaches",
+          message: `Approach heading must be "Option X: name", found "${option.title}"`,
+          line: option.line,
+        });
+        continue;
+      }
+      const fields = parseLabeledFields(option.lines);
+      const firstLabel = Math.min(...[...fields.values()].map(f => f.line), Infinity);
+      solutionApproaches.push({
+        name: match[1].trim(),
+        description: sectionText(option.lines.filter(l => l.line < firstLabel)),
+        pros: parseBulletList(fields.get("Pros")?.lines ?? []).map(l => l.text),
+        cons: parseBulletList(fields.get("Cons")?.lines ?? []).map(l => l.text),
+      });
+    }
+    if (options.length === 0) {
+      errors.push({
+        field: "solutionApproaches",
+        message: "Missing solution approaches (need at least one ### Option section)",
+        line: approachesSection.line,
+      });
+    }
+  }
+
+  const antiPatterns = parseBulletList(antiPatternsSection?.lines ?? [])
+    .map(l => l.text)
+    .filter(t => t !== "None identified yet");
+
+  if (errors.length > 0) {
+    throw new ArtifactParseError("proposal.md", errors);
+  }
+
+  return {
+    frontmatter: frontmatter as ProposalArtifact["frontmatter"],
+    problemStatement: sectionText(problemSection!.lines),
+    solutionApproaches,
+    recommendedApproach: sectionText(recommendedSection!.lines),
+    antiPatterns,
+    openQuestions: parseBulletList(openQuestionsSection?.lines ?? []).map(l => l.text),
+  };
+}
+
 // Export for testing
 export const __testing = {
   generateFrontmatter,
-  generateApproachSection,
+  buildProposalView,
 };
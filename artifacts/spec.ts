@@ -13,88 +13,123 @@ import type {
   FunctionalRequirement, 
   NonFunctionalRequirement,
   UserStory,
-  SuccessCriterion 
+  SuccessCriterion,
+  ValidationError,
 } from "./types";
+import {
+  ArtifactParseError,
+  readArtifactDocument,
+  readFrontmatter,
+  splitSections,
+  findSection,
+  requireSection,
+  sectionText,
+  parseTableRows,
+  parseLabeledFields,
+  fieldText,
+  type TableRow,
+} from "./markdown";
+import { checkArtifactFrontmatter, formatFrontmatter, formatFrontmatterError } from "./frontmatter";
+import { renderArtifact, type ArtifactTemplateSpec, type TemplateOptions } from "./template";
+import { getConfig, type ValidationSettings } from "../lib/config";
+
+const FR_PRIORITIES: FunctionalRequirement["priority"][] = ["must", "should", "could", "wont"];
 
 /**
- * Generates YAML frontmatter for spec artifact.
+ * Frontmatter fields for a new spec artifact.
  */
-function generateFrontmatter(featureName: string, milestone?: string): string {
-  const now = new Date().toISOString().split("T")[0];
-  
-  const milestoneField = milestone ? `\nmilestone: ${milestone}` : "";
-  
-  return `---
-feature: ${featureName}
-phase: specify
-status: draft
-created: ${now}
-based_on: proposal.md
-version: 1.0.0${milestoneField}
----`;
+function frontmatterFields(featureName: string, milestone?: string): Record<string, string | undefined> {
+  return {
+    feature: featureName,
+    phase: "specify",
+    status: "draft",
+    created: new Date().toISOString().split("T")[0],
+    based_on: "proposal.md",
+    version: "1.0.0",
+    milestone,
+  };
 }
 
 /**
- * Generates functional requirements table.
+ * Generates YAML frontmatter for spec artifact.
  */
-function generateFRTable(requirements: FunctionalRequirement[]): string {
-  if (requirements.length === 0) {
-    return "| ID | Requirement | Priority | Verification |\n|---|---|---|---|\n| - | No requirements defined | - | - |";
-  }
-  
-  const header = "| ID | Requirement | Priority | Verification |\n|---|---|---|---|";
-  const rows = requirements
-    .map(r => `| ${r.id} | ${r.description} | ${r.priority.toUpperCase()} | ${r.verificationMethod} |`)
-    .join("\n");
-  
-  return `${header}\n${rows}`;
+function generateFrontmatter(featureName: string, milestone?: string): string {
+  return formatFrontmatter(frontmatterFields(featureName, milestone));
 }
 
-/**
- * Generates non-functional requirements table.
- */
-function generateNFRTable(requirements: NonFunctionalRequirement[]): string {
-  if (requirements.length === 0) {
-    return "| ID | Requirement | Metric | Target |\n|---|---|---|---|\n| - | No NFRs defined | - | - |";
-  }
-  
-  const header = "| ID | Requirement | Metric | Target |\n|---|---|---|---|";
-  const rows = requirements
-    .map(r => `| ${r.id} | ${r.description} | ${r.metric} | ${r.target} |`)
-    .join("\n");
-  
-  return `${header}\n${rows}`;
+/** View rendered by the spec template */
+export interface SpecView extends Omit<SpecArtifact, "frontmatter" | "functionalRequirements"> {
+  featureName: string;
+  frontmatter: Record<string, string | undefined>;
+  frontmatterYaml: string;
+  functionalRequirements: (FunctionalRequirement & { priorityLabel: string })[];
 }
 
 /**
- * Generates user story section.
+ * Builds the template view for a spec.
  */
-function generateUserStory(story: UserStory): string {
-  return `### ${story.id}: ${story.title}
+function buildSpecView(
+  featureName: string,
+  frs: FunctionalRequirement[],
+  nfrs: NonFunctionalRequirement[],
+  userStories: UserStory[],
+  successCriteria: SuccessCriterion[],
+  architectureDiagram?: string,
+  milestone?: string
+): SpecView {
+  const frontmatter = frontmatterFields(featureName, milestone);
 
-**Given:** ${story.given}
-**When:** ${story.when}
-**Then:** ${story.then}`;
+  return {
+    featureName,
+    frontmatter,
+    frontmatterYaml: formatFrontmatter(frontmatter),
+    functionalRequirements: frs.map(r => ({ ...r, priorityLabel: r.priority.toUpperCase() })),
+    nonFunctionalRequirements: nfrs,
+    userStories,
+    successCriteria,
+    architectureDiagram,
+  };
 }
 
 /**
- * Generates success criteria table.
+ * Template spec for spec.md: sample data and the validator/parser check
+ * applied to overrides.
  */
-function generateSCTable(criteria: SuccessCriterion[]): string {
-  if (criteria.length === 0) {
-    return "| ID | Criterion | Verification |\n|---|---|---|\n| - | No criteria defined | - |";
-  }
-  
-  const header = "| ID | Criterion | Verification |\n|---|---|---|";
-  const rows = criteria
-    .map(c => `| ${c.id} | ${c.description} | ${c.verificationMethod} |`)
-    .join("\n");
-  
-  return `${header}\n${rows}`;
-}
+export const specTemplate: ArtifactTemplateSpec<SpecView> = {
+  name: "spec",
+  sampleView: () => buildSpecView(
+    "sample-feature",
+    [
+      { id: "FR-001", description: "Users can request a reset link", priority: "must", verificationMethod: "Integration test" },
+      { id: "FR-002", description: "Reset links expire", priority: "should", verificationMethod: "Unit test" },
+    ],
+    [{ id: "NFR-001", description: "Reset email is sent quickly", metric: "p95 latency", target: "< 5s" }],
+    [
+      { id: "US-001", title: "Reset password", given: "a registered user", when: "they request a reset", then: "they receive a link" },
+      { id: "US-002", title: "Expired link", given: "a link older than an hour", when: "it is opened", then: "it is rejected" },
+    ],
+    [{ id: "SC-001", description: "Support tickets for lockouts drop", verificationMethod: "Dashboard" }],
+    "Client -> API -> Mailer",
+    "M1: Beta"
+  ),
+  check: (content, options = {}) => {
+    const errors = validateSpec(content, getConfig(options.projectPath)).errors;
+    try {
+      parseSpec(content);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    return errors;
+  },
+};
 
 /**
  * Generates a complete spec.md artifact.
+ *
+ * Rendered from the spec template (see artifacts/template), which a
+ * project can override in .specfirst/templates/spec.md.
+ *
+ * @param options - Project whose template overrides apply (default: cwd)
  */
 export function generateSpec(
   featureName: string,
@@ -103,47 +138,14 @@ export function generateSpec(
   userStories: UserStory[],
   successCriteria: SuccessCriterion[],
   architectureDiagram?: string,
-  milestone?: string
+  milestone?: string,
+  options: TemplateOptions = {}
 ): string {
-  const frontmatter = generateFrontmatter(featureName, milestone);
-  const frTable = generateFRTable(frs);
-  const nfrTable = generateNFRTable(nfrs);
-  const stories = userStories.map(generateUserStory).join("\n\n");
-  const scTable = generateSCTable(successCriteria);
-  
-  const archSection = architectureDiagram
-    ? `\n\n## Architecture\n\n${architectureDiagram}`
-    : "";
-  
-  return `${frontmatter}
-
-# ${featureName} - Specification
-
-**Version:** 1.0.0
-**Status:** Draft
-
----
-
-## Functional Requirements
-
-${frTable}
-
-## Non-Functional Requirements
-
-${nfrTable}
-
-## User Stories
-
-${stories}
-
-## Success Criteria
-
-${scTable}${archSection}
-
----
-
-*Generated by SpecFirst 3.0*
-`;
+  return renderArtifact(
+    specTemplate,
+    buildSpecView(featureName, frs, nfrs, userStories, successCriteria, architectureDiagram, milestone),
+    options
+  );
 }
 
 /**
@@ -213,24 +215,18 @@ export function createSpecTemplate(featureName: string): string {
 
 /**
  * Validates a spec artifact structure.
+ * 
+ * @param content - spec.md content
+ * @param settings - Validation settings (default: getConfig())
  */
-export function validateSpec(content: string): { valid: boolean; errors: string[] } {
+export function validateSpec(content: string, settings: ValidationSettings = getConfig()): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   
-  // Check for frontmatter
-  if (!content.startsWith("---")) {
-    errors.push("Missing YAML frontmatter");
-  }
+  // Check frontmatter against the specify schema
+  errors.push(...checkArtifactFrontmatter(content, "specify").map(formatFrontmatterError));
   
-  // Check for required sections
-  const requiredSections = [
-    "Functional Requirements",
-    "Non-Functional Requirements",
-    "User Stories",
-    "Success Criteria",
-  ];
-  
-  for (const section of requiredSections) {
+  // Check for required sections (configurable per project)
+  for (const section of settings.requiredSections.spec) {
     if (!content.includes(`## ${section}`)) {
       errors.push(`Missing required section: ${section}`);
     }
@@ -252,11 +248,115 @@ export function validateSpec(content: string): { valid: boolean; errors: string[
   };
 }
 
+/**
+ * Returns table rows that are not the "no entries" placeholder row.
+ */
+function dataRows(rows: TableRow[]): TableRow[] {
+  return rows.filter(r => r.cells[0] !== "-");
+}
+
+/**
+ * Parses spec.md content back into a SpecArtifact.
+ *
+ * Round-trips the markdown produced by generateSpec().
+ *
+ * @param content - spec.md content
+ * @returns Structured spec
+ * @throws ArtifactParseError with line-numbered errors
+ *
+ * @example
+ * ```typescript
+ * const spec = parseSpec(await readFile(specPath, "utf-8"));
+ * const mustHaves = spec.functionalRequirements.filter(fr => fr.priority === "must");
+ * ```
+ */
+export function parseSpec(content: string): SpecArtifact {
+  const errors: ValidationError[] = [];
+  const doc = readArtifactDocument(content, errors);
+  const frontmatter = readFrontmatter(doc, "specify", errors);
+  const { sections } = splitSections(doc.body, 2);
+
+  const frSection = requireSection(sections, "Functional Requirements", errors);
+  const nfrSection = requireSection(sections, "Non-Functional Requirements", errors);
+  const storiesSection = requireSection(sections, "User Stories", errors);
+  const scSection = requireSection(sections, "Success Criteria", errors);
+  const archSection = findSection(sections, "Architecture");
+
+  const functionalRequirements: FunctionalRequirement[] = [];
+  for (const row of dataRows(parseTableRows(frSection?.lines ?? []))) {
+    const [id, description = "", priority = "", verificationMethod = ""] = row.cells;
+    const normalized = priority.toLowerCase() as FunctionalRequirement["priority"];
+    if (!FR_PRIORITIES.includes(normalized)) {
+      errors.push({
+        field: `functionalRequirements.${id}.priority`,
+        message: `Invalid priority "${priority}" for ${id}. Must be one of: ${FR_PRIORITIES.join(", ").toUpperCase()}`,
+        line: row.line,
+      });
+      continue;
+    }
+    functionalRequirements.push({ id, description, priority: normalized, verificationMethod });
+  }
+
+  const nonFunctionalRequirements: NonFunctionalRequirement[] = dataRows(parseTableRows(nfrSection?.lines ?? []))
+    .map(row => {
+      const [id, description = "", metric = "", target = ""] = row.cells;
+      return { id, description, metric, target };
+    });
+
+  const userStories: UserStory[] = [];
+  for (const story of splitSections(storiesSection?.lines ?? [], 3).sections) {
+    const match = story.title.match(/^(US-\d+):\s*(.+)$/);
+    if (!match) {
+      errors.push({
+        field: "userStories",
+        message: `User story heading must be "US-XXX: title", found "${story.title}"`,
+        line: story.line,
+      });
+      continue;
+    }
+    const fields = parseLabeledFields(story.lines);
+    for (const label of ["Given", "When", "Then"]) {
+      if (!fields.has(label)) {
+        errors.push({
+          field: `userStories.${match[1]}.${label.toLowerCase()}`,
+          message: `User story ${match[1]} is missing **${label}:**`,
+          line: story.line,
+        });
+      }
+    }
+    userStories.push({
+      id: match[1],
+      title: match[2].trim(),
+      given: fieldText(fields.get("Given")),
+      when: fieldText(fields.get("When")),
+      then: fieldText(fields.get("Then")),
+    });
+  }
+
+  const successCriteria: SuccessCriterion[] = dataRows(parseTableRows(scSection?.lines ?? []))
+    .map(row => {
+      const [id, description = "", verificationMethod = ""] = row.cells;
+      return { id, description, verificationMethod };
+    });
+
+  if (errors.length > 0) {
+    throw new ArtifactParseError("spec.md", errors);
+  }
+
+  const architectureDiagram = archSection ? sectionText(archSection.lines) : "";
+
+  return {
+    frontmatter: frontmatter as unknown as SpecArtifact["frontmatter"],
+    functionalRequirements,
+    nonFunctionalRequirements,
+    userStories,
+    successCriteria,
+    ...(architectureDiagram ? { architectureDiagram } : {}),
+  };
+}
+
 // Export for testing
 export const __testing = {
   generateFrontmatter,
-  generateFRTable,
-  generateNFRTable,
-  generateUserStory,
-  generateSCTable,
+  buildSpecView,
 };
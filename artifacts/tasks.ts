@@ -11,197 +11,238 @@
  */
 
 import type { TasksArtifact, ISCCriterion, AntiCriterion } from "./types";
+import { parseTraceList } from "./traceability";
+import { checkArtifactFrontmatter, formatFrontmatter, formatFrontmatterError } from "./frontmatter";
+import { renderArtifact, type ArtifactTemplateSpec, type TemplateOptions } from "./template";
+import { getConfig, type ValidationSettings } from "../lib/config";
+
+/**
+ * Frontmatter fields for a new tasks artifact.
+ */
+function frontmatterFields(featureName: string): Record<string, string | undefined> {
+  return {
+    feature: featureName,
+    phase: "implement",
+    status: "pending",
+    created: new Date().toISOString().split("T")[0],
+    based_on: "plan.md",
+  };
+}
 
 /**
  * Generates YAML frontmatter for tasks artifact.
  */
 function generateFrontmatter(featureName: string): string {
-  const now = new Date().toISOString().split("T")[0];
-  
-  return `---
-feature: ${featureName}
-phase: implement
-status: pending
-created: ${now}
-based_on: plan.md
----`;
+  return formatFrontmatter(frontmatterFields(featureName));
 }
 
 /**
- * Validates that a criterion is 8-12 words (Algorithm v1.8.0).
+ * Validates that a criterion is 8-12 words (Algorithm v1.8.0), or within the
+ * configured criteria.minWords/maxWords range.
  * 
  * @param criterion - The criterion text (may include `| Verify:` suffix which is excluded)
+ * @param settings - Word range (default: getConfig())
  * @returns Object with valid flag and word count
  */
-export function validateCriterionWordCount(criterion: string): { valid: boolean; wordCount: number } {
+export function validateCriterionWordCount(
+  criterion: string,
+  settings: Pick<ValidationSettings, "iscMinWords" | "iscMaxWords"> = getConfig()
+): { valid: boolean; wordCount: number } {
   // Strip inline verification suffix before counting words
   const textOnly = criterion.split("|")[0].trim();
   const words = textOnly.split(/\s+/).filter(w => w.length > 0);
   return {
-    valid: words.length >= 8 && words.length <= 12,
+    valid: words.length >= settings.iscMinWords && words.length <= settings.iscMaxWords,
     wordCount: words.length,
   };
 }
 
+/** ISC criterion formatted for a tracker row */
+export interface CriterionRowView extends ISCCriterion {
+  /** ISC-C{N} identifier */
+  id: string;
+  /** Criterion text with confidence and priority tags */
+  text: string;
+  evidence: string;
+  verify: string;
+  tracesList: string;
+}
+
+/** View rendered by the tasks template */
+export interface TasksView extends Omit<TasksArtifact, "frontmatter" | "criteria" | "antiCriteria" | "progress"> {
+  featureName: string;
+  frontmatter: Record<string, string | undefined>;
+  frontmatterYaml: string;
+  criteria: CriterionRowView[];
+  /** Tracker tables: one per implementation phase, or a single untitled table */
+  criteriaGroups: { phase: string | null; rows: CriterionRowView[] }[];
+  /** True when at least one criterion references the spec */
+  withTraces: boolean;
+  antiCriteria: (AntiCriterion & { verify: string })[];
+  progress: TasksArtifact["progress"] & { statusLabel: string };
+  parallelizationOpportunities: string[];
+  hasParallelization: boolean;
+}
+
 /**
- * Generates the ISC criteria table.
+ * Formats criteria for the tracker table with ISC-C naming, tags and
+ * verify methods.
  */
-function generateCriteriaTable(criteria: ISCCriterion[], phaseGrouped: boolean = true): string {
-  if (criteria.length === 0) {
-    return "| ID | Criterion (8-12 words) | Status | Evidence | Verify |\n|----|------------------------|--------|----------|--------|\n| - | No criteria defined | - | - | - |";
-  }
-  
-  // Format a single criterion row with ISC-C naming and verify method
-  const formatRow = (c: ISCCriterion) => {
-    const id = typeof c.id === "number" ? `ISC-C${c.id}` : c.id;
-    const verify = c.verifyMethod || "-";
+function buildCriterionRows(criteria: ISCCriterion[]): CriterionRowView[] {
+  return criteria.map(c => {
     const conf = c.confidence ? ` [${c.confidence}]` : "";
     const prio = c.priority ? ` [${c.priority}]` : "";
-    return `| ${id} | ${c.criterion}${conf}${prio} | ${c.status} | ${c.evidence || "-"} | ${verify} |`;
-  };
-  
-  // Group by phase if phase information is available
-  if (phaseGrouped && criteria.some(c => c.phase)) {
-    const phases = [...new Set(criteria.map(c => c.phase).filter(Boolean))];
-    
-    return phases.map(phase => {
-      const phaseCriteria = criteria.filter(c => c.phase === phase);
-      const header = `### ${phase}\n\n| ID | Criterion (8-12 words) | Status | Evidence | Verify |\n|----|------------------------|--------|----------|--------|`;
-      const rows = phaseCriteria.map(formatRow).join("\n");
-      return `${header}\n${rows}`;
-    }).join("\n\n");
-  }
-  
-  // Flat table
-  const header = "| ID | Criterion (8-12 words) | Status | Evidence | Verify |\n|----|------------------------|--------|----------|--------|";
-  const rows = criteria.map(formatRow).join("\n");
-  
-  return `${header}\n${rows}`;
+    return {
+      ...c,
+      id: typeof c.id === "number" ? `ISC-C${c.id}` : c.id,
+      text: `${c.criterion}${conf}${prio}`,
+      evidence: c.evidence || "-",
+      verify: c.verifyMethod || "-",
+      tracesList: c.traces && c.traces.length > 0 ? c.traces.join(", ") : "-",
+    };
+  });
 }
 
 /**
- * Generates the anti-criteria table.
+ * Groups tracker rows by implementation phase when phase information is
+ * available; otherwise returns a single untitled group.
  */
-function generateAntiCriteriaTable(antiCriteria: AntiCriterion[]): string {
-  if (antiCriteria.length === 0) {
-    return "| ID | Anti-Criterion (8-12 words) | Status | Verify |\n|----|----------------------------|--------|--------|\n| - | No anti-criteria defined | - | - |";
+function groupCriteria(rows: CriterionRowView[]): TasksView["criteriaGroups"] {
+  if (rows.length === 0) return [];
+
+  if (rows.some(r => r.phase)) {
+    const phases = [...new Set(rows.map(r => r.phase).filter(Boolean))] as string[];
+    return phases.map(phase => ({ phase, rows: rows.filter(r => r.phase === phase) }));
   }
-  
-  const header = "| ID | Anti-Criterion (8-12 words) | Status | Verify |\n|----|----------------------------|--------|--------|";
-  const rows = antiCriteria
-    .map(c => {
-      const id = c.id.startsWith("ISC-A") ? c.id : `ISC-A${c.id.replace(/^A/, "")}`;
-      const verify = c.verifyMethod || "-";
-      return `| ${id} | ${c.criterion} | ${c.status} | ${verify} |`;
-    })
-    .join("\n");
-  
-  return `${header}\n${rows}`;
+
+  return [{ phase: null, rows }];
 }
 
 /**
- * Generates the progress section.
+ * Computes the progress section values.
  */
-function generateProgress(criteria: ISCCriterion[]): string {
+function computeProgress(criteria: ISCCriterion[]): TasksView["progress"] {
   const completed = criteria.filter(c => c.status === "✅").length;
   const total = criteria.length;
   
-  let status = "PENDING";
+  let status: TasksArtifact["progress"]["status"] = "pending";
   if (completed === total && total > 0) {
-    status = "COMPLETE";
+    status = "complete";
   } else if (completed > 0) {
-    status = "IN_PROGRESS";
+    status = "in_progress";
   }
   
-  return `**Completed:** ${completed}/${total} verified
-**Status:** ${status}`;
+  return { completed, total, status, statusLabel: status.toUpperCase() };
 }
 
 /**
- * Generates a complete tasks.md artifact in ISC format.
+ * Builds the template view for a tasks artifact.
  */
-export function generateTasks(
+function buildTasksView(
   featureName: string,
   ideal: string,
   criteria: ISCCriterion[],
   antiCriteria: AntiCriterion[],
-  parallelizationOpportunities?: string[],
+  parallelizationOpportunities: string[] = [],
   implementationNotes?: string
-): string {
-  const frontmatter = generateFrontmatter(featureName);
-  const criteriaTable = generateCriteriaTable(criteria);
-  const antiTable = generateAntiCriteriaTable(antiCriteria);
-  const progress = generateProgress(criteria);
-  
-  let parallelSection = "";
-  if (parallelizationOpportunities && parallelizationOpportunities.length > 0) {
-    const items = parallelizationOpportunities.map(p => `- [P] ${p}`).join("\n");
-    parallelSection = `\n\n## Parallelization Opportunities\n\n${items}`;
-  }
-  
-  let notesSection = "";
-  if (implementationNotes) {
-    notesSection = `\n\n## Implementation Notes\n\n${implementationNotes}`;
-  }
-  
-  return `${frontmatter}
-
-# ${featureName} - Implementation Tasks
-
-## IDEAL
-
-${ideal}
-
----
-
-## ISC TRACKER
-
-${criteriaTable}
+): TasksView {
+  const frontmatter = frontmatterFields(featureName);
+  const rows = buildCriterionRows(criteria);
 
----
-
-## ANTI-CRITERIA
-
-${antiTable}
-
----
-
-## PROGRESS
-
-${progress}${parallelSection}${notesSection}
+  return {
+    featureName,
+    frontmatter,
+    frontmatterYaml: formatFrontmatter(frontmatter),
+    ideal,
+    criteria: rows,
+    criteriaGroups: groupCriteria(rows),
+    withTraces: criteria.some(c => c.traces && c.traces.length > 0),
+    antiCriteria: antiCriteria.map(c => ({
+      ...c,
+      id: c.id.startsWith("ISC-A") ? c.id : `ISC-A${c.id.replace(/^A/, "")}`,
+      verify: c.verifyMethod || "-",
+    })),
+    progress: computeProgress(criteria),
+    parallelizationOpportunities,
+    hasParallelization: parallelizationOpportunities.length > 0,
+    implementationNotes,
+  };
+}
 
----
+/**
+ * Template spec for tasks.md: sample data and the validator/parser check
+ * applied to overrides.
+ */
+export const tasksTemplate: ArtifactTemplateSpec<TasksView> = {
+  name: "tasks",
+  sampleView: () => buildTasksView(
+    "sample-feature",
+    "Users reset their own passwords without contacting support.",
+    [
+      { id: 1, criterion: "Reset link email is sent within five seconds", status: "✅", phase: "Phase 1", evidence: "Mail log", verifyMethod: "Test: reset", traces: ["FR-001"] },
+      { id: 2, criterion: "Expired reset links are rejected with a clear message", status: "⬜", phase: "Phase 2", confidence: "I", priority: "IMPORTANT" },
+    ],
+    [{ id: "A1", criterion: "Reset tokens are never written to application logs", status: "👀", verifyMethod: "Grep: !token in logs" }],
+    ["Email templates and token service"],
+    "Reuse the existing mailer."
+  ),
+  check: (content, options = {}) => {
+    const errors = validateTasks(content, getConfig(options.projectPath)).errors;
+    const { criteria, antiCriteria } = parseTasksFile(content);
+    if (criteria.length !== 2) {
+      errors.push(`Parser found ${criteria.length} of 2 sample criteria in ISC TRACKER`);
+    }
+    if (antiCriteria.length !== 1) {
+      errors.push(`Parser found ${antiCriteria.length} of 1 sample anti-criteria in ANTI-CRITERIA`);
+    }
+    return errors;
+  },
+};
 
-*Generated by SpecFirst 4.0*
-`;
+/**
+ * Generates a complete tasks.md artifact in ISC format.
+ *
+ * Rendered from the tasks template (see artifacts/template), which a
+ * project can override in .specfirst/templates/tasks.md.
+ *
+ * @param options - Project whose template overrides apply (default: cwd)
+ */
+export function generateTasks(
+  featureName: string,
+  ideal: string,
+  criteria: ISCCriterion[],
+  antiCriteria: AntiCriterion[],
+  parallelizationOpportunities?: string[],
+  implementationNotes?: string,
+  options: TemplateOptions = {}
+): string {
+  return renderArtifact(
+    tasksTemplate,
+    buildTasksView(featureName, ideal, criteria, antiCriteria, parallelizationOpportunities, implementationNotes),
+    options
+  );
 }
 
 /**
  * Validates a tasks artifact structure and ISC format.
+ * 
+ * @param content - tasks.md content
+ * @param settings - Validation settings (default: getConfig())
  */
-export function validateTasks(content: string): { valid: boolean; errors: string[] } {
+export function validateTasks(content: string, settings: ValidationSettings = getConfig()): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   
-  // Check for frontmatter
-  if (!content.startsWith("---")) {
-    errors.push("Missing YAML frontmatter");
-  }
-  
-  // Check for required sections
-  const requiredSections = [
-    "IDEAL",
-    "ISC TRACKER",
-    "ANTI-CRITERIA",
-    "PROGRESS",
-  ];
+  // Check frontmatter against the implement schema
+  errors.push(...checkArtifactFrontmatter(content, "implement").map(formatFrontmatterError));
   
-  for (const section of requiredSections) {
+  // Check for required sections (configurable per project)
+  for (const section of settings.requiredSections.tasks) {
     if (!content.includes(`## ${section}`)) {
       errors.push(`Missing required section: ${section}`);
     }
   }
   
-  // Validate ISC criteria format (8-12 words, Algorithm v1.8.0)
+  // Validate ISC criteria format (8-12 words by default, Algorithm v1.8.0)
   const lines = content.split("\n");
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -218,9 +259,9 @@ export function validateTasks(content: string): { valid: boolean; errors: string
           continue;
         }
         
-        const validation = validateCriterionWordCount(criterion);
+        const validation = validateCriterionWordCount(criterion, settings);
         if (!validation.valid) {
-          errors.push(`Line ${i + 1}: Criterion has ${validation.wordCount} words (expected 8-12): "${criterion}"`);
+          errors.push(`Line ${i + 1}: Criterion has ${validation.wordCount} words (expected ${settings.iscMinWords}-${settings.iscMaxWords}): "${criterion}"`);
         }
       }
     }
@@ -282,8 +323,9 @@ export function parseTasksFile(content: string): { criteria: ISCCriterion[]; ant
         const status = columns[2].trim() as ISCCriterion["status"];
         const evidence = columns[3]?.trim() || undefined;
         const verifyMethod = columns[4]?.trim() || undefined;
+        const traces = parseTraceList(columns[5]?.trim() ?? "");
         
-        criteria.push({ id, criterion, status, evidence, verifyMethod });
+        criteria.push({ id, criterion, status, evidence, verifyMethod, ...(traces.length > 0 ? { traces } : {}) });
       }
     }
     
@@ -305,11 +347,171 @@ export function parseTasksFile(content: string): { criteria: ISCCriterion[]; ant
   return { criteria, antiCriteria };
 }
 
+/**
+ * A status and/or evidence change for one ISC-C or ISC-A row.
+ */
+export interface CriterionUpdate {
+  /** 3, "3", "ISC-C3" for criteria; "A1" or "ISC-A1" for anti-criteria */
+  id: number | string;
+  status?: ISCCriterion["status"] | AntiCriterion["status"];
+  /** Criteria only; anti-criteria have no evidence column */
+  evidence?: string;
+}
+
+/**
+ * Result of applying criterion updates to tasks.md content.
+ */
+export interface TasksUpdateResult {
+  content: string;
+  /** Normalized IDs (ISC-C3, ISC-A1) of rows that were changed */
+  updated: string[];
+  /** Normalized IDs that have no row in tasks.md */
+  notFound: string[];
+}
+
+const CRITERION_STATUSES = ["⬜", "🔄", "✅", "❌"];
+const ANTI_CRITERION_STATUSES = ["👀", "✅", "❌"];
+
+/**
+ * Normalizes criterion IDs to the ISC-C{N} / ISC-A{N} form used in tasks.md.
+ *
+ * @example
+ * ```typescript
+ * normalizeCriterionId(3);    // "ISC-C3"
+ * normalizeCriterionId("A1"); // "ISC-A1"
+ * ```
+ */
+export function normalizeCriterionId(id: number | string): string {
+  const raw = String(id).trim();
+  if (/^\d+$/.test(raw)) return `ISC-C${parseInt(raw, 10)}`;
+  if (/^A\d+$/.test(raw)) return `ISC-${raw}`;
+  return raw;
+}
+
+/**
+ * Replaces table cells in a row, leaving every other cell byte-for-byte intact.
+ */
+function replaceCells(line: string, replacements: Map<number, string>): string {
+  // parts[0] is the text before the leading pipe; cell i is parts[i + 1]
+  const parts = line.split("|");
+  for (const [index, value] of replacements) {
+    parts[index + 1] = ` ${value} `;
+  }
+  return parts.join("|");
+}
+
+/**
+ * Applies status and evidence changes to ISC-C/ISC-A rows of tasks.md in
+ * place. Only the changed cells are rewritten, so phase grouping, column
+ * layout and unrelated rows are preserved; the PROGRESS counters are
+ * recomputed from the updated criteria.
+ *
+ * @param content - tasks.md content
+ * @param updates - Changes keyed by criterion ID
+ * @returns Updated content with the IDs that were and were not found
+ * @throws Error when an update uses a status symbol invalid for its table,
+ *   or sets evidence on an anti-criterion
+ *
+ * @example
+ * ```typescript
+ * const result = applyCriterionUpdates(tasksMd, [
+ *   { id: "ISC-C2", status: "✅", evidence: "bun test: 42 pass" },
+ * ]);
+ * await writeFile(tasksPath, result.content);
+ * ```
+ */
+export function applyCriterionUpdates(content: string, updates: CriterionUpdate[]): TasksUpdateResult {
+  const pending = new Map<string, CriterionUpdate>();
+  for (const update of updates) {
+    const id = normalizeCriterionId(update.id);
+    const isAnti = id.startsWith("ISC-A");
+    const allowed = isAnti ? ANTI_CRITERION_STATUSES : CRITERION_STATUSES;
+
+    if (update.status && !allowed.includes(update.status)) {
+      throw new Error(`Invalid status "${update.status}" for ${id}. Must be one of: ${allowed.join(" ")}`);
+    }
+    if (isAnti && update.evidence !== undefined) {
+      throw new Error(`Cannot set evidence on ${id}: anti-criteria have no evidence column`);
+    }
+    pending.set(id, { ...pending.get(id), ...update });
+  }
+
+  const lines = content.split("\n");
+  const updated: string[] = [];
+  let section: "criteria" | "anti" | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("## ")) {
+      section = line.includes("ISC TRACKER") ? "criteria" : line.includes("ANTI-CRITERIA") ? "anti" : null;
+      continue;
+    }
+
+    const pattern = section === "criteria" ? /^\|\s*(\d+|ISC-C\d+)\s*\|/ : /^\|\s*(A\d+|ISC-A\d+)\s*\|/;
+    const match = section ? line.match(pattern) : null;
+    if (!match) continue;
+
+    const id = normalizeCriterionId(match[1]);
+    const update = pending.get(id);
+    if (!update) continue;
+
+    const replacements = new Map<number, string>();
+    if (update.status) {
+      replacements.set(2, update.status);
+    }
+    if (update.evidence !== undefined) {
+      // Keep the row a single, well-formed table row
+      const evidence = update.evidence.replace(/\s*\n\s*/g, " ").replace(/\|/g, "/").trim();
+      replacements.set(3, evidence || "-");
+    }
+
+    lines[i] = replaceCells(line, replacements);
+    updated.push(id);
+    pending.delete(id);
+  }
+
+  let result = lines.join("\n");
+  if (updated.length > 0) {
+    result = refreshProgress(result);
+  }
+
+  return { content: result, updated, notFound: [...pending.keys()] };
+}
+
+/**
+ * Rewrites the **Completed:** and **Status:** lines of the PROGRESS section
+ * to match the criteria table. Other PROGRESS content is left alone.
+ */
+function refreshProgress(content: string): string {
+  const progress = computeProgress(parseTasksFile(content).criteria);
+  const completedLine = `**Completed:** ${progress.completed}/${progress.total} verified`;
+  const statusLine = `**Status:** ${progress.statusLabel}`;
+  const lines = content.split("\n");
+  let inProgress = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith("## ")) {
+      inProgress = lines[i].includes("PROGRESS");
+      continue;
+    }
+    if (!inProgress) continue;
+    if (lines[i].startsWith("**Completed:**")) {
+      lines[i] = completedLine;
+    } else if (lines[i].startsWith("**Status:**")) {
+      lines[i] = statusLine;
+    }
+  }
+
+  return lines.join("\n");
+}
+
 // Export for testing
 export const __testing = {
   generateFrontmatter,
-  generateCriteriaTable,
-  generateAntiCriteriaTable,
-  generateProgress,
+  buildTasksView,
+  groupCriteria,
+  computeProgress,
   validateCriterionWordCount,
+  replaceCells,
 };
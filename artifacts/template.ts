@@ -0,0 +1,437 @@
+/**
+ * Artifact Templates - SpecFirst 4.0
+ *
+ * Renders artifacts from markdown templates instead of hard-coded strings.
+ * Built-in templates ship in artifacts/templates/; projects and the skill
+ * install can override them:
+ *
+ * 1. `<project>/.specfirst/templates/<artifact>.md`
+ * 2. `<templatesDir>/<artifact>.md` (SpecFirstConfig.templatesDir)
+ * 3. Built-in default
+ *
+ * Templates use a small Mustache subset:
+ * - `{{name}}` / `{{a.b}}` insert a value (`{{.}}` is the current item)
+ * - `{{#name}}...{{/name}}` loops over a list, or renders once if truthy
+ * - `{{^name}}...{{/name}}` renders if falsy or an empty list
+ * - `{{@index}}`, `{{@number}}`, `{{@first}}`, `{{@last}}` inside loops
+ * - `{{! comment }}`
+ *
+ * Section and comment tags on a line of their own remove the whole line,
+ * so templates can keep one tag per line. Values are inserted verbatim
+ * (no HTML escaping).
+ *
+ * An override is checked before use: it is rendered with sample data and
+ * the result must pass the artifact's validator and parser.
+ *
+ * @module artifacts/template
+ * @version 4.0.0
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { getConfig } from "../lib/config";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Artifacts rendered from templates */
+export type ArtifactTemplateName = "proposal" | "spec" | "plan" | "tasks";
+
+export const ARTIFACT_TEMPLATE_NAMES: ArtifactTemplateName[] = ["proposal", "spec", "plan", "tasks"];
+
+/** Where a resolved template came from */
+export type TemplateSource = "project" | "config" | "builtin";
+
+/** A template file chosen by resolveTemplate() */
+export interface ResolvedTemplate {
+  name: ArtifactTemplateName;
+  source: TemplateSource;
+  path: string;
+  content: string;
+}
+
+/**
+ * Describes how to check an artifact template. Each generator module
+ * exports one (e.g. `proposalTemplate`).
+ */
+export interface ArtifactTemplateSpec<View = unknown> {
+  name: ArtifactTemplateName;
+  /** Representative view used to validate overrides */
+  sampleView: () => View;
+  /** Returns validator and parser errors for rendered content, using the project's settings */
+  check: (content: string, options?: TemplateOptions) => string[];
+}
+
+/** Options for template resolution */
+export interface TemplateOptions {
+  /** Project root searched for .specfirst/templates (default: cwd) */
+  projectPath?: string;
+}
+
+/**
+ * Thrown for malformed templates or overrides that render an artifact the
+ * validator or parser rejects.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   generateProposal(...);
+ * } catch (error) {
+ *   if (error instanceof TemplateError) console.error(error.message);
+ * }
+ * ```
+ */
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly templatePath?: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type Token =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; line: number }
+  | { type: "open"; name: string; inverted: boolean; line: number }
+  | { type: "close"; name: string; line: number }
+  | { type: "comment"; line: number };
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: TemplateNode[] };
+
+interface LoopFrame {
+  index: number;
+  length: number;
+}
+
+interface RenderContext {
+  stack: unknown[];
+  loops: LoopFrame[];
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Splits a template into text and tag tokens.
+ */
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  const tagPattern = /\{\{\s*([#^/!]?)\s*([^}]*?)\s*\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(template)) !== null) {
+    if (match.index > last) {
+      tokens.push({ type: "text", value: template.slice(last, match.index) });
+    }
+    const line = template.slice(0, match.index).split("\n").length;
+    const [, sigil, name] = match;
+
+    if (sigil === "!") {
+      tokens.push({ type: "comment", line });
+    } else if (!name) {
+      throw new TemplateError(`Line ${line}: Empty tag`);
+    } else if (sigil === "#" || sigil === "^") {
+      tokens.push({ type: "open", name, inverted: sigil === "^", line });
+    } else if (sigil === "/") {
+      tokens.push({ type: "close", name, line });
+    } else {
+      tokens.push({ type: "var", name, line });
+    }
+    last = tagPattern.lastIndex;
+  }
+
+  if (last < template.length) {
+    tokens.push({ type: "text", value: template.slice(last) });
+  }
+
+  return stripStandaloneTags(tokens);
+}
+
+/**
+ * Removes the line around section and comment tags that stand alone on it,
+ * so `{{#items}}` on its own line does not leave a blank line behind.
+ */
+function stripStandaloneTags(tokens: Token[]): Token[] {
+  // Trims are computed against the original text and applied afterwards,
+  // since two standalone tags can share the newline between them.
+  const keepUntil = new Map<number, number>();
+  const keepFrom = new Map<number, number>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "text" || token.type === "var") continue;
+
+    const before = i > 0 ? tokens[i - 1] : null;
+    const after = i + 1 < tokens.length ? tokens[i + 1] : null;
+    if (before?.type !== undefined && before.type !== "text") continue;
+    if (after?.type !== undefined && after.type !== "text") continue;
+
+    const beforeText = before?.type === "text" ? before.value : "";
+    const afterText = after?.type === "text" ? after.value : "";
+    const lineStart = beforeText.lastIndexOf("\n");
+    if (beforeText.slice(lineStart + 1).trim() !== "") continue;
+    if (lineStart === -1 && i > 1) continue;
+
+    const newline = afterText.match(/^[ \t]*(\r?\n|$)/);
+    if (!newline) continue;
+    if (newline[1] === "" && i + 2 < tokens.length) continue;
+
+    if (before) keepUntil.set(i - 1, lineStart + 1);
+    if (after) keepFrom.set(i + 1, newline[0].length);
+  }
+
+  const result: Token[] = [];
+  tokens.forEach((token, i) => {
+    if (token.type === "comment") return;
+    if (token.type === "text") {
+      const value = token.value.slice(keepFrom.get(i) ?? 0, keepUntil.get(i) ?? token.value.length);
+      if (value !== "") result.push({ type: "text", value });
+      return;
+    }
+    result.push(token);
+  });
+  return result;
+}
+
+/**
+ * Builds the section tree from tokens.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { name: string; line: number; children: TemplateNode[] }[] = [];
+  let current = root;
+
+  for (const token of tokenize(template)) {
+    if (token.type === "text" || token.type === "var") {
+      current.push(token.type === "text" ? { type: "text", value: token.value } : { type: "var", name: token.name });
+    } else if (token.type === "open") {
+      const section: TemplateNode = { type: "section", name: token.name, inverted: token.inverted, children: [] };
+      current.push(section);
+      open.push({ name: token.name, line: token.line, children: current });
+      current = section.children;
+    } else if (token.type === "close") {
+      const frame = open.pop();
+      if (!frame) {
+        throw new TemplateError(`Line ${token.line}: Unexpected {{/${token.name}}}`);
+      }
+      if (frame.name !== token.name) {
+        throw new TemplateError(`Line ${token.line}: {{/${token.name}}} closes {{#${frame.name}}} opened on line ${frame.line}`);
+      }
+      current = frame.children;
+    }
+  }
+
+  if (open.length > 0) {
+    const frame = open[open.length - 1];
+    throw new TemplateError(`Line ${frame.line}: Unclosed section {{#${frame.name}}}`);
+  }
+
+  return root;
+}
+
+/**
+ * Resolves a (possibly dotted) name against the context stack.
+ */
+function lookup(name: string, context: RenderContext): unknown {
+  if (name === ".") return context.stack[context.stack.length - 1];
+
+  if (name.startsWith("@")) {
+    const loop = context.loops[context.loops.length - 1];
+    if (!loop) return undefined;
+    switch (name) {
+      case "@index": return loop.index;
+      case "@number": return loop.index + 1;
+      case "@first": return loop.index === 0;
+      case "@last": return loop.index === loop.length - 1;
+      default: return undefined;
+    }
+  }
+
+  const [head, ...rest] = name.split(".");
+  let value: unknown;
+  for (let i = context.stack.length - 1; i >= 0; i--) {
+    const frame = context.stack[i];
+    if (frame !== null && typeof frame === "object" && head in frame) {
+      value = (frame as Record<string, unknown>)[head];
+      break;
+    }
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * True if a section should render (non-empty lists and truthy values).
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: TemplateNode[], context: RenderContext): string {
+  let output = "";
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.value;
+    } else if (node.type === "var") {
+      const value = lookup(node.name, context);
+      output += value === undefined || value === null ? "" : String(value);
+    } else {
+      const value = lookup(node.name, context);
+      if (node.inverted) {
+        if (!isTruthy(value)) output += renderNodes(node.children, context);
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => {
+          context.stack.push(item);
+          context.loops.push({ index, length: value.length });
+          output += renderNodes(node.children, context);
+          context.loops.pop();
+          context.stack.pop();
+        });
+      } else if (isTruthy(value)) {
+        const scoped = typeof value === "object";
+        if (scoped) context.stack.push(value);
+        output += renderNodes(node.children, context);
+        if (scoped) context.stack.pop();
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Renders a template against a view object.
+ *
+ * @param template - Template source
+ * @param view - Values available to placeholders
+ * @returns Rendered text
+ * @throws TemplateError for unbalanced sections or empty tags
+ *
+ * @example
+ * ```typescript
+ * renderTemplate("{{#items}}- {{.}}\n{{/items}}", { items: ["a", "b"] });
+ * // "- a\n- b\n"
+ * ```
+ */
+export function renderTemplate(template: string, view: unknown): string {
+  return renderNodes(parseTemplate(template), { stack: [view], loops: [] });
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/** Directory holding the built-in templates */
+export const BUILTIN_TEMPLATES_DIR = join(import.meta.dir, "templates");
+
+/**
+ * Lists the override locations for an artifact template, highest priority
+ * first, followed by the built-in default.
+ */
+function templateCandidates(name: ArtifactTemplateName, options: TemplateOptions): { source: TemplateSource; path: string }[] {
+  const projectPath = options.projectPath ?? process.cwd();
+  return [
+    { source: "project", path: join(projectPath, ".specfirst", "templates", `${name}.md`) },
+    { source: "config", path: join(getConfig(projectPath).templatesDir, `${name}.md`) },
+    { source: "builtin", path: join(BUILTIN_TEMPLATES_DIR, `${name}.md`) },
+  ];
+}
+
+/**
+ * Finds the template used for an artifact: a project override, then an
+ * override in templatesDir, then the built-in default.
+ *
+ * @param name - Artifact template name
+ * @param options - Project to search for overrides
+ * @returns The template and where it came from
+ *
+ * @example
+ * ```typescript
+ * const { source, path } = resolveTemplate("spec", { projectPath });
+ * console.log(`spec.md renders from ${source} template ${path}`);
+ * ```
+ */
+export function resolveTemplate(name: ArtifactTemplateName, options: TemplateOptions = {}): ResolvedTemplate {
+  for (const candidate of templateCandidates(name, options)) {
+    if (existsSync(candidate.path)) {
+      return { name, ...candidate, content: readFileSync(candidate.path, "utf-8") };
+    }
+  }
+  throw new TemplateError(`Built-in ${name} template not found in ${BUILTIN_TEMPLATES_DIR}`);
+}
+
+/**
+ * Checks that a template renders an artifact the matching validator and
+ * parser accept, using the spec's sample data.
+ *
+ * @param spec - Artifact template spec (e.g. proposalTemplate)
+ * @param content - Template source to check
+ * @param options - Project whose validation settings apply
+ * @returns Errors found (empty if the template is usable)
+ *
+ * @example
+ * ```typescript
+ * const errors = validateTemplate(specTemplate, await readFile(".specfirst/templates/spec.md", "utf-8"), { projectPath });
+ * if (errors.length > 0) console.error(errors.join("\n"));
+ * ```
+ */
+export function validateTemplate<View>(spec: ArtifactTemplateSpec<View>, content: string, options: TemplateOptions = {}): string[] {
+  let rendered: string;
+  try {
+    rendered = renderTemplate(content, spec.sampleView());
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+  return spec.check(rendered, options);
+}
+
+/**
+ * Renders an artifact with its resolved template. Overrides are validated
+ * first so a broken template fails loudly instead of writing an artifact
+ * later phases cannot parse.
+ *
+ * @param spec - Artifact template spec
+ * @param view - View built by the generator
+ * @param options - Project to search for overrides and validate them against
+ * @returns Rendered artifact
+ * @throws TemplateError if an override is malformed or fails validation
+ */
+export function renderArtifact<View>(spec: ArtifactTemplateSpec<View>, view: View, options: TemplateOptions = {}): string {
+  const template = resolveTemplate(spec.name, options);
+
+  if (template.source !== "builtin") {
+    const errors = validateTemplate(spec, template.content, options);
+    if (errors.length > 0) {
+      throw new TemplateError(
+        `Template override ${template.path} does not produce a valid ${spec.name}.md:\n` +
+        errors.map(e => `  ${e}`).join("\n"),
+        template.path,
+        errors
+      );
+    }
+  }
+
+  return renderTemplate(template.content, view);
+}
+
+// Export for testing
+export const __testing = {
+  tokenize,
+  parseTemplate,
+  lookup,
+  templateCandidates,
+};
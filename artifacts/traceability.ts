@@ -0,0 +1,216 @@
+/**
+ * Requirements Traceability - SpecFirst 4.0
+ *
+ * Links spec IDs (FR-001, US-001, SC-001) through plan phases to ISC
+ * criteria and reports which requirements have no covering criterion.
+ *
+ * A requirement is covered when at least one ISC criterion lists its ID
+ * in `traces`. Plan phases that trace the requirement are shown in the
+ * matrix for context but do not count as coverage.
+ *
+ * @module artifacts/traceability
+ * @version 4.0.0
+ */
+
+import type { SpecArtifact, PlanArtifact, ISCCriterion } from "./types";
+
+/** Kinds of spec items that can be traced */
+export type TraceKind = "FR" | "US" | "SC";
+
+/**
+ * One spec item and everything that traces back to it.
+ */
+export interface TraceabilityEntry {
+  id: string;
+  kind: TraceKind;
+  description: string;
+  /** Only set for functional requirements */
+  priority?: "must" | "should" | "could" | "wont";
+  /** Plan phases listing this ID (e.g. "Phase 1: Foundation") */
+  phases: string[];
+  /** ISC criteria listing this ID (e.g. "ISC-C3") */
+  criteria: string[];
+  covered: boolean;
+}
+
+/**
+ * A `traces` reference that does not match any spec ID.
+ */
+export interface UnknownTraceReference {
+  /** Plan phase or criterion holding the reference */
+  source: string;
+  id: string;
+}
+
+/**
+ * Full traceability matrix for a feature.
+ */
+export interface TraceabilityMatrix {
+  feature: string;
+  entries: TraceabilityEntry[];
+  /** MUST-priority functional requirements with no covering criterion */
+  uncoveredMust: string[];
+  unknownReferences: UnknownTraceReference[];
+  summary: {
+    total: number;
+    covered: number;
+    mustTotal: number;
+    mustCovered: number;
+  };
+}
+
+/**
+ * Splits a comma-separated trace cell ("FR-001, US-002") into IDs.
+ * Empty cells and "-" yield an empty list.
+ *
+ * @example
+ * ```typescript
+ * parseTraceList("FR-001, SC-002"); // ["FR-001", "SC-002"]
+ * parseTraceList("-");              // []
+ * ```
+ */
+export function parseTraceList(value: string): string[] {
+  if (!value || value.trim() === "-") {
+    return [];
+  }
+  return value
+    .split(",")
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+}
+
+/**
+ * Formats an ISC criterion ID the way tasks.md shows it.
+ */
+function criterionLabel(criterion: ISCCriterion): string {
+  return typeof criterion.id === "number" ? `ISC-C${criterion.id}` : criterion.id;
+}
+
+/**
+ * Builds the traceability matrix from parsed artifacts.
+ *
+ * @param spec - Parsed spec.md
+ * @param plan - Parsed plan.md, or null when unavailable
+ * @param criteria - ISC criteria (from implement input or tasks.md)
+ * @returns TraceabilityMatrix
+ *
+ * @example
+ * ```typescript
+ * const matrix = buildTraceabilityMatrix(parseSpec(specMd), parsePlan(planMd), criteria);
+ * if (matrix.uncoveredMust.length > 0) {
+ *   console.error(`Uncovered: ${matrix.uncoveredMust.join(", ")}`);
+ * }
+ * ```
+ */
+export function buildTraceabilityMatrix(
+  spec: SpecArtifact,
+  plan: PlanArtifact | null,
+  criteria: ISCCriterion[]
+): TraceabilityMatrix {
+  const entries: TraceabilityEntry[] = [
+    ...spec.functionalRequirements.map(fr => ({
+      id: fr.id,
+      kind: "FR" as const,
+      description: fr.description,
+      priority: fr.priority,
+    })),
+    ...spec.userStories.map(us => ({ id: us.id, kind: "US" as const, description: us.title })),
+    ...spec.successCriteria.map(sc => ({ id: sc.id, kind: "SC" as const, description: sc.description })),
+  ].map(item => ({ ...item, phases: [], criteria: [], covered: false }));
+
+  const byId = new Map(entries.map(e => [e.id, e]));
+  const unknownReferences: UnknownTraceReference[] = [];
+
+  for (const phase of plan?.implementationPhases ?? []) {
+    const label = `Phase ${phase.number}: ${phase.name}`;
+    for (const id of phase.traces ?? []) {
+      const entry = byId.get(id);
+      if (entry) {
+        entry.phases.push(label);
+      } else {
+        unknownReferences.push({ source: label, id });
+      }
+    }
+  }
+
+  for (const criterion of criteria) {
+    const label = criterionLabel(criterion);
+    for (const id of criterion.traces ?? []) {
+      const entry = byId.get(id);
+      if (entry) {
+        entry.criteria.push(label);
+        entry.covered = true;
+      } else {
+        unknownReferences.push({ source: label, id });
+      }
+    }
+  }
+
+  const must = entries.filter(e => e.priority === "must");
+
+  return {
+    feature: spec.frontmatter.feature,
+    entries,
+    uncoveredMust: must.filter(e => !e.covered).map(e => e.id),
+    unknownReferences,
+    summary: {
+      total: entries.length,
+      covered: entries.filter(e => e.covered).length,
+      mustTotal: must.length,
+      mustCovered: must.filter(e => e.covered).length,
+    },
+  };
+}
+
+/**
+ * Renders the matrix as a markdown report.
+ *
+ * @param matrix - Traceability matrix
+ * @returns Markdown document
+ */
+export function formatTraceabilityMarkdown(matrix: TraceabilityMatrix): string {
+  const rows = matrix.entries.map(e => {
+    const priority = e.priority ? e.priority.toUpperCase() : "-";
+    const phases = e.phases.length > 0 ? e.phases.join(", ") : "-";
+    const criteria = e.criteria.length > 0 ? e.criteria.join(", ") : "-";
+    const status = e.covered ? "✅" : e.priority === "must" ? "❌" : "⬜";
+    return `| ${e.id} | ${e.description} | ${priority} | ${phases} | ${criteria} | ${status} |`;
+  });
+
+  const table = rows.length > 0
+    ? rows.join("\n")
+    : "| - | No spec items defined | - | - | - | - |";
+
+  const unknown = matrix.unknownReferences.length > 0
+    ? `\n\n## Unknown References\n\n${matrix.unknownReferences.map(r => `- ${r.source} → ${r.id}`).join("\n")}`
+    : "";
+
+  const uncovered = matrix.uncoveredMust.length > 0
+    ? `\n\n## Uncovered MUST Requirements\n\n${matrix.uncoveredMust.map(id => `- ${id}`).join("\n")}`
+    : "";
+
+  return `# ${matrix.feature} - Traceability Matrix
+
+**Coverage:** ${matrix.summary.covered}/${matrix.summary.total} spec items
+**MUST Coverage:** ${matrix.summary.mustCovered}/${matrix.summary.mustTotal} functional requirements
+
+| ID | Description | Priority | Plan Phases | Criteria | Covered |
+|----|-------------|----------|-------------|----------|---------|
+${table}${uncovered}${unknown}
+`;
+}
+
+/**
+ * Renders the matrix as pretty-printed JSON.
+ *
+ * @param matrix - Traceability matrix
+ * @returns JSON string
+ */
+export function formatTraceabilityJSON(matrix: TraceabilityMatrix): string {
+  return JSON.stringify(matrix, null, 2);
+}
+
+// Export for testing
+export const __testing = {
+  criterionLabel,
+};
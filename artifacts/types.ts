@@ -129,6 +129,8 @@ export interface ImplementationPhase {
   estimatedEffort: string;
   dependencies: string[];
   risks: string[];
+  /** Spec IDs this phase delivers (FR-001, US-001, SC-001) */
+  traces?: string[];
 }
 
 export interface TestingStrategy {
@@ -211,6 +213,8 @@ export interface ISCCriterion {
   confidence?: ConfidenceTag;
   /** Priority classification */
   priority?: PriorityLevel;
+  /** Spec IDs this criterion verifies (FR-001, US-001, SC-001) */
+  traces?: string[];
 }
 
 export interface AntiCriterion {
@@ -0,0 +1,1139 @@
+#!/usr/bin/env bun
+/**
+ * SpecFirst CLI - SpecFirst 4.0
+ *
+ * Unified command-line entry point wrapping the phase orchestrator.
+ * Every subcommand routes through the orchestrator API so the CLI enforces
+ * exactly the same gates as programmatic callers.
+ *
+ * Usage:
+ *   specfirst <phase> <feature> [--input <file|->] [--workflow <name>] [--quick|--batch|--thorough] [--dry-run [--json]]
+ *   specfirst release <feature> --input <file|-> [--merge merge|squash]
+ *   specfirst status <feature> [--json]
+ *   specfirst history <feature> [--json]
+ *   specfirst resume <feature> [--dry-run [--json]]
+ *   specfirst list [--json]
+ *   specfirst validate <feature|path-to-tasks.md>
+ *   specfirst trace <feature> [--json]
+ *   specfirst verify <feature> [--json]
+ *   specfirst graph [--format mermaid|dot] [--json]
+ *   specfirst reopen <feature> <phase> [--reason <text>]
+ *   specfirst rename <feature> <new-name> [--title <text>]
+ *   specfirst migrate [<feature>...] [--from memory|repo]
+ *   specfirst templates [--json]
+ *   specfirst workflows [--json]
+ *   specfirst config [--json]
+ *   specfirst commit
+ *   specfirst doctor [<feature>...] [--repair|--rebuild] [--json]
+ *
+ * Custom workflow phases (see lib/workflow) run as `specfirst <phase> <feature>`.
+ * Feature names must be lowercase slugs such as `user-auth` (see lib/feature-id).
+ * Settings come from `.specfirst/config.yaml` and SPECFIRST_* variables (see lib/config).
+ * Phase input is read from a JSON or YAML file, or from stdin with `--input -`.
+ *
+ * Exit Codes:
+ * - 0: Success
+ * - 1: Phase execution failed
+ * - 2: Usage error (unknown command, missing arguments)
+ * - 3: Input error (unreadable or unparseable input)
+ * - 4: Gate check failed
+ *
+ * @module cli/specfirst
+ * @version 4.0.0
+ */
+
+import { YAML } from "bun";
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import {
+  executePhase,
+  resumeFeature,
+  listFeatures,
+  getFeatureGraph,
+  getFeatureHistory,
+  reopenPhase,
+  renameFeature,
+  migrateStorage,
+  getWorkflowStatus,
+  detectNextPhase,
+  type Phase,
+  type OrchestratorOptions,
+  type OrchestratorResult,
+} from "../phases/orchestrator";
+import { extractCriteriaFromPlan } from "../phases/implement";
+import { runDoctor } from "../phases/doctor";
+import { validateISCFormat, formatValidationResult } from "../gates/isc-format";
+import {
+  getArtifactPath,
+  getConfig,
+  describeConfig,
+  ConfigError,
+  STORAGE_MODES,
+  type ConfigEntry,
+  type StorageMode,
+} from "../lib/config";
+import { getDbPath, initDatabase, type WorkflowEvent } from "../lib/database";
+import { commitPendingMarkers, type MergeStrategy } from "../lib/git";
+import { checkFeatureId } from "../lib/feature-id";
+import {
+  WorkflowError,
+  listWorkflows,
+  resolveFeatureWorkflow,
+  getWorkflowPhase,
+  getPhaseNames,
+  type WorkflowDefinition,
+} from "../lib/workflow";
+import { loadTraceabilityMatrix } from "../gates/traceability";
+import { formatTraceabilityMarkdown, formatTraceabilityJSON } from "../artifacts/traceability";
+import { verifyFeature, formatVerificationReport } from "../algorithm/verifier";
+import { formatFeatureGraph, GRAPH_FORMATS, type GraphFormat } from "../lib/feature-graph";
+import { resolveTemplate, validateTemplate, type ArtifactTemplateSpec } from "../artifacts/template";
+import { proposalTemplate } from "../artifacts/proposal";
+import { specTemplate } from "../artifacts/spec";
+import { planTemplate } from "../artifacts/plan";
+import { tasksTemplate } from "../artifacts/tasks";
+
+/**
+ * Process exit codes returned by the CLI.
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  PHASE_FAILED: 1,
+  USAGE: 2,
+  INPUT: 3,
+  GATE_FAILED: 4,
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+/**
+ * Phase subcommands that execute through executePhase().
+ */
+export const PHASE_COMMANDS: Phase[] = ["propose", "specify", "plan", "implement", "release"];
+
+/**
+ * Utility subcommands.
+ */
+export const UTILITY_COMMANDS = ["status", "history", "resume", "list", "validate", "trace", "verify", "graph", "reopen", "rename", "migrate", "templates", "workflows", "config", "commit", "doctor", "help"] as const;
+
+/**
+ * Strategies accepted by `release --merge`.
+ */
+const MERGE_STRATEGIES: MergeStrategy[] = ["merge", "squash"];
+
+/**
+ * Parsed command-line arguments.
+ */
+export interface CliArgs {
+  command: string | null;
+  positionals: string[];
+  /** Input file path, or "-" for stdin */
+  input?: string;
+  /** Project root (defaults to cwd) */
+  project?: string;
+  /** Output format for graph (mermaid or dot) */
+  format?: string;
+  /** Reason recorded when reopening a phase */
+  reason?: string;
+  /** New display title when renaming a feature */
+  title?: string;
+  /** Storage mode migrate moves artifacts out of */
+  from?: string;
+  /** Workflow assigned to a new feature */
+  workflow?: string;
+  /** How release brings a specfirst/<feature> branch back (merge or squash) */
+  merge?: string;
+  json: boolean;
+  quick: boolean;
+  batch: boolean;
+  thorough: boolean;
+  /** Run criterion Verify methods (verify command, release) */
+  verify: boolean;
+  /** Preview a phase without writing files, SQLite or git */
+  dryRun: boolean;
+  /** Fix SQLite from git markers and artifacts (doctor) */
+  repair: boolean;
+  /** Recreate the database from git markers and artifacts (doctor) */
+  rebuild: boolean;
+  help: boolean;
+}
+
+/**
+ * I/O channels used by the CLI. Injectable for testing.
+ */
+export interface CliIO {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  readStdin: () => Promise<string>;
+}
+
+/**
+ * Error raised when arguments or input cannot be used.
+ * Carries the exit code the CLI should terminate with.
+ */
+export class CliError extends Error {
+  constructor(message: string, public readonly exitCode: ExitCode) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+const USAGE = `Usage: specfirst <command> [arguments] [options]
+
+Phase commands:
+  propose <feature>     Create proposal.md
+  specify <feature>     Create spec.md
+  plan <feature>        Create plan.md
+  implement <feature>   Create tasks.md (extracts criteria from plan.md when no input is given)
+  release <feature>     Run the Doctorow gate and write release notes
+  <phase> <feature>     Run a custom phase of the feature's workflow
+
+Utility commands:
+  status <feature>      Show phase completion for a feature
+  history <feature>     Show a feature's recorded status, phase, criterion, gate and session events
+  resume <feature>      Run the next phase from the feature's recorded state
+  list                  List all tracked features
+  validate <target>     Validate ISC format of a feature's tasks.md or a file path
+  trace <feature>       Show the requirements traceability matrix
+  verify <feature>      Run each criterion's Verify method and record ✅/❌ in tasks.md
+  graph                 Show the feature dependency graph in queue order
+  reopen <feature> <phase>
+                        Reopen a completed phase and mark later artifacts for review
+  rename <feature> <new-name>
+                        Rename a feature, moving its artifacts and history
+  migrate [<feature>...]
+                        Move artifacts into the configured storage (artifacts.storage)
+  templates             Show which artifact templates are in use and check overrides
+  workflows             List available workflows and their phases
+  config                Show each setting, its value and where it was set
+  commit                Commit phase markers queued while SPECFIRST_AUTO_COMMIT=false
+  doctor [<feature>...] Check that git markers, artifacts and the database agree
+  help                  Show this message
+
+Options:
+  --input, -i <file>    Phase input as JSON or YAML ("-" reads stdin)
+  --project <path>      Project root (default: current directory)
+  --format <format>     Graph format: mermaid (default) or dot
+  --reason <text>       Why a phase is reopened (recorded in the marker commit)
+  --title <text>        Display title for a renamed feature
+  --from <mode>         Storage migrate moves artifacts out of: memory or repo
+  --workflow <name>     Workflow for a new feature (default: default)
+  --merge <strategy>    After release, merge or squash the specfirst/<feature> branch
+  --quick               Minimal effort mode
+  --batch               Non-interactive mode (auto-approves release gate)
+  --thorough            Maximum effort mode
+  --verify              Run criterion Verify methods before the release check
+  --dry-run             Run gates and show the artifact diff, database changes and commit without writing
+  --repair              doctor: update the database to match git markers and artifacts
+  --rebuild             doctor: recreate the database from git markers and artifacts
+  --json                Machine-readable output (status, history, list, trace, verify, graph, migrate, templates, workflows, config, doctor, dry runs)
+  --help, -h            Show this message`;
+
+const defaultIO: CliIO = {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  readStdin: async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  },
+};
+
+/**
+ * Parses raw argv (without the runtime and script path) into CliArgs.
+ *
+ * @param argv - Arguments, e.g. process.argv.slice(2)
+ * @returns Parsed arguments
+ * @throws CliError on unknown options or missing option values
+ *
+ * @example
+ * ```typescript
+ * const args = parseArgs(["propose", "user-auth", "--input", "proposal.yaml"]);
+ * // args.command === "propose", args.positionals === ["user-auth"]
+ * ```
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: null,
+    positionals: [],
+    json: false,
+    quick: false,
+    batch: false,
+    thorough: false,
+    verify: false,
+    dryRun: false,
+    repair: false,
+    rebuild: false,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    const takeValue = (): string => {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new CliError(`Option ${arg} requires a value`, EXIT_CODES.USAGE);
+      }
+      return value;
+    };
+
+    switch (arg) {
+      case "--input":
+      case "-i":
+        args.input = takeValue();
+        break;
+      case "--project":
+        args.project = takeValue();
+        break;
+      case "--format":
+        args.format = takeValue();
+        break;
+      case "--reason":
+        args.reason = takeValue();
+        break;
+      case "--title":
+        args.title = takeValue();
+        break;
+      case "--from":
+        args.from = takeValue();
+        break;
+      case "--workflow":
+        args.workflow = takeValue();
+        break;
+      case "--merge":
+        args.merge = takeValue();
+        break;
+      case "--json":
+        args.json = true;
+        break;
+      case "--quick":
+        args.quick = true;
+        break;
+      case "--batch":
+        args.batch = true;
+        break;
+      case "--thorough":
+        args.thorough = true;
+        break;
+      case "--verify":
+        args.verify = true;
+        break;
+      case "--dry-run":
+        args.dryRun = true;
+        break;
+      case "--repair":
+        args.repair = true;
+        break;
+      case "--rebuild":
+        args.rebuild = true;
+        break;
+      case "--help":
+      case "-h":
+        args.help = true;
+        break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") {
+          throw new CliError(`Unknown option: ${arg}`, EXIT_CODES.USAGE);
+        }
+        if (args.command === null) {
+          args.command = arg;
+        } else {
+          args.positionals.push(arg);
+        }
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Parses phase input text as JSON or YAML.
+ *
+ * `.json` sources are parsed strictly as JSON; everything else (including
+ * stdin) is parsed as YAML, which also accepts JSON documents.
+ *
+ * @param content - Raw input text
+ * @param source - File path or "-" for stdin (used for format and error messages)
+ * @returns Parsed input object
+ * @throws CliError when the input is not a mapping or fails to parse
+ */
+export function parseInputContent(content: string, source: string): Record<string, unknown> {
+  let data: unknown;
+
+  try {
+    data = extname(source).toLowerCase() === ".json"
+      ? JSON.parse(content)
+      : YAML.parse(content);
+  } catch (error) {
+    const label = source === "-" ? "stdin" : source;
+    throw new CliError(
+      `Failed to parse input from ${label}: ${error instanceof Error ? error.message : String(error)}`,
+      EXIT_CODES.INPUT
+    );
+  }
+
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    const label = source === "-" ? "stdin" : source;
+    throw new CliError(`Input from ${label} must be an object`, EXIT_CODES.INPUT);
+  }
+
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Loads phase input for a feature from a file or stdin.
+ *
+ * Fills in `featureName` when the input omits it and rejects input that
+ * names a different feature than the command line.
+ *
+ * @param source - File path or "-" for stdin
+ * @param featureName - Feature named on the command line
+ * @param io - I/O channels (stdin reader)
+ * @returns Phase input object
+ * @throws CliError on missing file, parse failure or feature mismatch
+ */
+export async function loadPhaseInput(
+  source: string,
+  featureName: string,
+  io: CliIO = defaultIO
+): Promise<Record<string, unknown>> {
+  let content: string;
+
+  if (source === "-") {
+    content = await io.readStdin();
+  } else {
+    if (!existsSync(source)) {
+      throw new CliError(`Input file not found: ${source}`, EXIT_CODES.INPUT);
+    }
+    content = readFileSync(source, "utf-8");
+  }
+
+  const input = parseInputContent(content, source);
+
+  if (input.featureName === undefined) {
+    input.featureName = featureName;
+  } else if (input.featureName !== featureName) {
+    throw new CliError(
+      `Input featureName "${String(input.featureName)}" does not match "${featureName}"`,
+      EXIT_CODES.INPUT
+    );
+  }
+
+  return input;
+}
+
+/**
+ * Maps an orchestrator result to a CLI exit code.
+ *
+ * @param result - Orchestrator result
+ * @returns Exit code
+ */
+export function exitCodeForResult(result: OrchestratorResult): ExitCode {
+  if (result.success) {
+    return EXIT_CODES.SUCCESS;
+  }
+  if (result.inputErrors?.length) {
+    return EXIT_CODES.INPUT;
+  }
+  return result.failedGate ? EXIT_CODES.GATE_FAILED : EXIT_CODES.PHASE_FAILED;
+}
+
+/**
+ * Prints what a dry run would write: the artifact diff, database changes,
+ * commit message, validation problems and skipped steps.
+ */
+function reportPreview(result: OrchestratorResult, featureName: string, io: CliIO): void {
+  const preview = result.preview!;
+  io.stdout(`🔍 Dry run: ${result.phase} phase for ${featureName} (nothing written)`);
+  io.stdout(`   Artifact: ${preview.artifactPath}`);
+  io.stdout(preview.diff ? preview.diff.trimEnd() : "   No changes to the artifact");
+  for (const change of preview.databaseChanges) {
+    const values = Object.entries(change.values).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(", ");
+    io.stdout(`   Database: ${change.action} ${change.table} (${change.featureId}) ${values}`);
+  }
+  io.stdout(preview.commitMessage ? `   Commit: ${preview.commitMessage.split("\n")[0]}` : "   Commit: none");
+  for (const error of preview.validationErrors) {
+    io.stdout(`⚠️  Validation: ${error}`);
+  }
+  for (const step of preview.skipped) {
+    io.stdout(`   Skipped: ${step}`);
+  }
+}
+
+/**
+ * Prints an orchestrator result and returns the matching exit code.
+ * With `json`, dry runs print the whole result instead.
+ */
+function reportResult(result: OrchestratorResult, featureName: string, io: CliIO, json = false): ExitCode {
+  if (json && result.preview) {
+    io.stdout(JSON.stringify(result, null, 2));
+    return exitCodeForResult(result);
+  }
+  for (const recovery of result.recovered ?? []) {
+    const line = `${recovery.featureName} ${recovery.phase} phase ${recovery.action} (${recovery.detail})`;
+    if (recovery.action === "failed") {
+      io.stderr(`⚠️  Unfinished ${line}`);
+    } else {
+      io.stdout(`🔧 Recovered: ${line}`);
+    }
+  }
+  if (result.preview) {
+    reportPreview(result, featureName, io);
+  } else if (result.success) {
+    if (result.message) {
+      io.stdout(result.message);
+    } else {
+      io.stdout(`✅ ${result.phase} phase complete for ${featureName}`);
+    }
+    if (result.artifactPath) {
+      io.stdout(`   Artifact: ${result.artifactPath}`);
+    }
+    if (result.nextPhase) {
+      io.stdout(`➡️  Run next: specfirst ${result.nextPhase} ${featureName}`);
+    }
+  } else {
+    io.stderr(`❌ ${result.error ?? result.message ?? `${result.phase} phase failed`}`);
+  }
+  if (result.inferred?.length) {
+    io.stdout(`📝 Input derived from ${result.derivedFrom}; review inferred ${result.inferred.join(", ")}`);
+  }
+  return exitCodeForResult(result);
+}
+
+/**
+ * Requires exactly one positional argument.
+ */
+function requireTarget(args: CliArgs): string {
+  const target = args.positionals[0];
+  if (!target) {
+    throw new CliError(`Missing feature name. Usage: specfirst ${args.command} <feature>`, EXIT_CODES.USAGE);
+  }
+  if (args.positionals.length > 1) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.slice(1).join(" ")}`, EXIT_CODES.USAGE);
+  }
+  return target;
+}
+
+/**
+ * Rejects feature names that are not valid FeatureIds.
+ *
+ * @throws CliError with usage exit code
+ */
+function assertFeatureName(featureName: string): string {
+  const invalid = checkFeatureId(featureName);
+  if (invalid) {
+    throw new CliError(invalid, EXIT_CODES.USAGE);
+  }
+  return featureName;
+}
+
+/**
+ * Requires exactly one feature positional argument.
+ */
+function requireFeature(args: CliArgs): string {
+  return assertFeatureName(requireTarget(args));
+}
+
+/**
+ * Builds orchestrator options from parsed flags.
+ */
+function toOrchestratorOptions(args: CliArgs, projectPath: string): OrchestratorOptions {
+  return {
+    quick: args.quick || undefined,
+    batch: args.batch || undefined,
+    thorough: args.thorough || undefined,
+    projectPath,
+    workflow: args.workflow,
+    dryRun: args.dryRun || undefined,
+  };
+}
+
+/**
+ * Resolves the workflow of a feature. Reads the project database only when
+ * it already exists, so lookups never create one.
+ *
+ * @throws CliError with input exit code if the workflow is missing or invalid
+ */
+function loadFeatureWorkflow(featureName: string, args: CliArgs, projectPath: string): WorkflowDefinition {
+  if (existsSync(getDbPath(projectPath))) {
+    initDatabase(projectPath);
+  }
+  try {
+    return resolveFeatureWorkflow(featureName, { projectPath, workflow: args.workflow });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      throw new CliError(error.message, EXIT_CODES.INPUT);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs a phase subcommand.
+ */
+async function runPhaseCommand(phase: string, args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const featureName = requireFeature(args);
+
+  if (args.merge !== undefined && (phase !== "release" || !(MERGE_STRATEGIES as string[]).includes(args.merge))) {
+    throw new CliError(`Usage: specfirst release <feature> --merge <${MERGE_STRATEGIES.join("|")}>`, EXIT_CODES.USAGE);
+  }
+
+  let input: Record<string, unknown> | undefined;
+  if (args.input) {
+    input = await loadPhaseInput(args.input, featureName, io);
+  } else if (phase === "implement") {
+    // Preserve the standalone implement behaviour: derive criteria from plan.md
+    try {
+      input = (await extractCriteriaFromPlan(featureName, projectPath)) as unknown as Record<string, unknown>;
+    } catch (error) {
+      throw new CliError(
+        `Could not extract criteria from plan.md: ${error instanceof Error ? error.message : String(error)}`,
+        EXIT_CODES.INPUT
+      );
+    }
+  } else {
+    throw new CliError(
+      `The ${phase} phase requires input. Usage: specfirst ${phase} ${featureName} --input <file|->`,
+      EXIT_CODES.USAGE
+    );
+  }
+
+  if (phase === "release" && args.batch && input.batchMode === undefined) {
+    input.batchMode = true;
+  }
+  if (phase === "release" && args.verify && input.verify === undefined) {
+    input.verify = true;
+  }
+  if (phase === "release" && args.merge && input.merge === undefined) {
+    input.merge = args.merge;
+  }
+
+  const result = await executePhase(phase, featureName, input, toOrchestratorOptions(args, projectPath));
+  return reportResult(result, featureName, io, args.json);
+}
+
+/**
+ * Runs `specfirst status <feature>`.
+ */
+async function runStatus(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const featureName = requireFeature(args);
+  const workflow = loadFeatureWorkflow(featureName, args, projectPath);
+  const options = { projectPath, workflow: workflow.name };
+  const status = await getWorkflowStatus(featureName, options);
+  const nextPhase = await detectNextPhase(featureName, options);
+
+  if (args.json) {
+    io.stdout(JSON.stringify({ feature: featureName, workflow: workflow.name, status, nextPhase }, null, 2));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  io.stdout(`📋 ${featureName} (workflow: ${workflow.name})`);
+  for (const phase of getPhaseNames(workflow)) {
+    io.stdout(`  ${status[phase] ? "✅" : "⬜"} ${phase}`);
+  }
+  io.stdout(nextPhase ? `➡️  Next: specfirst ${nextPhase} ${featureName}` : "🎉 All phases complete");
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst list`.
+ */
+function runList(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  if (args.positionals.length > 0) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  const features = listFeatures(projectPath);
+
+  if (args.json) {
+    io.stdout(JSON.stringify(features, null, 2));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (features.length === 0) {
+    io.stdout("No features tracked yet. Start one with: specfirst propose <feature> --input <file>");
+    return EXIT_CODES.SUCCESS;
+  }
+
+  for (const feature of features) {
+    io.stdout(`${feature.name}\t${feature.phase}\t${feature.status}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Formats one event log entry as a history line.
+ */
+function formatEvent(event: WorkflowEvent): string {
+  const time = event.at.toISOString().replace("T", " ").slice(0, 19);
+  const subject = event.subject ? `${event.subject}: ` : "";
+  const change = event.from ? `${event.from} → ${event.to ?? ""}` : event.to ?? "";
+  const detail = event.detail ? ` (${event.detail.split("\n")[0]})` : "";
+  const session = event.sessionId ? `, session ${event.sessionId}` : "";
+  return `${time}  ${event.type.padEnd(18)} ${subject}${change}${detail}  [${event.actor}${session}]`;
+}
+
+/**
+ * Runs `specfirst history <feature>`.
+ * Reads the event log, including events recorded before renames.
+ */
+function runHistory(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  const featureName = requireFeature(args);
+  if (args.positionals.length > 1) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.slice(1).join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  const events = getFeatureHistory(featureName, projectPath);
+
+  if (args.json) {
+    io.stdout(JSON.stringify(events, null, 2));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (events.length === 0) {
+    io.stdout(`No events recorded for ${featureName}`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  io.stdout(`📜 ${featureName}`);
+  for (const event of events) {
+    io.stdout(formatEvent(event));
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst graph`.
+ * JSON output lists feature IDs in queue order plus the dependency edges.
+ */
+function runGraph(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  if (args.positionals.length > 0) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  const format = (args.format ?? "mermaid") as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    throw new CliError(`Unknown graph format: ${args.format} (expected ${GRAPH_FORMATS.join(" or ")})`, EXIT_CODES.USAGE);
+  }
+
+  const { features, dependencies } = getFeatureGraph(projectPath);
+
+  if (args.json) {
+    io.stdout(JSON.stringify({ queue: features.map(f => f.id), dependencies }, null, 2));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  io.stdout(formatFeatureGraph(format, features, dependencies));
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst reopen <feature> <phase>`.
+ */
+async function runReopen(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const [featureName, phase, ...extra] = args.positionals;
+  if (featureName) assertFeatureName(featureName);
+  const phases: string[] = featureName ? getPhaseNames(loadFeatureWorkflow(featureName, args, projectPath)) : PHASE_COMMANDS;
+
+  if (!featureName || !phase || extra.length > 0 || !phases.includes(phase)) {
+    throw new CliError(`Usage: specfirst reopen <feature> <${phases.join("|")}>`, EXIT_CODES.USAGE);
+  }
+
+  const result = await reopenPhase(featureName, phase, { projectPath, reason: args.reason });
+
+  if (!result.success) {
+    io.stderr(`❌ ${result.error}`);
+    return EXIT_CODES.PHASE_FAILED;
+  }
+
+  io.stdout(`🔁 ${result.message}`);
+  for (const path of result.staleArtifacts) {
+    io.stdout(`  ⚠️  Marked for review: ${path}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst rename <feature> <new-name>`.
+ */
+async function runRename(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const [featureName, newName, ...extra] = args.positionals;
+  if (!featureName || !newName || extra.length > 0) {
+    throw new CliError("Usage: specfirst rename <feature> <new-name> [--title <text>]", EXIT_CODES.USAGE);
+  }
+  assertFeatureName(featureName);
+  assertFeatureName(newName);
+
+  const result = await renameFeature(featureName, newName, { projectPath, title: args.title });
+
+  if (!result.success) {
+    io.stderr(`❌ ${result.error}`);
+    return EXIT_CODES.PHASE_FAILED;
+  }
+
+  io.stdout(`✏️  ${result.message}`);
+  for (const path of result.movedPaths) {
+    io.stdout(`  Moved to ${path}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst migrate [<feature>...]`.
+ * Moves artifacts from the other storage mode (or --from) into the
+ * configured one.
+ */
+async function runMigrate(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  if (args.from !== undefined && !STORAGE_MODES.includes(args.from as StorageMode)) {
+    throw new CliError(`Usage: specfirst migrate [<feature>...] [--from ${STORAGE_MODES.join("|")}]`, EXIT_CODES.USAGE);
+  }
+  const features = args.positionals.map(assertFeatureName);
+
+  const result = await migrateStorage({
+    projectPath,
+    from: args.from as StorageMode | undefined,
+    features: features.length > 0 ? features : undefined,
+  });
+
+  if (args.json) {
+    io.stdout(JSON.stringify(result, null, 2));
+  }
+  if (!result.success) {
+    io.stderr(`❌ ${result.error}`);
+    return EXIT_CODES.PHASE_FAILED;
+  }
+  if (args.json) {
+    return EXIT_CODES.SUCCESS;
+  }
+
+  io.stdout(`📦 ${result.message}`);
+  for (const move of result.migrated) {
+    io.stdout(`  ${move.featureName}: ${move.from} → ${move.to}`);
+  }
+  if (result.skipped.length > 0) {
+    io.stdout(`  No artifacts to move for: ${result.skipped.join(", ")}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst templates`.
+ * Exits with GATE_FAILED when an override would render an artifact the
+ * validator or parser rejects.
+ */
+function runTemplates(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  if (args.positionals.length > 0) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  const specs = [proposalTemplate, specTemplate, planTemplate, tasksTemplate] as ArtifactTemplateSpec[];
+  const report = specs.map(spec => {
+    const template = resolveTemplate(spec.name, { projectPath });
+    const errors = template.source === "builtin" ? [] : validateTemplate(spec, template.content, { projectPath });
+    return { name: spec.name, source: template.source, path: template.path, errors };
+  });
+
+  if (args.json) {
+    io.stdout(JSON.stringify(report, null, 2));
+  } else {
+    for (const entry of report) {
+      io.stdout(`${entry.errors.length > 0 ? "❌" : "✅"} ${entry.name}.md: ${entry.source} (${entry.path})`);
+      for (const error of entry.errors) {
+        io.stdout(`    ${error}`);
+      }
+    }
+  }
+
+  return report.some(entry => entry.errors.length > 0) ? EXIT_CODES.GATE_FAILED : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst workflows`.
+ * Exits with GATE_FAILED when a workflow definition is invalid.
+ */
+function runWorkflows(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  if (args.positionals.length > 0) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  let workflows: WorkflowDefinition[];
+  try {
+    workflows = listWorkflows({ projectPath });
+  } catch (error) {
+    if (error instanceof WorkflowError) {
+      io.stderr(`❌ ${error.message}`);
+      return EXIT_CODES.GATE_FAILED;
+    }
+    throw error;
+  }
+
+  if (args.json) {
+    io.stdout(JSON.stringify(workflows, null, 2));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  for (const workflow of workflows) {
+    io.stdout(`${workflow.name} (${workflow.source}${workflow.path ? `: ${workflow.path}` : ""})`);
+    if (workflow.description) {
+      io.stdout(`  ${workflow.description}`);
+    }
+    io.stdout(`  ${getPhaseNames(workflow).join(" → ")}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst config`.
+ * Exits with GATE_FAILED when a config file or SPECFIRST_* variable is invalid.
+ */
+function runConfig(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  if (args.positionals.length > 0) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  let entries: ConfigEntry[];
+  try {
+    entries = describeConfig(projectPath);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      io.stderr(`❌ ${error.message}`);
+      return EXIT_CODES.GATE_FAILED;
+    }
+    throw error;
+  }
+
+  if (args.json) {
+    io.stdout(JSON.stringify(entries, null, 2));
+    return EXIT_CODES.SUCCESS;
+  }
+
+  for (const entry of entries) {
+    const origin = entry.origin ? `: ${entry.origin}` : "";
+    io.stdout(`${entry.fileKey} = ${JSON.stringify(entry.value)} (${entry.source}${origin})`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst commit`.
+ * Commits the phase markers queued while auto-commit was off.
+ */
+async function runCommit(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  if (args.positionals.length > 0) {
+    throw new CliError(`Unexpected arguments: ${args.positionals.join(" ")}`, EXIT_CODES.USAGE);
+  }
+
+  const result = await commitPendingMarkers(projectPath);
+  if (!result.success) {
+    io.stderr(`❌ Commit failed: ${result.stderr || result.error?.message}`);
+    return EXIT_CODES.PHASE_FAILED;
+  }
+
+  if (!result.stdout) {
+    io.stdout("No pending phase markers");
+    return EXIT_CODES.SUCCESS;
+  }
+  for (const subject of result.stdout.split("\n")) {
+    io.stdout(`✅ ${subject}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst doctor [<feature>...]`.
+ * Exits with GATE_FAILED when issues remain after any repairs.
+ */
+async function runDoctorCommand(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const features = args.positionals.map(assertFeatureName);
+
+  const report = await runDoctor({
+    projectPath,
+    features: features.length > 0 ? features : undefined,
+    repair: args.repair,
+    rebuild: args.rebuild,
+  });
+  const exitCode = report.remaining > 0 ? EXIT_CODES.GATE_FAILED : EXIT_CODES.SUCCESS;
+
+  if (args.json) {
+    io.stdout(JSON.stringify(report, null, 2));
+    return exitCode;
+  }
+
+  if (report.backupPath) {
+    io.stdout(`🗄️  Previous database moved to ${report.backupPath}`);
+  }
+  for (const issue of report.issues) {
+    io.stdout(`❌ ${issue.message}`);
+  }
+  for (const feature of report.features) {
+    if (feature.issues.length === 0) {
+      io.stdout(`✅ ${feature.featureName}: consistent (${feature.expectedPhase})`);
+      continue;
+    }
+    io.stdout(`🩺 ${feature.featureName} (workflow: ${feature.workflow || "unknown"})`);
+    const recorded = feature.record ? `${feature.record.phase}, ${feature.record.status}` : "no record";
+    io.stdout(`   git: ${feature.completedPhases.join(", ") || "no phases complete"}   database: ${recorded}`);
+    for (const issue of feature.issues) {
+      const mark = issue.repaired ? "🔧" : issue.repairable ? "⚠️ " : "❌";
+      io.stdout(`   ${mark} ${issue.kind}: ${issue.message}${issue.repaired ? " (repaired)" : ""}`);
+    }
+  }
+
+  if (report.features.length === 0 && report.issues.length === 0) {
+    io.stdout("No features found");
+  } else if (report.remaining === 0) {
+    io.stdout("✅ Git markers, artifacts and database agree");
+  } else {
+    const repairable = [...report.issues, ...report.features.flatMap(f => f.issues)]
+      .filter(issue => issue.repairable && !issue.repaired).length;
+    const hint = repairable > 0 ? `; run specfirst doctor --repair to fix ${repairable}` : "";
+    io.stdout(`${report.remaining} issue${report.remaining === 1 ? "" : "s"} remaining${hint}`);
+  }
+  return exitCode;
+}
+
+/**
+ * Runs `specfirst validate <feature|path>`.
+ * A target that exists on disk is validated directly; otherwise it is
+ * treated as a feature name and its tasks.md is validated.
+ */
+function runValidate(args: CliArgs, projectPath: string, io: CliIO): ExitCode {
+  const config = getConfig(projectPath);
+  const target = requireTarget(args);
+  const tasksPath = existsSync(target) ? target : config.getFeaturePaths(assertFeatureName(target)).tasksPath;
+
+  if (!existsSync(tasksPath)) {
+    throw new CliError(`tasks.md not found at ${tasksPath}`, EXIT_CODES.INPUT);
+  }
+
+  const result = validateISCFormat(readFileSync(tasksPath, "utf-8"), config);
+  io.stdout(formatValidationResult(result));
+  return result.passed ? EXIT_CODES.SUCCESS : EXIT_CODES.GATE_FAILED;
+}
+
+/**
+ * Runs `specfirst trace <feature>`.
+ * Exits with GATE_FAILED when a MUST requirement is uncovered.
+ */
+async function runTrace(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const featureName = requireFeature(args);
+  const { matrix, warnings } = await loadTraceabilityMatrix(featureName, undefined, projectPath);
+
+  if (!matrix) {
+    throw new CliError(warnings.join("\n"), EXIT_CODES.INPUT);
+  }
+
+  io.stdout(args.json ? formatTraceabilityJSON(matrix) : formatTraceabilityMarkdown(matrix));
+  for (const warning of warnings) {
+    io.stderr(`⚠️  ${warning}`);
+  }
+  return matrix.uncoveredMust.length > 0 ? EXIT_CODES.GATE_FAILED : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs `specfirst verify <feature>`.
+ * Exits with GATE_FAILED when any verify step fails.
+ */
+async function runVerify(args: CliArgs, projectPath: string, io: CliIO): Promise<ExitCode> {
+  const featureName = requireFeature(args);
+  const tasksPath = getArtifactPath(featureName, "tasks", projectPath);
+
+  if (!existsSync(tasksPath)) {
+    throw new CliError(`tasks.md not found at ${tasksPath}`, EXIT_CODES.INPUT);
+  }
+
+  const report = await verifyFeature(featureName, { projectPath });
+  io.stdout(args.json ? JSON.stringify(report, null, 2) : formatVerificationReport(report));
+  return report.summary.failed > 0 ? EXIT_CODES.GATE_FAILED : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Runs the CLI with the given arguments.
+ *
+ * @param argv - Arguments without runtime and script path
+ * @param io - I/O channels (defaults to console and process.stdin)
+ * @returns Exit code
+ *
+ * @example
+ * ```typescript
+ * const code = await runCli(["status", "user-auth", "--json"]);
+ * process.exit(code);
+ * ```
+ */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<ExitCode> {
+  try {
+    const args = parseArgs(argv);
+
+    if (args.help || args.command === null || args.command === "help") {
+      io.stdout(USAGE);
+      return args.command === null && !args.help ? EXIT_CODES.USAGE : EXIT_CODES.SUCCESS;
+    }
+
+    const projectPath = args.project ?? process.cwd();
+
+    if ((PHASE_COMMANDS as string[]).includes(args.command)) {
+      return await runPhaseCommand(args.command, args, projectPath, io);
+    }
+
+    switch (args.command) {
+      case "status":
+        return await runStatus(args, projectPath, io);
+      case "resume": {
+        const featureName = requireFeature(args);
+        const result = await resumeFeature(featureName, projectPath, toOrchestratorOptions(args, projectPath));
+        return reportResult(result, featureName, io, args.json);
+      }
+      case "history":
+        return runHistory(args, projectPath, io);
+      case "list":
+        return runList(args, projectPath, io);
+      case "graph":
+        return runGraph(args, projectPath, io);
+      case "validate":
+        return runValidate(args, projectPath, io);
+      case "trace":
+        return await runTrace(args, projectPath, io);
+      case "verify":
+        return await runVerify(args, projectPath, io);
+      case "reopen":
+        return await runReopen(args, projectPath, io);
+      case "rename":
+        return await runRename(args, projectPath, io);
+      case "migrate":
+        return await runMigrate(args, projectPath, io);
+      case "templates":
+        return runTemplates(args, projectPath, io);
+      case "workflows":
+        return runWorkflows(args, projectPath, io);
+      case "config":
+        return runConfig(args, projectPath, io);
+      case "commit":
+        return await runCommit(args, projectPath, io);
+      case "doctor":
+        return await runDoctorCommand(args, projectPath, io);
+      default: {
+        // Custom phases of the feature's workflow
+        const featureName = args.positionals[0];
+        if (featureName && getWorkflowPhase(loadFeatureWorkflow(featureName, args, projectPath), args.command)) {
+          return await runPhaseCommand(args.command, args, projectPath, io);
+        }
+        throw new CliError(`Unknown command: ${args.command}\n\n${USAGE}`, EXIT_CODES.USAGE);
+      }
+    }
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.stderr(`❌ ${error.message}`);
+      return error.exitCode;
+    }
+    io.stderr(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_CODES.PHASE_FAILED;
+  }
+}
+
+if (import.meta.main) {
+  const code = await runCli(process.argv.slice(2));
+  process.exit(code);
+}
@@ -2,9 +2,11 @@
  * Artifact Gate - SpecFirst 3.0
  * 
  * Validates that required artifacts exist before a phase can run.
- * Each phase has dependencies on artifacts from previous phases.
+ * Each phase has dependencies on artifacts from previous phases, as
+ * declared by the feature's workflow (lib/workflow). Artifacts larger than
+ * the configured artifacts.maxSizeKb also fail the gate.
  * 
- * Phase Dependencies:
+ * Default Workflow Dependencies:
  * - propose: constitution only
  * - specify: constitution, proposal
  * - plan: constitution, proposal, spec
@@ -15,8 +17,15 @@
  * @version 3.0.0
  */
 
-import { existsSync } from "fs";
-import { getArtifactPath } from "../lib/config";
+import { existsSync, statSync } from "fs";
+import { getArtifactPath, getConfig } from "../lib/config";
+import {
+  DEFAULT_WORKFLOW,
+  resolveFeatureWorkflow,
+  getWorkflowPhase,
+  type WorkflowArtifact,
+  type WorkflowDefinition,
+} from "../lib/workflow";
 
 export type Phase = "propose" | "specify" | "plan" | "implement" | "release";
 
@@ -24,31 +33,24 @@ export interface GateResult {
   passed: boolean;
   error?: string;
   missingArtifacts?: string[];
+  oversizedArtifacts?: string[];
   resolution?: string;
 }
 
 /**
- * Maps each phase to its required artifacts.
+ * Maps each phase of the default workflow to its required artifacts.
  * Each phase requires all artifacts from previous phases plus its own prerequisites.
  */
-const PHASE_REQUIREMENTS: Record<Phase, Array<"constitution" | "proposal" | "spec" | "plan" | "tasks">> = {
-  propose: ["constitution"],
-  specify: ["constitution", "proposal"],
-  plan: ["constitution", "proposal", "spec"],
-  implement: ["constitution", "proposal", "spec", "plan"],
-  release: ["constitution", "proposal", "spec", "plan", "tasks"],
-};
+const PHASE_REQUIREMENTS = Object.fromEntries(
+  DEFAULT_WORKFLOW.phases.map(p => [p.name, p.requires])
+) as Record<Phase, WorkflowArtifact[]>;
 
 /**
- * Maps phases to their previous phase for resolution suggestions.
+ * Maps phases of the default workflow to their previous phase for resolution suggestions.
  */
-const PREVIOUS_PHASE: Record<Phase, string | null> = {
-  propose: null,
-  specify: "propose",
-  plan: "specify",
-  implement: "plan",
-  release: "implement",
-};
+const PREVIOUS_PHASE = Object.fromEntries(
+  DEFAULT_WORKFLOW.phases.map((p, i) => [p.name, i > 0 ? DEFAULT_WORKFLOW.phases[i - 1].name : null])
+) as Record<Phase, string | null>;
 
 /**
  * Validates that all required artifacts exist for a given phase.
@@ -56,8 +58,10 @@ const PREVIOUS_PHASE: Record<Phase, string | null> = {
  * This gate ensures sequential phase execution by checking that all
  * artifacts from previous phases have been created.
  * 
- * @param phase - The phase to validate (propose, specify, plan, implement, release)
+ * @param phase - The phase to validate (a phase of the feature's workflow)
  * @param featureName - The feature name (used to locate artifacts)
+ * @param workflow - Workflow to check against (default: the feature's assigned workflow in projectPath)
+ * @param projectPath - Project whose storage settings apply (defaults to cwd)
  * @returns GateResult with pass/fail status and missing artifact details
  * 
  * @example
@@ -69,26 +73,39 @@ const PREVIOUS_PHASE: Record<Phase, string | null> = {
  * }
  * ```
  */
-export async function artifactGate(phase: Phase, featureName: string): Promise<GateResult> {
+export async function artifactGate(
+  phase: Phase | (string & {}),
+  featureName: string,
+  workflow?: WorkflowDefinition,
+  projectPath?: string
+): Promise<GateResult> {
+  workflow ??= resolveFeatureWorkflow(featureName, { projectPath });
+  const workflowPhase = getWorkflowPhase(workflow, phase);
+  if (!workflowPhase) {
+    return {
+      passed: false,
+      error: `Cannot run ${phase} phase: it is not part of the '${workflow.name}' workflow`,
+      resolution: `Run one of: ${workflow.phases.map(p => p.name).join(", ")}`,
+    };
+  }
+
   // Get required artifacts for this phase
-  const requiredArtifacts = PHASE_REQUIREMENTS[phase];
+  const requiredArtifacts = workflowPhase.requires;
   
   // Check each required artifact and collect ALL missing ones
   const missingArtifacts: string[] = [];
   
   for (const artifactType of requiredArtifacts) {
-    const artifactPath = getArtifactPath(featureName, artifactType);
+    const artifactPath = getArtifactPath(featureName, artifactType, projectPath);
     
     if (!existsSync(artifactPath)) {
       missingArtifacts.push(`${artifactType}.md (${artifactPath})`);
     }
   }
   
-  // If all artifacts exist, gate passes
+  // If all artifacts exist and fit the size limit, gate passes
   if (missingArtifacts.length === 0) {
-    return {
-      passed: true,
-    };
+    return checkArtifactSizes(phase, featureName, requiredArtifacts, projectPath);
   }
   
   // Build error message listing ALL missing artifacts
@@ -99,7 +116,8 @@ export async function artifactGate(phase: Phase, featureName: string): Promise<G
   const error = `Cannot run ${phase} phase: missing required artifacts\n\n${artifactList}`;
   
   // Suggest running previous phase if available
-  const previousPhase = PREVIOUS_PHASE[phase];
+  const phaseIndex = workflow.phases.indexOf(workflowPhase);
+  const previousPhase = phaseIndex > 0 ? workflow.phases[phaseIndex - 1].name : null;
   const resolution = previousPhase
     ? `Run the '${previousPhase}' phase first to generate required artifacts.`
     : `Ensure project constitution exists before running ${phase}.`;
@@ -112,6 +130,33 @@ export async function artifactGate(phase: Phase, featureName: string): Promise<G
   };
 }
 
+/**
+ * Fails the gate when a required artifact exceeds artifacts.maxSizeKb.
+ */
+function checkArtifactSizes(
+  phase: string,
+  featureName: string,
+  requiredArtifacts: WorkflowArtifact[],
+  projectPath?: string
+): GateResult {
+  const { artifactMaxSizeKb } = getConfig(projectPath);
+  const oversizedArtifacts = requiredArtifacts
+    .map(artifactType => ({ artifactType, size: statSync(getArtifactPath(featureName, artifactType, projectPath)).size }))
+    .filter(({ size }) => size > artifactMaxSizeKb * 1024)
+    .map(({ artifactType, size }) => `${artifactType}.md (${Math.ceil(size / 1024)} KB)`);
+
+  if (oversizedArtifacts.length === 0) {
+    return { passed: true };
+  }
+
+  return {
+    passed: false,
+    error: `Cannot run ${phase} phase: artifacts exceed ${artifactMaxSizeKb} KB\n\n${oversizedArtifacts.map(a => `  - ${a}`).join("\n")}`,
+    oversizedArtifacts,
+    resolution: "Split the artifacts up, or raise artifacts.maxSizeKb in .specfirst/config.yaml.",
+  };
+}
+
 /**
  * Self-test function to validate gate behavior.
  * Tests all phase requirements and error handling.
@@ -6,10 +6,11 @@
  * Updated for Algorithm v1.8.0 compatibility.
  * 
  * Requirements:
- * - Criteria must be 8-12 words (v1.8.0 — was exactly 8)
+ * - Criteria must be 8-12 words (v1.8.0 — was exactly 8; range set by criteria.minWords/maxWords)
  * - Only valid status symbols (⬜ 🔄 ✅ ❌ for criteria, 👀 ✅ ❌ for anti-criteria)
  * - Table structure with ID, Criterion, Status, Evidence, Verify columns
- * - Required sections: IDEAL, ISC TRACKER, ANTI-CRITERIA, PROGRESS
+ * - Required sections: IDEAL, ISC TRACKER, ANTI-CRITERIA, PROGRESS (configurable)
+ * - Frontmatter, when present, matches the tasks.md schema
  * - Quality Gate checks: QG1 (Count), QG2 (Word count), QG3 (State not action),
  *   QG4 (Binary testable), QG5 (Anti-criteria exist)
  * 
@@ -17,6 +18,9 @@
  * @version 4.0.0
  */
 
+import { checkArtifactFrontmatter } from '../artifacts/frontmatter';
+import { getConfig, type ValidationSettings } from '../lib/config';
+
 export interface ValidationError {
   line: number;
   message: string;
@@ -35,14 +39,6 @@ export interface GateResult {
 const CRITERIA_STATUS_SYMBOLS = ['⬜', '🔄', '✅', '❌'];
 const ANTI_CRITERIA_STATUS_SYMBOLS = ['👀', '✅', '❌'];
 
-// Required sections
-const REQUIRED_SECTIONS = [
-  '## IDEAL',
-  '## ISC TRACKER',
-  '## ANTI-CRITERIA',
-  '## PROGRESS'
-];
-
 /**
  * Count words in a text string, handling markdown formatting
  */
@@ -85,8 +81,12 @@ function parseTableRow(line: string): string[] {
 
 /**
  * Validate ISC format in tasks.md content
+ * 
+ * @param content - Raw tasks.md content
+ * @param settings - Word range and required sections (default: getConfig())
  */
-export function validateISCFormat(content: string): GateResult {
+export function validateISCFormat(content: string, settings: ValidationSettings = getConfig()): GateResult {
+  const { iscMinWords: min, iscMaxWords: max } = settings;
   const errors: ValidationError[] = [];
   const warnings: string[] = [];
   const lines = content.split('\n');
@@ -97,15 +97,22 @@ export function validateISCFormat(content: string): GateResult {
   let foundAntiCriteria = false;
   
   // Check for required sections
-  for (const section of REQUIRED_SECTIONS) {
-    if (!content.includes(section)) {
+  for (const section of settings.requiredSections.tasks) {
+    if (!content.includes(`## ${section}`)) {
       errors.push({
         line: 0,
-        message: `Missing required section: ${section}`
+        message: `Missing required section: ## ${section}`
       });
     }
   }
   
+  // Frontmatter is optional in tasks.md, but must be valid when present
+  if (content.startsWith('---')) {
+    for (const error of checkArtifactFrontmatter(content, 'implement')) {
+      errors.push({ line: error.line ?? 1, message: error.message });
+    }
+  }
+  
   // If anti-criteria section exists, mark as found
   if (content.includes('## ANTI-CRITERIA')) {
     foundAntiCriteria = true;
@@ -175,20 +182,20 @@ export function validateISCFormat(content: string): GateResult {
         .replace(/\s*\[(CRITICAL|IMPORTANT|NICE)\]\s*/g, '')
         .trim();
       
-      // Validate word count (8-12 words, Algorithm v1.8.0)
+      // Validate word count (8-12 words by default, Algorithm v1.8.0)
       const wordCount = countWords(cleanCriterion);
-      if (wordCount < 8 || wordCount > 12) {
-        if (wordCount === 7 || wordCount === 13) {
+      if (wordCount < min || wordCount > max) {
+        if (wordCount === min - 1 || wordCount === max + 1) {
           warnings.push(
-            `Line ${lineNum}: Criterion has ${wordCount} words (expected 8-12): "${criterion}"`
+            `Line ${lineNum}: Criterion has ${wordCount} words (expected ${min}-${max}): "${criterion}"`
           );
         }
         errors.push({
           line: lineNum,
-          message: `Criterion must be 8-12 words (Algorithm v1.8.0)`,
+          message: `Criterion must be ${min}-${max} words (Algorithm v1.8.0)`,
           criterion,
           actual: wordCount,
-          expected: 12 // Upper bound for display
+          expected: max // Upper bound for display
         });
       }
       
@@ -219,20 +226,20 @@ export function validateISCFormat(content: string): GateResult {
         });
       }
       
-      // Validate word count for anti-criteria too (8-12 words, Algorithm v1.8.0)
+      // Validate word count for anti-criteria too (8-12 words by default, Algorithm v1.8.0)
       const wordCount = countWords(criterion);
-      if (wordCount < 8 || wordCount > 12) {
-        if (wordCount === 7 || wordCount === 13) {
+      if (wordCount < min || wordCount > max) {
+        if (wordCount === min - 1 || wordCount === max + 1) {
           warnings.push(
-            `Line ${lineNum}: Anti-criterion has ${wordCount} words (expected 8-12): "${criterion}"`
+            `Line ${lineNum}: Anti-criterion has ${wordCount} words (expected ${min}-${max}): "${criterion}"`
           );
         }
         errors.push({
           line: lineNum,
-          message: `Anti-criterion must be 8-12 words (Algorithm v1.8.0)`,
+          message: `Anti-criterion must be ${min}-${max} words (Algorithm v1.8.0)`,
           criterion,
           actual: wordCount,
-          expected: 12
+          expected: max
         });
       }
     }
@@ -276,9 +283,11 @@ const ACTION_VERBS = [
  * QG5: At least 1 anti-criterion exists
  * 
  * @param content - Raw tasks.md content
+ * @param settings - Word range for QG2 (default: getConfig())
  * @returns QualityGateResult with individual check results
  */
-export function runQualityGate(content: string): QualityGateResult {
+export function runQualityGate(content: string, settings: ValidationSettings = getConfig()): QualityGateResult {
+  const { iscMinWords: min, iscMaxWords: max } = settings;
   const lines = content.split('\n');
   const criteria: string[] = [];
   const antiCriteria: string[] = [];
@@ -312,17 +321,17 @@ export function runQualityGate(content: string): QualityGateResult {
       : `FAIL: only ${criteria.length} criteria (need >= 4)`,
   };
   
-  // QG2: All 8-12 words
+  // QG2: All 8-12 words (configured range)
   const wordCountIssues = criteria.filter(c => {
     const clean = c.replace(/\s*\[(E|I|R)\]\s*/g, '').replace(/\s*\[(CRITICAL|IMPORTANT|NICE)\]\s*/g, '').trim();
     const wc = countWords(clean);
-    return wc < 8 || wc > 12;
+    return wc < min || wc > max;
   });
   const qg2 = {
     passed: wordCountIssues.length === 0,
     message: wordCountIssues.length === 0
-      ? `PASS: all criteria 8-12 words`
-      : `FAIL: ${wordCountIssues.length} criteria outside 8-12 word range`,
+      ? `PASS: all criteria ${min}-${max} words`
+      : `FAIL: ${wordCountIssues.length} criteria outside ${min}-${max} word range`,
   };
   
   // QG3: State not action (no verb at start)
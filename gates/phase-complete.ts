@@ -15,6 +15,8 @@
 import { readFileSync } from "fs";
 import { isPhaseComplete } from "../lib/git";
 import { getArtifactPath } from "../lib/config";
+import { parseFrontmatter, extractFrontmatter } from "../artifacts/frontmatter";
+import type { ValidationError } from "../artifacts/types";
 
 export type Phase = "propose" | "specify" | "plan" | "implement" | "release";
 
@@ -38,56 +40,19 @@ export interface GateResult {
   resolution?: string;
 }
 
-/**
- * Parses YAML frontmatter from markdown content.
- * 
- * Extracts key-value pairs from between --- markers.
- * 
- * @param content - Full markdown file content
- * @returns Object with frontmatter key-value pairs
- * 
- * @example
- * ```typescript
- * const content = "---\nstatus: complete\n---\nBody";
- * const fm = parseFrontmatter(content);
- * console.log(fm.status); // "complete"
- * ```
- */
-function parseFrontmatter(content: string): Record<string, string> {
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-  
-  if (!frontmatterMatch) {
-    return {};
-  }
-  
-  const frontmatterText = frontmatterMatch[1];
-  const result: Record<string, string> = {};
-  
-  // Parse each line as key: value
-  for (const line of frontmatterText.split("\n")) {
-    const colonIndex = line.indexOf(":");
-    if (colonIndex === -1) continue;
-    
-    const key = line.slice(0, colonIndex).trim();
-    const value = line.slice(colonIndex + 1).trim();
-    
-    result[key] = value;
-  }
-  
-  return result;
-}
-
 /**
  * Validates that a phase has been completed properly.
  * 
  * Checks two completion criteria:
  * 1. Git commit exists with message: "SpecFirst: {phase} phase complete for {feature}"
+ *    (matched on its SpecFirst-Feature/SpecFirst-Phase trailers, see isPhaseComplete)
  * 2. Artifact frontmatter has status: complete
  * 
  * Both criteria must pass for the gate to pass.
  * 
  * @param phase - The phase to verify (propose, specify, plan, implement, release)
  * @param featureName - The feature name
+ * @param projectPath - Project whose git history and storage settings apply (defaults to cwd)
  * @returns GateResult with detailed pass/fail status
  * 
  * @example
@@ -102,14 +67,15 @@ function parseFrontmatter(content: string): Record<string, string> {
  */
 export async function phaseCompleteGate(
   phase: Phase,
-  featureName: string
+  featureName: string,
+  projectPath?: string
 ): Promise<GateResult> {
   // 1. Check git commit exists for phase
-  const gitCommitFound = await isPhaseComplete(phase, featureName);
+  const gitCommitFound = await isPhaseComplete(phase, featureName, projectPath);
   
   // 2. Read artifact file
   const artifactType = PHASE_ARTIFACT[phase];
-  const artifactPath = getArtifactPath(featureName, artifactType);
+  const artifactPath = getArtifactPath(featureName, artifactType, projectPath);
   
   let frontmatterComplete = false;
   let fileContent = "";
@@ -127,8 +93,11 @@ export async function phaseCompleteGate(
     };
   }
   
-  // 3. Parse YAML frontmatter
-  const frontmatter = parseFrontmatter(fileContent);
+  // 3. Parse YAML frontmatter (a syntax error is reported instead of the status)
+  const frontmatterErrors: ValidationError[] = [];
+  const block = extractFrontmatter(fileContent, frontmatterErrors);
+  const frontmatter = block?.data ?? {};
+  const syntaxError = block?.invalid ? frontmatterErrors[0] : undefined;
   
   // 4. Check status: complete
   frontmatterComplete = frontmatter.status === "complete";
@@ -153,8 +122,10 @@ export async function phaseCompleteGate(
     );
   }
   
-  if (!frontmatterComplete) {
-    const actualStatus = frontmatter.status || "(missing)";
+  if (syntaxError) {
+    errors.push(`❌ Artifact frontmatter line ${syntaxError.line}: ${syntaxError.message}`);
+  } else if (!frontmatterComplete) {
+    const actualStatus = frontmatter.status ? String(frontmatter.status) : "(missing)";
     errors.push(
       `❌ Artifact frontmatter status is "${actualStatus}", expected "complete"`
     );
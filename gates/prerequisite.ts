@@ -8,14 +8,16 @@
  * 1. Constitution file exists (CONSTITUTION.md in project directory)
  * 2. Git repository exists (required for phase tracking)
  * 
+ * The project directory depends on the storage mode (lib/config): the
+ * project root with repo storage, `MEMORY/projects/<feature>` otherwise.
+ * 
  * @module gates/prerequisite
  * @version 3.0.0
  */
 
 import { existsSync } from "fs";
-import { getProjectDir } from "../lib/platform";
 import { isGitRepository } from "../lib/git";
-import { getArtifactPath } from "../lib/config";
+import { getConfig } from "../lib/config";
 
 export interface GateResult {
   passed: boolean;
@@ -31,6 +33,7 @@ export interface GateResult {
  * - Git repository exists (required for phase tracking via commits)
  * 
  * @param featureName - Feature name to validate prerequisites for
+ * @param projectPath - Project whose storage settings apply (defaults to cwd)
  * @returns GateResult with passed status and error/resolution if failed
  * 
  * @example
@@ -43,10 +46,10 @@ export interface GateResult {
  * }
  * ```
  */
-export async function prerequisiteGate(featureName: string): Promise<GateResult> {
-  // Check 1: Constitution file exists
-  const constitutionPath = getArtifactPath(featureName, "constitution");
+export async function prerequisiteGate(featureName: string, projectPath?: string): Promise<GateResult> {
+  const { constitutionPath, projectDir } = getConfig(projectPath).getFeaturePaths(featureName);
   
+  // Check 1: Constitution file exists
   if (!existsSync(constitutionPath)) {
     return {
       passed: false,
@@ -82,7 +85,6 @@ export async function prerequisiteGate(featureName: string): Promise<GateResult>
   }
 
   // Check 2: Git repository exists
-  const projectDir = getProjectDir(featureName);
   const isGitRepo = await isGitRepository(projectDir);
   
   if (!isGitRepo) {
@@ -0,0 +1,142 @@
+/**
+ * Traceability Gate - SpecFirst 4.0
+ *
+ * Blocks implement and release when a MUST-priority functional requirement
+ * in spec.md has no ISC criterion tracing back to it.
+ *
+ * Checks:
+ * 1. spec.md parses (otherwise the gate is skipped with a warning)
+ * 2. Every MUST functional requirement is listed in some criterion's `traces`
+ *
+ * @module gates/traceability
+ * @version 4.0.0
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { getArtifactPath } from "../lib/config";
+import { parseSpec } from "../artifacts/spec";
+import { parsePlan } from "../artifacts/plan";
+import { parseTasksFile } from "../artifacts/tasks";
+import { buildTraceabilityMatrix, type TraceabilityMatrix } from "../artifacts/traceability";
+import type { ISCCriterion } from "../artifacts/types";
+
+export interface GateResult {
+  passed: boolean;
+  error?: string;
+  resolution?: string;
+  /** True when spec.md was missing or unparseable and nothing was checked */
+  skipped?: boolean;
+  warnings: string[];
+  matrix?: TraceabilityMatrix;
+}
+
+/**
+ * Loads spec.md, plan.md and criteria and builds the traceability matrix.
+ *
+ * @param featureName - Feature name
+ * @param criteria - Criteria to check; read from tasks.md when omitted
+ * @param projectPath - Project whose artifacts are read (defaults to cwd)
+ * @returns Matrix, or null with a reason when spec.md is unusable
+ *
+ * @example
+ * ```typescript
+ * const { matrix } = await loadTraceabilityMatrix("user-auth");
+ * if (matrix) console.log(formatTraceabilityMarkdown(matrix));
+ * ```
+ */
+export async function loadTraceabilityMatrix(
+  featureName: string,
+  criteria?: ISCCriterion[],
+  projectPath?: string
+): Promise<{ matrix: TraceabilityMatrix | null; warnings: string[] }> {
+  const warnings: string[] = [];
+
+  const specPath = getArtifactPath(featureName, "spec", projectPath);
+  if (!existsSync(specPath)) {
+    return { matrix: null, warnings: [`spec.md not found at ${specPath}`] };
+  }
+
+  let spec;
+  try {
+    spec = parseSpec(await readFile(specPath, "utf-8"));
+  } catch (error) {
+    return {
+      matrix: null,
+      warnings: [`spec.md could not be parsed: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  let plan = null;
+  const planPath = getArtifactPath(featureName, "plan", projectPath);
+  if (existsSync(planPath)) {
+    try {
+      plan = parsePlan(await readFile(planPath, "utf-8"));
+    } catch {
+      warnings.push("plan.md could not be parsed; plan phases omitted from matrix");
+    }
+  }
+
+  let tracedCriteria = criteria;
+  if (!tracedCriteria) {
+    const tasksPath = getArtifactPath(featureName, "tasks", projectPath);
+    tracedCriteria = existsSync(tasksPath)
+      ? parseTasksFile(await readFile(tasksPath, "utf-8")).criteria
+      : [];
+  }
+
+  const matrix = buildTraceabilityMatrix(spec, plan, tracedCriteria);
+  for (const ref of matrix.unknownReferences) {
+    warnings.push(`${ref.source} traces unknown spec ID ${ref.id}`);
+  }
+
+  return { matrix, warnings };
+}
+
+/**
+ * Validates that every MUST functional requirement is covered by a criterion.
+ *
+ * @param featureName - Feature name
+ * @param criteria - Criteria about to be written (implement); read from tasks.md when omitted (release)
+ * @param projectPath - Project whose artifacts are read (defaults to cwd)
+ * @returns GateResult with the matrix attached
+ *
+ * @example
+ * ```typescript
+ * const result = await traceabilityGate("user-auth", input.criteria);
+ * if (!result.passed) {
+ *   console.error(result.error);
+ *   console.log(result.resolution);
+ * }
+ * ```
+ */
+export async function traceabilityGate(
+  featureName: string,
+  criteria?: ISCCriterion[],
+  projectPath?: string
+): Promise<GateResult> {
+  const { matrix, warnings } = await loadTraceabilityMatrix(featureName, criteria, projectPath);
+
+  if (!matrix) {
+    return { passed: true, skipped: true, warnings };
+  }
+
+  if (matrix.uncoveredMust.length > 0) {
+    return {
+      passed: false,
+      error: `${matrix.uncoveredMust.length} MUST requirement(s) have no covering ISC criterion: ${matrix.uncoveredMust.join(", ")}`,
+      resolution: [
+        "Add the requirement ID to the `traces` of at least one criterion, e.g.:",
+        "",
+        `  { id: 1, criterion: "...", status: "⬜", traces: ["${matrix.uncoveredMust[0]}"] }`,
+        "",
+        "In tasks.md, list IDs in the Traces column: | ISC-C1 | ... | Traces |",
+        "Run `specfirst trace <feature>` to see the full matrix.",
+      ].join("\n"),
+      warnings,
+      matrix,
+    };
+  }
+
+  return { passed: true, warnings, matrix };
+}
@@ -1,14 +1,62 @@
 /**
  * Environment Configuration Module - SpecFirst 3.0
  * 
- * Provides environment-based configuration with zero hardcoded paths.
+ * Provides layered configuration with zero hardcoded paths.
  * All paths are derived from platform detection.
  * 
+ * Settings are merged from (lowest priority first):
+ * 1. Built-in defaults
+ * 2. User config: `<skillDir>/config.yaml` (or `.yml` / `.json`)
+ * 3. Environment variables (`SPECFIRST_*`)
+ * 4. Project config: `<project>/.specfirst/config.yaml` (or `.yml` / `.json`)
+ * 
+ * ```yaml
+ * git:
+ *   autoCommit: false
+ *   branchPerFeature: true
+ * criteria:
+ *   minWords: 8
+ *   maxWords: 12
+ * artifacts:
+ *   storage: repo
+ *   maxSizeKb: 100
+ *   requiredSections:
+ *     spec: [Functional Requirements, User Stories]
+ * gates:
+ *   timeoutMs: 10000
+ * ```
+ * 
+ * Every value is validated; describeConfig() reports where each one came from.
+ * 
+ * Storage modes (`artifacts.storage`) decide where feature artifacts live:
+ * - `memory` (default): `<artifactRoot>/Features/<feature>/specs/`, with
+ *   artifactRoot defaulting to `MEMORY/execution` and the constitution in
+ *   `MEMORY/projects/<feature>/CONSTITUTION.md`
+ * - `repo`: `<artifactRoot>/<feature>/`, with artifactRoot defaulting to
+ *   `<project>/specs` and the constitution in `<project>/CONSTITUTION.md`,
+ *   so specs are committed next to the code they describe
+ * 
  * @module lib/config
  * @version 3.0.0
  */
 
-import { getPlatformInfo, getFeatureDir, getProjectDir, getSpecsDir, type PlatformInfo } from "./platform";
+import { YAML } from "bun";
+import { existsSync, readFileSync } from "fs";
+import { join, extname, isAbsolute, resolve } from "path";
+import { getPlatformInfo, type PlatformInfo } from "./platform";
+import { assertFeatureId } from "./feature-id";
+
+/** Artifacts whose required sections can be configured */
+export type SectionedArtifact = "proposal" | "spec" | "plan" | "tasks";
+
+/** Where feature artifacts are stored (see module docs) */
+export type StorageMode = "memory" | "repo";
+
+/** Storage modes accepted by `artifacts.storage` */
+export const STORAGE_MODES: readonly StorageMode[] = ["memory", "repo"];
+
+/** Where a setting's value came from */
+export type ConfigSource = "default" | "user" | "env" | "project";
 
 export interface SpecFirstConfig {
   // Platform info
@@ -25,14 +73,31 @@ export interface SpecFirstConfig {
   // Git configuration
   gitAutoCommit: boolean;
   gitBranch: string | undefined;
+  gitBranchPerFeature: boolean;
+  gitTimeoutMs: number;
   
   // Validation settings
-  iscWordCount: number;
+  iscMinWords: number;
+  iscMaxWords: number;
   artifactMaxSizeKb: number;
   gateTimeoutMs: number;
+  requiredSections: Record<SectionedArtifact, string[]>;
+  
+  // Artifact storage (see StorageMode)
+  storage: StorageMode;
+  artifactRoot: string;
+  projectPath: string;
 }
 
+/** The settings feature paths are derived from */
+export type StorageLayout = Pick<SpecFirstConfig, "storage" | "artifactRoot" | "projectPath">;
+
+/** The settings artifact validators and gates read */
+export type ValidationSettings = Pick<SpecFirstConfig, "iscMinWords" | "iscMaxWords" | "requiredSections">;
+
 export interface FeaturePaths {
+  /** Directory holding the constitution; must be a git repository */
+  projectDir: string;
   featureDir: string;
   specsDir: string;
   proposalPath: string;
@@ -42,16 +107,360 @@ export interface FeaturePaths {
   constitutionPath: string;
 }
 
+/** Settings that can be set in config files or the environment */
+export type ConfigKey =
+  | "gitAutoCommit"
+  | "gitBranch"
+  | "gitBranchPerFeature"
+  | "gitTimeoutMs"
+  | "iscMinWords"
+  | "iscMaxWords"
+  | "artifactMaxSizeKb"
+  | "gateTimeoutMs"
+  | "requiredSections"
+  | "storage"
+  | "artifactRoot";
+
+/** A resolved setting and where it came from (see describeConfig) */
+export interface ConfigEntry {
+  key: ConfigKey;
+  /** Key in config files, e.g. `git.autoCommit` */
+  fileKey: string;
+  /** Environment variable, if the setting has one */
+  env?: string;
+  value: unknown;
+  source: ConfigSource;
+  /** Config file path or environment variable the value was read from */
+  origin?: string;
+}
+
+/**
+ * Thrown when a config file or environment variable holds an invalid value.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   getConfig(projectPath);
+ * } catch (error) {
+ *   if (error instanceof ConfigError) console.error(error.errors.join("\n"));
+ * }
+ * ```
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = [],
+    public readonly path?: string
+  ) {
+    super(errors.length > 0 ? `${message}:\n${errors.map(e => `  - ${e}`).join("\n")}` : message);
+    this.name = "ConfigError";
+  }
+}
+
+// =============================================================================
+// Settings Schema
+// =============================================================================
+
+/** Sections each artifact validator requires by default */
+export const DEFAULT_REQUIRED_SECTIONS: Readonly<Record<SectionedArtifact, readonly string[]>> = {
+  proposal: ["Problem Statement", "Solution Approaches", "Recommended Approach"],
+  spec: ["Functional Requirements", "Non-Functional Requirements", "User Stories", "Success Criteria"],
+  plan: ["Executive Summary", "Implementation Phases", "Testing Strategy", "Risk Matrix"],
+  tasks: ["IDEAL", "ISC TRACKER", "ANTI-CRITERIA", "PROGRESS"],
+};
+
+/** Config file names searched in each directory, in order */
+const CONFIG_FILES = ["config.yaml", "config.yml", "config.json"];
+
+type SettingType = "boolean" | "integer" | "string" | "path" | "sections" | "storage";
+
+interface SettingSpec {
+  key: ConfigKey;
+  fileKey: string;
+  env?: string;
+  type: SettingType;
+  /** Smallest accepted value for integers */
+  min?: number;
+  /** Default value; settings listed earlier are already resolved */
+  default: (context: { platform: PlatformInfo; projectPath: string; resolved: Partial<Record<ConfigKey, unknown>> }) => unknown;
+}
+
+const SETTINGS: SettingSpec[] = [
+  { key: "gitAutoCommit", fileKey: "git.autoCommit", env: "SPECFIRST_AUTO_COMMIT", type: "boolean", default: () => true },
+  { key: "gitBranch", fileKey: "git.branch", env: "SPECFIRST_BRANCH", type: "string", default: () => undefined },
+  { key: "gitBranchPerFeature", fileKey: "git.branchPerFeature", env: "SPECFIRST_BRANCH_PER_FEATURE", type: "boolean", default: () => false },
+  { key: "gitTimeoutMs", fileKey: "git.timeoutMs", env: "SPECFIRST_GIT_TIMEOUT_MS", type: "integer", min: 1, default: () => 30000 },
+  { key: "iscMinWords", fileKey: "criteria.minWords", env: "SPECFIRST_ISC_MIN_WORDS", type: "integer", min: 1, default: () => 8 },
+  { key: "iscMaxWords", fileKey: "criteria.maxWords", env: "SPECFIRST_ISC_MAX_WORDS", type: "integer", min: 1, default: () => 12 },
+  { key: "artifactMaxSizeKb", fileKey: "artifacts.maxSizeKb", env: "SPECFIRST_MAX_ARTIFACT_KB", type: "integer", min: 1, default: () => 50 },
+  { key: "gateTimeoutMs", fileKey: "gates.timeoutMs", env: "SPECFIRST_GATE_TIMEOUT_MS", type: "integer", min: 1, default: () => 5000 },
+  { key: "requiredSections", fileKey: "artifacts.requiredSections", type: "sections", default: () => cloneSections(DEFAULT_REQUIRED_SECTIONS) },
+  { key: "storage", fileKey: "artifacts.storage", env: "SPECFIRST_STORAGE", type: "storage", default: () => "memory" },
+  {
+    key: "artifactRoot", fileKey: "artifacts.root", env: "SPECFIRST_ARTIFACT_ROOT", type: "path",
+    default: ({ resolved, projectPath }) => getDefaultArtifactRoot(resolved.storage as StorageMode, projectPath),
+  },
+];
+
+/** Top-level config file sections and the keys they accept */
+const FILE_SCHEMA = SETTINGS.reduce<Record<string, string[]>>((schema, setting) => {
+  const [section, name] = setting.fileKey.split(".");
+  (schema[section] ??= []).push(name);
+  return schema;
+}, {});
+
+function cloneSections(sections: Readonly<Record<SectionedArtifact, readonly string[]>>): Record<SectionedArtifact, string[]> {
+  return {
+    proposal: [...sections.proposal],
+    spec: [...sections.spec],
+    plan: [...sections.plan],
+    tasks: [...sections.tasks],
+  };
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Checks a value against a setting's type, recording an error on mismatch.
+ * Relative paths are resolved against the project.
+ */
+function parseSettingValue(
+  setting: SettingSpec,
+  value: unknown,
+  label: string,
+  projectPath: string,
+  errors: string[]
+): unknown {
+  switch (setting.type) {
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      errors.push(`${label} must be true or false, got ${JSON.stringify(value)}`);
+      return undefined;
+    case "integer": {
+      const number = typeof value === "string" && /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isInteger(number)) {
+        errors.push(`${label} must be an integer, got ${JSON.stringify(value)}`);
+        return undefined;
+      }
+      if (setting.min !== undefined && number < setting.min) {
+        errors.push(`${label} must be at least ${setting.min}, got ${number}`);
+        return undefined;
+      }
+      return number;
+    }
+    case "string":
+    case "path":
+      if (typeof value !== "string" || value.trim() === "") {
+        errors.push(`${label} must be a non-empty string`);
+        return undefined;
+      }
+      return setting.type === "path" && !isAbsolute(value) ? resolve(projectPath, value) : value;
+    case "storage":
+      if (!STORAGE_MODES.includes(value as StorageMode)) {
+        errors.push(`${label} must be one of ${STORAGE_MODES.join(", ")}, got ${JSON.stringify(value)}`);
+        return undefined;
+      }
+      return value;
+    case "sections": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push(`${label} must map proposal, spec, plan or tasks to a list of section titles`);
+        return undefined;
+      }
+      const sections: Partial<Record<SectionedArtifact, string[]>> = {};
+      for (const [artifact, titles] of Object.entries(value)) {
+        if (!(artifact in DEFAULT_REQUIRED_SECTIONS)) {
+          errors.push(`${label}.${artifact} is not an artifact (expected proposal, spec, plan or tasks)`);
+        } else if (!Array.isArray(titles) || titles.some(t => typeof t !== "string" || t.trim() === "")) {
+          errors.push(`${label}.${artifact} must be a list of section titles`);
+        } else {
+          sections[artifact as SectionedArtifact] = titles.map((t: string) => t.replace(/^#+\s*/, "").trim());
+        }
+      }
+      return sections;
+    }
+  }
+}
+
+/**
+ * Finds the first config file in a directory.
+ */
+function findConfigFile(dir: string): string | undefined {
+  return CONFIG_FILES.map(name => join(dir, name)).find(path => existsSync(path));
+}
+
+/**
+ * Reads and validates a config file into setting values.
+ *
+ * @throws ConfigError if the file cannot be parsed or holds invalid values
+ */
+function readConfigFile(path: string, projectPath: string): Partial<Record<ConfigKey, unknown>> {
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, "utf-8");
+    raw = extname(path) === ".json" ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Cannot read config ${path}: ${error instanceof Error ? error.message : String(error)}`, [], path);
+  }
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(`Invalid config ${path}`, ["top level must be a mapping"], path);
+  }
+
+  const errors: string[] = [];
+  for (const [section, entries] of Object.entries(raw)) {
+    if (!(section in FILE_SCHEMA)) {
+      errors.push(`unknown section "${section}" (expected ${Object.keys(FILE_SCHEMA).join(", ")})`);
+    } else if (typeof entries !== "object" || entries === null || Array.isArray(entries)) {
+      errors.push(`${section} must be a mapping`);
+    } else {
+      for (const name of Object.keys(entries)) {
+        if (!FILE_SCHEMA[section].includes(name)) {
+          errors.push(`unknown key "${section}.${name}" (expected ${FILE_SCHEMA[section].map(k => `${section}.${k}`).join(", ")})`);
+        }
+      }
+    }
+  }
+
+  const values: Partial<Record<ConfigKey, unknown>> = {};
+  for (const setting of SETTINGS) {
+    const [section, name] = setting.fileKey.split(".");
+    const value = (raw as Record<string, Record<string, unknown> | undefined>)[section]?.[name];
+    if (value === undefined || value === null) continue;
+    const parsed = parseSettingValue(setting, value, setting.fileKey, projectPath, errors);
+    if (parsed !== undefined) values[setting.key] = parsed;
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid config ${path}`, errors, path);
+  }
+  return values;
+}
+
+/**
+ * Reads setting values from SPECFIRST_* environment variables. Empty
+ * variables count as unset.
+ *
+ * @throws ConfigError naming every variable with an invalid value
+ */
+function readEnvironment(projectPath: string): Partial<Record<ConfigKey, unknown>> {
+  const errors: string[] = [];
+  const values: Partial<Record<ConfigKey, unknown>> = {};
+  for (const setting of SETTINGS) {
+    const value = setting.env ? process.env[setting.env] : undefined;
+    if (value === undefined || value === "") continue;
+    const parsed = parseSettingValue(setting, value, setting.env!, projectPath, errors);
+    if (parsed !== undefined) values[setting.key] = parsed;
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError("Invalid environment", errors);
+  }
+  return values;
+}
+
+/**
+ * Merges every layer into resolved entries, one per setting.
+ */
+function resolveEntries(projectPath: string): { platform: PlatformInfo; skillDir: string; entries: ConfigEntry[] } {
+  const platform = getPlatformInfo(projectPath);
+  const skillDir = `${platform.skillsDir}/SpecFirst`;
+
+  const userFile = findConfigFile(skillDir);
+  const projectFile = findConfigFile(join(projectPath, ".specfirst"));
+  const layers: { source: ConfigSource; origin?: (setting: SettingSpec) => string | undefined; values: Partial<Record<ConfigKey, unknown>> }[] = [
+    { source: "user", origin: () => userFile, values: userFile ? readConfigFile(userFile, projectPath) : {} },
+    { source: "env", origin: setting => setting.env, values: readEnvironment(projectPath) },
+    { source: "project", origin: () => projectFile, values: projectFile ? readConfigFile(projectFile, projectPath) : {} },
+  ];
+
+  const resolved: Partial<Record<ConfigKey, unknown>> = {};
+  const entries = SETTINGS.map((setting): ConfigEntry => {
+    const entry: ConfigEntry = {
+      key: setting.key,
+      fileKey: setting.fileKey,
+      ...(setting.env ? { env: setting.env } : {}),
+      value: undefined,
+      source: "default",
+    };
+    const overrides = layers.filter(layer => layer.values[setting.key] !== undefined);
+    if (setting.type === "sections" || overrides.length === 0) {
+      entry.value = setting.default({ platform, projectPath, resolved });
+    }
+    for (const layer of overrides) {
+      const value = layer.values[setting.key];
+      entry.value = setting.type === "sections"
+        ? { ...(entry.value as Record<SectionedArtifact, string[]>), ...(value as Partial<Record<SectionedArtifact, string[]>>) }
+        : value;
+      entry.source = layer.source;
+      entry.origin = layer.origin?.(setting);
+    }
+    resolved[setting.key] = entry.value;
+    return entry;
+  });
+
+  const value = (key: ConfigKey) => entries.find(e => e.key === key)!;
+  const [min, max] = [value("iscMinWords"), value("iscMaxWords")];
+  if ((min.value as number) > (max.value as number)) {
+    throw new ConfigError("Invalid configuration", [
+      `criteria.minWords (${min.value}, ${min.source}) must not exceed criteria.maxWords (${max.value}, ${max.source})`,
+    ]);
+  }
+
+  return { platform, skillDir, entries };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Gets the artifact root a storage mode uses when `artifacts.root` is unset.
+ *
+ * @param storage - Storage mode
+ * @param projectPath - Project root (used by repo storage)
+ * @returns `MEMORY/execution` for memory storage, `<project>/specs` for repo storage
+ */
+export function getDefaultArtifactRoot(storage: StorageMode, projectPath: string = process.cwd()): string {
+  return storage === "repo" ? join(projectPath, "specs") : getPlatformInfo(projectPath).executionDir;
+}
+
+/**
+ * Gets the directory holding one directory per feature.
+ *
+ * @param layout - Storage mode and artifact root
+ * @returns The artifact root for repo storage, `<artifactRoot>/Features` for memory storage
+ */
+export function getFeaturesDir(layout: Pick<StorageLayout, "storage" | "artifactRoot">): string {
+  return layout.storage === "repo" ? layout.artifactRoot : `${layout.artifactRoot}/Features`;
+}
+
 /**
  * Creates feature paths for a given feature name.
- * All paths are derived from platform detection - zero hardcoded values.
+ * All paths are derived from the storage layout - zero hardcoded values.
+ *
+ * @param featureName - Feature name
+ * @param layout - Storage mode, artifact root and project (default: getConfig())
+ * @throws FeatureIdError if the name is not a valid FeatureId
+ *
+ * @example
+ * ```typescript
+ * createFeaturePaths("user-auth", { storage: "repo", artifactRoot: "/repo/specs", projectPath: "/repo" }).specPath;
+ * // "/repo/specs/user-auth/spec.md"
+ * ```
  */
-function createFeaturePaths(featureName: string): FeaturePaths {
-  const featureDir = getFeatureDir(featureName);
-  const specsDir = getSpecsDir(featureName);
-  const projectDir = getProjectDir(featureName);
+export function createFeaturePaths(featureName: string, layout: StorageLayout = getConfig()): FeaturePaths {
+  assertFeatureId(featureName);
+  const repo = layout.storage === "repo";
+  const featureDir = `${getFeaturesDir(layout)}/${featureName}`;
+  const specsDir = repo ? featureDir : `${featureDir}/specs`;
+  const projectDir = repo ? layout.projectPath : `${getPlatformInfo(layout.projectPath).projectsDir}/${featureName}`;
   
   return {
+    projectDir,
     featureDir,
     specsDir,
     proposalPath: `${specsDir}/proposal.md`,
@@ -66,48 +475,87 @@ function createFeaturePaths(featureName: string): FeaturePaths {
  * Gets the complete SpecFirst configuration.
  * 
  * Configuration sources (priority order):
- * 1. Environment variables
- * 2. Platform defaults
+ * 1. Project config file (`.specfirst/config.*`)
+ * 2. Environment variables
+ * 3. User config file (`<skillDir>/config.*`)
+ * 4. Platform defaults
+ * 
+ * @param projectPath - Project whose `.specfirst/config.*` applies (defaults to cwd)
+ * @returns Resolved configuration
+ * @throws ConfigError if a config file or environment variable is invalid
+ * 
+ * @example
+ * ```typescript
+ * const { iscMinWords, iscMaxWords } = getConfig(projectPath);
+ * console.log(`Criteria must be ${iscMinWords}-${iscMaxWords} words`);
+ * ```
  */
-export function getConfig(): SpecFirstConfig {
-  const platform = getPlatformInfo();
+export function getConfig(projectPath: string = process.cwd()): SpecFirstConfig {
+  const { platform, skillDir, entries } = resolveEntries(projectPath);
+  const values = Object.fromEntries(entries.map(e => [e.key, e.value])) as Record<ConfigKey, unknown>;
+  const layout: StorageLayout = {
+    storage: values.storage as StorageMode,
+    artifactRoot: values.artifactRoot as string,
+    projectPath,
+  };
   
   return {
     platform,
     
     // SpecFirst skill paths
-    skillDir: `${platform.skillsDir}/SpecFirst`,
-    templatesDir: `${platform.skillsDir}/SpecFirst/templates`,
-    workflowsDir: `${platform.skillsDir}/SpecFirst/Workflows`,
+    skillDir,
+    templatesDir: `${skillDir}/templates`,
+    workflowsDir: `${skillDir}/Workflows`,
     
     // Feature paths factory
-    getFeaturePaths: createFeaturePaths,
+    getFeaturePaths: (featureName: string) => createFeaturePaths(featureName, layout),
     
     // Git configuration
-    gitAutoCommit: process.env.SPECFIRST_AUTO_COMMIT !== "false",
-    gitBranch: process.env.SPECFIRST_BRANCH,
+    gitAutoCommit: values.gitAutoCommit as boolean,
+    gitBranch: values.gitBranch as string | undefined,
+    gitBranchPerFeature: values.gitBranchPerFeature as boolean,
+    gitTimeoutMs: values.gitTimeoutMs as number,
     
     // Validation settings
-    iscWordCount: 8,  // Exactly 8 words per criterion
-    artifactMaxSizeKb: parseInt(process.env.SPECFIRST_MAX_ARTIFACT_KB || "50", 10),
-    gateTimeoutMs: parseInt(process.env.SPECFIRST_GATE_TIMEOUT_MS || "5000", 10),
+    iscMinWords: values.iscMinWords as number,
+    iscMaxWords: values.iscMaxWords as number,
+    artifactMaxSizeKb: values.artifactMaxSizeKb as number,
+    gateTimeoutMs: values.gateTimeoutMs as number,
+    requiredSections: values.requiredSections as Record<SectionedArtifact, string[]>,
+    
+    ...layout,
   };
 }
 
+/**
+ * Lists every configurable setting with its resolved value and the layer it
+ * came from.
+ * 
+ * @param projectPath - Project whose `.specfirst/config.*` applies (defaults to cwd)
+ * @returns One entry per setting, in schema order
+ * @throws ConfigError if a config file or environment variable is invalid
+ * 
+ * @example
+ * ```typescript
+ * for (const entry of describeConfig(projectPath)) {
+ *   console.log(`${entry.fileKey} = ${JSON.stringify(entry.value)} (${entry.source})`);
+ * }
+ * ```
+ */
+export function describeConfig(projectPath: string = process.cwd()): ConfigEntry[] {
+  return resolveEntries(projectPath).entries;
+}
+
 /**
  * Validates that required environment variables are set.
  * 
  * @returns Object with validation result and missing variables
  */
 export function validateEnvironment(): { valid: boolean; missing: string[] } {
+  // No platform variable is required: detection falls back to the standalone
+  // platform (<project>/.specfirst) when no agent platform is found
   const missing: string[] = [];
   
-  // Platform must be detectable (not strictly required as env var, but platform detection must work)
-  const platform = getPlatformInfo();
-  if (platform.platform === "unknown") {
-    missing.push("Platform detection (OPENCODE_DIR or PAI_DIR or ~/.opencode or ~/.claude)");
-  }
-  
   return {
     valid: missing.length === 0,
     missing,
@@ -119,10 +567,15 @@ export function validateEnvironment(): { valid: boolean; missing: string[] } {
  * 
  * @param featureName - Feature name
  * @param artifactType - Type of artifact (proposal, spec, plan, tasks, constitution)
+ * @param projectPath - Project whose storage settings apply (defaults to cwd)
  * @returns Absolute path to artifact
  */
-export function getArtifactPath(featureName: string, artifactType: "proposal" | "spec" | "plan" | "tasks" | "constitution"): string {
-  const paths = createFeaturePaths(featureName);
+export function getArtifactPath(
+  featureName: string,
+  artifactType: "proposal" | "spec" | "plan" | "tasks" | "constitution",
+  projectPath?: string
+): string {
+  const paths = getConfig(projectPath).getFeaturePaths(featureName);
   
   switch (artifactType) {
     case "proposal":
@@ -142,16 +595,16 @@ export function getArtifactPath(featureName: string, artifactType: "proposal" |
  * Ensures all required directories exist for a feature.
  * 
  * @param featureName - Feature name
+ * @param projectPath - Project whose storage settings apply (defaults to cwd)
  */
-export async function ensureFeatureDirectories(featureName: string): Promise<void> {
+export async function ensureFeatureDirectories(featureName: string, projectPath?: string): Promise<void> {
   const fs = await import("fs/promises");
-  const paths = createFeaturePaths(featureName);
+  const paths = getConfig(projectPath).getFeaturePaths(featureName);
   
   await fs.mkdir(paths.specsDir, { recursive: true });
   
   // Also ensure project directory exists for constitution
-  const projectDir = getProjectDir(featureName);
-  await fs.mkdir(projectDir, { recursive: true });
+  await fs.mkdir(paths.projectDir, { recursive: true });
 }
 
 // Export for testing
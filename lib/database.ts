@@ -13,6 +13,13 @@
 import { Database } from "bun:sqlite";
 import { join } from "path";
 import { existsSync, mkdirSync } from "fs";
+import { userInfo } from "os";
+import { migrateDatabase, readSchemaVersion, SchemaVersionError, SCHEMA_VERSION } from "./migrations";
+
+import { findDependencyPath, sortFeaturesByDependencies } from "./feature-graph";
+import { assertFeatureId } from "./feature-id";
+
+export { SchemaVersionError, SCHEMA_VERSION } from "./migrations";
 
 // =============================================================================
 // Module State
@@ -20,6 +27,9 @@ import { existsSync, mkdirSync } from "fs";
 
 let db: Database | null = null;
 
+/** Actor recorded on events; see setEventActor() */
+let eventActor: string | undefined;
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -33,12 +43,18 @@ export type PRDStatus = 'DRAFT' | 'CRITERIA_DEFINED' | 'PLANNED' | 'IN_PROGRESS'
 /** SpecFirst workflow phases */
 export type Phase = 'none' | 'propose' | 'specify' | 'plan' | 'implement' | 'release';
 
+/** Phase recorded for a feature: a built-in phase or a custom workflow phase */
+export type FeaturePhase = Phase | (string & {});
+
 /** ISC criterion status states */
 export type CriterionStatus = 'pending' | 'in_progress' | 'verified' | 'failed';
 
 /** Session status for multi-session workflows (Cedars) */
 export type SessionStatus = 'running' | 'paused' | 'completed' | 'failed';
 
+/** Claim audit actions recorded in session_history */
+export type SessionAction = 'claimed' | 'reclaimed' | 'released' | 'expired';
+
 /** Feature entity from database */
 export interface Feature {
   id: string;
@@ -46,7 +62,7 @@ export interface Feature {
   description: string | null;
   priority: number;
   status: FeatureStatus;
-  phase: Phase;
+  phase: FeaturePhase;
   proposalPath: string | null;
   specPath: string | null;
   planPath: string | null;
@@ -67,6 +83,10 @@ export interface Feature {
   iteration: number;
   /** Verification summary "N/M" */
   verificationSummary: string | null;
+  /** When the current session's claim lapses unless renewed */
+  claimExpiresAt: Date | null;
+  /** Workflow assigned at creation (null runs the default workflow) */
+  workflow: string | null;
 }
 
 /** ISC Criterion entity from database */
@@ -79,6 +99,12 @@ export interface Criterion {
   verifiedAt: Date | null;
 }
 
+/** Dependency edge: featureId cannot start until dependsOnId is completed or skipped */
+export interface FeatureDependency {
+  featureId: string;
+  dependsOnId: string;
+}
+
 /** Session entity for multi-session workflows */
 export interface Session {
   id: string;
@@ -87,6 +113,61 @@ export interface Session {
   currentFeatureId: string | null;
   featuresCompleted: number;
   status: SessionStatus;
+  /** Last claim renewal */
+  lastHeartbeatAt: Date | null;
+}
+
+/** Claim audit entry from session_history */
+export interface SessionEvent {
+  id: number;
+  sessionId: string;
+  featureId: string | null;
+  action: SessionAction;
+  /** Extra context, e.g. the session a stale claim was taken from */
+  detail: string | null;
+  at: Date;
+}
+
+/** Kinds of entries in the events table */
+export type EventType =
+  | 'feature.created'
+  | 'feature.status'
+  | 'feature.phase'
+  | 'feature.renamed'
+  | 'criterion.added'
+  | 'criterion.status'
+  | 'gate.run'
+  | 'session.started'
+  | 'session.ended'
+  | `session.${SessionAction}`;
+
+/** Entry in the append-only event log */
+export interface WorkflowEvent {
+  id: number;
+  type: EventType;
+  featureId: string | null;
+  /** Criterion ID or gate name the event is about */
+  subject: string | null;
+  /** Value before the change (status, phase, old feature ID) */
+  from: string | null;
+  /** Value after the change (or "passed"/"failed" for gate runs) */
+  to: string | null;
+  /** Evidence, gate error, criterion text or claim context */
+  detail: string | null;
+  /** Session that acted, or that held the feature's claim */
+  sessionId: string | null;
+  /** Who made the change (see setEventActor) */
+  actor: string;
+  at: Date;
+}
+
+/** Filter for getEvents() */
+export interface EventQuery {
+  featureId?: string;
+  sessionId?: string;
+  types?: EventType[];
+  /** Only events at or after this time */
+  since?: Date;
 }
 
 /** Statistics about feature queue */
@@ -110,6 +191,8 @@ export interface AddFeatureInput {
   planPath?: string;
   tasksPath?: string;
   constitutionPath?: string;
+  /** Workflow the feature runs under (default: "default") */
+  workflow?: string;
 }
 
 /** Paths to update for a feature */
@@ -147,6 +230,8 @@ interface FeatureRow {
   effort_level: string | null;
   iteration: number;
   verification_summary: string | null;
+  claim_expires_at: string | null;
+  workflow: string | null;
 }
 
 interface CriterionRow {
@@ -158,6 +243,11 @@ interface CriterionRow {
   verified_at: string | null;
 }
 
+interface DependencyRow {
+  feature_id: string;
+  depends_on_id: string;
+}
+
 interface SessionRow {
   id: string;
   started_at: string;
@@ -165,6 +255,29 @@ interface SessionRow {
   current_feature_id: string | null;
   features_completed: number;
   status: string;
+  last_heartbeat_at: string | null;
+}
+
+interface SessionEventRow {
+  id: number;
+  session_id: string;
+  feature_id: string | null;
+  action: string;
+  detail: string | null;
+  created_at: string;
+}
+
+interface EventRow {
+  id: number;
+  type: string;
+  feature_id: string | null;
+  subject: string | null;
+  from_value: string | null;
+  to_value: string | null;
+  detail: string | null;
+  session_id: string | null;
+  actor: string;
+  created_at: string;
 }
 
 interface StatsRow {
@@ -211,11 +324,14 @@ function ensureSpecFirstDir(projectPath: string): void {
 
 /**
  * Initialize the database with schema
- * Creates tables and indexes if they don't exist
+ * Applies pending schema migrations (see lib/migrations)
  * Enables WAL mode for better concurrency
  * 
  * @param projectPath - Root path of the project
  * @returns Database instance
+ * @throws SchemaVersionError if the database was written by a newer SpecFirst
+ *   or a migration fails
+ * @throws Error if the file is not a readable SQLite database
  * 
  * @example
  * ```typescript
@@ -237,77 +353,20 @@ export function initDatabase(projectPath: string): Database {
   const dbPath = getDbPath(projectPath);
   db = new Database(dbPath, { create: true });
 
-  // Enable WAL mode for better concurrency
-  db.exec("PRAGMA journal_mode = WAL");
-
-  // Create features table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS features (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      priority INTEGER DEFAULT 999,
-      status TEXT DEFAULT 'pending',
-      phase TEXT DEFAULT 'none',
-      proposal_path TEXT,
-      spec_path TEXT,
-      plan_path TEXT,
-      tasks_path TEXT,
-      constitution_path TEXT,
-      created_at TEXT NOT NULL,
-      started_at TEXT,
-      completed_at TEXT,
-      session_id TEXT,
-      skip_reason TEXT,
-      prd_status TEXT DEFAULT NULL,
-      prd_path TEXT DEFAULT NULL,
-      effort_level TEXT DEFAULT NULL,
-      iteration INTEGER DEFAULT 0,
-      verification_summary TEXT DEFAULT NULL
-    )
-  `);
-
-  // Create criteria table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS criteria (
-      id TEXT PRIMARY KEY,
-      feature_id TEXT NOT NULL,
-      criterion TEXT NOT NULL,
-      status TEXT DEFAULT 'pending',
-      evidence TEXT,
-      verified_at TEXT,
-      FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Create sessions table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      id TEXT PRIMARY KEY,
-      started_at TEXT NOT NULL,
-      ended_at TEXT,
-      current_feature_id TEXT,
-      features_completed INTEGER DEFAULT 0,
-      status TEXT DEFAULT 'running',
-      FOREIGN KEY (current_feature_id) REFERENCES features(id)
-    )
-  `);
-
-  // Create indexes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_features_status ON features(status);
-    CREATE INDEX IF NOT EXISTS idx_features_phase ON features(phase);
-    CREATE INDEX IF NOT EXISTS idx_features_session ON features(session_id);
-    CREATE INDEX IF NOT EXISTS idx_criteria_feature ON criteria(feature_id);
-    CREATE INDEX IF NOT EXISTS idx_criteria_status ON criteria(status);
-  `);
-
-  // v4.0 Migration: Add PRD fields if not present
-  try { db.exec("ALTER TABLE features ADD COLUMN prd_status TEXT DEFAULT NULL"); } catch {}
-  try { db.exec("ALTER TABLE features ADD COLUMN prd_path TEXT DEFAULT NULL"); } catch {}
-  try { db.exec("ALTER TABLE features ADD COLUMN effort_level TEXT DEFAULT NULL"); } catch {}
-  try { db.exec("ALTER TABLE features ADD COLUMN iteration INTEGER DEFAULT 0"); } catch {}
-  try { db.exec("ALTER TABLE features ADD COLUMN verification_summary TEXT DEFAULT NULL"); } catch {}
+  try {
+    // Enable WAL mode for better concurrency; wait for other sessions' write locks
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec("PRAGMA busy_timeout = 5000");
+
+    // Create or upgrade the schema (forward-only)
+    migrateDatabase(db);
+  } catch (error) {
+    db.close();
+    db = null;
+    if (error instanceof SchemaVersionError) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot open SpecFirst database at ${dbPath}: ${message}`);
+  }
 
   return db;
 }
@@ -323,6 +382,22 @@ export function closeDatabase(): void {
   }
 }
 
+/**
+ * Get the schema version of the open database
+ * 
+ * @returns Highest applied migration version
+ * @throws Error if database not initialized
+ * 
+ * @example
+ * ```typescript
+ * initDatabase(projectPath);
+ * console.log(`Schema v${getSchemaVersion()} (latest v${SCHEMA_VERSION})`);
+ * ```
+ */
+export function getSchemaVersion(): number {
+  return readSchemaVersion(getDb());
+}
+
 /**
  * Get the current database instance
  * @throws Error if database not initialized
@@ -335,6 +410,26 @@ function getDb(): Database {
   return db;
 }
 
+/**
+ * Run several operations as one transaction: all of them apply, or none
+ * does if `fn` throws
+ *
+ * @param fn - Operations to run (may call other functions of this module)
+ * @returns What `fn` returns
+ * @throws Error if database not initialized, or whatever `fn` throws
+ *
+ * @example
+ * ```typescript
+ * runInTransaction(() => {
+ *   updateFeaturePhase('user-auth', 'implement');
+ *   addCriterion('user-auth', 'Login form rejects passwords shorter than twelve characters');
+ * });
+ * ```
+ */
+export function runInTransaction<T>(fn: () => T): T {
+  return getDb().transaction(fn)();
+}
+
 // =============================================================================
 // Feature Operations
 // =============================================================================
@@ -342,8 +437,9 @@ function getDb(): Database {
 /**
  * Add a new feature to the queue
  * 
- * @param input - Feature data
+ * @param input - Feature data (`id` must be a valid FeatureId; `name` is the display title)
  * @throws Error if database not initialized
+ * @throws FeatureIdError if the id is not a valid FeatureId
  * 
  * @example
  * ```typescript
@@ -356,27 +452,32 @@ function getDb(): Database {
  * ```
  */
 export function addFeature(input: AddFeatureInput): void {
+  assertFeatureId(input.id);
   const database = getDb();
   const now = new Date().toISOString();
 
-  database.run(
-    `INSERT INTO features (
-      id, name, description, priority, proposal_path, spec_path, 
-      plan_path, tasks_path, constitution_path, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [
-      input.id,
-      input.name,
-      input.description ?? null,
-      input.priority ?? 999,
-      input.proposalPath ?? null,
-      input.specPath ?? null,
-      input.planPath ?? null,
-      input.tasksPath ?? null,
-      input.constitutionPath ?? null,
-      now,
-    ]
-  );
+  database.transaction(() => {
+    database.run(
+      `INSERT INTO features (
+        id, name, description, priority, proposal_path, spec_path, 
+        plan_path, tasks_path, constitution_path, created_at, workflow
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.id,
+        input.name,
+        input.description ?? null,
+        input.priority ?? 999,
+        input.proposalPath ?? null,
+        input.specPath ?? null,
+        input.planPath ?? null,
+        input.tasksPath ?? null,
+        input.constitutionPath ?? null,
+        now,
+        input.workflow ?? null,
+      ]
+    );
+    recordEvent('feature.created', input.id, { to: 'pending', detail: input.workflow ? `workflow ${input.workflow}` : null });
+  })();
 }
 
 /**
@@ -412,18 +513,29 @@ export function getFeatures(): Feature[] {
 
 /**
  * Get the next pending feature (highest priority)
+ * Features with a dependency that is neither completed nor skipped, or with
+ * an unexpired claim held by a running session, are passed over
  * 
- * @returns Next feature or null if none pending
+ * @returns Next feature or null if none pending and unblocked
  */
 export function getNextFeature(): Feature | null {
   const database = getDb();
 
-  const row = database.query<FeatureRow, []>(
-    `SELECT * FROM features
-     WHERE status = 'pending'
-     ORDER BY priority ASC, created_at ASC
+  const row = database.query<FeatureRow, [string]>(
+    `SELECT * FROM features f
+     WHERE f.status = 'pending'
+       AND (f.session_id IS NULL
+            OR f.claim_expires_at IS NULL
+            OR f.claim_expires_at <= ?
+            OR f.session_id NOT IN (SELECT id FROM sessions WHERE status = 'running'))
+       AND NOT EXISTS (
+         SELECT 1 FROM feature_dependencies d
+         JOIN features dep ON dep.id = d.depends_on_id
+         WHERE d.feature_id = f.id AND dep.status NOT IN ('completed', 'skipped')
+       )
+     ORDER BY f.priority ASC, f.created_at ASC
      LIMIT 1`
-  ).get();
+  ).get(new Date().toISOString());
 
   return row ? rowToFeature(row) : null;
 }
@@ -431,12 +543,27 @@ export function getNextFeature(): Feature | null {
 /**
  * Update a feature's status
  * Automatically sets started_at and completed_at timestamps
+ * Records a 'feature.status' event when the status changes
  * 
  * @param id - Feature ID
  * @param status - New status
  */
 export function updateFeatureStatus(id: string, status: FeatureStatus): void {
   const database = getDb();
+  database.transaction(() => {
+    const previous = getFeature(id)?.status;
+    writeFeatureStatus(database, id, status);
+    if (previous !== undefined && previous !== status) {
+      recordEvent('feature.status', id, { from: previous, to: status });
+    }
+  })();
+}
+
+/**
+ * Write a feature's status and lifecycle timestamps
+ * @internal
+ */
+function writeFeatureStatus(database: Database, id: string, status: FeatureStatus): void {
   const now = new Date().toISOString();
 
   let startedAt: string | null = null;
@@ -478,13 +605,31 @@ export function updateFeatureStatus(id: string, status: FeatureStatus): void {
 
 /**
  * Update a feature's phase
+ * Records a 'feature.phase' event when the phase changes
  * 
  * @param id - Feature ID
  * @param phase - New phase
  */
-export function updateFeaturePhase(id: string, phase: Phase): void {
+export function updateFeaturePhase(id: string, phase: FeaturePhase): void {
   const database = getDb();
-  database.run(`UPDATE features SET phase = ? WHERE id = ?`, [phase, id]);
+  database.transaction(() => {
+    const previous = getFeature(id)?.phase;
+    database.run(`UPDATE features SET phase = ? WHERE id = ?`, [phase, id]);
+    if (previous !== undefined && previous !== phase) {
+      recordEvent('feature.phase', id, { from: previous, to: phase });
+    }
+  })();
+}
+
+/**
+ * Assign the workflow a feature runs under
+ * 
+ * @param id - Feature ID
+ * @param workflow - Workflow name
+ */
+export function setFeatureWorkflow(id: string, workflow: string): void {
+  const database = getDb();
+  database.run(`UPDATE features SET workflow = ? WHERE id = ?`, [workflow, id]);
 }
 
 /**
@@ -533,6 +678,153 @@ export function updateFeaturePaths(id: string, paths: FeaturePaths): void {
   );
 }
 
+/**
+ * Change a feature's ID, carrying its criteria, dependency edges, session
+ * pointers and claim history over to the new ID
+ *
+ * @param id - Current feature ID
+ * @param newId - New feature ID (must be a valid FeatureId)
+ * @param changes - New display title and artifact paths, if they change too
+ * @throws FeatureIdError if the new ID is invalid
+ * @throws Error if the feature does not exist or the new ID is taken
+ *
+ * @example
+ * ```typescript
+ * renameFeatureRecord('auth', 'user-auth', { name: 'User Authentication' });
+ * ```
+ */
+export function renameFeatureRecord(
+  id: string,
+  newId: string,
+  changes: { name?: string; paths?: FeaturePaths } = {}
+): void {
+  assertFeatureId(newId);
+  const database = getDb();
+
+  const rename = database.transaction(() => {
+    if (!getFeature(id)) {
+      throw new Error(`Feature not found: ${id}`);
+    }
+    if (getFeature(newId)) {
+      throw new Error(`Feature already exists: ${newId}`);
+    }
+
+    database.run(`UPDATE features SET id = ? WHERE id = ?`, [newId, id]);
+    database.run(`UPDATE criteria SET feature_id = ? WHERE feature_id = ?`, [newId, id]);
+    database.run(`UPDATE feature_dependencies SET feature_id = ? WHERE feature_id = ?`, [newId, id]);
+    database.run(`UPDATE feature_dependencies SET depends_on_id = ? WHERE depends_on_id = ?`, [newId, id]);
+    database.run(`UPDATE sessions SET current_feature_id = ? WHERE current_feature_id = ?`, [newId, id]);
+    database.run(`UPDATE session_history SET feature_id = ? WHERE feature_id = ?`, [newId, id]);
+    // Events keep the old ID; getFeatureTimeline() follows this entry back to them
+    recordEvent('feature.renamed', newId, { from: id, to: newId });
+
+    if (changes.name !== undefined) {
+      database.run(`UPDATE features SET name = ? WHERE id = ?`, [changes.name, newId]);
+    }
+    if (changes.paths) {
+      updateFeaturePaths(newId, changes.paths);
+    }
+  });
+
+  rename();
+}
+
+// =============================================================================
+// Feature Dependencies
+// =============================================================================
+
+/**
+ * Declare that a feature depends on another feature
+ * Adding an existing dependency is a no-op
+ * 
+ * @param featureId - Feature that must wait
+ * @param dependsOnId - Feature that must be completed (or skipped) first
+ * @throws Error if either feature does not exist or the edge would create a cycle
+ * 
+ * @example
+ * ```typescript
+ * addFeatureDependency('checkout', 'user-auth');
+ * getNextFeature(); // skips 'checkout' until 'user-auth' is completed or skipped
+ * ```
+ */
+export function addFeatureDependency(featureId: string, dependsOnId: string): void {
+  const database = getDb();
+
+  for (const id of [featureId, dependsOnId]) {
+    if (!getFeature(id)) {
+      throw new Error(`Feature not found: ${id}`);
+    }
+  }
+
+  const cycle = featureId === dependsOnId
+    ? [featureId]
+    : findDependencyPath(getFeatureDependencyEdges(), dependsOnId, featureId);
+  if (cycle) {
+    throw new Error(`Dependency cycle: ${[featureId, ...cycle].join(" → ")}`);
+  }
+
+  database.run(
+    `INSERT OR IGNORE INTO feature_dependencies (feature_id, depends_on_id, created_at) VALUES (?, ?, ?)`,
+    [featureId, dependsOnId, new Date().toISOString()]
+  );
+}
+
+/**
+ * Remove a dependency between two features
+ * 
+ * @param featureId - Dependent feature
+ * @param dependsOnId - Prerequisite feature
+ * @returns true if a dependency was removed
+ */
+export function removeFeatureDependency(featureId: string, dependsOnId: string): boolean {
+  const database = getDb();
+
+  const result = database.run(
+    `DELETE FROM feature_dependencies WHERE feature_id = ? AND depends_on_id = ?`,
+    [featureId, dependsOnId]
+  );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the IDs of the features a feature directly depends on
+ * 
+ * @param featureId - Feature ID
+ * @returns Prerequisite feature IDs
+ */
+export function getFeatureDependencies(featureId: string): string[] {
+  const database = getDb();
+
+  return database.query<DependencyRow, [string]>(
+    `SELECT feature_id, depends_on_id FROM feature_dependencies WHERE feature_id = ? ORDER BY depends_on_id`
+  ).all(featureId).map(row => row.depends_on_id);
+}
+
+/**
+ * Get every dependency edge in the project
+ * 
+ * @returns All dependency edges
+ */
+export function getFeatureDependencyEdges(): FeatureDependency[] {
+  const database = getDb();
+
+  return database.query<DependencyRow, []>(
+    `SELECT feature_id, depends_on_id FROM feature_dependencies ORDER BY feature_id, depends_on_id`
+  ).all().map(row => ({ featureId: row.feature_id, dependsOnId: row.depends_on_id }));
+}
+
+/**
+ * Get all features in dependency order
+ * Each feature comes after the features it depends on; otherwise
+ * priority order is kept
+ * 
+ * @returns Topologically sorted features
+ */
+export function getFeatureQueue(): Feature[] {
+  return sortFeaturesByDependencies(getFeatures(), getFeatureDependencyEdges());
+}
+
 // =============================================================================
 // Criteria Operations
 // =============================================================================
@@ -553,10 +845,13 @@ export function addCriterion(featureId: string, criterion: string): string {
   const database = getDb();
   const id = `crit-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
-  database.run(
-    `INSERT INTO criteria (id, feature_id, criterion) VALUES (?, ?, ?)`,
-    [id, featureId, criterion]
-  );
+  database.transaction(() => {
+    database.run(
+      `INSERT INTO criteria (id, feature_id, criterion) VALUES (?, ?, ?)`,
+      [id, featureId, criterion]
+    );
+    recordEvent('criterion.added', featureId, { subject: id, to: 'pending', detail: criterion });
+  })();
 
   return id;
 }
@@ -579,6 +874,7 @@ export function getCriteria(featureId: string): Criterion[] {
 
 /**
  * Update a criterion's status and optionally add evidence
+ * Records a 'criterion.status' event, so replaced evidence stays in the log
  * 
  * @param id - Criterion ID
  * @param status - New status
@@ -592,23 +888,40 @@ export function updateCriterionStatus(
   const database = getDb();
   const now = new Date().toISOString();
 
-  if (status === "verified") {
-    database.run(
-      `UPDATE criteria SET status = ?, evidence = ?, verified_at = ? WHERE id = ?`,
-      [status, evidence ?? null, now, id]
-    );
-  } else {
-    database.run(
-      `UPDATE criteria SET status = ?, evidence = ? WHERE id = ?`,
-      [status, evidence ?? null, id]
-    );
-  }
+  database.transaction(() => {
+    const previous = database.query<CriterionRow, [string]>(`SELECT * FROM criteria WHERE id = ?`).get(id);
+
+    if (status === "verified") {
+      database.run(
+        `UPDATE criteria SET status = ?, evidence = ?, verified_at = ? WHERE id = ?`,
+        [status, evidence ?? null, now, id]
+      );
+    } else {
+      database.run(
+        `UPDATE criteria SET status = ?, evidence = ? WHERE id = ?`,
+        [status, evidence ?? null, id]
+      );
+    }
+
+    // The event keeps the evidence the row overwrites
+    if (previous && (previous.status !== status || previous.evidence !== (evidence ?? null))) {
+      recordEvent('criterion.status', previous.feature_id, {
+        subject: id,
+        from: previous.status,
+        to: status,
+        detail: evidence ?? null,
+      });
+    }
+  })();
 }
 
 // =============================================================================
 // Session Operations (for Cedars)
 // =============================================================================
 
+/** Default claim lease: a session must renew within this window */
+export const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
 /**
  * Create a new work session
  * 
@@ -616,13 +929,16 @@ export function updateCriterionStatus(
  */
 export function createSession(): string {
   const database = getDb();
-  const id = `session-${Date.now()}`;
+  const id = `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   const now = new Date().toISOString();
 
-  database.run(
-    `INSERT INTO sessions (id, started_at) VALUES (?, ?)`,
-    [id, now]
-  );
+  database.transaction(() => {
+    database.run(
+      `INSERT INTO sessions (id, started_at, last_heartbeat_at) VALUES (?, ?, ?)`,
+      [id, now, now]
+    );
+    recordEvent('session.started', null, { sessionId: id });
+  })();
 
   return id;
 }
@@ -660,39 +976,154 @@ export function getCurrentSession(): Session | null {
 
 /**
  * Claim a feature for a session
- * Sets the feature's session_id and updates session's current_feature_id
+ * Atomic compare-and-set: succeeds only if the feature is unclaimed, already
+ * held by this session, or held under a lease that has expired (or by a
+ * session that is no longer running). Taking over a stale claim is recorded
+ * as 'reclaimed' in the session history.
  * 
  * @param sessionId - Session ID
  * @param featureId - Feature ID to claim
- * @returns true if successful, false if feature already claimed
+ * @param leaseMs - Lease length; renew with renewClaim() before it lapses
+ * @returns true if successful, false if the feature is missing or claimed by another live session
+ * 
+ * @example
+ * ```typescript
+ * if (claimFeature(sessionId, 'feat-001')) {
+ *   const heartbeat = setInterval(() => renewClaim(sessionId, 'feat-001'), DEFAULT_LEASE_MS / 3);
+ *   // ... work ...
+ *   clearInterval(heartbeat);
+ *   releaseFeature(sessionId, 'feat-001');
+ * }
+ * ```
  */
-export function claimFeature(sessionId: string, featureId: string): boolean {
+export function claimFeature(sessionId: string, featureId: string, leaseMs: number = DEFAULT_LEASE_MS): boolean {
   const database = getDb();
 
-  // Check if feature is already claimed by another session
-  const feature = getFeature(featureId);
-  if (feature?.sessionId && feature.sessionId !== sessionId) {
-    return false;
-  }
+  const claim = database.transaction((): boolean => {
+    const now = new Date();
+    const previous = database.query<{ session_id: string | null }, [string]>(
+      `SELECT session_id FROM features WHERE id = ?`
+    ).get(featureId);
+
+    const result = database.run(
+      `UPDATE features SET session_id = ?, claim_expires_at = ?
+       WHERE id = ?
+         AND (session_id IS NULL
+              OR session_id = ?
+              OR claim_expires_at IS NULL
+              OR claim_expires_at <= ?
+              OR session_id NOT IN (SELECT id FROM sessions WHERE status = 'running'))`,
+      [sessionId, new Date(now.getTime() + leaseMs).toISOString(), featureId, sessionId, now.toISOString()]
+    );
+    if (result.changes === 0) return false;
 
-  // Claim the feature
-  database.run(
-    `UPDATE features SET session_id = ? WHERE id = ?`,
-    [sessionId, featureId]
+    database.run(
+      `UPDATE sessions SET current_feature_id = ?, last_heartbeat_at = ? WHERE id = ?`,
+      [featureId, now.toISOString(), sessionId]
+    );
+
+    const stolenFrom = previous?.session_id && previous.session_id !== sessionId ? previous.session_id : null;
+    if (stolenFrom) {
+      database.run(
+        `UPDATE sessions SET current_feature_id = NULL WHERE id = ? AND current_feature_id = ?`,
+        [stolenFrom, featureId]
+      );
+      recordSessionEvent(stolenFrom, featureId, 'expired', `reclaimed by ${sessionId}`, now);
+      recordSessionEvent(sessionId, featureId, 'reclaimed', `from ${stolenFrom}`, now);
+    } else if (previous?.session_id !== sessionId) {
+      recordSessionEvent(sessionId, featureId, 'claimed', null, now);
+    }
+    return true;
+  });
+
+  return claim.immediate();
+}
+
+/**
+ * Atomically claim the next available feature for a session
+ * Uses the same ordering as getNextFeature(); safe to call from parallel
+ * sessions draining one queue.
+ * 
+ * @param sessionId - Session ID
+ * @param leaseMs - Lease length
+ * @returns The claimed feature, or null if nothing is available
+ */
+export function claimNextFeature(sessionId: string, leaseMs: number = DEFAULT_LEASE_MS): Feature | null {
+  const database = getDb();
+
+  const claimNext = database.transaction((): Feature | null => {
+    const next = getNextFeature();
+    if (!next || !claimFeature(sessionId, next.id, leaseMs)) return null;
+    return getFeature(next.id);
+  });
+
+  return claimNext.immediate();
+}
+
+/**
+ * Extend a session's claim on a feature (heartbeat)
+ * 
+ * @param sessionId - Session ID
+ * @param featureId - Claimed feature ID
+ * @param leaseMs - New lease length from now
+ * @returns false if the session no longer holds the claim
+ */
+export function renewClaim(sessionId: string, featureId: string, leaseMs: number = DEFAULT_LEASE_MS): boolean {
+  const database = getDb();
+  const now = new Date();
+
+  const result = database.run(
+    `UPDATE features SET claim_expires_at = ? WHERE id = ? AND session_id = ?`,
+    [new Date(now.getTime() + leaseMs).toISOString(), featureId, sessionId]
   );
+  if (result.changes === 0) return false;
 
-  // Update session
   database.run(
-    `UPDATE sessions SET current_feature_id = ? WHERE id = ?`,
-    [featureId, sessionId]
+    `UPDATE sessions SET last_heartbeat_at = ? WHERE id = ?`,
+    [now.toISOString(), sessionId]
   );
-
   return true;
 }
 
+/**
+ * Release claims whose lease has expired
+ * Called by crash recovery; claimFeature() also takes over expired claims
+ * on its own.
+ * 
+ * @param now - Reference time (defaults to now)
+ * @returns IDs of the features released
+ */
+export function reclaimStaleClaims(now: Date = new Date()): string[] {
+  const database = getDb();
+
+  const reclaim = database.transaction((): string[] => {
+    const stale = database.query<{ id: string; session_id: string }, [string]>(
+      `SELECT id, session_id FROM features
+       WHERE session_id IS NOT NULL
+         AND (claim_expires_at IS NULL OR claim_expires_at <= ?)`
+    ).all(now.toISOString());
+
+    for (const feature of stale) {
+      database.run(
+        `UPDATE features SET session_id = NULL, claim_expires_at = NULL WHERE id = ?`,
+        [feature.id]
+      );
+      database.run(
+        `UPDATE sessions SET current_feature_id = NULL WHERE id = ? AND current_feature_id = ?`,
+        [feature.session_id, feature.id]
+      );
+      recordSessionEvent(feature.session_id, feature.id, 'expired', 'lease expired', now);
+    }
+    return stale.map(f => f.id);
+  });
+
+  return reclaim.immediate();
+}
+
 /**
  * Release a feature from a session
- * Clears the feature's session_id and session's current_feature_id
+ * Clears the feature's session_id and session's current_feature_id and
+ * records the release in one transaction
  * 
  * @param sessionId - Session ID
  * @param featureId - Feature ID to release
@@ -700,20 +1131,27 @@ export function claimFeature(sessionId: string, featureId: string): boolean {
 export function releaseFeature(sessionId: string, featureId: string): void {
   const database = getDb();
 
-  database.run(
-    `UPDATE features SET session_id = NULL WHERE id = ? AND session_id = ?`,
-    [featureId, sessionId]
-  );
+  runInTransaction(() => {
+    const result = database.run(
+      `UPDATE features SET session_id = NULL, claim_expires_at = NULL WHERE id = ? AND session_id = ?`,
+      [featureId, sessionId]
+    );
 
-  database.run(
-    `UPDATE sessions SET current_feature_id = NULL WHERE id = ? AND current_feature_id = ?`,
-    [sessionId, featureId]
-  );
+    database.run(
+      `UPDATE sessions SET current_feature_id = NULL WHERE id = ? AND current_feature_id = ?`,
+      [sessionId, featureId]
+    );
+
+    if (result.changes > 0) {
+      recordSessionEvent(sessionId, featureId, 'released', null);
+    }
+  });
 }
 
 /**
  * End a session
- * Sets end timestamp and status to completed
+ * Sets end timestamp and status to completed, and releases its claims, in
+ * one transaction
  * 
  * @param id - Session ID
  */
@@ -721,9 +1159,220 @@ export function endSession(id: string): void {
   const database = getDb();
   const now = new Date().toISOString();
 
+  runInTransaction(() => {
+    const claimed = database.query<{ id: string }, [string]>(
+      `SELECT id FROM features WHERE session_id = ?`
+    ).all(id);
+    for (const feature of claimed) {
+      releaseFeature(id, feature.id);
+    }
+
+    database.run(
+      `UPDATE sessions SET ended_at = ?, status = 'completed' WHERE id = ?`,
+      [now, id]
+    );
+    recordEvent('session.ended', null, { sessionId: id });
+  });
+}
+
+/**
+ * Get the claim audit trail
+ * 
+ * @param sessionId - Only events of this session (default: all sessions)
+ * @returns Events, oldest first
+ * 
+ * @example
+ * ```typescript
+ * for (const event of getSessionHistory()) {
+ *   console.log(`${event.at.toISOString()} ${event.sessionId} ${event.action} ${event.featureId}`);
+ * }
+ * ```
+ */
+export function getSessionHistory(sessionId?: string): SessionEvent[] {
+  const database = getDb();
+
+  const rows = sessionId
+    ? database.query<SessionEventRow, [string]>(
+        `SELECT * FROM session_history WHERE session_id = ? ORDER BY id`
+      ).all(sessionId)
+    : database.query<SessionEventRow, []>(
+        `SELECT * FROM session_history ORDER BY id`
+      ).all();
+
+  return rows.map(rowToSessionEvent);
+}
+
+/**
+ * Append an entry to session_history
+ * @internal
+ */
+function recordSessionEvent(
+  sessionId: string,
+  featureId: string | null,
+  action: SessionAction,
+  detail: string | null,
+  at: Date = new Date()
+): void {
+  getDb().run(
+    `INSERT INTO session_history (session_id, feature_id, action, detail, created_at) VALUES (?, ?, ?, ?, ?)`,
+    [sessionId, featureId, action, detail, at.toISOString()]
+  );
+  recordEvent(`session.${action}`, featureId, { sessionId, detail }, at);
+}
+
+// =============================================================================
+// Event Log
+// =============================================================================
+
+/**
+ * Set who subsequent events are attributed to, e.g. an agent name
+ * 
+ * @param actor - Actor name (undefined restores the OS user name)
+ */
+export function setEventActor(actor?: string): void {
+  eventActor = actor;
+}
+
+/**
+ * Get who events are currently attributed to
+ * 
+ * @returns The name set with setEventActor(), else the OS user name
+ */
+export function getEventActor(): string {
+  if (eventActor) return eventActor;
+  try {
+    return userInfo().username || "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Record the outcome of a quality gate run for a feature
+ * 
+ * @param featureId - Feature ID
+ * @param phase - Phase the gate guards
+ * @param gate - Gate name
+ * @param passed - Whether the gate passed
+ * @param error - Why the gate failed
+ */
+export function recordGateRun(featureId: string, phase: string, gate: string, passed: boolean, error?: string): void {
+  recordEvent('gate.run', featureId, {
+    subject: gate,
+    to: passed ? 'passed' : 'failed',
+    detail: error ? `${phase} phase: ${error}` : `${phase} phase`,
+  });
+}
+
+/**
+ * Query the event log
+ * 
+ * @param query - Feature, session, event types and start time to filter by
+ * @returns Events, oldest first
+ */
+export function getEvents(query: EventQuery = {}): WorkflowEvent[] {
+  const conditions: string[] = [];
+  const values: string[] = [];
+
+  if (query.featureId !== undefined) {
+    conditions.push("feature_id = ?");
+    values.push(query.featureId);
+  }
+  if (query.sessionId !== undefined) {
+    conditions.push("session_id = ?");
+    values.push(query.sessionId);
+  }
+  if (query.types?.length) {
+    conditions.push(`type IN (${query.types.map(() => "?").join(", ")})`);
+    values.push(...query.types);
+  }
+  if (query.since) {
+    conditions.push("created_at >= ?");
+    values.push(query.since.toISOString());
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return getDb()
+    .query<EventRow, string[]>(`SELECT * FROM events ${where} ORDER BY id`)
+    .all(...values)
+    .map(rowToEvent);
+}
+
+/**
+ * Get a feature's timeline: every event recorded for it, including events
+ * recorded under earlier IDs before a rename (a later feature reusing an
+ * old ID does not inherit them)
+ * 
+ * @param featureId - Feature ID
+ * @returns Events, oldest first
+ * 
+ * @example
+ * ```typescript
+ * for (const event of getFeatureTimeline('user-auth')) {
+ *   console.log(`${event.at.toISOString()} ${event.type} ${event.from ?? ''} → ${event.to ?? ''}`);
+ * }
+ * ```
+ */
+export function getFeatureTimeline(featureId: string): WorkflowEvent[] {
+  const database = getDb();
+
+  const renames = database.query<EventRow, []>(
+    `SELECT * FROM events WHERE type = 'feature.renamed' ORDER BY id DESC`
+  ).all();
+
+  // Each ID counts between the rename that freed it for this feature (if it
+  // was reused) and the rename that moved this feature to its next ID
+  const names: Array<{ id: string; after: number; before: number }> = [];
+  const visit = (id: string, before: number): void => {
+    const after = renames.find(r => r.from_value === id && r.id < before)?.id ?? 0;
+    names.push({ id, after, before });
+    for (const rename of renames) {
+      if (rename.from_value && rename.to_value === id && rename.id > after && rename.id < before) {
+        visit(rename.from_value, rename.id);
+      }
+    }
+  };
+  visit(featureId, Number.MAX_SAFE_INTEGER);
+
+  const rows = database.query<EventRow, Array<string | number>>(
+    `SELECT * FROM events WHERE ${names.map(() => "(feature_id = ? AND id > ? AND id < ?)").join(" OR ")} ORDER BY id`
+  ).all(...names.flatMap(n => [n.id, n.after, n.before]));
+
+  return rows.map(rowToEvent);
+}
+
+/**
+ * Append an entry to the event log
+ * The session defaults to the one holding the feature's claim
+ * @internal
+ */
+function recordEvent(
+  type: EventType,
+  featureId: string | null,
+  fields: { subject?: string | null; from?: string | null; to?: string | null; detail?: string | null; sessionId?: string | null },
+  at: Date = new Date()
+): void {
+  const database = getDb();
+  const sessionId = fields.sessionId !== undefined || featureId === null
+    ? fields.sessionId ?? null
+    : database.query<{ session_id: string | null }, [string]>(
+        `SELECT session_id FROM features WHERE id = ?`
+      ).get(featureId)?.session_id ?? null;
+
   database.run(
-    `UPDATE sessions SET ended_at = ?, status = 'completed' WHERE id = ?`,
-    [now, id]
+    `INSERT INTO events (type, feature_id, subject, from_value, to_value, detail, session_id, actor, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      type,
+      featureId,
+      fields.subject ?? null,
+      fields.from ?? null,
+      fields.to ?? null,
+      fields.detail ?? null,
+      sessionId,
+      getEventActor(),
+      at.toISOString(),
+    ]
   );
 }
 
@@ -788,7 +1437,7 @@ function rowToFeature(row: FeatureRow): Feature {
     description: row.description,
     priority: row.priority,
     status: row.status as FeatureStatus,
-    phase: row.phase as Phase,
+    phase: row.phase as FeaturePhase,
     proposalPath: row.proposal_path,
     specPath: row.spec_path,
     planPath: row.plan_path,
@@ -804,6 +1453,8 @@ function rowToFeature(row: FeatureRow): Feature {
     effortLevel: row.effort_level,
     iteration: row.iteration ?? 0,
     verificationSummary: row.verification_summary,
+    claimExpiresAt: row.claim_expires_at ? new Date(row.claim_expires_at) : null,
+    workflow: row.workflow ?? null,
   };
 }
 
@@ -834,6 +1485,41 @@ function rowToSession(row: SessionRow): Session {
     currentFeatureId: row.current_feature_id,
     featuresCompleted: row.features_completed,
     status: row.status as SessionStatus,
+    lastHeartbeatAt: row.last_heartbeat_at ? new Date(row.last_heartbeat_at) : null,
+  };
+}
+
+/**
+ * Convert database row to WorkflowEvent object
+ * @internal
+ */
+function rowToEvent(row: EventRow): WorkflowEvent {
+  return {
+    id: row.id,
+    type: row.type as EventType,
+    featureId: row.feature_id,
+    subject: row.subject,
+    from: row.from_value,
+    to: row.to_value,
+    detail: row.detail,
+    sessionId: row.session_id,
+    actor: row.actor,
+    at: new Date(row.created_at),
+  };
+}
+
+/**
+ * Convert database row to SessionEvent object
+ * @internal
+ */
+function rowToSessionEvent(row: SessionEventRow): SessionEvent {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    featureId: row.feature_id,
+    action: row.action as SessionAction,
+    detail: row.detail,
+    at: new Date(row.created_at),
   };
 }
 
@@ -851,6 +1537,8 @@ export const __testing = {
   rowToFeature,
   rowToCriterion,
   rowToSession,
+  rowToSessionEvent,
+  rowToEvent,
 };
 
 // =============================================================================
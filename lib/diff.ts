@@ -0,0 +1,156 @@
+/**
+ * Unified Diff - SpecFirst 4.0
+ *
+ * Line-based unified diffs (the `diff -u` / `git diff` format) for previewing
+ * how a phase would change an artifact. Lines are matched with a longest
+ * common subsequence after trimming the common prefix and suffix, which is
+ * fast for artifacts where a run changes a few sections.
+ *
+ * @module lib/diff
+ * @version 4.0.0
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DiffOptions {
+  /** Label of the old side (`/dev/null` when there is no old content) */
+  oldPath: string;
+  /** Label of the new side */
+  newPath: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+interface DiffOp {
+  kind: " " | "-" | "+";
+  text: string;
+  /** Lines of the old and new text before this op */
+  oldLine: number;
+  newLine: number;
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Computes the edit script turning `a` into `b`.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMid = a.slice(prefix, a.length - suffix);
+  const newMid = b.slice(prefix, b.length - suffix);
+  const n = oldMid.length;
+  const m = newMid.length;
+
+  // lcs[i * (m + 1) + j]: LCS length of oldMid[i..] and newMid[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = oldMid[i] === newMid[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  const push = (kind: DiffOp["kind"], text: string) => {
+    ops.push({ kind, text, oldLine, newLine });
+    if (kind !== "+") oldLine++;
+    if (kind !== "-") newLine++;
+  };
+
+  for (let k = 0; k < prefix; k++) push(" ", a[k]);
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldMid[i] === newMid[j]) {
+      push(" ", oldMid[i++]);
+      j++;
+    } else if (j >= m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      push("-", oldMid[i++]);
+    } else {
+      push("+", newMid[j++]);
+    }
+  }
+  for (let k = a.length - suffix; k < a.length; k++) push(" ", a[k]);
+
+  return ops;
+}
+
+/**
+ * Formats a hunk range: `start,count`, where an empty range names the line
+ * before it.
+ */
+function formatRange(start: number, count: number): string {
+  return count === 0 ? `${start},0` : `${start + 1},${count}`;
+}
+
+/**
+ * Creates a unified diff between two texts.
+ *
+ * @param oldText - Current content, or null when the file does not exist
+ * @param newText - New content
+ * @param options - Labels and context size
+ * @returns The diff, or an empty string when the texts are equal
+ *
+ * @example
+ * ```typescript
+ * const diff = createUnifiedDiff(existing, rendered, { oldPath: "a/spec.md", newPath: "b/spec.md" });
+ * // --- a/spec.md
+ * // +++ b/spec.md
+ * // @@ -12,3 +12,4 @@
+ * ```
+ */
+export function createUnifiedDiff(oldText: string | null, newText: string, options: DiffOptions): string {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText ?? ""), splitLines(newText));
+  const changes = ops.flatMap((op, index) => (op.kind === " " ? [] : [index]));
+  if (changes.length === 0) return "";
+
+  const lines = [`--- ${oldText === null ? "/dev/null" : options.oldPath}`, `+++ ${options.newPath}`];
+
+  let h = 0;
+  while (h < changes.length) {
+    // Extend the hunk while the next change is within two contexts
+    let last = h;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * context + 1) last++;
+
+    const start = Math.max(0, changes[h] - context);
+    const end = Math.min(ops.length, changes[last] + context + 1);
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.kind !== "+").length;
+    const newCount = hunk.filter(op => op.kind !== "-").length;
+
+    lines.push(`@@ -${formatRange(hunk[0].oldLine, oldCount)} +${formatRange(hunk[0].newLine, newCount)} @@`);
+    lines.push(...hunk.map(op => `${op.kind}${op.text}`));
+    h = last + 1;
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// Export for testing
+export const __testing = {
+  diffLines,
+  splitLines,
+};
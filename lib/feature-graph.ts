@@ -0,0 +1,205 @@
+/**
+ * Feature Dependency Graph - SpecFirst 4.0
+ *
+ * Pure functions over features and their dependency edges: cycle
+ * detection, dependency-aware queue ordering, and DOT/Mermaid export for
+ * planning multi-feature roadmaps.
+ *
+ * Edges are stored in the `feature_dependencies` table (lib/database);
+ * an edge `{ featureId: "b", dependsOnId: "a" }` means feature b cannot
+ * start until feature a is completed.
+ *
+ * @module lib/feature-graph
+ * @version 4.0.0
+ */
+
+import type { Feature, FeatureDependency } from "./database";
+
+/** Supported graph export formats */
+export type GraphFormat = "dot" | "mermaid";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["dot", "mermaid"];
+
+/**
+ * Finds a chain of dependencies leading from one feature to another.
+ *
+ * Used to reject new edges that would close a cycle: adding
+ * "a depends on b" is a cycle if b already (transitively) depends on a.
+ *
+ * @param edges - Existing dependency edges
+ * @param from - Feature to start from
+ * @param to - Feature to reach
+ * @returns Feature IDs from `from` to `to` inclusive, or null if unreachable
+ *
+ * @example
+ * ```typescript
+ * const path = findDependencyPath(edges, "checkout", "auth");
+ * // ["checkout", "cart", "auth"] when checkout → cart → auth
+ * ```
+ */
+export function findDependencyPath(edges: FeatureDependency[], from: string, to: string): string[] | null {
+  const dependsOn = adjacency(edges);
+  const previous = new Map<string, string>();
+  const queue = [from];
+  const seen = new Set([from]);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path = [to];
+      while (path[0] !== from) path.unshift(previous.get(path[0])!);
+      return path;
+    }
+    for (const next of dependsOn.get(current) ?? []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      previous.set(next, current);
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Orders features so every feature comes after the features it depends on.
+ * Among features whose dependencies are satisfied, the input order is kept
+ * (getFeatures() returns them by priority, then creation time).
+ *
+ * @param features - Features in priority order
+ * @param edges - Dependency edges
+ * @returns Features in dependency order
+ * @throws Error if the edges contain a cycle
+ *
+ * @example
+ * ```typescript
+ * const queue = sortFeaturesByDependencies(getFeatures(), getFeatureDependencyEdges());
+ * ```
+ */
+export function sortFeaturesByDependencies(features: Feature[], edges: FeatureDependency[]): Feature[] {
+  const ids = new Set(features.map(f => f.id));
+  const remaining = new Map<string, Set<string>>();
+  for (const feature of features) {
+    remaining.set(feature.id, new Set());
+  }
+  for (const edge of edges) {
+    if (ids.has(edge.featureId) && ids.has(edge.dependsOnId)) {
+      remaining.get(edge.featureId)!.add(edge.dependsOnId);
+    }
+  }
+
+  const ordered: Feature[] = [];
+  const pending = [...features];
+
+  while (pending.length > 0) {
+    const index = pending.findIndex(f => remaining.get(f.id)!.size === 0);
+    if (index === -1) {
+      throw new Error(`Dependency cycle among features: ${pending.map(f => f.id).join(", ")}`);
+    }
+
+    const [next] = pending.splice(index, 1);
+    ordered.push(next);
+    for (const deps of remaining.values()) {
+      deps.delete(next.id);
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Renders the dependency graph in Graphviz DOT format.
+ * Arrows point from a prerequisite to the feature that needs it.
+ *
+ * @param features - Features to include as nodes
+ * @param edges - Dependency edges
+ * @returns DOT source
+ *
+ * @example
+ * ```typescript
+ * await writeFile("roadmap.dot", formatGraphDot(features, edges));
+ * // dot -Tsvg roadmap.dot > roadmap.svg
+ * ```
+ */
+export function formatGraphDot(features: Feature[], edges: FeatureDependency[]): string {
+  const lines = ["digraph features {", "  rankdir=LR;", "  node [shape=box];"];
+
+  for (const feature of features) {
+    lines.push(`  ${quoteDot(feature.id)} [label=${quoteDot(`${feature.name}\\n${feature.status} · ${feature.phase}`)}];`);
+  }
+  for (const edge of visibleEdges(features, edges)) {
+    lines.push(`  ${quoteDot(edge.dependsOnId)} -> ${quoteDot(edge.featureId)};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Renders the dependency graph as a Mermaid flowchart, suitable for
+ * embedding in markdown.
+ *
+ * @param features - Features to include as nodes
+ * @param edges - Dependency edges
+ * @returns Mermaid source (without the ```mermaid fence)
+ */
+export function formatGraphMermaid(features: Feature[], edges: FeatureDependency[]): string {
+  const nodeIds = new Map(features.map((f, i) => [f.id, `f${i + 1}`]));
+  const lines = ["flowchart LR"];
+
+  for (const feature of features) {
+    const label = `${feature.name}<br/>${feature.status} · ${feature.phase}`.replace(/"/g, "#quot;");
+    lines.push(`  ${nodeIds.get(feature.id)}["${label}"]`);
+  }
+  for (const edge of visibleEdges(features, edges)) {
+    lines.push(`  ${nodeIds.get(edge.dependsOnId)} --> ${nodeIds.get(edge.featureId)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders the graph in the requested format.
+ *
+ * @param format - "dot" or "mermaid"
+ * @param features - Features to include as nodes
+ * @param edges - Dependency edges
+ */
+export function formatFeatureGraph(format: GraphFormat, features: Feature[], edges: FeatureDependency[]): string {
+  return format === "dot" ? formatGraphDot(features, edges) : formatGraphMermaid(features, edges);
+}
+
+/**
+ * Maps each feature to the features it depends on.
+ */
+function adjacency(edges: FeatureDependency[]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = map.get(edge.featureId) ?? [];
+    list.push(edge.dependsOnId);
+    map.set(edge.featureId, list);
+  }
+  return map;
+}
+
+/**
+ * Drops edges whose endpoints are not in the node list.
+ */
+function visibleEdges(features: Feature[], edges: FeatureDependency[]): FeatureDependency[] {
+  const ids = new Set(features.map(f => f.id));
+  return edges.filter(e => ids.has(e.featureId) && ids.has(e.dependsOnId));
+}
+
+/**
+ * Quotes a DOT identifier or label.
+ */
+function quoteDot(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+// Export for testing
+export const __testing = {
+  adjacency,
+  visibleEdges,
+  quoteDot,
+};
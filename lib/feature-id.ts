@@ -0,0 +1,162 @@
+/**
+ * Feature Identity - SpecFirst 4.0
+ *
+ * A feature is identified by a FeatureId: a lowercase slug such as
+ * `user-auth` that is safe to use as the database primary key, a directory
+ * name and a git branch suffix. The human-readable title is kept separately
+ * (the `name` column in SQLite) and may contain anything.
+ *
+ * Rules for a FeatureId:
+ * - Lowercase letters, digits and single hyphens (`^[a-z0-9]+(-[a-z0-9]+)*$`)
+ * - At most 64 characters
+ * - Not a reserved name (`none`, or a Windows device name such as `con`)
+ *
+ * This rules out path traversal (`../../etc`), separators, spaces and shell
+ * metacharacters before a name reaches the filesystem or git.
+ *
+ * @module lib/feature-id
+ * @version 4.0.0
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A validated feature slug (see validateFeatureId) */
+export type FeatureId = string;
+
+/**
+ * Thrown when a feature name is not a valid FeatureId.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   assertFeatureId(name);
+ * } catch (error) {
+ *   if (error instanceof FeatureIdError) console.error(error.errors.join("\n"));
+ * }
+ * ```
+ */
+export class FeatureIdError extends Error {
+  constructor(
+    public readonly featureId: string,
+    public readonly errors: string[]
+  ) {
+    super(`Invalid feature name "${featureId}": ${errors.join("; ")}`);
+    this.name = "FeatureIdError";
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Pattern every FeatureId matches */
+export const FEATURE_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Maximum FeatureId length */
+export const FEATURE_ID_MAX_LENGTH = 64;
+
+/** Names that cannot be used as a FeatureId */
+export const RESERVED_FEATURE_IDS: readonly string[] = [
+  "none",
+  "con", "prn", "aux", "nul",
+  ...Array.from({ length: 9 }, (_, i) => `com${i + 1}`),
+  ...Array.from({ length: 9 }, (_, i) => `lpt${i + 1}`),
+];
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Lists the problems with a feature name.
+ *
+ * @param featureId - Candidate feature name
+ * @returns One message per violated rule (empty if valid)
+ *
+ * @example
+ * ```typescript
+ * validateFeatureId("user-auth");  // []
+ * validateFeatureId("../../etc");  // ["must not contain path separators or '..'", ...]
+ * ```
+ */
+export function validateFeatureId(featureId: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof featureId !== "string" || featureId.length === 0) {
+    return ["must not be empty"];
+  }
+  if (/[\/\\]|\.\./.test(featureId)) {
+    errors.push("must not contain path separators or '..'");
+  }
+  if (featureId.length > FEATURE_ID_MAX_LENGTH) {
+    errors.push(`must be at most ${FEATURE_ID_MAX_LENGTH} characters`);
+  }
+  if (!FEATURE_ID_PATTERN.test(featureId)) {
+    errors.push("must use lowercase letters, digits and single hyphens, e.g. \"user-auth\"");
+  }
+  if (RESERVED_FEATURE_IDS.includes(featureId)) {
+    errors.push(`"${featureId}" is reserved`);
+  }
+
+  return errors;
+}
+
+/**
+ * Checks whether a feature name is a valid FeatureId.
+ */
+export function isValidFeatureId(featureId: string): featureId is FeatureId {
+  return validateFeatureId(featureId).length === 0;
+}
+
+/**
+ * Validates a feature name.
+ *
+ * @param featureId - Candidate feature name
+ * @returns The name, typed as FeatureId
+ * @throws FeatureIdError if the name is invalid
+ */
+export function assertFeatureId(featureId: string): FeatureId {
+  const errors = validateFeatureId(featureId);
+  if (errors.length > 0) {
+    throw new FeatureIdError(featureId, errors);
+  }
+  return featureId;
+}
+
+/**
+ * Gets the error message phases return for an invalid feature name.
+ *
+ * @param featureId - Candidate feature name
+ * @returns Message, or undefined if the name is valid
+ *
+ * @example
+ * ```typescript
+ * const invalid = checkFeatureId(input.featureName);
+ * if (invalid) return { success: false, error: invalid };
+ * ```
+ */
+export function checkFeatureId(featureId: string): string | undefined {
+  const errors = validateFeatureId(featureId);
+  return errors.length > 0 ? new FeatureIdError(featureId, errors).message : undefined;
+}
+
+/**
+ * Derives a FeatureId from a display title.
+ *
+ * @param title - Human-readable title, e.g. "User Auth (v2)"
+ * @returns Slug, e.g. "user-auth-v2"
+ * @throws FeatureIdError if nothing usable remains
+ */
+export function slugifyFeatureName(title: string): FeatureId {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, FEATURE_ID_MAX_LENGTH)
+    .replace(/-+$/, "");
+  return assertFeatureId(slug);
+}
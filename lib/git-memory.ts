@@ -0,0 +1,375 @@
+/**
+ * In-Memory Git Backend - SpecFirst 4.0
+ *
+ * A fake repository implementing the subset of git that lib/git uses, so
+ * gates and phases can be tested without spawning git:
+ *
+ * ```typescript
+ * setGitBackend(createMemoryGitBackend());
+ * await executePhase("propose", "user-auth", input);
+ * setGitBackend();
+ * ```
+ *
+ * Commits, branches, the index and config live in memory; `add` reads file
+ * contents from disk. `rev-parse --git-dir` points at a scratch directory so
+ * queued markers (SPECFIRST_AUTO_COMMIT=false) still have somewhere to go;
+ * it is created on first use and removed by dispose().
+ * The working directory passed to each call is ignored: one backend is one
+ * repository.
+ *
+ * @module lib/git-memory
+ * @version 4.0.0
+ */
+
+import { createHash } from "crypto";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { resolve } from "path";
+import type { GitBackend, GitResult } from "./git";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A commit in the in-memory repository */
+export interface MemoryCommit {
+  hash: string;
+  message: string;
+  author: string;
+  date: string;
+  parents: string[];
+  /** Snapshot of tracked files: path → content */
+  files: Map<string, string>;
+}
+
+/** Options for createMemoryGitBackend() */
+export interface MemoryGitOptions {
+  /** Initial branch name (default: main) */
+  branch?: string;
+  /** Directory returned by `rev-parse --git-dir` (default: a temp directory removed by dispose()) */
+  gitDir?: string;
+  /** Clock used for commit dates (default: current time) */
+  now?: () => Date;
+}
+
+/** GitBackend with access to the fake repository's state */
+export interface MemoryGitBackend extends GitBackend {
+  /** Commits by hash */
+  readonly commits: Map<string, MemoryCommit>;
+  /** Branch tips; undefined for a branch without commits */
+  readonly branches: Map<string, string | undefined>;
+  /** Every argv passed to run(), in order */
+  readonly calls: string[][];
+  /** Removes the scratch git dir if one was created; setGitBackend() calls this */
+  dispose(): void;
+}
+
+interface RepoState {
+  head: string;
+  commits: Map<string, MemoryCommit>;
+  order: string[];
+  branches: Map<string, string | undefined>;
+  index: Map<string, string>;
+  config: Map<string, string>;
+  gitDir?: string;
+  /** gitDir was created here rather than passed in options */
+  ownsGitDir?: boolean;
+  pendingSquash?: Map<string, string>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ok = (stdout = ""): GitResult => ({ success: true, exitCode: 0, stdout, stderr: "" });
+const fail = (stderr: string, exitCode = 1): GitResult => ({ success: false, exitCode, stdout: "", stderr });
+
+/**
+ * Splits off the trailer block: the last paragraph, if every line in it is
+ * a `Key: value` line and it is not the subject.
+ */
+function parseTrailers(message: string): Array<[string, string]> {
+  const paragraphs = message.trim().split(/\n\s*\n/);
+  if (paragraphs.length < 2) return [];
+
+  const lines = paragraphs[paragraphs.length - 1].split("\n").filter(l => l.trim());
+  const trailers = lines.map(line => line.match(/^([A-Za-z0-9-]+):\s*(.*)$/));
+  if (trailers.some(t => !t)) return [];
+  return trailers.map(t => [t![1], t![2].trim()]);
+}
+
+/**
+ * Renders a `--format` string for a commit.
+ * Supports %H %h %s %B %aI %an %xNN and %(trailers:key=...,separator=...,valueonly).
+ */
+function formatCommit(format: string, commit: MemoryCommit): string {
+  return format.replace(/%\(trailers(?::([^)]*))?\)|%x([0-9a-fA-F]{2})|%aI|%an|%[HhsB]/g, (token, opts, hex) => {
+    if (hex) return String.fromCharCode(parseInt(hex, 16));
+    switch (token) {
+      case "%H": return commit.hash;
+      case "%h": return commit.hash.slice(0, 7);
+      case "%s": return commit.message.trim().split(/\n\s*\n/)[0].split("\n").join(" ");
+      case "%B": return `${commit.message.trim()}\n`;
+      case "%aI": return commit.date;
+      case "%an": return commit.author;
+    }
+
+    const options = (opts ?? "").split(",").filter(Boolean);
+    const keys = options.filter((o: string) => o.startsWith("key=")).map((o: string) => o.slice(4).toLowerCase());
+    const separatorOption = options.find((o: string) => o.startsWith("separator="));
+    const separator = separatorOption
+      ? separatorOption.slice(10).replace(/%x([0-9a-fA-F]{2})/g, (_: string, h: string) => String.fromCharCode(parseInt(h, 16)))
+      : "\n";
+    const valueOnly = options.includes("valueonly");
+
+    const lines = parseTrailers(commit.message)
+      .filter(([key]) => keys.length === 0 || keys.includes(key.toLowerCase()))
+      .map(([key, value]) => valueOnly ? value : `${key}: ${value}`);
+    return separatorOption ? lines.join(separator) : lines.map(l => `${l}\n`).join("");
+  });
+}
+
+/**
+ * Lists commits reachable from a tip, newest first.
+ */
+function reachable(state: RepoState, tip: string | undefined): MemoryCommit[] {
+  const seen = new Set<string>();
+  const queue = tip ? [tip] : [];
+  while (queue.length > 0) {
+    const hash = queue.shift()!;
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+    queue.push(...state.commits.get(hash)!.parents);
+  }
+  return state.order.filter(h => seen.has(h)).reverse().map(h => state.commits.get(h)!);
+}
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+function commit(state: RepoState, message: string, files: Map<string, string>, extraParents: string[], now: () => Date): string {
+  const parent = state.branches.get(state.head);
+  const hash = createHash("sha1").update(`${state.order.length}\0${parent ?? ""}\0${message}`).digest("hex");
+  state.commits.set(hash, {
+    hash,
+    message,
+    author: state.config.get("user.name") ?? "SpecFirst",
+    date: now().toISOString(),
+    parents: [...(parent ? [parent] : []), ...extraParents],
+    files,
+  });
+  state.order.push(hash);
+  state.branches.set(state.head, hash);
+  return hash;
+}
+
+function headFiles(state: RepoState): Map<string, string> {
+  const tip = state.branches.get(state.head);
+  return new Map(tip ? state.commits.get(tip)!.files : []);
+}
+
+function runCommand(state: RepoState, args: string[], cwd: string, options: Required<Pick<MemoryGitOptions, "now">> & MemoryGitOptions): GitResult {
+  const [command, ...rest] = args;
+  const flags = rest.filter(a => a.startsWith("-"));
+  const positionals = rest.filter(a => !a.startsWith("-"));
+
+  switch (command) {
+    case "init":
+      return ok();
+
+    case "config":
+      if (flags.includes("--get")) {
+        const value = state.config.get(positionals[0]);
+        return value === undefined ? fail("", 1) : ok(value);
+      }
+      state.config.set(positionals[0], positionals[1]);
+      return ok();
+
+    case "rev-parse":
+      if (flags.includes("--git-dir")) {
+        if (!state.gitDir) {
+          state.ownsGitDir = !options.gitDir;
+          state.gitDir = options.gitDir ?? mkdtempSync(resolve(tmpdir(), "specfirst-memory-git-"));
+        }
+        return ok(state.gitDir);
+      }
+      if (flags.includes("--verify")) {
+        const ref = positionals[0]?.replace(/^refs\/heads\//, "");
+        return ref && state.branches.get(ref) ? ok(state.branches.get(ref)) : fail("", 1);
+      }
+      return fail(`unsupported: git ${args.join(" ")}`, 128);
+
+    case "branch":
+      if (flags.includes("--show-current")) return ok(state.head);
+      if (flags.includes("-d") || flags.includes("-D")) {
+        if (!state.branches.has(positionals[0])) return fail(`error: branch '${positionals[0]}' not found.`);
+        state.branches.delete(positionals[0]);
+        for (const key of [...state.config.keys()]) {
+          if (key.startsWith(`branch.${positionals[0]}.`)) state.config.delete(key);
+        }
+        return ok();
+      }
+      if (flags.includes("-m")) {
+        const [from, to] = positionals;
+        if (!state.branches.has(from)) return fail(`error: refname refs/heads/${from} not found`, 128);
+        if (state.branches.has(to)) return fail(`fatal: a branch named '${to}' already exists`, 128);
+        state.branches.set(to, state.branches.get(from));
+        state.branches.delete(from);
+        for (const [key, value] of [...state.config]) {
+          if (!key.startsWith(`branch.${from}.`)) continue;
+          state.config.delete(key);
+          state.config.set(`branch.${to}.${key.slice(`branch.${from}.`.length)}`, value);
+        }
+        if (state.head === from) state.head = to;
+        return ok();
+      }
+      return fail(`unsupported: git ${args.join(" ")}`, 128);
+
+    case "status":
+      return ok([...state.index.keys()].map(path => `A  ${path}`).join("\n"));
+
+    case "diff":
+      return ok([...state.index.keys()].join("\n"));
+
+    case "ls-files":
+      return ok([...headFiles(state).keys()].join("\n"));
+
+    case "add": {
+      for (const path of positionals) {
+        try {
+          state.index.set(path, readFileSync(resolve(cwd, path), "utf-8"));
+        } catch {
+          return fail(`fatal: pathspec '${path}' did not match any files`, 128);
+        }
+      }
+      return ok();
+    }
+
+    case "commit": {
+      const message = rest[rest.indexOf("-m") + 1];
+      if (!rest.includes("-m") || message === undefined) return fail("unsupported: commit without -m", 128);
+
+      const staged = state.pendingSquash ?? state.index;
+      if (staged.size === 0 && !flags.includes("--allow-empty")) {
+        return fail("nothing to commit, working tree clean");
+      }
+      const files = headFiles(state);
+      for (const [path, content] of staged) files.set(path, content);
+
+      const hash = commit(state, message, files, [], options.now);
+      state.index.clear();
+      state.pendingSquash = undefined;
+      return ok(`[${state.head} ${hash.slice(0, 7)}] ${message.split("\n")[0]}`);
+    }
+
+    case "checkout": {
+      const create = flags.includes("-b");
+      const [name, startPoint] = positionals;
+      if (create) {
+        if (state.branches.has(name)) return fail(`fatal: a branch named '${name}' already exists`, 128);
+        const start = startPoint ? state.branches.get(startPoint) : state.branches.get(state.head);
+        state.branches.set(name, start);
+      } else if (!state.branches.has(name)) {
+        return fail(`error: pathspec '${name}' did not match any file(s) known to git`);
+      }
+      state.head = name;
+      return ok();
+    }
+
+    case "merge": {
+      const branch = positionals[positionals.length - 1];
+      const tip = state.branches.get(branch);
+      if (!tip) return fail(`merge: ${branch} - not something we can merge`);
+
+      const files = headFiles(state);
+      for (const [path, content] of state.commits.get(tip)!.files) files.set(path, content);
+
+      if (flags.includes("--squash")) {
+        state.pendingSquash = new Map([...state.commits.get(tip)!.files]);
+        return ok("Squash commit -- not updating HEAD");
+      }
+      const message = rest.includes("-m") ? rest[rest.indexOf("-m") + 1] : `Merge branch '${branch}'`;
+      commit(state, message, files, [tip], options.now);
+      return ok();
+    }
+
+    case "log": {
+      const grep = rest.find(a => a.startsWith("--grep="))?.slice(7);
+      const format = rest.find(a => a.startsWith("--format="))?.slice(9) ?? "%H";
+      const ref = positionals.find(p => p !== "--") ?? state.head;
+      const tip = state.branches.has(ref) ? state.branches.get(ref) : ref === "HEAD" ? state.branches.get(state.head) : undefined;
+      if (!tip && !state.branches.has(ref) && ref !== "HEAD") {
+        return fail(`fatal: bad revision '${ref}'`, 128);
+      }
+
+      let commits = reachable(state, tip);
+      if (grep !== undefined) {
+        const pattern = flags.includes("-F") ? null : new RegExp(grep);
+        commits = commits.filter(c => pattern ? pattern.test(c.message) : c.message.includes(grep));
+      }
+      if (flags.includes("-1")) commits = commits.slice(0, 1);
+      if (flags.includes("--reverse")) commits = commits.reverse();
+      return ok(commits.map(c => formatCommit(format, c)).join("\n").trim());
+    }
+
+    default:
+      return fail(`unsupported: git ${args.join(" ")}`, 128);
+  }
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Creates an empty in-memory repository usable as a GitBackend.
+ *
+ * @param options - Initial branch, git dir and clock
+ * @returns Backend exposing commits, branches and the calls it received
+ *
+ * @example
+ * ```typescript
+ * const git = createMemoryGitBackend();
+ * setGitBackend(git);
+ * await createPhaseCommit("propose", "user-auth", proposalPath);
+ * console.log(git.commits.size); // 1
+ * setGitBackend();
+ * ```
+ */
+export function createMemoryGitBackend(options: MemoryGitOptions = {}): MemoryGitBackend {
+  const branch = options.branch ?? "main";
+  const state: RepoState = {
+    head: branch,
+    commits: new Map(),
+    order: [],
+    branches: new Map([[branch, undefined]]),
+    index: new Map(),
+    config: new Map(),
+  };
+  const calls: string[][] = [];
+  const resolved = { ...options, now: options.now ?? (() => new Date()) };
+
+  return {
+    commits: state.commits,
+    branches: state.branches,
+    calls,
+    run: async (args, cwd) => {
+      calls.push([...args]);
+      return runCommand(state, args.filter(a => a !== "--" || args[0] === "log"), cwd, resolved);
+    },
+    dispose: () => {
+      if (state.gitDir && state.ownsGitDir) {
+        rmSync(state.gitDir, { recursive: true, force: true });
+      }
+      state.gitDir = undefined;
+      state.ownsGitDir = undefined;
+    },
+  };
+}
+
+// Export for testing
+export const __testing = {
+  parseTrailers,
+  formatCommit,
+};
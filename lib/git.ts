@@ -8,18 +8,53 @@
  * @version 3.0.0
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
+import { execFile } from "child_process";
+import { existsSync } from "fs";
+import { readFile, writeFile, rm } from "fs/promises";
+import { createHash } from "crypto";
+import { isAbsolute, relative, resolve } from "path";
+import { getConfig } from "./config";
 
 export type Phase = "propose" | "specify" | "plan" | "implement" | "release";
 
+/** A built-in phase or a phase defined by a custom workflow (lib/workflow) */
+export type PhaseName = Phase | (string & {});
+
+/** Default phase order; reopening a phase also invalidates every later phase */
+const PHASE_ORDER: PhaseName[] = ["propose", "specify", "plan", "implement", "release"];
+
+/** Prefix of the branches created in branch-per-feature mode */
+export const FEATURE_BRANCH_PREFIX = "specfirst/";
+
+/** Trailer keys recorded on marker commits */
+export const TRAILERS = {
+  feature: "SpecFirst-Feature",
+  phase: "SpecFirst-Phase",
+  status: "SpecFirst-Status",
+  artifactSha256: "SpecFirst-Artifact-SHA256",
+  renamedFrom: "SpecFirst-Renamed-From",
+} as const;
+
+/** Subject of marker commits made before trailers were recorded */
+const LEGACY_SUBJECT = /^SpecFirst: (\S+) phase (complete|reopened) for (\S+)/;
+
+/** File in the git directory holding phase markers awaiting a commit */
+const PENDING_MARKERS_FILE = "SPECFIRST_PENDING";
+
+/** How mergeFeatureBranch() brings a feature branch into its base */
+export type MergeStrategy = "merge" | "squash";
+
 export interface GitResult {
   success: boolean;
+  /** Exit code of git; null if it could not be started or was killed */
+  exitCode: number | null;
   stdout: string;
   stderr: string;
   error?: Error;
+  /** Set when git was killed after exceeding its timeout */
+  timedOut?: boolean;
+  /** Set when auto-commit is off and the marker was queued instead of committed */
+  pending?: boolean;
 }
 
 export interface CommitInfo {
@@ -29,29 +64,124 @@ export interface CommitInfo {
   author: string;
 }
 
+/** A phase completion or reopen marker (see getPhaseMarkers) */
+export interface PhaseMarker {
+  feature: string;
+  phase: string;
+  status: "complete" | "reopened";
+  /** SHA-256 of the artifact when the phase completed (not recorded by legacy commits) */
+  artifactSha256?: string;
+  /** Commit carrying the marker; undefined while the marker is queued */
+  commit?: CommitInfo;
+}
+
+/**
+ * Limits for a single git invocation.
+ */
+export interface GitRunOptions {
+  /** Kill git after this many milliseconds (default: SPECFIRST_GIT_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Maximum bytes on stdout or stderr before git is killed (default: 10 MB) */
+  maxBuffer?: number;
+}
+
+/**
+ * Executes git commands for this module. The default backend spawns the
+ * git binary; setGitBackend() swaps in another one, such as the in-memory
+ * repository from lib/git-memory for tests.
+ */
+export interface GitBackend {
+  /**
+   * Runs git with the given arguments (without the leading "git").
+   * Failures are reported in the result, never thrown.
+   */
+  run(args: string[], cwd: string, options: GitRunOptions): Promise<GitResult>;
+  /** Releases anything the backend created; called when it is replaced */
+  dispose?(): void;
+}
+
+/** Default maxBuffer for git output */
+export const DEFAULT_GIT_MAX_BUFFER = 10 * 1024 * 1024;
+
+/**
+ * Creates the backend that spawns git. Arguments are passed as argv, never
+ * through a shell, so feature names, paths and messages cannot inject
+ * commands.
+ * 
+ * @param defaults - Limits applied when a call does not set its own
+ * @returns GitBackend
+ * 
+ * @example
+ * ```typescript
+ * setGitBackend(createProcessGitBackend({ timeoutMs: 5000 }));
+ * ```
+ */
+export function createProcessGitBackend(defaults: GitRunOptions = {}): GitBackend {
+  return {
+    run: (args, cwd, options) => new Promise((resolvePromise) => {
+      const timeout = options.timeoutMs ?? defaults.timeoutMs ?? getConfig(cwd).gitTimeoutMs;
+      const maxBuffer = options.maxBuffer ?? defaults.maxBuffer ?? DEFAULT_GIT_MAX_BUFFER;
+      
+      execFile("git", args, { cwd, timeout, maxBuffer, encoding: "utf-8" }, (error, stdout, stderr) => {
+        if (!error) {
+          resolvePromise({ success: true, exitCode: 0, stdout: stdout.trim(), stderr: stderr.trim() });
+          return;
+        }
+        
+        const err = error as Error & { code?: number | string; killed?: boolean; signal?: string };
+        const timedOut = Boolean(err.killed) && err.signal === "SIGTERM" && !/maxBuffer/.test(err.message);
+        resolvePromise({
+          success: false,
+          exitCode: typeof err.code === "number" ? err.code : null,
+          stdout: (stdout ?? "").trim(),
+          stderr: (stderr ?? "").trim() || (timedOut ? `git ${args[0]} timed out after ${timeout}ms` : err.message),
+          error: err,
+          ...(timedOut ? { timedOut } : {}),
+        });
+      });
+    }),
+  };
+}
+
+let backend: GitBackend = createProcessGitBackend();
+
+/**
+ * Replaces the backend used by every git operation in this module,
+ * disposing the one it replaces.
+ * 
+ * @param next - Backend to use; omit to restore the process backend
+ * 
+ * @example
+ * ```typescript
+ * setGitBackend(createMemoryGitBackend());
+ * await createPhaseCommit("propose", "user-auth", proposalPath);
+ * setGitBackend();
+ * ```
+ */
+export function setGitBackend(next?: GitBackend): void {
+  if (backend !== next) {
+    backend.dispose?.();
+  }
+  backend = next ?? createProcessGitBackend();
+}
+
+/**
+ * Gets the backend currently used for git operations.
+ */
+export function getGitBackend(): GitBackend {
+  return backend;
+}
+
 /**
  * Executes a git command in the specified working directory.
  * 
- * @param command - Git command to execute (without 'git' prefix)
+ * @param args - Git arguments (without 'git'), passed as argv
  * @param cwd - Working directory (defaults to current directory)
- * @returns GitResult with stdout/stderr
+ * @param options - Timeout and output limits
+ * @returns GitResult with exit code and stdout/stderr
  */
-async function runGit(command: string, cwd?: string): Promise<GitResult> {
-  try {
-    const { stdout, stderr } = await execAsync(`git ${command}`, {
-      cwd: cwd || process.cwd(),
-      maxBuffer: 1024 * 1024, // 1MB buffer
-    });
-    return { success: true, stdout: stdout.trim(), stderr: stderr.trim() };
-  } catch (error) {
-    const err = error as { stdout?: string; stderr?: string; message?: string };
-    return {
-      success: false,
-      stdout: err.stdout || "",
-      stderr: err.stderr || "",
-      error: error as Error,
-    };
-  }
+async function runGit(args: string[], cwd?: string, options: GitRunOptions = {}): Promise<GitResult> {
+  return backend.run(args, cwd || process.cwd(), options);
 }
 
 /**
@@ -61,7 +191,7 @@ async function runGit(command: string, cwd?: string): Promise<GitResult> {
  * @returns true if git repository
  */
 export async function isGitRepository(cwd?: string): Promise<boolean> {
-  const result = await runGit("rev-parse --git-dir", cwd);
+  const result = await runGit(["rev-parse", "--git-dir"], cwd);
   return result.success;
 }
 
@@ -72,7 +202,7 @@ export async function isGitRepository(cwd?: string): Promise<boolean> {
  * @returns Branch name or undefined if not in a git repo
  */
 export async function getCurrentBranch(cwd?: string): Promise<string | undefined> {
-  const result = await runGit("branch --show-current", cwd);
+  const result = await runGit(["branch", "--show-current"], cwd);
   return result.success ? result.stdout : undefined;
 }
 
@@ -83,10 +213,232 @@ export async function getCurrentBranch(cwd?: string): Promise<string | undefined
  * @returns true if there are uncommitted changes
  */
 export async function hasUncommittedChanges(cwd?: string): Promise<boolean> {
-  const result = await runGit("status --porcelain", cwd);
+  const result = await runGit(["status", "--porcelain"], cwd);
   return result.success && result.stdout.length > 0;
 }
 
+/**
+ * Checks if a local branch exists.
+ */
+async function branchExists(branch: string, cwd?: string): Promise<boolean> {
+  const result = await runGit(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`], cwd);
+  return result.success;
+}
+
+/**
+ * Gets the repository's default branch: the remote's HEAD, then
+ * init.defaultBranch, then main or master, whichever exists locally.
+ */
+async function getDefaultBranch(cwd?: string): Promise<string | undefined> {
+  const remoteHead = await runGit(["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"], cwd);
+  const candidates = [
+    remoteHead.success ? remoteHead.stdout.replace(/^origin\//, "") : "",
+    (await runGit(["config", "--get", "init.defaultBranch"], cwd)).stdout,
+    "main",
+    "master",
+  ];
+  for (const candidate of candidates) {
+    if (candidate && !candidate.startsWith(FEATURE_BRANCH_PREFIX) && await branchExists(candidate, cwd)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the branch a new feature branch starts from: `SPECFIRST_BRANCH`, or
+ * the current branch unless that is another feature's branch, in which case
+ * that feature's recorded base (or the default branch) so features never
+ * stack on each other.
+ */
+async function getFeatureBase(current: string | undefined, cwd?: string): Promise<string | undefined> {
+  const config = getConfig(cwd);
+  if (config.gitBranch) {
+    return config.gitBranch;
+  }
+  if (!current?.startsWith(FEATURE_BRANCH_PREFIX)) {
+    return current;
+  }
+  const recorded = await runGit(["config", "--get", `branch.${current}.specfirstBase`], cwd);
+  return (recorded.success && recorded.stdout) || await getDefaultBranch(cwd);
+}
+
+/**
+ * Gets the branch phase markers for a feature are committed to.
+ * 
+ * - `SPECFIRST_BRANCH_PER_FEATURE=true`: `specfirst/{feature-name}`
+ * - `SPECFIRST_BRANCH` set: that branch
+ * - Otherwise: undefined (whatever branch is checked out)
+ * 
+ * @param featureName - Feature name
+ * @param cwd - Project whose configuration applies
+ * @returns Branch name or undefined
+ */
+export function getFeatureBranch(featureName: string, cwd?: string): string | undefined {
+  const config = getConfig(cwd);
+  if (config.gitBranchPerFeature) {
+    return `${FEATURE_BRANCH_PREFIX}${featureName}`;
+  }
+  return config.gitBranch;
+}
+
+/**
+ * Checks out the branch phase markers for a feature belong on, creating it
+ * if needed. A new per-feature branch starts from `SPECFIRST_BRANCH` (or the
+ * current branch, or the base of the feature branch checked out) and
+ * remembers it as the base mergeFeatureBranch() merges back into.
+ * 
+ * @param featureName - Feature name
+ * @param cwd - Working directory
+ * @returns GitResult; stdout holds the branch now checked out
+ */
+export async function ensureCommitBranch(featureName: string, cwd?: string): Promise<GitResult> {
+  const branch = getFeatureBranch(featureName, cwd);
+  const current = await getCurrentBranch(cwd);
+  if (!branch || current === branch) {
+    return { success: true, exitCode: 0, stdout: current ?? "", stderr: "" };
+  }
+  
+  if (await branchExists(branch, cwd)) {
+    const result = await runGit(["checkout", "-q", branch], cwd);
+    return result.success ? { ...result, stdout: branch } : result;
+  }
+  
+  const config = getConfig(cwd);
+  const base = config.gitBranchPerFeature ? await getFeatureBase(current, cwd) : current;
+  const startPoint = base && base !== current ? [base] : [];
+  const result = await runGit(["checkout", "-q", "-b", branch, ...startPoint], cwd);
+  if (!result.success) {
+    return result;
+  }
+  
+  if (config.gitBranchPerFeature && base) {
+    await runGit(["config", `branch.${branch}.specfirstBase`, base], cwd);
+  }
+  return { ...result, stdout: branch };
+}
+
+/**
+ * Gets the ref a feature's phase markers are searched on: its commit branch
+ * if that exists, otherwise HEAD.
+ */
+async function getMarkerRef(featureName: string, cwd?: string): Promise<string[]> {
+  const branch = getFeatureBranch(featureName, cwd);
+  return branch && (await branchExists(branch, cwd)) ? [branch] : [];
+}
+
+/**
+ * Gets the path of the pending marker file inside the git directory.
+ */
+async function getPendingPath(cwd?: string): Promise<string | undefined> {
+  const result = await runGit(["rev-parse", "--git-dir"], cwd);
+  if (!result.success) {
+    return undefined;
+  }
+  return resolve(cwd || process.cwd(), result.stdout, PENDING_MARKERS_FILE);
+}
+
+/**
+ * Gets the phase marker messages queued while auto-commit was off, oldest
+ * first.
+ * 
+ * @param cwd - Working directory
+ * @returns Full commit messages of the queued markers
+ */
+export async function getPendingMarkers(cwd?: string): Promise<string[]> {
+  const path = await getPendingPath(cwd);
+  if (!path || !existsSync(path)) {
+    return [];
+  }
+  
+  try {
+    const markers = JSON.parse(await readFile(path, "utf-8"));
+    return Array.isArray(markers) ? markers.filter((m): m is string => typeof m === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Queues a phase marker for the next commit.
+ */
+async function addPendingMarker(message: string, cwd?: string): Promise<GitResult> {
+  const path = await getPendingPath(cwd);
+  if (!path) {
+    return { success: false, exitCode: null, stdout: "", stderr: "Not a git repository" };
+  }
+  
+  const markers = [...(await getPendingMarkers(cwd)), message];
+  await writeFile(path, JSON.stringify(markers, null, 2), "utf-8");
+  return {
+    success: true,
+    exitCode: 0,
+    stdout: `${message.split("\n")[0]} (pending: SPECFIRST_AUTO_COMMIT=false)`,
+    stderr: "",
+    pending: true,
+  };
+}
+
+/**
+ * Commits the phase markers queued while auto-commit was off, one commit
+ * per marker in the order they were recorded. The first commit carries
+ * whatever is staged. Runs regardless of SPECFIRST_AUTO_COMMIT, so
+ * `specfirst commit` can flush the queue by hand.
+ * 
+ * @param cwd - Working directory
+ * @returns GitResult; stdout lists the committed marker subjects
+ * 
+ * @example
+ * ```typescript
+ * const result = await commitPendingMarkers(projectPath);
+ * if (result.success && result.stdout) console.log(result.stdout);
+ * ```
+ */
+export async function commitPendingMarkers(cwd?: string): Promise<GitResult> {
+  const markers = await getPendingMarkers(cwd);
+  const committed: string[] = [];
+  
+  for (const [index, message] of markers.entries()) {
+    const result = await runGit(["commit", "--allow-empty", "-m", message], cwd);
+    if (!result.success) {
+      // Keep the markers that did not make it for the next attempt
+      const path = await getPendingPath(cwd);
+      if (path) await writeFile(path, JSON.stringify(markers.slice(index), null, 2), "utf-8");
+      return result;
+    }
+    committed.push(message.split("\n")[0]);
+  }
+  
+  const path = await getPendingPath(cwd);
+  if (path) await rm(path, { force: true });
+  return { success: true, exitCode: 0, stdout: committed.join("\n"), stderr: "" };
+}
+
+/**
+ * Commits a phase marker, or queues it when SPECFIRST_AUTO_COMMIT is off.
+ * Earlier queued markers are committed first so markers stay in order;
+ * callers stage the marker's own files after that flush.
+ */
+async function commitMarker(message: string, allowEmpty: boolean, cwd?: string): Promise<GitResult> {
+  if (!getConfig(cwd).gitAutoCommit) {
+    return addPendingMarker(message, cwd);
+  }
+  
+  return runGit(["commit", ...(allowEmpty ? ["--allow-empty"] : []), "-m", message], cwd);
+}
+
+/**
+ * Switches to the feature's commit branch and, with auto-commit on,
+ * commits any queued markers. Run before staging a new marker's files.
+ */
+async function prepareMarker(featureName: string, cwd?: string): Promise<GitResult> {
+  const branchResult = await ensureCommitBranch(featureName, cwd);
+  if (!branchResult.success || !getConfig(cwd).gitAutoCommit) {
+    return branchResult;
+  }
+  return commitPendingMarkers(cwd);
+}
+
 /**
  * Creates a SpecFirst phase completion commit.
  * 
@@ -97,8 +449,22 @@ export async function hasUncommittedChanges(cwd?: string): Promise<boolean> {
  * Artifact: specs/{artifact-name}
  * Status: complete
  * Timestamp: {ISO-8601}
+ * 
+ * SpecFirst-Feature: {feature-name}
+ * SpecFirst-Phase: {phase}
+ * SpecFirst-Status: complete
+ * SpecFirst-Artifact-SHA256: {hex digest of the artifact}
  * ```
  * 
+ * The trailers are what getPhaseMarkers() reads; the subject stays for
+ * people reading the log. An artifact inside the working directory is
+ * recorded relative to it (e.g. `specs/user-auth/spec.md` with repo
+ * storage), anything else by its absolute path.
+ * 
+ * The commit goes to the feature's commit branch (see getFeatureBranch).
+ * With SPECFIRST_AUTO_COMMIT=false the artifact is only staged and the
+ * marker is queued until the next SpecFirst commit or `specfirst commit`.
+ * 
  * @param phase - Phase that completed
  * @param featureName - Name of the feature
  * @param artifactPath - Path to the artifact file
@@ -106,52 +472,477 @@ export async function hasUncommittedChanges(cwd?: string): Promise<boolean> {
  * @returns GitResult
  */
 export async function createPhaseCommit(
-  phase: Phase,
+  phase: PhaseName,
   featureName: string,
   artifactPath: string,
   cwd?: string
 ): Promise<GitResult> {
-  const timestamp = new Date().toISOString();
+  const artifact = toProjectPath(artifactPath, cwd);
+  const fullMessage = formatPhaseCommitMessage(phase, featureName, artifactPath, {
+    cwd,
+    artifactSha256: await hashArtifact(artifactPath, cwd),
+  });
   
-  // Build commit message
+  const prepareResult = await prepareMarker(featureName, cwd);
+  if (!prepareResult.success) {
+    return prepareResult;
+  }
+  
+  // Stage the artifact file
+  const addResult = await runGit(["add", "--", artifact], cwd);
+  if (!addResult.success) {
+    return addResult;
+  }
+  
+  return commitMarker(fullMessage, false, cwd);
+}
+
+/**
+ * Builds the message createPhaseCommit() records for a completed phase.
+ * 
+ * @param phase - Phase that completed
+ * @param featureName - Name of the feature
+ * @param artifactPath - Path to the artifact file
+ * @param options - Working directory, artifact digest and timestamp (default: now)
+ * @returns Commit message
+ * 
+ * @example
+ * ```typescript
+ * const digest = createHash("sha256").update(content).digest("hex");
+ * console.log(formatPhaseCommitMessage("plan", "user-auth", planPath, { artifactSha256: digest }));
+ * ```
+ */
+export function formatPhaseCommitMessage(
+  phase: PhaseName,
+  featureName: string,
+  artifactPath: string,
+  options: { cwd?: string; artifactSha256?: string; timestamp?: string } = {}
+): string {
   const title = `SpecFirst: ${phase} phase complete for ${featureName}`;
   const body = [
     "",
-    `Artifact: ${artifactPath}`,
+    "",
+    `Artifact: ${toProjectPath(artifactPath, options.cwd)}`,
     `Status: complete`,
-    `Timestamp: ${timestamp}`,
+    `Timestamp: ${options.timestamp ?? new Date().toISOString()}`,
+    "",
+    `${TRAILERS.feature}: ${featureName}`,
+    `${TRAILERS.phase}: ${phase}`,
+    `${TRAILERS.status}: complete`,
+    ...(options.artifactSha256 ? [`${TRAILERS.artifactSha256}: ${options.artifactSha256}`] : []),
+  ].join("\n");
+  
+  return `${title}${body}`;
+}
+
+/**
+ * Creates a SpecFirst phase reopen marker commit.
+ * 
+ * Commit message format:
+ * ```
+ * SpecFirst: {phase} phase reopened for {feature-name}
+ * 
+ * Stale: specs/{artifact-name}, ...
+ * Reason: {reason}
+ * Timestamp: {ISO-8601}
+ * 
+ * SpecFirst-Feature: {feature-name}
+ * SpecFirst-Phase: {phase}
+ * SpecFirst-Status: reopened
+ * ```
+ * 
+ * The marker invalidates earlier completion commits of this phase and all
+ * later phases (see isPhaseComplete). Stale artifacts are staged and
+ * committed with it; the commit is created even when nothing is staged.
+ * Branch and auto-commit settings apply as for createPhaseCommit.
+ * 
+ * @param phase - Phase being reopened
+ * @param featureName - Name of the feature
+ * @param staleArtifacts - Downstream artifacts marked for review
+ * @param reason - Optional reason recorded in the commit body
+ * @param cwd - Working directory
+ * @returns GitResult
+ */
+export async function createReopenCommit(
+  phase: PhaseName,
+  featureName: string,
+  staleArtifacts: string[],
+  reason?: string,
+  cwd?: string
+): Promise<GitResult> {
+  const title = `SpecFirst: ${phase} phase reopened for ${featureName}`;
+  const body = [
+    "",
+    "",
+    `Stale: ${staleArtifacts.length > 0 ? staleArtifacts.join(", ") : "none"}`,
+    ...(reason ? [`Reason: ${reason}`] : []),
+    `Timestamp: ${new Date().toISOString()}`,
+    "",
+    `${TRAILERS.feature}: ${featureName}`,
+    `${TRAILERS.phase}: ${phase}`,
+    `${TRAILERS.status}: reopened`,
   ].join("\n");
   
-  const fullMessage = `${title}${body}`;
+  const prepareResult = await prepareMarker(featureName, cwd);
+  if (!prepareResult.success) {
+    return prepareResult;
+  }
   
-  // Stage the artifact file
-  const addResult = await runGit(`add "${artifactPath}"`, cwd);
-  if (!addResult.success) {
-    return addResult;
+  for (const artifactPath of staleArtifacts) {
+    const addResult = await runGit(["add", "--", artifactPath], cwd);
+    if (!addResult.success) {
+      return addResult;
+    }
+  }
+  
+  return commitMarker(`${title}${body}`, true, cwd);
+}
+
+/**
+ * Creates a SpecFirst feature rename marker commit.
+ * 
+ * Commit message format:
+ * ```
+ * SpecFirst: feature renamed from {old-name} to {new-name}
+ * 
+ * Timestamp: {ISO-8601}
+ * 
+ * SpecFirst-Feature: {new-name}
+ * SpecFirst-Renamed-From: {old-name}
+ * ```
+ * 
+ * getPhaseMarkers() follows the marker, so phases completed under the old
+ * name stay complete under the new one. In branch-per-feature mode the
+ * `specfirst/{old-name}` branch is renamed first. The given paths (old and
+ * new artifact directories) are staged with `add -A` so the move is
+ * committed with the marker; paths git does not know are skipped. Branch
+ * and auto-commit settings apply as for createPhaseCommit.
+ * 
+ * @param featureName - Current feature name
+ * @param newName - New feature name
+ * @param paths - Files or directories to stage with the marker
+ * @param cwd - Working directory
+ * @returns GitResult
+ */
+export async function createRenameCommit(
+  featureName: string,
+  newName: string,
+  paths: string[],
+  cwd?: string
+): Promise<GitResult> {
+  const title = `SpecFirst: feature renamed from ${featureName} to ${newName}`;
+  const body = [
+    "",
+    "",
+    `Timestamp: ${new Date().toISOString()}`,
+    "",
+    `${TRAILERS.feature}: ${newName}`,
+    `${TRAILERS.renamedFrom}: ${featureName}`,
+  ].join("\n");
+  
+  if (getConfig(cwd).gitBranchPerFeature) {
+    const from = `${FEATURE_BRANCH_PREFIX}${featureName}`;
+    const to = `${FEATURE_BRANCH_PREFIX}${newName}`;
+    if ((await branchExists(from, cwd)) && !(await branchExists(to, cwd))) {
+      const renameResult = await runGit(["branch", "-m", from, to], cwd);
+      if (!renameResult.success) {
+        return renameResult;
+      }
+    }
   }
   
-  // Create commit with message
-  const escapedMessage = fullMessage.replace(/"/g, '\\"');
-  return runGit(`commit -m "${escapedMessage}"`, cwd);
+  const prepareResult = await prepareMarker(newName, cwd);
+  if (!prepareResult.success) {
+    return prepareResult;
+  }
+  
+  for (const path of paths) {
+    // Fails only for paths that are neither on disk nor tracked
+    await runGit(["add", "-A", "--", path], cwd);
+  }
+  
+  return commitMarker(`${title}${body}`, true, cwd);
+}
+
+/**
+ * Creates a commit recording a storage migration (see migrateStorage).
+ * 
+ * Commit message format:
+ * ```
+ * SpecFirst: artifacts moved to {storage} storage
+ * 
+ * Features: {feature-name}, ...
+ * Timestamp: {ISO-8601}
+ * ```
+ * 
+ * The commit carries no SpecFirst-Feature trailer, so phase markers are
+ * unaffected. It goes to the checked-out branch. The given paths are staged
+ * with `add -A`; paths git does not know (such as `MEMORY/` directories
+ * outside the repository) are skipped. Auto-commit settings apply as for
+ * createPhaseCommit.
+ * 
+ * @param storage - Storage mode the artifacts were moved to
+ * @param featureNames - Migrated features
+ * @param paths - Files or directories to stage
+ * @param cwd - Working directory
+ * @returns GitResult
+ */
+export async function createStorageCommit(
+  storage: string,
+  featureNames: string[],
+  paths: string[],
+  cwd?: string
+): Promise<GitResult> {
+  const message = [
+    `SpecFirst: artifacts moved to ${storage} storage`,
+    "",
+    `Features: ${featureNames.join(", ")}`,
+    `Timestamp: ${new Date().toISOString()}`,
+  ].join("\n");
+  
+  for (const path of paths) {
+    // Fails only for paths that are neither on disk nor tracked
+    await runGit(["add", "-A", "--", path], cwd);
+  }
+  
+  return commitMarker(message, true, cwd);
+}
+
+/**
+ * Gets an artifact path relative to the working directory, or absolute when
+ * the artifact lies outside it.
+ */
+function toProjectPath(artifactPath: string, cwd?: string): string {
+  const root = cwd || process.cwd();
+  const absolute = resolve(root, artifactPath);
+  const path = relative(root, absolute);
+  return path && !path.startsWith("..") && !isAbsolute(path) ? path : absolute;
+}
+
+/**
+ * Computes the SHA-256 of an artifact, or undefined if it cannot be read.
+ */
+async function hashArtifact(artifactPath: string, cwd?: string): Promise<string | undefined> {
+  try {
+    const content = await readFile(resolve(cwd || process.cwd(), artifactPath));
+    return createHash("sha256").update(content).digest("hex");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a marker from a commit subject and its SpecFirst trailers.
+ * Commits without trailers (written before SpecFirst 4.0) are read from
+ * their subject line.
+ */
+function parseMarker(
+  subject: string,
+  trailers: Map<string, string>
+): Omit<PhaseMarker, "commit"> | undefined {
+  const feature = trailers.get(TRAILERS.feature);
+  const phase = trailers.get(TRAILERS.phase);
+  const status = trailers.get(TRAILERS.status);
+  
+  if (feature && phase) {
+    if (status !== "complete" && status !== "reopened") return undefined;
+    return { feature, phase, status, artifactSha256: trailers.get(TRAILERS.artifactSha256) };
+  }
+  
+  // Legacy completion commits carry their trailer lines in the subject paragraph
+  const match = subject.match(LEGACY_SUBJECT);
+  if (!match) return undefined;
+  return { feature: match[3], phase: match[1], status: match[2] as PhaseMarker["status"] };
+}
+
+/**
+ * Parses `Key: value` lines, keeping the first value of each key.
+ */
+function parseTrailerLines(lines: string[]): Map<string, string> {
+  const trailers = new Map<string, string>();
+  for (const line of lines) {
+    const match = line.match(/^([A-Za-z0-9-]+):\s*(.*)$/);
+    if (match && !trailers.has(match[1])) {
+      trailers.set(match[1], match[2].trim());
+    }
+  }
+  return trailers;
+}
+
+/**
+ * Matches a marker against the names a feature has had, walking markers
+ * newest first. A rename marker to one of the names adds the old name; a
+ * rename marker away from one of them removes it, since older markers
+ * under that name belong to the renamed feature.
+ */
+function followMarker(
+  subject: string,
+  trailers: Map<string, string>,
+  names: Set<string>
+): Omit<PhaseMarker, "commit"> | undefined {
+  const renamedFrom = trailers.get(TRAILERS.renamedFrom);
+  if (renamedFrom) {
+    if (names.has(trailers.get(TRAILERS.feature) ?? "")) {
+      names.add(renamedFrom);
+    } else {
+      names.delete(renamedFrom);
+    }
+    return undefined;
+  }
+  
+  const marker = parseMarker(subject, trailers);
+  return marker && names.has(marker.feature) ? marker : undefined;
+}
+
+/**
+ * Reads marker commits newest first. Feature names are compared exactly
+ * after parsing, so names with regex metacharacters or shared prefixes
+ * (`auth` vs `auth-v2`) never match each other.
+ */
+async function readMarkerCommits(
+  featureName: string,
+  cwd?: string,
+  names: Set<string> = new Set([featureName])
+): Promise<PhaseMarker[]> {
+  const keys = Object.values(TRAILERS).map(key => `key=${key}`).join(",");
+  const format = `%H%x1f%s%x1f%aI%x1f%an%x1f%(trailers:${keys},separator=%x1d)%x1e`;
+  const ref = await getMarkerRef(featureName, cwd);
+  const result = await runGit(["log", ...ref, "-F", "--grep=SpecFirst", `--format=${format}`, "--"], cwd);
+  if (!result.success || !result.stdout) {
+    return [];
+  }
+  
+  const markers: PhaseMarker[] = [];
+  for (const record of result.stdout.split("\x1e")) {
+    const [hash, subject, timestamp, author, trailerBlock] = record.trim().split("\x1f");
+    if (!hash || subject === undefined) continue;
+    
+    const marker = followMarker(subject, parseTrailerLines((trailerBlock ?? "").split("\x1d")), names);
+    if (marker) {
+      markers.push({ ...marker, commit: { hash, message: subject, timestamp, author } });
+    }
+  }
+  return markers;
+}
+
+/**
+ * Gets a feature's phase markers, newest first: markers queued while
+ * auto-commit is off, then marker commits on the feature's commit branch
+ * (or HEAD). Markers are read from the `SpecFirst-*` commit trailers, with
+ * a fallback to the subject line for commits made before trailers existed.
+ * Rename markers (see createRenameCommit) are followed, so markers recorded
+ * under a previous name are included and keep that name in `feature`.
+ * 
+ * @param featureName - Feature name
+ * @param cwd - Working directory
+ * @returns Markers; `commit` is undefined for queued markers
+ * 
+ * @example
+ * ```typescript
+ * const [latest] = await getPhaseMarkers("user-auth");
+ * if (latest) console.log(`${latest.phase} ${latest.status}`);
+ * ```
+ */
+export async function getPhaseMarkers(featureName: string, cwd?: string): Promise<PhaseMarker[]> {
+  const names = new Set([featureName]);
+  const pending: PhaseMarker[] = [];
+  for (const message of (await getPendingMarkers(cwd)).reverse()) {
+    const paragraphs = message.split("\n\n");
+    const trailers = parseTrailerLines(paragraphs.length > 1 ? paragraphs[paragraphs.length - 1].split("\n") : []);
+    const marker = followMarker(message.split("\n")[0], trailers, names);
+    if (marker) {
+      pending.push(marker);
+    }
+  }
+  
+  return [...pending, ...(await readMarkerCommits(featureName, cwd, names))];
+}
+
+/**
+ * Lists the features that have phase markers on any branch or in the
+ * pending queue. A name a feature was renamed away from is left out unless
+ * markers newer than the rename reuse it.
+ *
+ * @param cwd - Working directory
+ * @returns Feature names, sorted
+ *
+ * @example
+ * ```typescript
+ * for (const feature of await getMarkedFeatures(projectPath)) {
+ *   console.log(feature, await getPhaseMarkers(feature, projectPath));
+ * }
+ * ```
+ */
+export async function getMarkedFeatures(cwd?: string): Promise<string[]> {
+  const records: Array<{ subject: string; trailers: Map<string, string> }> = [];
+  for (const message of (await getPendingMarkers(cwd)).reverse()) {
+    const paragraphs = message.split("\n\n");
+    const trailerLines = paragraphs.length > 1 ? paragraphs[paragraphs.length - 1].split("\n") : [];
+    records.push({ subject: message.split("\n")[0], trailers: parseTrailerLines(trailerLines) });
+  }
+
+  const keys = Object.values(TRAILERS).map(key => `key=${key}`).join(",");
+  const result = await runGit(
+    ["log", "--all", "-F", "--grep=SpecFirst", `--format=%s%x1f%(trailers:${keys},separator=%x1d)%x1e`, "--"],
+    cwd
+  );
+  if (result.success) {
+    for (const record of result.stdout.split("\x1e")) {
+      const [subject, trailerBlock] = record.trim().split("\x1f");
+      if (subject) {
+        records.push({ subject, trailers: parseTrailerLines((trailerBlock ?? "").split("\x1d")) });
+      }
+    }
+  }
+
+  // Newest first: a rename hides the older markers of the name it left
+  const features = new Set<string>();
+  const renamed = new Set<string>();
+  for (const { subject, trailers } of records) {
+    const renamedFrom = trailers.get(TRAILERS.renamedFrom);
+    if (renamedFrom) {
+      const feature = trailers.get(TRAILERS.feature);
+      if (feature && !renamed.has(feature)) features.add(feature);
+      if (!features.has(renamedFrom)) renamed.add(renamedFrom);
+      continue;
+    }
+    const marker = parseMarker(subject, trailers);
+    if (marker && !renamed.has(marker.feature)) {
+      features.add(marker.feature);
+    }
+  }
+  return [...features].sort();
 }
 
 /**
  * Checks if a specific phase has been completed for a feature.
- * Uses git log grep to find phase completion commits.
+ * Walks the feature's markers newest first (see getPhaseMarkers): a
+ * completion marker for the phase counts only if no later reopen marker
+ * targets this phase or an earlier one.
  * 
  * @param phase - Phase to check
  * @param featureName - Feature name
  * @param cwd - Working directory
- * @returns true if phase commit exists
+ * @param phaseOrder - Phases of the feature's workflow, in order
+ * @returns true if phase commit exists and has not been reopened
  */
 export async function isPhaseComplete(
-  phase: Phase,
+  phase: PhaseName,
   featureName: string,
-  cwd?: string
+  cwd?: string,
+  phaseOrder: PhaseName[] = PHASE_ORDER
 ): Promise<boolean> {
-  const searchPattern = `SpecFirst: ${phase} phase complete for ${featureName}`;
-  const result = await runGit(`log --grep="${searchPattern}" --format=%H -1`, cwd);
-  return result.success && result.stdout.length > 0;
+  const phaseIndex = phaseOrder.indexOf(phase);
+  for (const marker of await getPhaseMarkers(featureName, cwd)) {
+    const markerIndex = phaseOrder.indexOf(marker.phase);
+    if (marker.status === "reopened" && markerIndex !== -1 && markerIndex <= phaseIndex) {
+      return false;
+    }
+    if (marker.status === "complete" && marker.phase === phase) {
+      return true;
+    }
+  }
+  return false;
 }
 
 /**
@@ -160,23 +951,15 @@ export async function isPhaseComplete(
  * @param phase - Phase to look up
  * @param featureName - Feature name
  * @param cwd - Working directory
- * @returns CommitInfo or undefined if not found
+ * @returns CommitInfo of the latest completion commit, or undefined if not found
  */
 export async function getPhaseCommit(
-  phase: Phase,
+  phase: PhaseName,
   featureName: string,
   cwd?: string
 ): Promise<CommitInfo | undefined> {
-  const searchPattern = `SpecFirst: ${phase} phase complete for ${featureName}`;
-  const format = "%H|%s|%aI|%an";
-  const result = await runGit(`log --grep="${searchPattern}" --format="${format}" -1`, cwd);
-  
-  if (!result.success || !result.stdout) {
-    return undefined;
-  }
-  
-  const [hash, message, timestamp, author] = result.stdout.split("|");
-  return { hash, message, timestamp, author };
+  const markers = await getPhaseMarkers(featureName, cwd);
+  return markers.find(m => m.commit && m.status === "complete" && m.phase === phase)?.commit;
 }
 
 /**
@@ -190,18 +973,69 @@ export async function getFeatureCommits(
   featureName: string,
   cwd?: string
 ): Promise<CommitInfo[]> {
-  const searchPattern = `SpecFirst:.*complete for ${featureName}`;
-  const format = "%H|%s|%aI|%an";
-  const result = await runGit(`log --grep="${searchPattern}" -E --format="${format}" --reverse`, cwd);
+  const markers = await getPhaseMarkers(featureName, cwd);
+  return markers
+    .filter(m => m.commit && m.status === "complete")
+    .map(m => m.commit!)
+    .reverse();
+}
+
+/**
+ * Merges a feature's `specfirst/{feature-name}` branch back into the branch
+ * it was created from (or SPECFIRST_BRANCH), leaving the base checked out.
+ * 
+ * - `merge`: `--no-ff` merge, then deletes the feature branch; its phase
+ *   markers remain reachable from the base
+ * - `squash`: one squashed commit on the base; the feature branch is kept so
+ *   isPhaseComplete() still finds the individual markers
+ * 
+ * @param featureName - Feature name
+ * @param strategy - Merge strategy
+ * @param cwd - Working directory
+ * @returns GitResult; stdout names the base branch on success
+ * 
+ * @example
+ * ```typescript
+ * const result = await mergeFeatureBranch("user-auth", "squash", projectPath);
+ * if (!result.success) console.error(result.stderr);
+ * ```
+ */
+export async function mergeFeatureBranch(
+  featureName: string,
+  strategy: MergeStrategy,
+  cwd?: string
+): Promise<GitResult> {
+  const branch = `${FEATURE_BRANCH_PREFIX}${featureName}`;
+  if (!(await branchExists(branch, cwd))) {
+    return { success: false, exitCode: null, stdout: "", stderr: `Branch ${branch} does not exist` };
+  }
   
-  if (!result.success || !result.stdout) {
-    return [];
+  const recorded = await runGit(["config", "--get", `branch.${branch}.specfirstBase`], cwd);
+  const base = (recorded.success && recorded.stdout) || getConfig(cwd).gitBranch;
+  if (!base) {
+    return { success: false, exitCode: null, stdout: "", stderr: `No base branch recorded for ${branch}; set SPECFIRST_BRANCH` };
   }
   
-  return result.stdout.split("\n").map((line) => {
-    const [hash, message, timestamp, author] = line.split("|");
-    return { hash, message, timestamp, author };
-  });
+  const checkoutResult = await runGit(["checkout", "-q", base], cwd);
+  if (!checkoutResult.success) {
+    return checkoutResult;
+  }
+  
+  if (strategy === "squash") {
+    const squashResult = await runGit(["merge", "--squash", branch], cwd);
+    if (!squashResult.success) {
+      return squashResult;
+    }
+    const commitResult = await runGit(["commit", "--allow-empty", "-m", `SpecFirst: squash ${branch} into ${base}`], cwd);
+    return commitResult.success ? { ...commitResult, stdout: base } : commitResult;
+  }
+  
+  const mergeResult = await runGit(["merge", "--no-ff", "-m", `SpecFirst: merge ${branch} into ${base}`, branch], cwd);
+  if (!mergeResult.success) {
+    return mergeResult;
+  }
+  await runGit(["branch", "-d", branch], cwd);
+  return { ...mergeResult, stdout: base };
 }
 
 /**
@@ -212,7 +1046,7 @@ export async function getFeatureCommits(
  * @returns GitResult
  */
 export async function stageFile(filePath: string, cwd?: string): Promise<GitResult> {
-  return runGit(`add "${filePath}"`, cwd);
+  return runGit(["add", "--", filePath], cwd);
 }
 
 /**
@@ -222,7 +1056,7 @@ export async function stageFile(filePath: string, cwd?: string): Promise<GitResu
  * @returns Array of staged file paths
  */
 export async function getStagedFiles(cwd?: string): Promise<string[]> {
-  const result = await runGit("diff --cached --name-only", cwd);
+  const result = await runGit(["diff", "--cached", "--name-only"], cwd);
   if (!result.success || !result.stdout) {
     return [];
   }
@@ -234,4 +1068,8 @@ export const __testing = {
   runGit,
   isGitRepository,
   getCurrentBranch,
+  branchExists,
+  parseMarker,
+  parseTrailerLines,
+  followMarker,
 };
@@ -0,0 +1,422 @@
+/**
+ * Phase Input Schemas - SpecFirst 4.0
+ *
+ * JSON Schemas for the input of each phase handler (ProposeInput,
+ * SpecifyInput, PlanInput, ImplementInput, ReleaseInput, ReviewInput) and a
+ * validator for the subset of JSON Schema they use: `type`, `properties`,
+ * `required`, `items`, `enum` and `minimum`.
+ *
+ * executePhase validates input before any gate runs, so a malformed payload
+ * fails with one message per problem instead of crashing a generator:
+ *
+ * ```
+ * implementationPhases[2].risks: required
+ * functionalRequirements[0].priority: must be one of must, should, could, wont
+ * ```
+ *
+ * The schemas are also published as `schemas/<handler>-input.schema.json`
+ * so agents producing these payloads can check them first. Regenerate the
+ * files after changing a schema with `bun lib/input-schema.ts`.
+ *
+ * @module lib/input-schema
+ * @version 4.0.0
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { PhaseHandler } from "./workflow";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JsonType = "string" | "number" | "integer" | "boolean" | "array" | "object";
+
+/** The JSON Schema keywords used by phase input schemas */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+}
+
+/**
+ * Thrown when phase input does not match its schema.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   assertPhaseInput("plan", input);
+ * } catch (error) {
+ *   if (error instanceof InputValidationError) console.error(error.errors.join("\n"));
+ * }
+ * ```
+ */
+export class InputValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = "InputValidationError";
+  }
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+/** Directory holding the published schema files */
+export const SCHEMAS_DIR = join(import.meta.dir, "..", "schemas");
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+const text = (description?: string): JsonSchema => ({ type: "string", description });
+const list = (items: JsonSchema, description?: string): JsonSchema => ({ type: "array", description, items });
+const oneOf = (values: readonly string[], description?: string): JsonSchema => ({ type: "string", description, enum: values });
+
+/**
+ * Builds an object schema. Properties listed in `optional` may be omitted.
+ */
+function object(properties: Record<string, JsonSchema>, optional: string[] = [], description?: string): JsonSchema {
+  return {
+    type: "object",
+    description,
+    properties,
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+  };
+}
+
+const FEATURE_NAME = text("FeatureId of the feature (a lowercase slug, e.g. \"user-auth\"); filled in by the CLI when omitted");
+const LEVELS = ["low", "medium", "high"] as const;
+const VERIFY_TYPES = ["CLI", "Test", "Static", "Browser", "Grep", "Read", "Custom"] as const;
+const CONFIDENCE_TAGS = ["E", "I", "R"] as const;
+const PRIORITY_LEVELS = ["CRITICAL", "IMPORTANT", "NICE"] as const;
+
+const PROPOSE_INPUT = object({
+  featureName: FEATURE_NAME,
+  title: text("Display title of a new feature; defaults to featureName"),
+  problemStatement: text(),
+  solutionApproaches: list(object({
+    name: text(),
+    description: text(),
+    pros: list(text()),
+    cons: list(text()),
+  })),
+  recommendedApproach: text(),
+  antiPatterns: list(text()),
+  openQuestions: list(text()),
+}, ["title", "antiPatterns", "openQuestions"]);
+
+const SPECIFY_INPUT = object({
+  featureName: FEATURE_NAME,
+  functionalRequirements: list(object({
+    id: text("e.g. FR-001"),
+    description: text(),
+    priority: oneOf(["must", "should", "could", "wont"]),
+    verificationMethod: text(),
+  })),
+  nonFunctionalRequirements: list(object({
+    id: text("e.g. NFR-001"),
+    description: text(),
+    metric: text(),
+    target: text(),
+  })),
+  userStories: list(object({
+    id: text("e.g. US-001"),
+    title: text(),
+    given: text(),
+    when: text(),
+    then: text(),
+  })),
+  successCriteria: list(object({
+    id: text("e.g. SC-001"),
+    description: text(),
+    verificationMethod: text(),
+  })),
+  architectureDiagram: text("ASCII and/or Mermaid diagram"),
+  milestone: text(),
+}, ["architectureDiagram", "milestone"]);
+
+const PLAN_INPUT = object({
+  featureName: FEATURE_NAME,
+  executiveSummary: text(),
+  adrs: list(object({
+    id: text("e.g. ADR-001"),
+    title: text(),
+    status: oneOf(["proposed", "accepted", "deprecated", "superseded"]),
+    date: text(),
+    context: text(),
+    decision: text(),
+    rationale: text(),
+    alternatives: list(object({ name: text(), reason: text() })),
+    consequences: list(text()),
+  })),
+  implementationPhases: list(object({
+    number: { type: "integer", minimum: 1 },
+    name: text(),
+    objective: text(),
+    deliverables: list(text()),
+    acceptanceCriteria: list(text()),
+    estimatedEffort: text(),
+    dependencies: list(text()),
+    risks: list(text(), "Required, may be empty"),
+    traces: list(text(), "Spec IDs delivered by this phase (FR-001, US-001)"),
+  }, ["traces"])),
+  testingStrategy: object({
+    unitTests: text(),
+    integrationTests: text(),
+    e2eTests: text(),
+    performanceTests: text(),
+    coverageTarget: text(),
+  }),
+  risks: list(object({
+    id: text(),
+    description: text(),
+    probability: oneOf(LEVELS),
+    impact: oneOf(LEVELS),
+    mitigation: text(),
+  })),
+  dependencies: list(object({
+    name: text(),
+    type: oneOf(["internal", "external"]),
+    risk: oneOf(LEVELS),
+    mitigation: text(),
+  })),
+  rollbackProcedures: text(),
+});
+
+const CRITERION_ANNOTATIONS = {
+  verifyMethod: text("Inline verification method, e.g. \"CLI: bun test\""),
+  verifyType: oneOf(VERIFY_TYPES),
+  confidence: oneOf(CONFIDENCE_TAGS),
+  priority: oneOf(PRIORITY_LEVELS),
+};
+
+const IMPLEMENT_INPUT = object({
+  featureName: FEATURE_NAME,
+  ideal: text("1-2 sentence ideal outcome"),
+  criteria: list(object({
+    id: { type: ["integer", "string"], description: "Number or ISC-C{N}" },
+    criterion: text("Criterion text within criteria.minWords-maxWords words"),
+    status: oneOf(["⬜", "🔄", "✅", "❌"]),
+    evidence: text(),
+    phase: text("Implementation phase this criterion belongs to"),
+    ...CRITERION_ANNOTATIONS,
+    traces: list(text(), "Spec IDs this criterion verifies (FR-001, US-001, SC-001)"),
+  }, ["evidence", "phase", ...Object.keys(CRITERION_ANNOTATIONS), "traces"])),
+  antiCriteria: list(object({
+    id: text("ISC-A{N}"),
+    criterion: text(),
+    status: oneOf(["👀", "✅", "❌"]),
+    ...CRITERION_ANNOTATIONS,
+  }, Object.keys(CRITERION_ANNOTATIONS))),
+  parallelizationOpportunities: list(text()),
+  implementationNotes: text(),
+}, ["parallelizationOpportunities", "implementationNotes"]);
+
+const RELEASE_INPUT = object({
+  featureName: FEATURE_NAME,
+  version: text(),
+  releaseDate: text(),
+  additionalNotes: text(),
+  batchMode: { type: "boolean", description: "Auto-approve the Doctorow gate" },
+  verify: { type: "boolean", description: "Run criterion Verify methods before checking statuses" },
+  merge: oneOf(["merge", "squash"], "Branch-per-feature mode: how to merge specfirst/<feature>"),
+}, ["releaseDate", "additionalNotes", "batchMode", "verify", "merge"]);
+
+const REVIEW_INPUT = object({
+  featureName: FEATURE_NAME,
+  approved: { type: "boolean", description: "Whether the reviewer signs off the phase" },
+  reviewer: text(),
+  findings: list(text(), "One entry per finding"),
+  notes: text(),
+}, ["reviewer", "findings", "notes"]);
+
+/**
+ * Builds the published form of a schema.
+ */
+function publish(handler: PhaseHandler, title: string, schema: JsonSchema): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: getSchemaFileName(handler),
+    title,
+    ...schema,
+  };
+}
+
+/** Input schema of each phase handler */
+export const INPUT_SCHEMAS: Readonly<Record<PhaseHandler, JsonSchema>> = {
+  propose: publish("propose", "ProposeInput", PROPOSE_INPUT),
+  specify: publish("specify", "SpecifyInput", SPECIFY_INPUT),
+  plan: publish("plan", "PlanInput", PLAN_INPUT),
+  implement: publish("implement", "ImplementInput", IMPLEMENT_INPUT),
+  release: publish("release", "ReleaseInput", RELEASE_INPUT),
+  review: publish("review", "ReviewInput", REVIEW_INPUT),
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Checks whether a value has a JSON type.
+ */
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Describes a JSON type for error messages.
+ */
+function describeType(type: JsonType): string {
+  return type === "array" || type === "object" || type === "integer" ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Validates a value against a schema, collecting `path: message` errors.
+ */
+function validateValue(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  const label = path || "input";
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      errors.push(`${label}: must be ${types.map(describeType).join(" or ")}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${label}: must be one of ${schema.enum.join(", ")}`);
+  }
+
+  if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+    errors.push(`${label}: must be at least ${schema.minimum}`);
+  }
+
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, errors));
+  }
+
+  if (schema.properties && hasType(value, "object")) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${path ? `${path}.` : ""}${key}: required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (record[key] !== undefined) {
+        validateValue(record[key], propertySchema, path ? `${path}.${key}` : key, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Lists the problems with a value, checked against a schema.
+ *
+ * @param value - Value to check
+ * @param schema - Schema to check against
+ * @returns One `path: message` entry per problem (empty if valid)
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateValue(value, schema, "", errors);
+  return errors;
+}
+
+/**
+ * Lists the problems with a phase handler's input.
+ *
+ * @param handler - Phase handler the input is for
+ * @param input - Phase input
+ * @returns One `path: message` entry per problem (empty if valid)
+ *
+ * @example
+ * ```typescript
+ * validatePhaseInput("plan", input);
+ * // ["implementationPhases[2].risks: required", "risks[0].impact: must be one of low, medium, high"]
+ * ```
+ */
+export function validatePhaseInput(handler: PhaseHandler, input: unknown): string[] {
+  return validateAgainstSchema(input, INPUT_SCHEMAS[handler]);
+}
+
+/**
+ * Validates a phase handler's input.
+ *
+ * @param handler - Phase handler the input is for
+ * @param input - Phase input
+ * @throws InputValidationError listing every problem
+ */
+export function assertPhaseInput(handler: PhaseHandler, input: unknown): void {
+  const errors = validatePhaseInput(handler, input);
+  if (errors.length > 0) {
+    throw new InputValidationError(`Invalid ${handler} input:\n${errors.map(e => `  - ${e}`).join("\n")}`, errors);
+  }
+}
+
+// =============================================================================
+// Published Files
+// =============================================================================
+
+/**
+ * Gets the file name a handler's schema is published under.
+ */
+export function getSchemaFileName(handler: PhaseHandler): string {
+  return `${handler}-input.schema.json`;
+}
+
+/**
+ * Serializes a handler's schema as published.
+ */
+export function formatInputSchema(handler: PhaseHandler): string {
+  return `${JSON.stringify(INPUT_SCHEMAS[handler], null, 2)}\n`;
+}
+
+/**
+ * Writes every input schema to a directory.
+ *
+ * @param dir - Target directory (default: SCHEMAS_DIR)
+ * @returns Paths written
+ */
+export function writeInputSchemas(dir: string = SCHEMAS_DIR): string[] {
+  mkdirSync(dir, { recursive: true });
+  return (Object.keys(INPUT_SCHEMAS) as PhaseHandler[]).map(handler => {
+    const path = join(dir, getSchemaFileName(handler));
+    writeFileSync(path, formatInputSchema(handler));
+    return path;
+  });
+}
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+// Regenerate schemas/ when run directly with: bun lib/input-schema.ts
+if (import.meta.main) {
+  for (const path of writeInputSchemas()) {
+    console.log(`✅ Wrote ${path}`);
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Phase Journal - SpecFirst 4.0
+ *
+ * A phase makes three writes: the artifact, the SQLite state and the marker
+ * commit. If one of them fails or the process dies in between, the database
+ * and git disagree about where a feature stands. writePhase() records the
+ * intended writes in a journal under `.specfirst/journal/` before making
+ * them, writes the artifact atomically (temporary file + rename) and the
+ * SQLite changes in one transaction, and drops the journal once the marker
+ * is committed.
+ *
+ * A journal left behind means a phase did not finish. recoverPhaseJournals()
+ * settles it on the next start:
+ * - The artifact was written: the phase is completed (SQLite changes and
+ *   marker commit are made if missing)
+ * - The artifact was not written: the phase is rolled back (nothing of it
+ *   was recorded, so only the journal and temporary file are removed)
+ *
+ * Failures inside writePhase() before the commit roll back right away. A
+ * failed commit keeps the journal, so the commit is retried on the next
+ * start instead of leaving SQLite ahead of git. Until that journal is
+ * settled, writePhase() refuses to write another phase of the feature, so
+ * the missing marker is never overwritten.
+ *
+ * @module lib/journal
+ * @version 4.0.0
+ */
+
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { hostname } from "os";
+import { basename, dirname, join } from "path";
+import {
+  addCriterion,
+  addFeature,
+  getCriteria,
+  getDbPath,
+  getFeature,
+  runInTransaction,
+  updateFeaturePaths,
+  updateFeaturePhase,
+  updateFeatureStatus,
+  type FeaturePaths,
+  type FeaturePhase,
+  type FeatureStatus,
+} from "./database";
+import { createPhaseCommit, getPhaseMarkers, type GitResult } from "./git";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Writes a phase makes, in order */
+export type JournalStep = "artifact" | "database" | "commit";
+
+/** SQLite changes a phase records for its feature */
+export interface PhaseStateUpdate {
+  phase: FeaturePhase;
+  status?: FeatureStatus;
+  paths?: FeaturePaths;
+  /** ISC criteria to add */
+  criteria?: string[];
+}
+
+/** A phase's writes, as writePhase() makes them */
+export interface PhaseWrite {
+  featureName: string;
+  phase: FeaturePhase;
+  artifactPath: string;
+  content: string;
+  database: PhaseStateUpdate;
+}
+
+/** Journal of a phase that has not finished its writes */
+export interface PhaseJournal {
+  featureName: string;
+  phase: FeaturePhase;
+  artifactPath: string;
+  /** SHA-256 of the artifact content being written */
+  artifactSha256: string;
+  /** Artifact content before the phase ran (null when it did not exist) */
+  previousContent: string | null;
+  database: PhaseStateUpdate;
+  completed: JournalStep[];
+  startedAt: string;
+  /** Process writing the phase, so recovery leaves running phases alone */
+  pid: number;
+  host: string;
+}
+
+export interface PhaseWriteResult {
+  /** Marker commit; when it failed the journal stays for recovery */
+  commit: GitResult;
+}
+
+/** What recovery did with a journal */
+export interface JournalRecovery {
+  featureName: string;
+  phase: FeaturePhase;
+  action: "completed" | "rolled-back" | "failed";
+  /** Steps recovery performed */
+  steps: JournalStep[];
+  detail: string;
+}
+
+// =============================================================================
+// Paths and Files
+// =============================================================================
+
+/** Suffix of the temporary file an artifact is written to before the rename */
+const TEMP_SUFFIX = ".specfirst-tmp";
+
+/**
+ * Gets the directory holding the journals of unfinished phases.
+ *
+ * @param projectPath - Root path of the project
+ * @returns `<project>/.specfirst/journal`
+ */
+export function getJournalDir(projectPath: string): string {
+  return join(dirname(getDbPath(projectPath)), "journal");
+}
+
+/**
+ * Gets the journal path of a feature (one phase runs per feature at a time).
+ */
+function getJournalPath(featureName: string, projectPath: string): string {
+  return join(getJournalDir(projectPath), `${featureName}.json`);
+}
+
+/**
+ * Writes a file atomically: readers see the old content or the new content,
+ * never a partly written file.
+ *
+ * @param path - File to write (its directory must exist)
+ * @param content - New content
+ *
+ * @example
+ * ```typescript
+ * await writeFileAtomic(specPath, renderSpec(input));
+ * ```
+ */
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}${TEMP_SUFFIX}`;
+  try {
+    await writeFile(tempPath, content, "utf-8");
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function sha256(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function saveJournal(journal: PhaseJournal, projectPath: string): Promise<void> {
+  await mkdir(getJournalDir(projectPath), { recursive: true });
+  await writeFileAtomic(getJournalPath(journal.featureName, projectPath), JSON.stringify(journal, null, 2));
+}
+
+async function removeJournal(journal: PhaseJournal, projectPath: string): Promise<void> {
+  await rm(getJournalPath(journal.featureName, projectPath), { force: true });
+}
+
+async function markStep(journal: PhaseJournal, step: JournalStep, projectPath: string): Promise<void> {
+  journal.completed.push(step);
+  await saveJournal(journal, projectPath);
+}
+
+/**
+ * Reads the journals of unfinished phases.
+ *
+ * @param projectPath - Root path of the project
+ * @returns Journals, plus the files that could not be parsed
+ */
+export async function readPhaseJournals(
+  projectPath: string
+): Promise<{ journals: PhaseJournal[]; unreadable: string[] }> {
+  const dir = getJournalDir(projectPath);
+  if (!existsSync(dir)) {
+    return { journals: [], unreadable: [] };
+  }
+
+  const journals: PhaseJournal[] = [];
+  const unreadable: string[] = [];
+  for (const name of (await readdir(dir)).filter(n => n.endsWith(".json")).sort()) {
+    try {
+      const journal = JSON.parse(await readFile(join(dir, name), "utf-8")) as PhaseJournal;
+      if (typeof journal.featureName !== "string" || typeof journal.artifactPath !== "string" || !Array.isArray(journal.completed)) {
+        throw new Error("missing fields");
+      }
+      journals.push(journal);
+    } catch {
+      unreadable.push(join(dir, name));
+    }
+  }
+  return { journals, unreadable };
+}
+
+// =============================================================================
+// Writing a Phase
+// =============================================================================
+
+/**
+ * Applies a phase's SQLite changes in one transaction, creating the feature
+ * if needed. Recovery skips criteria that are already stored, in case the
+ * transaction committed before the journal recorded it.
+ */
+function applyStateUpdate(featureName: string, update: PhaseStateUpdate, skipStoredCriteria: boolean): void {
+  runInTransaction(() => {
+    if (!getFeature(featureName)) {
+      addFeature({ id: featureName, name: featureName });
+    }
+    updateFeaturePhase(featureName, update.phase);
+    if (update.status) {
+      updateFeatureStatus(featureName, update.status);
+    }
+    if (update.paths) {
+      updateFeaturePaths(featureName, update.paths);
+    }
+    const stored = new Set(skipStoredCriteria ? getCriteria(featureName).map(c => c.criterion) : []);
+    for (const criterion of update.criteria ?? []) {
+      if (!stored.has(criterion)) {
+        addCriterion(featureName, criterion);
+      }
+    }
+  });
+}
+
+/**
+ * Puts back the artifact a phase replaced and drops its journal.
+ */
+async function rollBack(journal: PhaseJournal, projectPath: string): Promise<void> {
+  await rm(`${journal.artifactPath}${TEMP_SUFFIX}`, { force: true });
+  if (journal.completed.includes("artifact")) {
+    if (journal.previousContent === null) {
+      await rm(journal.artifactPath, { force: true });
+    } else {
+      await writeFileAtomic(journal.artifactPath, journal.previousContent);
+    }
+  }
+  await removeJournal(journal, projectPath);
+}
+
+/**
+ * Writes a phase's artifact, SQLite state and marker commit under a journal.
+ * Requires an open database (initDatabase).
+ *
+ * @param write - Artifact and state of the completed phase
+ * @param projectPath - Root path of the project (also the git working directory)
+ * @returns The commit result; a failed commit leaves the journal for recovery
+ * @throws Error if the feature has an unsettled journal, or if the artifact
+ *   or the SQLite changes cannot be written (both are rolled back first)
+ *
+ * @example
+ * ```typescript
+ * const { commit } = await writePhase({
+ *   featureName: "user-auth",
+ *   phase: "plan",
+ *   artifactPath: planPath,
+ *   content: planContent,
+ *   database: { phase: "plan", paths: { planPath } },
+ * }, process.cwd());
+ * if (!commit.success) console.warn(commit.stderr);
+ * ```
+ */
+export async function writePhase(write: PhaseWrite, projectPath: string): Promise<PhaseWriteResult> {
+  const journalPath = getJournalPath(write.featureName, projectPath);
+  if (existsSync(journalPath)) {
+    throw new Error(
+      `${write.featureName} has an unfinished phase (${journalPath}); ` +
+      `run a phase again once its marker commit can be made so the journal is settled first`
+    );
+  }
+
+  const journal: PhaseJournal = {
+    featureName: write.featureName,
+    phase: write.phase,
+    artifactPath: write.artifactPath,
+    artifactSha256: sha256(write.content),
+    previousContent: existsSync(write.artifactPath) ? await readFile(write.artifactPath, "utf-8") : null,
+    database: write.database,
+    completed: [],
+    startedAt: new Date().toISOString(),
+    pid: process.pid,
+    host: hostname(),
+  };
+  await saveJournal(journal, projectPath);
+
+  try {
+    await writeFileAtomic(write.artifactPath, write.content);
+    await markStep(journal, "artifact", projectPath);
+    applyStateUpdate(write.featureName, write.database, false);
+    await markStep(journal, "database", projectPath);
+  } catch (error) {
+    await rollBack(journal, projectPath);
+    throw error;
+  }
+
+  const commit = await createPhaseCommit(write.phase, write.featureName, write.artifactPath, projectPath);
+  if (commit.success) {
+    await removeJournal(journal, projectPath);
+  }
+  return { commit };
+}
+
+// =============================================================================
+// Recovery
+// =============================================================================
+
+/**
+ * Checks whether the process that wrote a journal is still running
+ * (another session in the middle of the phase).
+ */
+function isRunning(journal: PhaseJournal): boolean {
+  if (journal.pid === process.pid || journal.host !== hostname()) {
+    return false;
+  }
+  try {
+    process.kill(journal.pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether the feature's latest marker for the phase already records
+ * this artifact (the commit landed but the journal was not removed).
+ */
+async function hasMarker(journal: PhaseJournal, artifactSha256: string | undefined, projectPath: string): Promise<boolean> {
+  const latest = (await getPhaseMarkers(journal.featureName, projectPath)).find(m => m.phase === journal.phase);
+  return latest?.status === "complete" && latest.artifactSha256 === artifactSha256;
+}
+
+/**
+ * Settles one journal: completes the phase if its artifact was written,
+ * rolls it back otherwise.
+ */
+async function recoverJournal(journal: PhaseJournal, projectPath: string): Promise<JournalRecovery> {
+  const { featureName, phase } = journal;
+  const steps: JournalStep[] = [];
+  await rm(`${journal.artifactPath}${TEMP_SUFFIX}`, { force: true });
+
+  const onDisk = existsSync(journal.artifactPath) ? sha256(await readFile(journal.artifactPath)) : undefined;
+  if (!journal.completed.includes("artifact") && onDisk !== journal.artifactSha256) {
+    await rollBack(journal, projectPath);
+    return { featureName, phase, action: "rolled-back", steps, detail: `${basename(journal.artifactPath)} was not written; nothing was recorded` };
+  }
+
+  try {
+    if (!journal.completed.includes("database")) {
+      applyStateUpdate(featureName, journal.database, true);
+      await markStep(journal, "database", projectPath);
+      steps.push("database");
+    }
+
+    if (!journal.completed.includes("commit") && !(await hasMarker(journal, onDisk, projectPath))) {
+      const commit = await createPhaseCommit(phase, featureName, journal.artifactPath, projectPath);
+      if (!commit.success) {
+        return {
+          featureName,
+          phase,
+          action: "failed",
+          steps,
+          detail: `Marker commit failed: ${commit.stderr || commit.error?.message}`,
+        };
+      }
+      steps.push("commit");
+    }
+  } catch (error) {
+    return { featureName, phase, action: "failed", steps, detail: (error as Error).message };
+  }
+
+  await removeJournal(journal, projectPath);
+  return {
+    featureName,
+    phase,
+    action: "completed",
+    steps,
+    detail: steps.length > 0 ? `Recorded the missing ${steps.join(" and ")} step` : "All steps had finished",
+  };
+}
+
+/**
+ * Completes or rolls back phases an earlier run left unfinished. Journals
+ * of phases still running in another process are left alone; a journal
+ * whose recovery fails is kept and retried next time. Requires an open
+ * database (initDatabase).
+ *
+ * @param projectPath - Root path of the project (also the git working directory)
+ * @returns One entry per journal found (empty when every phase finished)
+ *
+ * @example
+ * ```typescript
+ * initDatabase(projectPath);
+ * for (const r of await recoverPhaseJournals(projectPath)) {
+ *   console.log(`${r.featureName} ${r.phase}: ${r.action} (${r.detail})`);
+ * }
+ * ```
+ */
+export async function recoverPhaseJournals(projectPath: string): Promise<JournalRecovery[]> {
+  const { journals, unreadable } = await readPhaseJournals(projectPath);
+  const recoveries: JournalRecovery[] = unreadable.map(path => ({
+    featureName: basename(path, ".json"),
+    phase: "none",
+    action: "failed",
+    steps: [],
+    detail: `Unreadable journal ${path}; remove it after checking the feature`,
+  }));
+
+  for (const journal of journals) {
+    if (!isRunning(journal)) {
+      recoveries.push(await recoverJournal(journal, projectPath));
+    }
+  }
+  return recoveries;
+}
+
+// Export for testing
+export const __testing = {
+  getJournalPath,
+  TEMP_SUFFIX,
+};
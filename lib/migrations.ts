@@ -0,0 +1,368 @@
+/**
+ * Schema Migrations - SpecFirst 4.0
+ *
+ * Numbered, forward-only migrations for .specfirst/specfirst.db. Applied
+ * versions are recorded in the `schema_migrations` table; the current
+ * schema version is the highest recorded version.
+ *
+ * Rules for adding a migration:
+ * - Append it to MIGRATIONS with the next version number
+ * - Never edit or reorder a migration that has shipped
+ * - Migrations run inside a transaction, so a failure leaves the database
+ *   at the previous version
+ *
+ * @module lib/migrations
+ * @version 4.0.0
+ */
+
+import type { Database } from "bun:sqlite";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A single schema migration */
+export interface Migration {
+  /** Sequential version number, starting at 1 */
+  version: number;
+  /** Short description recorded in schema_migrations */
+  name: string;
+  /** Applies the migration. Runs inside a transaction. */
+  up: (db: Database) => void;
+}
+
+/** Row recorded in schema_migrations */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+/** Outcome of migrateDatabase() */
+export interface MigrationResult {
+  /** Version before migrating (0 for a new database) */
+  from: number;
+  /** Version after migrating */
+  to: number;
+  /** Versions applied by this call */
+  applied: number[];
+}
+
+/**
+ * Thrown when the database cannot be brought to the current schema:
+ * it was written by a newer SpecFirst, its migration history is
+ * inconsistent, or a migration failed.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   initDatabase(projectPath);
+ * } catch (error) {
+ *   if (error instanceof SchemaVersionError) console.error(error.message);
+ * }
+ * ```
+ */
+export class SchemaVersionError extends Error {
+  constructor(
+    message: string,
+    public readonly currentVersion: number,
+    public readonly supportedVersion: number
+  ) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+interface MigrationRow {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * Adds a column unless it already exists. Databases created before
+ * schema_migrations existed may already carry some v4.0 columns.
+ */
+function addColumnIfMissing(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all();
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/** All migrations, in order. Versions must be 1..N without gaps. */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS features (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          priority INTEGER DEFAULT 999,
+          status TEXT DEFAULT 'pending',
+          phase TEXT DEFAULT 'none',
+          proposal_path TEXT,
+          spec_path TEXT,
+          plan_path TEXT,
+          tasks_path TEXT,
+          constitution_path TEXT,
+          created_at TEXT NOT NULL,
+          started_at TEXT,
+          completed_at TEXT,
+          session_id TEXT,
+          skip_reason TEXT
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS criteria (
+          id TEXT PRIMARY KEY,
+          feature_id TEXT NOT NULL,
+          criterion TEXT NOT NULL,
+          status TEXT DEFAULT 'pending',
+          evidence TEXT,
+          verified_at TEXT,
+          FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE
+        )
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          started_at TEXT NOT NULL,
+          ended_at TEXT,
+          current_feature_id TEXT,
+          features_completed INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'running',
+          FOREIGN KEY (current_feature_id) REFERENCES features(id)
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_features_status ON features(status);
+        CREATE INDEX IF NOT EXISTS idx_features_phase ON features(phase);
+        CREATE INDEX IF NOT EXISTS idx_features_session ON features(session_id);
+        CREATE INDEX IF NOT EXISTS idx_criteria_feature ON criteria(feature_id);
+        CREATE INDEX IF NOT EXISTS idx_criteria_status ON criteria(status);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "PRD lifecycle fields",
+    up: (db) => {
+      addColumnIfMissing(db, "features", "prd_status", "TEXT DEFAULT NULL");
+      addColumnIfMissing(db, "features", "prd_path", "TEXT DEFAULT NULL");
+      addColumnIfMissing(db, "features", "effort_level", "TEXT DEFAULT NULL");
+      addColumnIfMissing(db, "features", "iteration", "INTEGER DEFAULT 0");
+      addColumnIfMissing(db, "features", "verification_summary", "TEXT DEFAULT NULL");
+    },
+  },
+  {
+    version: 3,
+    name: "feature dependencies",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE feature_dependencies (
+          feature_id TEXT NOT NULL,
+          depends_on_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (feature_id, depends_on_id),
+          FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
+          FOREIGN KEY (depends_on_id) REFERENCES features(id) ON DELETE CASCADE
+        )
+      `);
+      db.exec("CREATE INDEX idx_feature_dependencies_depends_on ON feature_dependencies(depends_on_id)");
+    },
+  },
+  {
+    version: 4,
+    name: "claim leases and session history",
+    up: (db) => {
+      addColumnIfMissing(db, "features", "claim_expires_at", "TEXT DEFAULT NULL");
+      addColumnIfMissing(db, "sessions", "last_heartbeat_at", "TEXT DEFAULT NULL");
+      db.exec(`
+        CREATE TABLE session_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          feature_id TEXT,
+          action TEXT NOT NULL,
+          detail TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.exec(`
+        CREATE INDEX idx_session_history_session ON session_history(session_id);
+        CREATE INDEX idx_session_history_feature ON session_history(feature_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "feature workflows",
+    up: (db) => {
+      addColumnIfMissing(db, "features", "workflow", "TEXT DEFAULT NULL");
+    },
+  },
+  {
+    version: 6,
+    name: "event log",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          feature_id TEXT,
+          subject TEXT,
+          from_value TEXT,
+          to_value TEXT,
+          detail TEXT,
+          session_id TEXT,
+          actor TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.exec(`
+        CREATE INDEX idx_events_feature ON events(feature_id);
+        CREATE INDEX idx_events_session ON events(session_id);
+        CREATE TRIGGER events_no_update BEFORE UPDATE ON events
+        BEGIN SELECT RAISE(ABORT, 'events are append-only'); END;
+        CREATE TRIGGER events_no_delete BEFORE DELETE ON events
+        BEGIN SELECT RAISE(ABORT, 'events are append-only'); END;
+      `);
+    },
+  },
+];
+
+/** Schema version this build of SpecFirst writes */
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Creates the schema_migrations table if missing.
+ */
+function ensureMigrationsTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+/**
+ * Lists migrations recorded in the database, oldest first.
+ *
+ * @param db - Open database
+ * @returns Applied migrations (empty if schema_migrations does not exist)
+ */
+export function getAppliedMigrations(db: Database): AppliedMigration[] {
+  const table = db.query<{ name: string }, []>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'"
+  ).get();
+  if (!table) return [];
+
+  return db.query<MigrationRow, []>(
+    "SELECT version, name, applied_at FROM schema_migrations ORDER BY version"
+  ).all().map(row => ({ version: row.version, name: row.name, appliedAt: new Date(row.applied_at) }));
+}
+
+/**
+ * Returns the schema version of a database: the highest applied migration,
+ * or 0 if none have been applied.
+ *
+ * @param db - Open database
+ */
+export function readSchemaVersion(db: Database): number {
+  const applied = getAppliedMigrations(db);
+  return applied.length > 0 ? applied[applied.length - 1].version : 0;
+}
+
+/**
+ * Brings a database up to SCHEMA_VERSION by applying pending migrations in
+ * order, each in its own transaction.
+ *
+ * @param db - Open database
+ * @param migrations - Migration list (defaults to MIGRATIONS)
+ * @returns Versions before and after, and the migrations applied
+ * @throws SchemaVersionError if the database is newer than this SpecFirst,
+ *   has gaps in its migration history, or a migration fails
+ *
+ * @example
+ * ```typescript
+ * const { from, to } = migrateDatabase(db);
+ * if (from !== to) console.log(`Upgraded schema v${from} → v${to}`);
+ * ```
+ */
+export function migrateDatabase(db: Database, migrations: Migration[] = MIGRATIONS): MigrationResult {
+  const latest = migrations.length;
+  ensureMigrationsTable(db);
+
+  const applied = getAppliedMigrations(db);
+  const from = applied.length > 0 ? applied[applied.length - 1].version : 0;
+
+  if (from > latest) {
+    throw new SchemaVersionError(
+      `Database schema version ${from} is newer than this SpecFirst supports (${latest}). ` +
+      `Upgrade SpecFirst to open this project.`,
+      from,
+      latest
+    );
+  }
+
+  const missing = applied.findIndex((m, i) => m.version !== i + 1);
+  if (missing !== -1) {
+    throw new SchemaVersionError(
+      `Database migration history is inconsistent: expected version ${missing + 1}, ` +
+      `found ${applied[missing].version}. Restore .specfirst/specfirst.db from a backup or delete it to rebuild.`,
+      from,
+      latest
+    );
+  }
+
+  const result: MigrationResult = { from, to: from, applied: [] };
+
+  for (const migration of migrations.slice(from)) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      db.run(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+    });
+
+    try {
+      apply();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SchemaVersionError(
+        `Migration ${migration.version} (${migration.name}) failed: ${message}. ` +
+        `The database was left at schema version ${result.to}.`,
+        result.to,
+        latest
+      );
+    }
+
+    result.to = migration.version;
+    result.applied.push(migration.version);
+  }
+
+  return result;
+}
+
+// Export for testing
+export const __testing = {
+  addColumnIfMissing,
+  ensureMigrationsTable,
+};
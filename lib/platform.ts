@@ -1,20 +1,37 @@
 /**
  * Platform Detection Module - SpecFirst 3.0
- * 
- * Detects the current AI platform (OpenCode vs Claude Code) and provides
- * platform-agnostic path resolution.
- * 
+ *
+ * Detects the agent platform SpecFirst runs under (OpenCode, Claude Code,
+ * Codex, Gemini CLI, Cursor) and provides platform-agnostic path resolution.
+ * Platforms are kept in a registry; each one lists the environment variables
+ * and home directories that identify it.
+ *
  * Priority Order:
- * 1. OPENCODE_DIR environment variable
- * 2. PAI_DIR environment variable  
- * 3. Directory structure detection (~/.opencode vs ~/.claude)
- * 4. Manual fallback with error
- * 
+ * 1. Environment variables, in registry order (SPECFIRST_HOME, OPENCODE_DIR,
+ *    PAI_DIR, CODEX_HOME)
+ * 2. Directory structure detection (~/.opencode, ~/.claude, ~/.codex,
+ *    ~/.gemini, ~/.cursor)
+ * 3. Standalone fallback: `<project>/.specfirst`
+ *
+ * The standalone platform needs no agent installed, so SpecFirst also runs
+ * in CI containers. describePlatform() reports which signals matched.
+ *
  * @module lib/platform
  * @version 3.0.0
  */
 
-export type Platform = "opencode" | "claudecode" | "unknown";
+import { existsSync } from "fs";
+import { resolve } from "path";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Platforms registered by default */
+export type BuiltInPlatform = "standalone" | "opencode" | "claudecode" | "codex" | "gemini" | "cursor";
+
+/** Platform identifier (built-in or registered with registerPlatform) */
+export type Platform = BuiltInPlatform | (string & {});
 
 export interface PlatformInfo {
   platform: Platform;
@@ -26,75 +43,172 @@ export interface PlatformInfo {
 }
 
 /**
- * Detects the current platform based on environment variables and directory structure.
- * 
- * @returns Platform identifier
+ * How a platform is recognized.
+ *
+ * @example
+ * ```typescript
+ * registerPlatform({ id: "windsurf", name: "Windsurf", envVars: ["WINDSURF_DIR"], homeDirs: [".windsurf"] });
+ * ```
  */
-export function detectPlatform(): Platform {
-  // Priority 1: OPENCODE_DIR environment variable
-  if (process.env.OPENCODE_DIR) {
-    return "opencode";
-  }
-  
-  // Priority 2: PAI_DIR environment variable (legacy Claude Code)
-  if (process.env.PAI_DIR) {
-    return "claudecode";
+export interface PlatformDefinition {
+  id: Platform;
+  /** Display name */
+  name: string;
+  /** Environment variables holding the platform root, checked in order */
+  envVars: string[];
+  /** Directories under the home directory that mark an install, checked in order */
+  homeDirs: string[];
+}
+
+/** One detection check and whether it matched */
+export interface PlatformSignal {
+  platform: Platform;
+  kind: "env" | "directory" | "fallback";
+  /** Variable name, `~/<dir>`, or "project" for the fallback */
+  source: string;
+  matched: boolean;
+  /** Root directory the signal points at (when matched) */
+  rootDir?: string;
+}
+
+/** Detected platform with every signal that was checked */
+export interface PlatformDescription extends PlatformInfo {
+  /** Display name of the detected platform */
+  name: string;
+  /** Signals in priority order; the first matched one decides */
+  signals: PlatformSignal[];
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/** Directory under the project used as root by the standalone fallback */
+export const STANDALONE_DIR = ".specfirst";
+
+const BUILT_IN_PLATFORMS: readonly PlatformDefinition[] = [
+  { id: "standalone", name: "Standalone", envVars: ["SPECFIRST_HOME"], homeDirs: [] },
+  { id: "opencode", name: "OpenCode", envVars: ["OPENCODE_DIR"], homeDirs: [".opencode"] },
+  { id: "claudecode", name: "Claude Code", envVars: ["PAI_DIR"], homeDirs: [".claude"] },
+  { id: "codex", name: "Codex", envVars: ["CODEX_HOME"], homeDirs: [".codex"] },
+  { id: "gemini", name: "Gemini CLI", envVars: [], homeDirs: [".gemini"] },
+  { id: "cursor", name: "Cursor", envVars: [], homeDirs: [".cursor"] },
+];
+
+let platforms: PlatformDefinition[] = [...BUILT_IN_PLATFORMS];
+
+/**
+ * Gets the registered platforms in detection order.
+ */
+export function getPlatforms(): readonly PlatformDefinition[] {
+  return platforms;
+}
+
+/**
+ * Registers an additional platform. It is checked after the platforms
+ * already registered.
+ *
+ * @param definition - How to recognize the platform
+ * @throws Error if a platform with the same id is already registered
+ */
+export function registerPlatform(definition: PlatformDefinition): void {
+  if (platforms.some(p => p.id === definition.id)) {
+    throw new Error(`Platform already registered: ${definition.id}`);
   }
-  
-  // Priority 3: Directory structure detection
-  const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-  
-  const opencodeDir = `${homeDir}/.opencode`;
-  const claudeDir = `${homeDir}/.claude`;
-  
-  // Check which directory exists
-  try {
-    const fs = require("fs");
-    if (fs.existsSync(opencodeDir)) {
-      return "opencode";
+  platforms = [...platforms, definition];
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+function getHomeDir(): string {
+  return process.env.HOME || process.env.USERPROFILE || "";
+}
+
+/**
+ * Checks every detection signal in priority order.
+ */
+function collectSignals(projectPath: string): PlatformSignal[] {
+  const signals: PlatformSignal[] = [];
+
+  // Priority 1: environment variables
+  for (const definition of platforms) {
+    for (const envVar of definition.envVars) {
+      const value = process.env[envVar];
+      signals.push({
+        platform: definition.id,
+        kind: "env",
+        source: envVar,
+        matched: Boolean(value),
+        rootDir: value ? resolve(projectPath, value) : undefined,
+      });
     }
-    if (fs.existsSync(claudeDir)) {
-      return "claudecode";
+  }
+
+  // Priority 2: directory structure (skipped without a home directory)
+  const homeDir = getHomeDir();
+  for (const definition of platforms) {
+    for (const dir of definition.homeDirs) {
+      const path = `${homeDir}/${dir}`;
+      const matched = homeDir !== "" && existsSync(path);
+      signals.push({
+        platform: definition.id,
+        kind: "directory",
+        source: `~/${dir}`,
+        matched,
+        rootDir: matched ? path : undefined,
+      });
     }
-  } catch {
-    // File system access failed, return unknown
   }
-  
-  return "unknown";
+
+  // Priority 3: standalone in the project
+  signals.push({
+    platform: "standalone",
+    kind: "fallback",
+    source: "project",
+    matched: true,
+    rootDir: `${projectPath}/${STANDALONE_DIR}`,
+  });
+
+  return signals;
+}
+
+/**
+ * Gets the signal that decides the platform.
+ */
+function selectSignal(projectPath: string): PlatformSignal & { rootDir: string } {
+  return collectSignals(projectPath).find(s => s.matched) as PlatformSignal & { rootDir: string };
+}
+
+/**
+ * Detects the current platform based on environment variables and directory structure.
+ *
+ * @returns Platform identifier ("standalone" when no agent platform is found)
+ */
+export function detectPlatform(): Platform {
+  return selectSignal(process.cwd()).platform;
 }
 
 /**
  * Gets the root directory for the current platform.
- * 
+ *
+ * @param projectPath - Project whose `.specfirst` directory is the standalone root (defaults to cwd)
  * @returns Absolute path to platform root directory
- * @throws Error if platform cannot be detected
- */
-export function getRootDir(): string {
-  const platform = detectPlatform();
-  const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-  
-  switch (platform) {
-    case "opencode":
-      return process.env.OPENCODE_DIR || `${homeDir}/.opencode`;
-    case "claudecode":
-      return process.env.PAI_DIR || `${homeDir}/.claude`;
-    case "unknown":
-      throw new Error(
-        "Platform detection failed. Set OPENCODE_DIR or PAI_DIR environment variable, " +
-        "or ensure ~/.opencode or ~/.claude directory exists."
-      );
-  }
+ */
+export function getRootDir(projectPath: string = process.cwd()): string {
+  return selectSignal(projectPath).rootDir;
 }
 
 /**
  * Gets complete platform information including all standard directories.
- * 
+ *
+ * @param projectPath - Project whose `.specfirst` directory is the standalone root (defaults to cwd)
  * @returns PlatformInfo object with all resolved paths
  */
-export function getPlatformInfo(): PlatformInfo {
-  const platform = detectPlatform();
-  const rootDir = getRootDir();
-  
+export function getPlatformInfo(projectPath: string = process.cwd()): PlatformInfo {
+  const { platform, rootDir } = selectSignal(projectPath);
+
   return {
     platform,
     rootDir,
@@ -105,32 +219,59 @@ export function getPlatformInfo(): PlatformInfo {
   };
 }
 
+/**
+ * Describes platform detection: the platform found, its directories and
+ * every signal that was checked.
+ *
+ * @param projectPath - Project whose `.specfirst` directory is the standalone root (defaults to cwd)
+ * @returns PlatformDescription
+ *
+ * @example
+ * ```typescript
+ * for (const signal of describePlatform().signals) {
+ *   console.log(`${signal.matched ? "✓" : " "} ${signal.source} (${signal.platform})`);
+ * }
+ * ```
+ */
+export function describePlatform(projectPath: string = process.cwd()): PlatformDescription {
+  const info = getPlatformInfo(projectPath);
+
+  return {
+    ...info,
+    name: platforms.find(p => p.id === info.platform)?.name ?? info.platform,
+    signals: collectSignals(projectPath),
+  };
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
 /**
  * Resolves a relative path to an absolute path based on platform root.
- * 
+ *
  * @param relativePath - Path relative to platform root (e.g., "skills/SpecFirst")
  * @returns Absolute path
  */
 export function resolvePath(relativePath: string): string {
   const rootDir = getRootDir();
-  
+
   // Handle paths that already start with /
   if (relativePath.startsWith("/")) {
     return relativePath;
   }
-  
+
   // Handle paths that start with ~/
   if (relativePath.startsWith("~/")) {
-    const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-    return `${homeDir}/${relativePath.slice(2)}`;
+    return `${getHomeDir()}/${relativePath.slice(2)}`;
   }
-  
+
   return `${rootDir}/${relativePath}`;
 }
 
 /**
  * Gets the feature execution directory for a given feature name.
- * 
+ *
  * @param featureName - Name of the feature (e.g., "contact-enrichment")
  * @returns Absolute path to feature execution directory
  */
@@ -141,7 +282,7 @@ export function getFeatureDir(featureName: string): string {
 
 /**
  * Gets the project directory for a given project name.
- * 
+ *
  * @param projectName - Name of the project (e.g., "specfirst-3.0")
  * @returns Absolute path to project directory
  */
@@ -152,7 +293,7 @@ export function getProjectDir(projectName: string): string {
 
 /**
  * Gets the specs directory for a given feature.
- * 
+ *
  * @param featureName - Name of the feature
  * @returns Absolute path to specs directory
  */
@@ -174,9 +315,35 @@ export function isClaudeCode(): boolean {
   return detectPlatform() === "claudecode";
 }
 
+/**
+ * Checks if running without an agent platform.
+ */
+export function isStandalone(): boolean {
+  return detectPlatform() === "standalone";
+}
+
 // Export for testing
 export const __testing = {
   detectPlatform,
   getRootDir,
   getPlatformInfo,
+  collectSignals,
+  resetPlatforms: () => {
+    platforms = [...BUILT_IN_PLATFORMS];
+  },
 };
+
+// =============================================================================
+// Self-Test
+// =============================================================================
+
+// Self-test when run directly with: bun lib/platform.ts
+if (import.meta.main) {
+  const description = describePlatform();
+  console.log(`Platform: ${description.name} (${description.platform})`);
+  console.log(`Root dir: ${description.rootDir}`);
+  console.log("Signals:");
+  for (const signal of description.signals) {
+    console.log(`  ${signal.matched ? "✓" : "·"} ${signal.kind.padEnd(9)} ${signal.source} → ${signal.platform}`);
+  }
+}
@@ -0,0 +1,493 @@
+/**
+ * Workflow Definitions - SpecFirst 4.0
+ *
+ * A workflow is the ordered list of phases a feature goes through, with the
+ * artifacts each phase requires, the gates run before it and the Algorithm
+ * phase it executes in. The built-in "default" workflow is the classic
+ * propose → specify → plan → implement → release pipeline.
+ *
+ * Custom workflows are YAML or JSON files named `<workflow>.yaml`, looked up
+ * in (highest priority first):
+ *
+ * 1. `<project>/.specfirst/workflows/`
+ * 2. `workflowsDir` (SpecFirstConfig, the skill's Workflows/ directory)
+ *
+ * A project file named `default.yaml` replaces the built-in default for
+ * features that were not assigned a workflow.
+ *
+ * ```yaml
+ * name: bugfix
+ * description: Spec the fix, then implement and release
+ * phases:
+ *   - specify
+ *   - implement
+ *   - name: release
+ *     gates: [prerequisite, artifact, isc-format]
+ * ```
+ *
+ * Phases named after a built-in phase run that phase's implementation. Any
+ * other name is a review phase (see phases/review) that records a sign-off
+ * document with an optional checklist.
+ *
+ * @module lib/workflow
+ * @version 4.0.0
+ */
+
+import { YAML } from "bun";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { join, basename, extname } from "path";
+import { getConfig } from "./config";
+import { getFeature } from "./database";
+import { mapToAlgorithmPhase, type AlgorithmPhase } from "../algorithm/phase-integration";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Built-in phase implementations a workflow phase can run */
+export type PhaseHandler = "propose" | "specify" | "plan" | "implement" | "release" | "review";
+
+/** Artifacts a phase can require */
+export type WorkflowArtifact = "constitution" | "proposal" | "spec" | "plan" | "tasks";
+
+/** Gates a phase can run before executing */
+export type WorkflowGate = "prerequisite" | "artifact" | "isc-format" | "traceability";
+
+/** Where a workflow definition came from */
+export type WorkflowSource = "builtin" | "config" | "project";
+
+/** A phase within a workflow */
+export interface WorkflowPhase {
+  /** Phase name, used for commands, commit markers and the feature's recorded phase */
+  name: string;
+  /** Implementation run for this phase */
+  handler: PhaseHandler;
+  /** Artifacts that must exist before the phase runs (artifact gate) */
+  requires: WorkflowArtifact[];
+  /** Gates run in order before the phase */
+  gates: WorkflowGate[];
+  /** Algorithm phase this phase executes in */
+  algorithmPhase: AlgorithmPhase;
+  description?: string;
+  /** Review phases: items the reviewer signs off */
+  checklist?: string[];
+}
+
+/** A complete workflow */
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  phases: WorkflowPhase[];
+  source: WorkflowSource;
+  /** Definition file (absent for the built-in default) */
+  path?: string;
+}
+
+/** Options for workflow lookup */
+export interface WorkflowOptions {
+  /** Project root searched for .specfirst/workflows (default: cwd) */
+  projectPath?: string;
+}
+
+/**
+ * Thrown when a workflow cannot be found or its definition is invalid.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   getWorkflow("bugfix", { projectPath });
+ * } catch (error) {
+ *   if (error instanceof WorkflowError) console.error(error.errors.join("\n"));
+ * }
+ * ```
+ */
+export class WorkflowError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = [],
+    public readonly path?: string
+  ) {
+    super(errors.length > 0 ? `${message}:\n${errors.map(e => `  - ${e}`).join("\n")}` : message);
+    this.name = "WorkflowError";
+  }
+}
+
+// =============================================================================
+// Built-in Definitions
+// =============================================================================
+
+export const DEFAULT_WORKFLOW_NAME = "default";
+
+export const PHASE_HANDLERS: PhaseHandler[] = ["propose", "specify", "plan", "implement", "release", "review"];
+export const WORKFLOW_ARTIFACTS: WorkflowArtifact[] = ["constitution", "proposal", "spec", "plan", "tasks"];
+export const WORKFLOW_GATES: WorkflowGate[] = ["prerequisite", "artifact", "isc-format", "traceability"];
+const ALGORITHM_PHASES: AlgorithmPhase[] = ["OBSERVE", "THINK", "PLAN", "BUILD", "EXECUTE", "VERIFY", "LEARN"];
+
+/** Artifact each handler writes (review phases write `<phase>.md`, which is not requirable) */
+const HANDLER_OUTPUTS: Record<PhaseHandler, WorkflowArtifact | null> = {
+  propose: "proposal",
+  specify: "spec",
+  plan: "plan",
+  implement: "tasks",
+  release: null,
+  review: null,
+};
+
+/** Artifacts a handler reads unconditionally */
+const HANDLER_INPUTS: Record<PhaseHandler, WorkflowArtifact[]> = {
+  propose: [],
+  specify: [],
+  plan: ["spec"],
+  implement: [],
+  release: ["tasks"],
+  review: [],
+};
+
+/** Gates run when a phase definition does not list its own */
+const DEFAULT_GATES: Record<PhaseHandler, WorkflowGate[]> = {
+  propose: ["prerequisite"],
+  specify: ["prerequisite", "artifact"],
+  plan: ["prerequisite", "artifact"],
+  implement: ["prerequisite", "artifact", "traceability"],
+  release: ["prerequisite", "artifact", "isc-format", "traceability"],
+  review: ["prerequisite", "artifact"],
+};
+
+const NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * The classic five-phase pipeline. Each phase requires the constitution
+ * plus every artifact produced before it.
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = normalizeWorkflow(
+  {
+    name: DEFAULT_WORKFLOW_NAME,
+    description: "Proposal, specification, plan, ISC tasks and release",
+    phases: ["propose", "specify", "plan", "implement", "release"],
+  },
+  "builtin"
+);
+
+// =============================================================================
+// Parsing and Validation
+// =============================================================================
+
+/**
+ * Turns a raw definition (parsed YAML/JSON) into a WorkflowDefinition,
+ * filling in defaults and validating every phase.
+ *
+ * @param raw - Parsed definition
+ * @param source - Where the definition came from
+ * @param path - Definition file, for error messages
+ * @returns Normalized workflow
+ * @throws WorkflowError listing every problem found
+ *
+ * @example
+ * ```typescript
+ * const workflow = normalizeWorkflow({ name: "spike", phases: ["propose", "findings"] }, "project");
+ * workflow.phases[1].handler; // "review"
+ * ```
+ */
+export function normalizeWorkflow(raw: unknown, source: WorkflowSource, path?: string): WorkflowDefinition {
+  const errors: string[] = [];
+  const definition = (raw ?? {}) as Record<string, unknown>;
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new WorkflowError("Workflow definition must be a mapping", [], path);
+  }
+
+  const name = typeof definition.name === "string" ? definition.name : "";
+  if (!NAME_PATTERN.test(name)) {
+    errors.push(`name must be lowercase letters, digits and hyphens (got "${String(definition.name ?? "")}")`);
+  }
+
+  const rawPhases = Array.isArray(definition.phases) ? definition.phases : [];
+  if (rawPhases.length === 0) {
+    errors.push("phases must list at least one phase");
+  }
+
+  const phases: WorkflowPhase[] = [];
+  const produced = new Set<WorkflowArtifact>(["constitution"]);
+  const handlersUsed = new Set<PhaseHandler>();
+
+  rawPhases.forEach((entry, index) => {
+    const phase = normalizePhase(entry, index, produced, errors);
+    if (!phase) return;
+
+    if (phases.some(p => p.name === phase.name)) {
+      errors.push(`Phase "${phase.name}" is listed more than once`);
+    }
+    if (phase.handler !== "review" && handlersUsed.has(phase.handler)) {
+      errors.push(`Phase "${phase.name}": the ${phase.handler} handler can only be used once per workflow`);
+    }
+    handlersUsed.add(phase.handler);
+
+    const output = HANDLER_OUTPUTS[phase.handler];
+    if (output) produced.add(output);
+    phases.push(phase);
+  });
+
+  if (errors.length > 0) {
+    throw new WorkflowError(`Invalid workflow${name ? ` "${name}"` : ""}${path ? ` in ${path}` : ""}`, errors, path);
+  }
+
+  return {
+    name,
+    description: typeof definition.description === "string" ? definition.description : undefined,
+    phases,
+    source,
+    path,
+  };
+}
+
+/**
+ * Normalizes one phase entry. A string is shorthand for `{ name }`.
+ * `available` holds the artifacts produced by earlier phases.
+ */
+function normalizePhase(
+  entry: unknown,
+  index: number,
+  available: Set<WorkflowArtifact>,
+  errors: string[]
+): WorkflowPhase | null {
+  const raw = (typeof entry === "string" ? { name: entry } : entry) as Record<string, unknown> | null;
+  if (!raw || typeof raw !== "object" || typeof raw.name !== "string") {
+    errors.push(`phases[${index}] must be a phase name or a mapping with a name`);
+    return null;
+  }
+
+  const name = raw.name;
+  const label = `Phase "${name}"`;
+  if (!NAME_PATTERN.test(name) || name === "none") {
+    errors.push(`${label}: name must be lowercase letters, digits and hyphens`);
+  }
+
+  const builtin = (PHASE_HANDLERS as string[]).includes(name) && name !== "review";
+  const handler = (raw.handler ?? (builtin ? name : "review")) as PhaseHandler;
+  if (!PHASE_HANDLERS.includes(handler)) {
+    errors.push(`${label}: unknown handler "${String(handler)}" (expected one of ${PHASE_HANDLERS.join(", ")})`);
+    return null;
+  }
+  if (builtin && handler !== name) {
+    errors.push(`${label}: built-in phase names must use their own handler`);
+  }
+
+  const requires = stringList(raw.requires, `${label}: requires`, errors) as WorkflowArtifact[] | undefined
+    ?? [...available].sort((a, b) => WORKFLOW_ARTIFACTS.indexOf(a) - WORKFLOW_ARTIFACTS.indexOf(b));
+  for (const artifact of requires) {
+    if (!WORKFLOW_ARTIFACTS.includes(artifact)) {
+      errors.push(`${label}: unknown artifact "${artifact}" (expected one of ${WORKFLOW_ARTIFACTS.join(", ")})`);
+    } else if (!available.has(artifact)) {
+      errors.push(`${label}: requires ${artifact}, but no earlier phase produces it`);
+    }
+  }
+  for (const artifact of HANDLER_INPUTS[handler]) {
+    if (!available.has(artifact)) {
+      errors.push(`${label}: the ${handler} handler reads ${artifact}, but no earlier phase produces it`);
+    } else if (!requires.includes(artifact)) {
+      errors.push(`${label}: the ${handler} handler reads ${artifact}, so it must be listed in requires`);
+    }
+  }
+
+  const gates = stringList(raw.gates, `${label}: gates`, errors) as WorkflowGate[] | undefined ?? [...DEFAULT_GATES[handler]];
+  for (const gate of gates) {
+    if (!WORKFLOW_GATES.includes(gate)) {
+      errors.push(`${label}: unknown gate "${gate}" (expected one of ${WORKFLOW_GATES.join(", ")})`);
+    }
+  }
+  if (gates.includes("isc-format") && !available.has("tasks")) {
+    errors.push(`${label}: the isc-format gate needs tasks.md from an earlier phase`);
+  }
+
+  const algorithmPhase = (typeof raw.algorithmPhase === "string"
+    ? raw.algorithmPhase.toUpperCase()
+    : handler === "review" ? "VERIFY" : mapToAlgorithmPhase(handler)) as AlgorithmPhase;
+  if (!ALGORITHM_PHASES.includes(algorithmPhase)) {
+    errors.push(`${label}: unknown algorithmPhase "${algorithmPhase}" (expected one of ${ALGORITHM_PHASES.join(", ")})`);
+  }
+
+  const checklist = stringList(raw.checklist, `${label}: checklist`, errors);
+  if (checklist && handler !== "review") {
+    errors.push(`${label}: checklist is only supported on review phases`);
+  }
+
+  return {
+    name,
+    handler,
+    requires,
+    gates,
+    algorithmPhase,
+    ...(typeof raw.description === "string" ? { description: raw.description } : {}),
+    ...(checklist ? { checklist } : {}),
+  };
+}
+
+/**
+ * Reads an optional list of strings, recording an error for other shapes.
+ */
+function stringList(value: unknown, label: string, errors: string[]): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(v => typeof v !== "string")) {
+    errors.push(`${label} must be a list of strings`);
+    return [];
+  }
+  return value as string[];
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+const DEFINITION_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Directories searched for definitions, highest priority first.
+ */
+function workflowDirs(options: WorkflowOptions): { source: WorkflowSource; dir: string }[] {
+  const projectPath = options.projectPath ?? process.cwd();
+  return [
+    { source: "project", dir: join(projectPath, ".specfirst", "workflows") },
+    { source: "config", dir: getConfig(projectPath).workflowsDir },
+  ];
+}
+
+/**
+ * Parses and normalizes a definition file.
+ */
+function loadWorkflowFile(path: string, source: WorkflowSource): WorkflowDefinition {
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, "utf-8");
+    raw = extname(path) === ".json" ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    throw new WorkflowError(`Cannot read workflow ${path}: ${error instanceof Error ? error.message : String(error)}`, [], path);
+  }
+
+  const workflow = normalizeWorkflow(raw, source, path);
+  const fileName = basename(path, extname(path));
+  if (workflow.name !== fileName) {
+    throw new WorkflowError(`Workflow "${workflow.name}" must be defined in ${workflow.name}${extname(path)}, not ${basename(path)}`, [], path);
+  }
+  return workflow;
+}
+
+/**
+ * Finds a workflow by name: a project definition, then one in workflowsDir,
+ * then the built-in default.
+ *
+ * @param name - Workflow name
+ * @param options - Project to search
+ * @returns The workflow definition
+ * @throws WorkflowError if no definition exists or it is invalid
+ *
+ * @example
+ * ```typescript
+ * const workflow = getWorkflow("bugfix", { projectPath });
+ * console.log(workflow.phases.map(p => p.name).join(" → "));
+ * ```
+ */
+export function getWorkflow(name: string, options: WorkflowOptions = {}): WorkflowDefinition {
+  for (const { source, dir } of workflowDirs(options)) {
+    for (const extension of DEFINITION_EXTENSIONS) {
+      const path = join(dir, `${name}${extension}`);
+      if (existsSync(path)) return loadWorkflowFile(path, source);
+    }
+  }
+
+  if (name === DEFAULT_WORKFLOW_NAME) return DEFAULT_WORKFLOW;
+  throw new WorkflowError(`Unknown workflow "${name}". Available: ${listWorkflows(options).map(w => w.name).join(", ")}`);
+}
+
+/**
+ * Lists every available workflow. Project definitions shadow workflowsDir
+ * definitions of the same name.
+ *
+ * @param options - Project to search
+ * @returns Workflows sorted by name
+ * @throws WorkflowError if a definition file is invalid
+ */
+export function listWorkflows(options: WorkflowOptions = {}): WorkflowDefinition[] {
+  const found = new Map<string, WorkflowDefinition>([[DEFAULT_WORKFLOW_NAME, DEFAULT_WORKFLOW]]);
+
+  for (const { source, dir } of workflowDirs(options).reverse()) {
+    if (!existsSync(dir)) continue;
+    for (const file of readdirSync(dir).sort()) {
+      if (!DEFINITION_EXTENSIONS.includes(extname(file))) continue;
+      const workflow = loadWorkflowFile(join(dir, file), source);
+      found.set(workflow.name, workflow);
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Resolves the workflow a feature runs under: an explicit name, else the
+ * workflow recorded for the feature in the open database, else "default".
+ *
+ * @param featureName - Feature name
+ * @param options - Project to search and an explicit workflow name
+ * @returns The workflow definition
+ * @throws WorkflowError if the named workflow is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * initDatabase(projectPath);
+ * const workflow = resolveFeatureWorkflow("login-fix", { projectPath });
+ * ```
+ */
+export function resolveFeatureWorkflow(
+  featureName: string,
+  options: WorkflowOptions & { workflow?: string } = {}
+): WorkflowDefinition {
+  if (options.workflow) return getWorkflow(options.workflow, options);
+
+  let assigned: string | null = null;
+  try {
+    assigned = getFeature(featureName)?.workflow ?? null;
+  } catch {
+    // Database not initialized: nothing recorded for this feature
+  }
+
+  return getWorkflow(assigned ?? DEFAULT_WORKFLOW_NAME, options);
+}
+
+/**
+ * Looks up a phase in a workflow.
+ *
+ * @param workflow - Workflow definition
+ * @param phase - Phase name
+ * @returns The phase, or undefined if the workflow does not include it
+ */
+export function getWorkflowPhase(workflow: WorkflowDefinition, phase: string): WorkflowPhase | undefined {
+  return workflow.phases.find(p => p.name === phase);
+}
+
+/**
+ * Returns the phase after `phase` in a workflow ("none" means not started).
+ *
+ * @param workflow - Workflow definition
+ * @param phase - Current phase
+ * @returns Next phase name, or null when `phase` is the last (or unknown)
+ */
+export function getNextWorkflowPhase(workflow: WorkflowDefinition, phase: string): string | null {
+  if (phase === "none") return workflow.phases[0]?.name ?? null;
+  const index = workflow.phases.findIndex(p => p.name === phase);
+  return index !== -1 && index < workflow.phases.length - 1 ? workflow.phases[index + 1].name : null;
+}
+
+/**
+ * Phase names in order.
+ */
+export function getPhaseNames(workflow: WorkflowDefinition): string[] {
+  return workflow.phases.map(p => p.name);
+}
+
+// Export for testing
+export const __testing = {
+  normalizePhase,
+  workflowDirs,
+  loadWorkflowFile,
+  HANDLER_OUTPUTS,
+  DEFAULT_GATES,
+};
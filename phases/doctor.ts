@@ -0,0 +1,473 @@
+/**
+ * Doctor - SpecFirst 4.0
+ *
+ * Reconciles the three records of where a feature stands: the phase markers
+ * in git, the artifacts on disk and the SQLite database. Git markers are
+ * the source of truth (they are what the gates check); the database is a
+ * cache of them that can drift when a session dies, a commit is reverted or
+ * the database is deleted.
+ *
+ * runDoctor() collects features from the feature directories, the marker
+ * commits on every branch and the database, and reports per feature:
+ * - `unfinished-phase`: a phase journal was left behind (lib/journal)
+ * - `missing-record`: markers or artifacts exist but SQLite has no row
+ * - `phase` / `status`: SQLite disagrees with the completed phases in git
+ * - `path`: a stored artifact path differs from where the artifact is
+ * - `criteria`: the criteria table differs from the ISC tracker in tasks.md
+ * - `missing-artifact`: git records a phase complete but its artifact is gone
+ * - `stale-artifact`: a completed phase's artifact is still marked for review
+ * - `workflow`: the feature's workflow cannot be loaded
+ *
+ * With `repair`, SQLite is updated from the markers and artifacts; issues
+ * in git or on disk are only reported. With `rebuild`, the database is
+ * moved aside and recreated from the markers and artifacts alone. A
+ * rebuilt database has no sessions, dependencies, priorities, descriptions
+ * or event history; the old file is kept next to it.
+ *
+ * In memory storage the feature directories are shared by every project,
+ * so a directory only counts when the feature also has markers in this
+ * repository or a row in this project's database.
+ *
+ * @module phases/doctor
+ * @version 4.0.0
+ */
+
+import { existsSync, readdirSync } from "fs";
+import { readFile, rename, rm } from "fs/promises";
+import { parseFrontmatter } from "../artifacts/frontmatter";
+import { parseTasksFile } from "../artifacts/tasks";
+import type { ISCStatus } from "../artifacts/types";
+import { STATUS_TO_CRITERION } from "../algorithm/isc-sync";
+import { getArtifactPath, getConfig, getFeaturesDir } from "../lib/config";
+import {
+  addCriterion,
+  addFeature,
+  closeDatabase,
+  getCriteria,
+  getDbPath,
+  getFeatures,
+  initDatabase,
+  runInTransaction,
+  setFeatureWorkflow,
+  updateCriterionStatus,
+  updateFeaturePaths,
+  updateFeaturePhase,
+  updateFeatureStatus,
+  type CriterionStatus,
+  type Feature,
+  type FeaturePaths,
+  type FeatureStatus,
+} from "../lib/database";
+import { assertFeatureId, isValidFeatureId } from "../lib/feature-id";
+import { getMarkedFeatures, getPhaseMarkers, isPhaseComplete } from "../lib/git";
+import { readPhaseJournals, recoverPhaseJournals } from "../lib/journal";
+import {
+  DEFAULT_WORKFLOW,
+  getPhaseNames,
+  getWorkflow,
+  listWorkflows,
+  type PhaseHandler,
+  type WorkflowDefinition,
+} from "../lib/workflow";
+import { getPhaseArtifactPath } from "./orchestrator";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Kind of inconsistency runDoctor() found */
+export type DoctorIssueKind =
+  | "unfinished-phase"
+  | "missing-record"
+  | "phase"
+  | "status"
+  | "path"
+  | "criteria"
+  | "missing-artifact"
+  | "stale-artifact"
+  | "workflow";
+
+export interface DoctorIssue {
+  kind: DoctorIssueKind;
+  message: string;
+  /** Whether `repair` can fix it from the markers and artifacts */
+  repairable: boolean;
+  /** Set once the repair was applied */
+  repaired?: boolean;
+}
+
+/** One feature's state in git and SQLite, and where they disagree */
+export interface FeatureDiagnosis {
+  featureName: string;
+  workflow: string;
+  /** Phases git records as complete (and not reopened), in workflow order */
+  completedPhases: string[];
+  /** Phase the markers put the feature in ("none" before the first phase) */
+  expectedPhase: string;
+  /** SQLite row before repairs; null when there is none */
+  record: { phase: string; status: FeatureStatus } | null;
+  issues: DoctorIssue[];
+}
+
+export interface DoctorOptions {
+  /** Project root path (default: cwd) */
+  projectPath?: string;
+  /** Features to check (default: every feature found) */
+  features?: string[];
+  /** Update SQLite to match the markers and artifacts */
+  repair?: boolean;
+  /** Recreate the database from the markers and artifacts (implies repair) */
+  rebuild?: boolean;
+}
+
+export interface DoctorReport {
+  projectPath: string;
+  features: FeatureDiagnosis[];
+  /** Issues not tied to a feature (unreadable journals) */
+  issues: DoctorIssue[];
+  /** Where a rebuild moved the old database */
+  backupPath?: string;
+  /** Issues left unrepaired */
+  remaining: number;
+}
+
+/** SQLite changes that bring a feature in line with git */
+interface FeatureRepair {
+  create?: { workflow?: string };
+  phase?: string;
+  status?: FeatureStatus;
+  paths: FeaturePaths;
+  addCriteria: Array<{ criterion: string; status: CriterionStatus; evidence?: string }>;
+  criterionStatus: Array<{ id: string; status: CriterionStatus; evidence?: string }>;
+}
+
+/** Path columns written by the built-in phases */
+const PATH_COLUMNS: Partial<Record<PhaseHandler, keyof FeaturePaths & keyof Feature>> = {
+  propose: "proposalPath",
+  specify: "specPath",
+  plan: "planPath",
+  implement: "tasksPath",
+};
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+/**
+ * Lists the feature directories under the configured artifact root.
+ */
+function listFeatureDirectories(projectPath: string): string[] {
+  const dir = getFeaturesDir(getConfig(projectPath));
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && isValidFeatureId(entry.name))
+    .map(entry => entry.name);
+}
+
+/**
+ * Picks the workflow whose phases cover every phase with a marker, for a
+ * feature without a SQLite row.
+ */
+function inferWorkflow(markedPhases: Set<string>, projectPath: string): WorkflowDefinition {
+  const covers = (workflow: WorkflowDefinition) => [...markedPhases].every(p => getPhaseNames(workflow).includes(p));
+  if (covers(DEFAULT_WORKFLOW)) {
+    return DEFAULT_WORKFLOW;
+  }
+  return listWorkflows({ projectPath }).find(covers) ?? DEFAULT_WORKFLOW;
+}
+
+// =============================================================================
+// Diagnosis
+// =============================================================================
+
+/**
+ * Compares one feature's SQLite row with its markers and artifacts.
+ * Returns null for a name with no row, markers or artifacts.
+ */
+async function diagnoseFeature(
+  featureName: string,
+  row: Feature | null,
+  projectPath: string
+): Promise<{ diagnosis: FeatureDiagnosis; repair: FeatureRepair } | null> {
+  const issues: DoctorIssue[] = [];
+  const repair: FeatureRepair = { paths: {}, addCriteria: [], criterionStatus: [] };
+  const record = row ? { phase: row.phase, status: row.status } : null;
+  const markers = await getPhaseMarkers(featureName, projectPath);
+
+  let workflow: WorkflowDefinition;
+  try {
+    workflow = row?.workflow
+      ? getWorkflow(row.workflow, { projectPath })
+      : inferWorkflow(new Set(markers.map(m => m.phase)), projectPath);
+  } catch (error) {
+    issues.push({ kind: "workflow", message: (error as Error).message, repairable: false });
+    const diagnosis = { featureName, workflow: row?.workflow ?? "", completedPhases: [], expectedPhase: "none", record, issues };
+    return { diagnosis, repair };
+  }
+
+  const phaseOrder = getPhaseNames(workflow);
+  const completedPhases: string[] = [];
+  for (const phase of phaseOrder) {
+    if (await isPhaseComplete(phase, featureName, projectPath, phaseOrder)) {
+      completedPhases.push(phase);
+    }
+  }
+  const artifacts = workflow.phases.map(phase => ({ phase, path: getPhaseArtifactPath(featureName, phase, projectPath) }));
+  const written = artifacts.filter(a => existsSync(a.path));
+  if (!row && markers.length === 0 && written.length === 0) {
+    return null;
+  }
+
+  // Phase: the last of the leading completed phases (detectNextPhase() runs the first gap)
+  const gap = phaseOrder.findIndex(phase => !completedPhases.includes(phase));
+  const expectedPhase = gap === 0 ? "none" : phaseOrder[(gap === -1 ? phaseOrder.length : gap) - 1];
+  const allComplete = phaseOrder.length > 0 && gap === -1;
+  const current = row?.status ?? "pending";
+  let expectedStatus: FeatureStatus | undefined;
+  if (current !== "skipped") {
+    if (allComplete) expectedStatus = "completed";
+    else if (completedPhases.length > 0 && current !== "in_progress") expectedStatus = "in_progress";
+    else if (completedPhases.length === 0 && current === "completed") expectedStatus = "pending";
+  }
+
+  if (!row) {
+    const which = markers.length > 0 ? "phase markers" : "artifacts";
+    issues.push({ kind: "missing-record", message: `Feature has ${which} but no database record`, repairable: true });
+    repair.create = { workflow: workflow.name === DEFAULT_WORKFLOW.name ? undefined : workflow.name };
+  }
+  if ((row?.phase ?? "none") !== expectedPhase) {
+    if (row) {
+      issues.push({
+        kind: "phase",
+        message: `Database records phase "${row.phase}" but git markers put the feature at "${expectedPhase}"`,
+        repairable: true,
+      });
+    }
+    repair.phase = expectedPhase;
+  }
+  if (expectedStatus && expectedStatus !== current) {
+    if (row) {
+      issues.push({
+        kind: "status",
+        message: `Database records status "${current}" but git markers imply "${expectedStatus}"`,
+        repairable: true,
+      });
+    }
+    repair.status = expectedStatus;
+  }
+
+  // Paths and artifacts
+  for (const { phase, path } of artifacts) {
+    const exists = written.some(a => a.path === path);
+    const column = PATH_COLUMNS[phase.handler];
+    if (column && exists && row?.[column] !== path) {
+      if (row) {
+        const stored = row[column] ? `points to ${row[column]}` : "is not set";
+        issues.push({ kind: "path", message: `Stored ${phase.name} artifact path ${stored}; artifact is at ${path}`, repairable: true });
+      }
+      repair.paths[column] = path;
+    }
+    if (!completedPhases.includes(phase.name)) continue;
+
+    if (!exists) {
+      issues.push({
+        kind: "missing-artifact",
+        message: `Git records ${phase.name} complete but ${path} is missing; restore it from git or reopen the phase`,
+        repairable: false,
+      });
+    } else if (phase.handler !== "review" && parseFrontmatter(await readFile(path, "utf-8")).status === "review") {
+      issues.push({
+        kind: "stale-artifact",
+        message: `${path} is marked for review but git records ${phase.name} complete; re-run or reopen the phase`,
+        repairable: false,
+      });
+    }
+  }
+
+  // Criteria: the ISC tracker in tasks.md is what implement stored
+  const tasksPath = getArtifactPath(featureName, "tasks", projectPath);
+  if (workflow.phases.some(p => p.handler === "implement") && existsSync(tasksPath)) {
+    const tracked = parseTasksFile(await readFile(tasksPath, "utf-8")).criteria;
+    const unmatched = row ? [...getCriteria(featureName)] : [];
+    for (const criterion of tracked) {
+      const status = STATUS_TO_CRITERION[criterion.status as ISCStatus] ?? "pending";
+      const index = unmatched.findIndex(c => c.criterion === criterion.criterion);
+      if (index === -1) {
+        repair.addCriteria.push({ criterion: criterion.criterion, status, evidence: criterion.evidence });
+        continue;
+      }
+      const [stored] = unmatched.splice(index, 1);
+      if (stored.status !== status) {
+        repair.criterionStatus.push({ id: stored.id, status, evidence: criterion.evidence });
+      }
+    }
+
+    if (row && (repair.addCriteria.length > 0 || repair.criterionStatus.length > 0)) {
+      const parts = [
+        repair.addCriteria.length > 0 ? `${repair.addCriteria.length} missing` : "",
+        repair.criterionStatus.length > 0 ? `${repair.criterionStatus.length} with a different status` : "",
+      ].filter(Boolean);
+      issues.push({ kind: "criteria", message: `Criteria in tasks.md: ${parts.join(", ")} in the database`, repairable: true });
+    }
+    if (unmatched.length > 0) {
+      issues.push({
+        kind: "criteria",
+        message: `${unmatched.length} database criteria are not in tasks.md (rebuild drops them)`,
+        repairable: false,
+      });
+    }
+  }
+
+  return { diagnosis: { featureName, workflow: workflow.name, completedPhases, expectedPhase, record, issues }, repair };
+}
+
+/**
+ * Applies a feature's SQLite repairs in one transaction.
+ */
+function applyRepair(featureName: string, repair: FeatureRepair): void {
+  runInTransaction(() => {
+    if (repair.create) {
+      addFeature({ id: featureName, name: featureName });
+      if (repair.create.workflow) setFeatureWorkflow(featureName, repair.create.workflow);
+    }
+    if (repair.status) updateFeatureStatus(featureName, repair.status);
+    if (repair.phase) updateFeaturePhase(featureName, repair.phase);
+    updateFeaturePaths(featureName, repair.paths);
+    for (const { criterion, status, evidence } of repair.addCriteria) {
+      const id = addCriterion(featureName, criterion);
+      if (status !== "pending") updateCriterionStatus(id, status, evidence);
+    }
+    for (const { id, status, evidence } of repair.criterionStatus) {
+      updateCriterionStatus(id, status, evidence);
+    }
+  });
+}
+
+/**
+ * Moves the database (and its WAL files) aside for a rebuild.
+ */
+async function backUpDatabase(projectPath: string): Promise<string | undefined> {
+  const dbPath = getDbPath(projectPath);
+  closeDatabase();
+  if (!existsSync(dbPath)) {
+    return undefined;
+  }
+  const backupPath = `${dbPath}.${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+  await rename(dbPath, backupPath);
+  await rm(`${dbPath}-wal`, { force: true });
+  await rm(`${dbPath}-shm`, { force: true });
+  return backupPath;
+}
+
+// =============================================================================
+// Doctor
+// =============================================================================
+
+/**
+ * Checks that git markers, artifacts and SQLite agree for every feature,
+ * optionally repairing or rebuilding the database from git and the
+ * artifacts.
+ *
+ * 1. Rebuild: moves the database aside and creates an empty one
+ * 2. Repair: settles unfinished phase journals (recoverPhaseJournals)
+ * 3. Collects features from feature directories, markers and SQLite
+ * 4. Diagnoses each feature; with repair, fixes SQLite in one transaction
+ *    per feature
+ *
+ * Without repair the database is only read, and not created if missing.
+ *
+ * @param options - Project, features and repair mode
+ * @returns Per-feature diagnoses and the number of issues left
+ * @throws FeatureIdError if a requested feature is not a valid FeatureId
+ * @throws SchemaVersionError if the database was written by a newer SpecFirst
+ *
+ * @example
+ * ```typescript
+ * const report = await runDoctor({ projectPath, repair: true });
+ * for (const feature of report.features) {
+ *   for (const issue of feature.issues) console.log(feature.featureName, issue.message);
+ * }
+ * if (report.remaining > 0) process.exitCode = 1;
+ * ```
+ */
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorReport> {
+  const projectPath = options.projectPath ?? process.cwd();
+  const repair = options.repair || options.rebuild || false;
+  const report: DoctorReport = { projectPath, features: [], issues: [], remaining: 0 };
+  options.features?.forEach(assertFeatureId);
+
+  if (options.rebuild) {
+    report.backupPath = await backUpDatabase(projectPath);
+  }
+  const hasDatabase = repair || existsSync(getDbPath(projectPath));
+  if (hasDatabase) {
+    initDatabase(projectPath);
+  } else {
+    closeDatabase();
+  }
+
+  // Unfinished phases first, so the diagnosis sees their outcome
+  const journalIssues = new Map<string, DoctorIssue[]>();
+  const addJournalIssue = (featureName: string, issue: DoctorIssue) =>
+    journalIssues.set(featureName, [...(journalIssues.get(featureName) ?? []), issue]);
+  const recoveries = repair ? await recoverPhaseJournals(projectPath) : [];
+  for (const recovery of recoveries.filter(r => r.phase !== "none")) {
+    addJournalIssue(recovery.featureName, {
+      kind: "unfinished-phase",
+      message: `${recovery.phase} phase ${recovery.action}: ${recovery.detail}`,
+      repairable: true,
+      repaired: recovery.action !== "failed",
+    });
+  }
+  const { journals, unreadable } = await readPhaseJournals(projectPath);
+  for (const journal of journals.filter(j => !recoveries.some(r => r.featureName === j.featureName))) {
+    // Recovery leaves the journals of phases still running in another process
+    const by = `process ${journal.pid} on ${journal.host}`;
+    addJournalIssue(journal.featureName, {
+      kind: "unfinished-phase",
+      message: repair
+        ? `${journal.phase} phase is still running in ${by}; check again when it finishes`
+        : `${journal.phase} phase did not finish (started ${journal.startedAt} by ${by})`,
+      repairable: !repair,
+    });
+  }
+  report.issues = unreadable.map(path => ({
+    kind: "unfinished-phase" as const,
+    message: `Unreadable journal ${path}; remove it after checking the feature`,
+    repairable: false,
+  }));
+
+  // Features known to any of the three records
+  const rows = new Map((hasDatabase ? getFeatures() : []).map(row => [row.id, row]));
+  const marked = await getMarkedFeatures(projectPath);
+  const repoStorage = getConfig(projectPath).storage === "repo";
+  const names = new Set([
+    ...rows.keys(),
+    ...marked,
+    ...journalIssues.keys(),
+    ...listFeatureDirectories(projectPath).filter(name => repoStorage || rows.has(name) || marked.includes(name)),
+  ]);
+  const selected = options.features ?? [...names].filter(isValidFeatureId).sort();
+
+  for (const featureName of selected) {
+    const found = await diagnoseFeature(featureName, rows.get(featureName) ?? null, projectPath);
+    const issues = [...(journalIssues.get(featureName) ?? []), ...(found?.diagnosis.issues ?? [])];
+    if (!found && issues.length === 0) continue;
+
+    const diagnosis: FeatureDiagnosis = found
+      ? { ...found.diagnosis, issues }
+      : { featureName, workflow: "", completedPhases: [], expectedPhase: "none", record: null, issues };
+    if (repair && found && found.diagnosis.issues.some(issue => issue.repairable)) {
+      applyRepair(featureName, found.repair);
+      for (const issue of found.diagnosis.issues) {
+        if (issue.repairable) issue.repaired = true;
+      }
+    }
+    report.features.push(diagnosis);
+  }
+
+  report.remaining = [...report.issues, ...report.features.flatMap(f => f.issues)].filter(i => !i.repaired).length;
+  return report;
+}
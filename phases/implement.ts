@@ -8,13 +8,15 @@
  * @version 3.0.0
  */
 
-import { readFile, writeFile } from "fs/promises";
+import { readFile } from "fs/promises";
 import { generateTasks, validateCriterionWordCount } from "../artifacts/tasks";
-import { getArtifactPath, ensureFeatureDirectories } from "../lib/config";
-import { createPhaseCommit } from "../lib/git";
+import { parseTraceList } from "../artifacts/traceability";
+import { getArtifactPath, ensureFeatureDirectories, getConfig, type ValidationSettings } from "../lib/config";
+import { writePhase } from "../lib/journal";
+import { checkFeatureId } from "../lib/feature-id";
 import { artifactGate } from "../gates/artifact";
 import { validateISCFormat, formatValidationResult } from "../gates/isc-format";
-import { initDatabase, getFeature, addFeature, updateFeaturePhase, updateFeaturePaths, addCriterion } from "../lib/database";
+import { initDatabase, getFeature, addFeature } from "../lib/database";
 import type { ISCCriterion, AntiCriterion } from "../artifacts/types";
 
 export interface ImplementInput {
@@ -31,9 +33,83 @@ export interface PhaseResult {
   artifactPath?: string;
   criteriaCount?: number;
   error?: string;
+  /** Gate that stopped the phase */
+  failedGate?: string;
   handoffMessage?: string;  // Message for Algorithm
 }
 
+/**
+ * tasks.md content rendered from ImplementInput, or why it cannot be.
+ */
+export interface RenderResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+}
+
+/**
+ * Renders tasks.md for the input without writing it.
+ * 
+ * Validates that every criterion and anti-criterion has 8-12 words
+ * (Algorithm v1.8.0; configurable) and that the generated content passes
+ * the ISC format gate.
+ * 
+ * @param input - ImplementInput
+ * @param projectPath - Project whose ISC settings and template overrides apply (defaults to cwd)
+ * @returns RenderResult with the tasks.md content
+ */
+export function renderTasks(input: ImplementInput, projectPath?: string): RenderResult {
+  const { featureName, ideal, criteria, antiCriteria, parallelizationOpportunities, implementationNotes } = input;
+  const config = getConfig(projectPath);
+  const range = `${config.iscMinWords}-${config.iscMaxWords}`;
+  const wordCountErrors: string[] = [];
+  
+  for (const c of criteria) {
+    const validation = validateCriterionWordCount(c.criterion, config);
+    if (!validation.valid) {
+      wordCountErrors.push(
+        `Criterion ${c.id}: "${c.criterion}" has ${validation.wordCount} words (expected ${range})`
+      );
+    }
+  }
+  
+  for (const ac of antiCriteria) {
+    const validation = validateCriterionWordCount(ac.criterion, config);
+    if (!validation.valid) {
+      wordCountErrors.push(
+        `Anti-criterion ${ac.id}: "${ac.criterion}" has ${validation.wordCount} words (expected ${range})`
+      );
+    }
+  }
+  
+  if (wordCountErrors.length > 0) {
+    return {
+      success: false,
+      error: `ISC validation failed:\n${wordCountErrors.join("\n")}`,
+    };
+  }
+  
+  const content = generateTasks(
+    featureName,
+    ideal,
+    criteria,
+    antiCriteria,
+    parallelizationOpportunities,
+    implementationNotes,
+    { projectPath }
+  );
+  
+  const formatValidation = validateISCFormat(content, config);
+  if (!formatValidation.passed) {
+    return {
+      success: false,
+      error: `Generated tasks.md failed ISC validation:\n${formatValidationResult(formatValidation)}`,
+    };
+  }
+  
+  return { success: true, content };
+}
+
 /**
  * Executes the Implement phase.
  * 
@@ -45,14 +121,19 @@ export interface PhaseResult {
  * 5. Write to file
  * 6. Create git commit
  * 7. Return handoff message for Algorithm
+ * 
+ * @param input - ImplementInput with the ISC criteria
+ * @param projectPath - Project to write into (defaults to cwd)
+ * @returns PhaseResult with the tasks.md path and handoff message
  */
-export async function implementPhase(input: ImplementInput): Promise<PhaseResult> {
-  const { featureName, ideal, criteria, antiCriteria, parallelizationOpportunities, implementationNotes } = input;
+export async function implementPhase(input: ImplementInput, projectPath: string = process.cwd()): Promise<PhaseResult> {
+  const { featureName, ideal, criteria } = input;
+  const invalid = checkFeatureId(featureName);
+  if (invalid) return { success: false, error: invalid };
   
   try {
     // Step 1: Initialize database
     console.log("💾 Initializing database...");
-    const projectPath = process.cwd();
     initDatabase(projectPath);
     
     // Step 2: Get or create feature
@@ -68,95 +149,43 @@ export async function implementPhase(input: ImplementInput): Promise<PhaseResult
     
     // Step 3: Run artifact gate
     console.log("🔍 Running artifact gate...");
-    const gateResult = await artifactGate("implement", featureName);
+    const gateResult = await artifactGate("implement", featureName, undefined, projectPath);
     
     if (!gateResult.passed) {
       return {
         success: false,
+        failedGate: "artifact",
         error: gateResult.error,
       };
     }
     
-    // Step 4: Validate all criteria are 8-12 words (Algorithm v1.8.0)
-    console.log("🔍 Validating criterion word counts (8-12 words)...");
-    const wordCountErrors: string[] = [];
-    
-    for (const c of criteria) {
-      const validation = validateCriterionWordCount(c.criterion);
-      if (!validation.valid) {
-        wordCountErrors.push(
-          `Criterion ${c.id}: "${c.criterion}" has ${validation.wordCount} words (expected 8-12)`
-        );
-      }
-    }
-    
-    for (const ac of antiCriteria) {
-      const validation = validateCriterionWordCount(ac.criterion);
-      if (!validation.valid) {
-        wordCountErrors.push(
-          `Anti-criterion ${ac.id}: "${ac.criterion}" has ${validation.wordCount} words (expected 8-12)`
-        );
-      }
-    }
-    
-    if (wordCountErrors.length > 0) {
-      return {
-        success: false,
-        error: `ISC validation failed:\n${wordCountErrors.join("\n")}`,
-      };
-    }
-    
-    // Step 5: Generate tasks.md content
+    // Steps 4-6: Validate word counts, generate tasks.md and validate ISC format
     console.log("📝 Generating tasks.md...");
-    const tasksContent = generateTasks(
-      featureName,
-      ideal,
-      criteria,
-      antiCriteria,
-      parallelizationOpportunities,
-      implementationNotes
-    );
-    
-    // Step 6: Validate ISC format
-    console.log("🔍 Validating ISC format...");
-    const formatValidation = validateISCFormat(tasksContent);
-    
-    if (!formatValidation.passed) {
-      const errorReport = formatValidationResult(formatValidation);
-      return {
-        success: false,
-        error: `Generated tasks.md failed ISC validation:\n${errorReport}`,
-      };
+    const rendered = renderTasks(input, projectPath);
+    if (!rendered.success) {
+      return { success: false, error: rendered.error };
     }
+    const tasksContent = rendered.content!;
     
-    // Step 7: Write to file
-    const tasksPath = getArtifactPath(featureName, "tasks");
-    await ensureFeatureDirectories(featureName);
-    await writeFile(tasksPath, tasksContent, "utf-8");
+    // Steps 7-10: Write to file, store ISC criteria, update SQLite (phase
+    // and paths) and create the git commit, journaled so an interrupted run
+    // is completed on the next start
+    const tasksPath = getArtifactPath(featureName, "tasks", projectPath);
+    await ensureFeatureDirectories(featureName, projectPath);
+    const { commit: commitResult } = await writePhase({
+      featureName,
+      phase: "implement",
+      artifactPath: tasksPath,
+      content: tasksContent,
+      database: { phase: "implement", paths: { tasksPath }, criteria: criteria.map(c => c.criterion) },
+    }, projectPath);
     
     console.log(`✅ Created: ${tasksPath}`);
-    
-    // Step 8: Store ISC criteria in database
-    console.log("💾 Storing ISC criteria in database...");
-    for (const c of criteria) {
-      addCriterion(featureName, c.criterion);
-    }
     console.log(`✅ Stored ${criteria.length} criteria in database`);
     
-    // Step 9: Update SQLite: phase and paths
-    console.log("💾 Updating database state...");
-    updateFeaturePhase(featureName, "implement");
-    updateFeaturePaths(featureName, {
-      tasksPath: tasksPath,
-    });
-    
-    // Step 10: Create git commit (artifact only)
-    console.log("📦 Creating git commit...");
-    const commitResult = await createPhaseCommit("implement", featureName, tasksPath);
-    
     if (!commitResult.success) {
       console.warn(`⚠️  Git commit failed: ${commitResult.stderr}`);
-      console.warn("Continuing without commit...");
+      console.warn("Continuing without commit; it is retried on the next run...");
     } else {
       console.log(`✅ Committed: ${commitResult.stdout}`);
     }
@@ -182,15 +211,18 @@ export async function implementPhase(input: ImplementInput): Promise<PhaseResult
 /**
  * Extracts ISC criteria from plan.md.
  * 
- * Reads the implementation phases and converts each step into an 8-word criterion.
+ * Reads the implementation phases and converts each step into a criterion
+ * within the project's configured word range.
  * This is a helper for when you have a plan.md but need to generate ISC criteria.
  * 
  * @param featureName - Feature name
+ * @param projectPath - Project whose artifacts to read (defaults to cwd)
  * @returns ImplementInput with extracted criteria
  */
-export async function extractCriteriaFromPlan(featureName: string): Promise<ImplementInput> {
-  const planPath = getArtifactPath(featureName, "plan");
+export async function extractCriteriaFromPlan(featureName: string, projectPath?: string): Promise<ImplementInput> {
+  const planPath = getArtifactPath(featureName, "plan", projectPath);
   const planContent = await readFile(planPath, "utf-8");
+  const settings = getConfig(projectPath);
   
   // Parse plan.md to extract phases and deliverables
   const criteria: ISCCriterion[] = [];
@@ -199,6 +231,7 @@ export async function extractCriteriaFromPlan(featureName: string): Promise<Impl
   
   const lines = planContent.split("\n");
   let currentPhase: string | null = null;
+  let currentTraces: string[] = [];
   let criterionId = 1;
   let antiCriterionId = 1;
   let inPhaseSection = false;
@@ -210,6 +243,7 @@ export async function extractCriteriaFromPlan(featureName: string): Promise<Impl
     // Track sections
     if (line.startsWith("### Phase")) {
       currentPhase = line.replace("### Phase", "").split(":")[1]?.trim() || null;
+      currentTraces = [];
       inPhaseSection = true;
       inRiskSection = false;
       continue;
@@ -226,6 +260,12 @@ export async function extractCriteriaFromPlan(featureName: string): Promise<Impl
       inRiskSection = false;
     }
     
+    // Criteria inherit the spec IDs their plan phase traces
+    if (inPhaseSection && line.startsWith("**Traces:**")) {
+      currentTraces = parseTraceList(line.replace("**Traces:**", ""));
+      continue;
+    }
+    
     // Extract acceptance criteria as ISC criteria
     if (inPhaseSection && line.startsWith("- ") && i > 0) {
       const prevLine = lines[i - 1].trim();
@@ -233,21 +273,22 @@ export async function extractCriteriaFromPlan(featureName: string): Promise<Impl
       if (prevLine === "**Acceptance Criteria:**") {
         const rawCriterion = line.substring(2).trim();
         
-        // Convert to 8-word format (this is a simplification - real implementation may need refinement)
-        const criterion = convertTo8Words(rawCriterion);
+        // Fit the word range (this is a simplification - real implementation may need refinement)
+        const criterion = convertToWordRange(rawCriterion, settings);
         
         criteria.push({
           id: criterionId++,
           criterion,
           status: "⬜",
           phase: currentPhase || undefined,
+          ...(currentTraces.length > 0 ? { traces: [...currentTraces] } : {}),
         });
       }
       
       // Extract risks as anti-criteria
       if (prevLine === "**Risks:**" && !line.includes("None identified")) {
         const rawAntiCriterion = line.substring(2).trim();
-        const antiCriterion = convertTo8Words(`No ${rawAntiCriterion.toLowerCase()}`);
+        const antiCriterion = convertToWordRange(`No ${rawAntiCriterion.toLowerCase()}`, settings);
         
         antiCriteria.push({
           id: `A${antiCriterionId++}`,
@@ -274,15 +315,20 @@ export async function extractCriteriaFromPlan(featureName: string): Promise<Impl
 }
 
 /**
- * Converts a criterion to 8-12 words (Algorithm v1.8.0).
+ * Converts a criterion to 8-12 words (Algorithm v1.8.0), or the configured
+ * criteria.minWords/maxWords range.
  * 
  * This is a helper that attempts to intelligently truncate or expand
- * a criterion to meet the 8-12 word requirement.
+ * a criterion to meet the word range.
  * 
  * @param text - Original criterion text
- * @returns 8-12 word criterion
+ * @param settings - Word range (default: getConfig())
+ * @returns Criterion within the word range
  */
-function convertTo8Words(text: string): string {
+function convertToWordRange(
+  text: string,
+  settings: Pick<ValidationSettings, "iscMinWords" | "iscMaxWords"> = getConfig()
+): string {
   // Clean the text
   const cleaned = text
     .replace(/\*\*([^*]+)\*\*/g, "$1") // Remove bold
@@ -290,27 +336,27 @@ function convertTo8Words(text: string): string {
     .replace(/`([^`]+)`/g, "$1")       // Remove code
     .trim();
   
-  const words = cleaned.split(/\s+/);
+  const words = cleaned.split(/\s+/).filter(w => w.length > 0);
+  const { iscMinWords: min, iscMaxWords: max } = settings;
   
-  // Already in valid range (8-12 words)
-  if (words.length >= 8 && words.length <= 12) {
+  // Already in valid range
+  if (words.length >= min && words.length <= max) {
     return cleaned;
   }
   
-  if (words.length > 12) {
-    // Truncate to 12 words
-    return words.slice(0, 12).join(" ");
+  if (words.length > max) {
+    return words.slice(0, max).join(" ");
   }
   
-  // If less than 8 words, pad with context
+  // If too short, pad with context (repeating the padding for wide ranges)
   // This is a fallback - ideally criteria should be manually refined
-  const padding = ["completed", "successfully", "verified", "documented", "tested", "deployed"];
+  const padding = ["completed", "successfully", "verified", "documented", "tested", "reviewed", "approved", "deployed"];
   
-  while (words.length < 8 && padding.length > 0) {
-    words.push(padding.shift()!);
+  for (let i = 0; words.length < min; i++) {
+    words.push(padding[i % padding.length]);
   }
   
-  return words.slice(0, 12).join(" ");
+  return words.join(" ");
 }
 
 /**
@@ -353,7 +399,7 @@ export async function selfTest(): Promise<void> {
   // Test 2: Convert to 8 words
   console.log("Test 2: Convert to 8 words");
   const short = "API works";
-  const converted = convertTo8Words(short);
+  const converted = convertToWordRange(short);
   const convertedWords = converted.split(/\s+/);
   console.assert(convertedWords.length === 8, `Should convert to 8 words, got ${convertedWords.length}`);
   console.log(`  "${short}" → "${converted}"`);
@@ -443,6 +489,6 @@ if (import.meta.main) {
 
 // Export for testing
 export const __testing = {
-  convertTo8Words,
+  convertToWordRange,
   buildHandoffMessage,
 };
@@ -0,0 +1,364 @@
+/**
+ * Phase Input Providers - SpecFirst 4.0
+ *
+ * Derives the input of a phase from the artifacts of the phases before it,
+ * so a resumed feature can run its next phase without the agent that
+ * started it (Stateless Phase Execution):
+ *
+ * - specify:   draft SpecifyInput from proposal.md
+ * - plan:      draft PlanInput from spec.md
+ * - implement: ImplementInput from plan.md (extractCriteriaFromPlan)
+ * - release:   ReleaseInput from the database and git history
+ *
+ * Derived content is a draft. Text that was inferred rather than copied
+ * starts with `[inferred]`, derived ISC criteria carry the `[I]` confidence
+ * tag, and the result lists the inferred fields so callers can point the
+ * user at them. Propose and review phases record human judgement and
+ * always need explicit input.
+ *
+ * @module phases/input-providers
+ * @version 4.0.0
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join, dirname } from "path";
+import { parseProposal } from "../artifacts/proposal";
+import { parseSpec } from "../artifacts/spec";
+import { ArtifactParseError } from "../artifacts/markdown";
+import type { FunctionalRequirement, AntiCriterion } from "../artifacts/types";
+import { getArtifactPath } from "../lib/config";
+import { getFeatureCommits } from "../lib/git";
+import { initDatabase, getCriteria } from "../lib/database";
+import type { PhaseHandler } from "../lib/workflow";
+import { extractCriteriaFromPlan } from "./implement";
+import type { SpecifyInput } from "./specify";
+import type { PlanInput } from "./plan";
+import type { ReleaseInput } from "./release";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Prefix of text that was inferred rather than copied from an artifact */
+export const INFERRED_MARKER = "[inferred]";
+
+/** Version used for a feature's first release */
+export const FIRST_RELEASE_VERSION = "1.0.0";
+
+export interface ProviderContext {
+  featureName: string;
+  /** Project whose artifacts, database and git history are read */
+  projectPath: string;
+  /** Non-interactive run (auto-approves the release Doctorow gate) */
+  batch?: boolean;
+}
+
+/** Input derived for one phase */
+export interface DerivedInput {
+  input: Record<string, unknown>;
+  /** Artifact or state the input was derived from */
+  source: string;
+  /** Top-level fields whose content was inferred, for review */
+  inferred: string[];
+}
+
+export type InputProvider = (context: ProviderContext) => Promise<DerivedInput>;
+
+/**
+ * Thrown when a phase's input cannot be derived.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await derivePhaseInput("plan", { featureName: "user-auth", projectPath });
+ * } catch (error) {
+ *   if (error instanceof InputDerivationError) console.error(error.errors.join("\n"));
+ * }
+ * ```
+ */
+export class InputDerivationError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = []
+  ) {
+    super(message);
+    this.name = "InputDerivationError";
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function inferred(text: string): string {
+  return `${INFERRED_MARKER} ${text}`;
+}
+
+function stripMarker(text: string): string {
+  return text.startsWith(INFERRED_MARKER) ? text.slice(INFERRED_MARKER.length).trim() : text;
+}
+
+/**
+ * Collapses text to its first sentence on one line, so it fits a table cell.
+ */
+function summarize(text: string): string {
+  const line = text.replace(/\s+/g, " ").replace(/\|/g, "/").trim();
+  const sentence = line.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? line;
+  return sentence.replace(/[.!?]$/, "");
+}
+
+/**
+ * Reads an artifact of an earlier phase.
+ *
+ * @throws InputDerivationError if the artifact does not exist
+ */
+async function readArtifact(
+  handler: PhaseHandler,
+  context: ProviderContext,
+  type: "proposal" | "spec" | "plan"
+): Promise<string> {
+  const path = getArtifactPath(context.featureName, type, context.projectPath);
+  if (!existsSync(path)) {
+    throw new InputDerivationError(`Cannot derive ${handler} input: ${type}.md not found at ${path}`);
+  }
+  return readFile(path, "utf-8");
+}
+
+/**
+ * Parses an artifact, turning parse errors into derivation errors.
+ */
+function parseArtifact<T>(handler: PhaseHandler, parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof ArtifactParseError) {
+      throw new InputDerivationError(
+        `Cannot derive ${handler} input: ${error.message}`,
+        error.errors.map(e => `${error.artifact}${e.line ? `:${e.line}` : ""}: ${e.message}`)
+      );
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+/**
+ * Drafts a spec from proposal.md: the recommended approach becomes the one
+ * functional requirement, the problem statement the user story and success
+ * criterion, and each anti-pattern a non-functional requirement.
+ */
+async function provideSpecifyInput(context: ProviderContext): Promise<DerivedInput> {
+  const content = await readArtifact("specify", context, "proposal");
+  const proposal = parseArtifact("specify", () => parseProposal(content));
+  const problem = summarize(proposal.problemStatement);
+  const approach = summarize(proposal.recommendedApproach);
+
+  const input: SpecifyInput = {
+    featureName: context.featureName,
+    functionalRequirements: [{
+      id: "FR-001",
+      description: inferred(approach),
+      priority: "must",
+      verificationMethod: inferred("Review against proposal.md"),
+    }],
+    nonFunctionalRequirements: proposal.antiPatterns.map((antiPattern, i) => ({
+      id: `NFR-${String(i + 1).padStart(3, "0")}`,
+      description: inferred(`Avoid: ${summarize(antiPattern)}`),
+      metric: "Occurrences in review",
+      target: "0",
+    })),
+    userStories: [{
+      id: "US-001",
+      title: inferred(context.featureName),
+      given: problem,
+      when: `${context.featureName} is delivered`,
+      then: approach,
+    }],
+    successCriteria: [{
+      id: "SC-001",
+      description: inferred(`Resolved: ${problem}`),
+      verificationMethod: inferred("Review against proposal.md"),
+    }],
+  };
+
+  return {
+    input: { ...input },
+    source: "proposal.md",
+    inferred: ["functionalRequirements", "nonFunctionalRequirements", "userStories", "successCriteria"],
+  };
+}
+
+/**
+ * Drafts a plan from spec.md: one implementation phase for the must-have
+ * requirements and one for the should/could requirements, each tracing the
+ * requirements it delivers.
+ */
+async function providePlanInput(context: ProviderContext): Promise<DerivedInput> {
+  const content = await readArtifact("plan", context, "spec");
+  const spec = parseArtifact("plan", () => parseSpec(content));
+
+  const groups: Array<{ name: string; requirements: FunctionalRequirement[] }> = [
+    { name: "Core", requirements: spec.functionalRequirements.filter(fr => fr.priority === "must") },
+    { name: "Enhancements", requirements: spec.functionalRequirements.filter(fr => fr.priority === "should" || fr.priority === "could") },
+  ].filter(group => group.requirements.length > 0);
+
+  if (groups.length === 0) {
+    throw new InputDerivationError(
+      `Cannot derive plan input: spec.md has no functional requirements to plan`,
+      ["spec.md: needs at least one must, should or could requirement"]
+    );
+  }
+
+  const storyIds = spec.userStories.map(us => us.id);
+  const ids = (items: Array<{ id: string }>) => items.map(item => item.id).join(", ");
+
+  const input: PlanInput = {
+    featureName: context.featureName,
+    executiveSummary: inferred(
+      `Deliver ${context.featureName} as specified: ${spec.functionalRequirements.map(fr => stripMarker(fr.description)).join("; ")}`
+    ),
+    adrs: [],
+    implementationPhases: groups.map((group, i) => ({
+      number: i + 1,
+      name: group.name,
+      objective: inferred(`Deliver ${ids(group.requirements)}`),
+      deliverables: group.requirements.map(fr => `${fr.id}: ${stripMarker(fr.description)}`),
+      acceptanceCriteria: group.requirements.map(fr => stripMarker(fr.description)),
+      estimatedEffort: inferred("To be estimated"),
+      dependencies: i === 0 ? [] : [`Phase ${i}`],
+      risks: [inferred("None identified")],
+      traces: [...group.requirements.map(fr => fr.id), ...(i === 0 ? storyIds : [])],
+    })),
+    testingStrategy: {
+      unitTests: inferred(`Verify ${ids(spec.functionalRequirements)}`),
+      integrationTests: inferred(storyIds.length > 0 ? `Cover ${storyIds.join(", ")}` : "Not planned"),
+      e2eTests: inferred(storyIds.length > 0 ? `Walk through ${storyIds.join(", ")}` : "Not planned"),
+      performanceTests: inferred(
+        spec.nonFunctionalRequirements.length > 0 ? `Check ${ids(spec.nonFunctionalRequirements)}` : "Not planned"
+      ),
+      coverageTarget: inferred("80%"),
+    },
+    risks: [],
+    dependencies: [],
+    rollbackProcedures: inferred(`Revert the ${context.featureName} implementation commits`),
+  };
+
+  return {
+    input: { ...input },
+    source: "spec.md",
+    inferred: ["executiveSummary", "implementationPhases", "testingStrategy", "rollbackProcedures"],
+  };
+}
+
+/**
+ * Anti-criterion used when plan.md names no risks; tasks.md needs at least one.
+ */
+const FALLBACK_ANTI_CRITERION: AntiCriterion = {
+  id: "A1",
+  criterion: "No previously passing tests fail after these changes are merged",
+  status: "👀",
+};
+
+/**
+ * Extracts ISC criteria from plan.md and tags them as inferred. Criteria are
+ * fitted to the project's word range, so a short acceptance criterion comes
+ * back padded and needs review before its `[I]` tag is dropped.
+ */
+async function provideImplementInput(context: ProviderContext): Promise<DerivedInput> {
+  await readArtifact("implement", context, "plan");
+  const input = await extractCriteriaFromPlan(context.featureName, context.projectPath);
+  const antiCriteria = input.antiCriteria.length > 0 ? input.antiCriteria : [FALLBACK_ANTI_CRITERION];
+
+  return {
+    input: {
+      ...input,
+      criteria: input.criteria.map(criterion => ({ ...criterion, confidence: "I" })),
+      antiCriteria: antiCriteria.map(antiCriterion => ({ ...antiCriterion, confidence: "I" })),
+    },
+    source: "plan.md",
+    inferred: ["criteria", "antiCriteria"],
+  };
+}
+
+/**
+ * Builds release input from state: the next minor version after a previous
+ * RELEASE.md (or 1.0.0), today's date and a note summarizing the phase
+ * commits and verified criteria.
+ */
+async function provideReleaseInput(context: ProviderContext): Promise<DerivedInput> {
+  const tasksPath = getArtifactPath(context.featureName, "tasks", context.projectPath);
+  const releasePath = join(dirname(tasksPath), "RELEASE.md");
+  const previous = existsSync(releasePath)
+    ? (await readFile(releasePath, "utf-8")).match(/Release Notes v(\d+)\.(\d+)\.\d+/)
+    : null;
+  const version = previous ? `${previous[1]}.${Number(previous[2]) + 1}.0` : FIRST_RELEASE_VERSION;
+
+  initDatabase(context.projectPath);
+  const criteria = getCriteria(context.featureName);
+  const verified = criteria.filter(c => c.status === "verified").length;
+  const commits = await getFeatureCommits(context.featureName, context.projectPath);
+
+  const input: ReleaseInput = {
+    featureName: context.featureName,
+    version,
+    releaseDate: new Date().toISOString().split("T")[0],
+    additionalNotes: inferred(
+      `Released on resume after ${commits.length} phase commits; ${verified}/${criteria.length} tracked criteria verified.`
+    ),
+    ...(context.batch ? { batchMode: true } : {}),
+  };
+
+  return {
+    input: { ...input },
+    source: previous ? "RELEASE.md, database and git history" : "database and git history",
+    inferred: ["version", "additionalNotes"],
+  };
+}
+
+/** Providers by phase handler; propose and review have none */
+export const INPUT_PROVIDERS: Partial<Record<PhaseHandler, InputProvider>> = {
+  specify: provideSpecifyInput,
+  plan: providePlanInput,
+  implement: provideImplementInput,
+  release: provideReleaseInput,
+};
+
+// =============================================================================
+// Derivation
+// =============================================================================
+
+/**
+ * Derives the input for a phase from the feature's earlier artifacts.
+ *
+ * @param handler - Phase handler to derive input for
+ * @param context - Feature, project and run mode
+ * @returns DerivedInput with the input and the fields that were inferred
+ * @throws InputDerivationError if the phase has no provider or its source artifact is missing or unparseable
+ *
+ * @example
+ * ```typescript
+ * const { input, inferred } = await derivePhaseInput("plan", { featureName: "user-auth", projectPath });
+ * console.log(`Review before approving: ${inferred.join(", ")}`);
+ * await executePhase("plan", "user-auth", input, { projectPath });
+ * ```
+ */
+export async function derivePhaseInput(handler: PhaseHandler, context: ProviderContext): Promise<DerivedInput> {
+  const provider = INPUT_PROVIDERS[handler];
+  if (!provider) {
+    throw new InputDerivationError(
+      `Cannot derive ${handler} input: this phase records decisions and needs explicit input`,
+      [`input: required for ${handler} phases`]
+    );
+  }
+  return provider(context);
+}
+
+// Export for testing
+export const __testing = {
+  summarize,
+  stripMarker,
+};
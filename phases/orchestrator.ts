@@ -8,34 +8,100 @@
  * - ISC #33: Routes requests to correct phase function
  * - ISC #34: Enforces gate checks before phase execution
  * 
- * Gate Execution Order:
+ * Phases, their gates and required artifacts come from the feature's
+ * workflow (lib/workflow), assigned when the feature is created. Gate
+ * execution order in the default workflow:
  * - propose:   prerequisite → proposePhase()
  * - specify:   prerequisite → artifact(proposal) → specifyPhase()
  * - plan:      prerequisite → artifact(spec) → planPhase()
- * - implement: prerequisite → artifact(plan) → implementPhase()
- * - release:   prerequisite → artifact(tasks) → isc-format → releasePhase()
+ * - implement: prerequisite → artifact(plan) → traceability → implementPhase()
+ * - release:   prerequisite → artifact(tasks) → isc-format → traceability → releasePhase()
+ * 
+ * Custom workflow phases that are not built-in phases run reviewPhase().
+ * 
+ * With `dryRun: true`, executePhase() runs the gates and renders the
+ * artifact but writes nothing; the result's `preview` holds the content, a
+ * diff, the planned SQLite changes and the commit message (phases/preview).
+ * 
+ * Phases write their artifact, SQLite state and marker commit under a
+ * journal (lib/journal). executePhase() and resumeFeature() first complete
+ * or roll back phases an earlier run left unfinished and report them in
+ * `recovered`.
+ * 
+ * resumeWorkflow() and resumeFeature() derive the next phase's input from
+ * earlier artifacts (phases/input-providers) and report the inferred fields.
+ * 
+ * reopenPhase() moves a feature back to an earlier phase by committing a
+ * "phase reopened" marker that supersedes later completion commits.
+ * 
+ * Gate runs are recorded in the event log (lib/database); getFeatureHistory()
+ * reads a feature's timeline from it.
+ * 
+ * renameFeature() changes a feature's ID (lib/feature-id), moving its
+ * artifacts and committing a rename marker so completed phases carry over.
  * 
  * @module phases/orchestrator
  * @version 3.0.0
  */
 
-import { proposePhase } from "./propose";
-import { specifyPhase } from "./specify";
-import { planPhase } from "./plan";
-import { implementPhase } from "./implement";
-import { releasePhase } from "./release";
+import { proposePhase, type ProposeInput } from "./propose";
+import { specifyPhase, type SpecifyInput } from "./specify";
+import { planPhase, type PlanInput } from "./plan";
+import { implementPhase, type ImplementInput } from "./implement";
+import { releasePhase, type ReleaseInput } from "./release";
+import { reviewPhase, getReviewPath, type ReviewInput } from "./review";
 import { prerequisiteGate } from "../gates/prerequisite";
 import { artifactGate } from "../gates/artifact";
 import { validateISCFormat } from "../gates/isc-format";
-import { isPhaseComplete } from "../lib/git";
-import { getArtifactPath } from "../lib/config";
+import { traceabilityGate } from "../gates/traceability";
+import { isPhaseComplete, createReopenCommit, createRenameCommit, createStorageCommit } from "../lib/git";
+import {
+  getArtifactPath,
+  getConfig,
+  getDefaultArtifactRoot,
+  createFeaturePaths,
+  STORAGE_MODES,
+  type SpecFirstConfig,
+  type StorageLayout,
+  type StorageMode,
+} from "../lib/config";
+import { checkFeatureId } from "../lib/feature-id";
+import { validatePhaseInput } from "../lib/input-schema";
+import { derivePhaseInput, InputDerivationError, type DerivedInput } from "./input-providers";
+import { previewPhase, type PhasePreview } from "./preview";
+import { recoverPhaseJournals, type JournalRecovery } from "../lib/journal";
+import { getReleasePath } from "./release";
 import { existsSync } from "fs";
-import { readFile } from "fs/promises";
+import { readFile, writeFile, readdir, rename, mkdir, copyFile } from "fs/promises";
+import { dirname, join } from "path";
+import { parseFrontmatter, setFrontmatterFields } from "../artifacts/frontmatter";
 import { detectEffortFromFlags, type EffortFlags } from "../algorithm/effort-detector";
+import type { AlgorithmPhase } from "../algorithm/phase-integration";
+import {
+  DEFAULT_WORKFLOW,
+  DEFAULT_WORKFLOW_NAME,
+  WorkflowError,
+  resolveFeatureWorkflow,
+  getWorkflowPhase,
+  getNextWorkflowPhase,
+  getPhaseNames,
+  type WorkflowDefinition,
+  type WorkflowPhase,
+} from "../lib/workflow";
 import { 
   initDatabase, 
+  closeDatabase,
+  getDbPath,
   getFeature, 
   getFeatures,
+  addFeature,
+  setFeatureWorkflow,
+  updateFeaturePhase,
+  updateFeatureStatus,
+  renameFeatureRecord,
+  updateFeaturePaths,
+  getFeatureQueue,
+  getFeatureDependencyEdges,
   createSession, 
   getSession,
   getCurrentSession,
@@ -43,8 +109,13 @@ import {
   releaseFeature,
   endSession,
   type Feature,
+  type FeatureDependency,
   getStats,
-  type FeatureStats 
+  recordGateRun,
+  getFeatureTimeline,
+  type FeatureStats,
+  type FeaturePhase,
+  type WorkflowEvent
 } from "../lib/database";
 
 export type Phase = "none" | "propose" | "specify" | "plan" | "implement" | "release";
@@ -56,62 +127,116 @@ export interface OrchestratorOptions {
   thorough?: boolean;
   /** Project path for database initialization */
   projectPath?: string;
+  /** Workflow to assign when the feature is created (default: the feature's workflow) */
+  workflow?: string;
+  /** Run gates and render the artifact without writing files, SQLite or git */
+  dryRun?: boolean;
+}
+
+export interface WorkflowStatusOptions {
+  /** Project path for git and workflow lookup (defaults to cwd) */
+  projectPath?: string;
+  /** Workflow to check against (default: the feature's assigned workflow) */
+  workflow?: string;
+}
+
+export interface ReopenOptions {
+  /** Project path for database and git (defaults to cwd) */
+  projectPath?: string;
+  /** Why the phase is reopened; recorded in the marker commit */
+  reason?: string;
+}
+
+export interface ReopenResult {
+  success: boolean;
+  phase: FeaturePhase;
+  /** Downstream artifacts whose frontmatter was set to status: review */
+  staleArtifacts: string[];
+  error?: string;
+  message?: string;
+}
+
+export interface RenameOptions {
+  /** Project path for database and git (defaults to cwd) */
+  projectPath?: string;
+  /** New display title (default: keep the current title) */
+  title?: string;
+}
+
+export interface RenameResult {
+  success: boolean;
+  featureName: string;
+  /** Directories moved to the new name */
+  movedPaths: string[];
+  /** Artifacts whose frontmatter `feature:` field was rewritten */
+  updatedArtifacts: string[];
+  error?: string;
+  message?: string;
+}
+
+export interface MigrateStorageOptions {
+  /** Project path for configuration, database and git (defaults to cwd) */
+  projectPath?: string;
+  /** Storage mode to move artifacts out of (default: the mode not configured) */
+  from?: StorageMode;
+  /** Features to move (default: every feature in the database) */
+  features?: string[];
+}
+
+export interface MigrateStorageResult {
+  success: boolean;
+  /** Storage mode artifacts were moved to (the configured mode) */
+  storage: StorageMode;
+  /** Features whose artifacts were moved */
+  migrated: { featureName: string; from: string; to: string }[];
+  /** Features without artifacts in the old location */
+  skipped: string[];
+  error?: string;
+  message?: string;
 }
 
 export interface OrchestratorResult {
   success: boolean;
-  phase: Phase;
+  phase: FeaturePhase;
   gatesPassed: string[];
   artifactPath?: string;
   error?: string;
-  nextPhase?: Phase;
+  /** Gate that stopped the phase: failed, threw or timed out */
+  failedGate?: string;
+  nextPhase?: FeaturePhase;
+  /** Algorithm phase the executed phase runs in */
+  algorithmPhase?: AlgorithmPhase;
   /** v3.1: Detected effort level */
   effortLevel?: string;
   /** v3.2: Status message for user display */
   message?: string;
+  /** Input schema violations, one `path: message` per problem */
+  inputErrors?: string[];
+  /** Artifact or state a resumed phase's input was derived from */
+  derivedFrom?: string;
+  /** Input fields a resumed phase inferred; review them in the artifact */
+  inferred?: string[];
+  /** Dry runs: what the phase would write */
+  preview?: PhasePreview;
+  /** Unfinished phases of earlier runs this run completed or rolled back */
+  recovered?: JournalRecovery[];
 }
 
-/**
- * Gate requirements per phase.
- * Each phase requires specific gates to pass before execution.
- */
-const PHASE_GATES: Record<Phase, string[]> = {
-  propose: ["prerequisite"],
-  specify: ["prerequisite", "artifact"],
-  plan: ["prerequisite", "artifact"],
-  implement: ["prerequisite", "artifact"],
-  release: ["prerequisite", "artifact", "isc-format"],
-};
-
-/**
- * Phase sequence for next phase suggestion.
- * Defines the linear progression through SpecFirst workflow.
- */
-const PHASE_SEQUENCE: Phase[] = ["propose", "specify", "plan", "implement", "release"];
-
-/**
- * Maps phases to their required artifact dependencies.
- * Used by artifact gate to determine what must exist.
- */
-const PHASE_ARTIFACT_DEPS: Record<Phase, Phase | null> = {
-  propose: null, // No artifact dependency
-  specify: "propose", // Needs proposal.md
-  plan: "specify", // Needs spec.md
-  implement: "plan", // Needs plan.md
-  release: "implement", // Needs tasks.md
-};
-
 /**
  * Executes a phase with full gate validation.
  * 
  * This is the main entry point for phase execution. It:
- * 1. Validates the phase name
+ * 0. Completes or rolls back phases an earlier run left unfinished
+ *    (lib/journal; reported in `recovered`, skipped for dry runs). A
+ *    journal of this feature that cannot be settled stops the phase, so
+ *    its missing marker is not lost
+ * 1. Resolves the feature's workflow and validates the phase name
  * 2. Detects effort level from flags (v3.1)
  * 3. Runs all required gates for the phase
  * 4. Routes to the correct phase function
  * 5. Returns result with next phase suggestion
  * 
- * @param phase - Phase to execute (propose, specify, plan, implement, release)
+ * @param phase - Phase to execute (a phase of the feature's workflow)
  * @param featureName - Feature name
  * @param input - Phase-specific input data
  * @param options - Execution options (v3.1: includes --quick, --batch, --thorough flags)
@@ -128,6 +253,9 @@ const PHASE_ARTIFACT_DEPS: Record<Phase, Phase | null> = {
  * // Batch mode (non-interactive, for Cedars)
  * const batchResult = await executePhase("propose", "user-auth", inputData, { batch: true });
  * 
+ * // Start a feature on a custom workflow
+ * const fixResult = await executePhase("specify", "login-fix", specInput, { workflow: "bugfix" });
+ * 
  * if (result.success) {
  *   console.log(`Phase complete. Next: ${result.nextPhase}`);
  *   console.log(`Effort level: ${result.effortLevel}`);
@@ -135,7 +263,7 @@ const PHASE_ARTIFACT_DEPS: Record<Phase, Phase | null> = {
  * ```
  */
 export async function executePhase(
-  phase: Phase,
+  phase: FeaturePhase,
   featureName: string,
   input?: unknown,
   options?: OrchestratorOptions
@@ -143,8 +271,47 @@ export async function executePhase(
   const projectPath = options?.projectPath || process.cwd();
   const gatesPassed: string[] = [];
   
-  // Initialize database (idempotent)
-  initDatabase(projectPath);
+  const invalid = checkFeatureId(featureName);
+  if (invalid) {
+    return { success: false, phase, gatesPassed, error: invalid };
+  }
+  
+  // Initialize database (idempotent); a dry run never creates one
+  if (!options?.dryRun || existsSync(getDbPath(projectPath))) {
+    initDatabase(projectPath);
+  } else {
+    closeDatabase();
+  }
+  
+  // Complete or roll back phases an earlier run left unfinished
+  const recovered = options?.dryRun ? [] : await recoverPhaseJournals(projectPath);
+  const unsettled = recovered.find(r => r.featureName === featureName && r.action === "failed");
+  if (unsettled) {
+    return {
+      success: false,
+      phase,
+      gatesPassed,
+      error: `Cannot run ${phase}: the unfinished ${unsettled.phase} phase of ${featureName} could not be completed: ${unsettled.detail}`,
+      recovered,
+    };
+  }
+  
+  const result = await runPhase(phase, featureName, input, options, projectPath);
+  return recovered.length > 0 ? { ...result, recovered } : result;
+}
+
+/**
+ * Runs a phase once the database is open: resolves the workflow, validates
+ * the input, runs the gates and routes to the handler (see executePhase).
+ */
+async function runPhase(
+  phase: FeaturePhase,
+  featureName: string,
+  input: unknown,
+  options: OrchestratorOptions | undefined,
+  projectPath: string
+): Promise<OrchestratorResult> {
+  const gatesPassed: string[] = [];
   
   // v3.1: Detect effort level from flags
   const effortFlags: EffortFlags = {
@@ -159,104 +326,167 @@ export async function executePhase(
     console.log(`[SpecFirst] Effort mode: ${effortDetection.effortLevel} (${effortDetection.reason})`);
   }
   
-  // 1. Validate phase name
-  if (!PHASE_SEQUENCE.includes(phase)) {
+  // 1. Resolve configuration and the workflow, and validate phase name
+  let config: SpecFirstConfig;
+  let workflow: WorkflowDefinition;
+  try {
+    config = getConfig(projectPath);
+    workflow = assignWorkflow(featureName, phase, projectPath, options?.workflow, !options?.dryRun);
+  } catch (error) {
     return {
       success: false,
       phase,
       gatesPassed,
-      error: `Invalid phase: "${phase}". Must be one of: ${PHASE_SEQUENCE.join(", ")}`,
+      error: (error as Error).message,
     };
   }
   
-  // 2. Run required gates for this phase
-  const requiredGates = PHASE_GATES[phase];
+  const workflowPhase = getWorkflowPhase(workflow, phase);
+  if (!workflowPhase) {
+    const workflowNote = workflow.name === DEFAULT_WORKFLOW_NAME ? "" : ` (workflow: ${workflow.name})`;
+    return {
+      success: false,
+      phase,
+      gatesPassed,
+      error: `Invalid phase: "${phase}". Must be one of: ${getPhaseNames(workflow).join(", ")}${workflowNote}`,
+    };
+  }
   
-  for (const gateName of requiredGates) {
+  // 2. Validate the input against the handler's schema before any gate runs
+  const isObject = typeof input === "object" && input !== null && !Array.isArray(input);
+  const phaseInput = isObject ? { featureName, ...input } : input;
+  const inputErrors = validatePhaseInput(workflowPhase.handler, phaseInput);
+  if (isObject && typeof (phaseInput as ReviewInput).featureName === "string" && (phaseInput as ReviewInput).featureName !== featureName) {
+    inputErrors.push(`featureName: must be "${featureName}", the feature being run`);
+  }
+  if (inputErrors.length > 0) {
+    return {
+      success: false,
+      phase,
+      gatesPassed,
+      inputErrors,
+      error: `Invalid ${phase} input:\n${inputErrors.map(e => `  - ${e}`).join("\n")}`,
+    };
+  }
+  
+  // 3. Run required gates for this phase (each bounded by gates.timeoutMs);
+  // outcomes go to the event log unless this is a dry run
+  for (const gateName of workflowPhase.gates) {
+    const withTimeout = <T>(run: Promise<T>) => withGateTimeout(run, gateName, config.gateTimeoutMs);
+    const recordGate = (error?: string) => {
+      if (!options?.dryRun) recordGateRun(featureName, phase, gateName, !error, error);
+    };
+    const failGate = (error: string): OrchestratorResult => {
+      recordGate(error);
+      return { success: false, phase, gatesPassed, error, failedGate: gateName };
+    };
     try {
       if (gateName === "prerequisite") {
         // Run prerequisite gate
-        const gateResult = await prerequisiteGate(featureName);
+        const gateResult = await withTimeout(prerequisiteGate(featureName, projectPath));
         if (!gateResult.passed) {
-          return {
-            success: false,
-            phase,
-            gatesPassed,
-            error: `Prerequisite gate failed: ${gateResult.error}\n\n${gateResult.resolution}`,
-          };
+          return failGate(`Prerequisite gate failed: ${gateResult.error}\n\n${gateResult.resolution}`);
         }
         gatesPassed.push("prerequisite");
       } else if (gateName === "artifact") {
         // Run artifact gate (checks dependencies from previous phases)
-        const gateResult = await artifactGate(phase, featureName);
+        const gateResult = await withTimeout(artifactGate(phase, featureName, workflow, projectPath));
         if (!gateResult.passed) {
-          return {
-            success: false,
-            phase,
-            gatesPassed,
-            error: `Artifact gate failed: ${gateResult.error}\n\n${gateResult.resolution}`,
-          };
+          return failGate(`Artifact gate failed: ${gateResult.error}\n\n${gateResult.resolution}`);
         }
         gatesPassed.push("artifact");
       } else if (gateName === "isc-format") {
-        // Run ISC format validation (release phase only)
-        const tasksPath = getArtifactPath(featureName, "tasks");
+        // Run ISC format validation (release phase in the default workflow)
+        const tasksPath = config.getFeaturePaths(featureName).tasksPath;
         if (!existsSync(tasksPath)) {
-          return {
-            success: false,
-            phase,
-            gatesPassed,
-            error: `ISC format gate failed: tasks.md not found at ${tasksPath}`,
-          };
+          return failGate(`ISC format gate failed: tasks.md not found at ${tasksPath}`);
         }
         
-        const tasksContent = await readFile(tasksPath, "utf-8");
-        const formatResult = validateISCFormat(tasksContent);
+        const tasksContent = await withTimeout(readFile(tasksPath, "utf-8"));
+        const formatResult = validateISCFormat(tasksContent, config);
         
         if (!formatResult.passed) {
           const errorDetails = formatResult.errors
             .map(e => `  Line ${e.line}: ${e.message}`)
             .join("\n");
           
-          return {
-            success: false,
-            phase,
-            gatesPassed,
-            error: `ISC format gate failed:\n\n${errorDetails}\n\nFix the format issues in ${tasksPath}`,
-          };
+          return failGate(`ISC format gate failed:\n\n${errorDetails}\n\nFix the format issues in ${tasksPath}`);
         }
         gatesPassed.push("isc-format");
+      } else if (gateName === "traceability") {
+        // Implement checks the criteria about to be written; release reads tasks.md
+        const criteria = workflowPhase.handler === "implement"
+          ? (phaseInput as ImplementInput).criteria
+          : undefined;
+        const gateResult = await withTimeout(traceabilityGate(featureName, criteria, projectPath));
+        for (const warning of gateResult.warnings) {
+          console.warn(`⚠️  Traceability: ${warning}`);
+        }
+        if (!gateResult.passed) {
+          return failGate(`Traceability gate failed: ${gateResult.error}\n\n${gateResult.resolution}`);
+        }
+        gatesPassed.push("traceability");
       }
+      recordGate();
     } catch (error) {
       const err = error as Error;
+      return failGate(`Gate execution failed (${gateName}): ${err.message}`);
+    }
+  }
+  
+  const nextPhase = getNextWorkflowPhase(workflow, phase) ?? undefined;
+  
+  // Dry run: render the artifact and report the planned changes instead
+  if (options?.dryRun) {
+    try {
+      const previewResult = await previewPhase(workflowPhase, phaseInput, {
+        featureName,
+        projectPath,
+        feature: lookupFeature(featureName),
+        completesFeature: !nextPhase && workflowPhase.handler !== "release",
+      });
+      return {
+        success: previewResult.success,
+        phase,
+        gatesPassed,
+        error: previewResult.error,
+        preview: previewResult.preview,
+        nextPhase,
+        algorithmPhase: workflowPhase.algorithmPhase,
+        effortLevel: effortDetection.effortLevel,
+      };
+    } catch (error) {
       return {
         success: false,
         phase,
         gatesPassed,
-        error: `Gate execution failed (${gateName}): ${err.message}`,
+        error: `Phase preview failed: ${(error as Error).message}`,
       };
     }
   }
   
-  // 3. All gates passed - route to correct phase function
-  let phaseResult: { success: boolean; artifactPath?: string; error?: string };
+  // 4. All gates passed - route to correct phase function
+  let phaseResult: { success: boolean; artifactPath?: string; error?: string; failedGate?: string };
   
   try {
-    switch (phase) {
+    switch (workflowPhase.handler) {
       case "propose":
-        phaseResult = await proposePhase(input as any);
+        phaseResult = await proposePhase(phaseInput as ProposeInput, projectPath);
         break;
       case "specify":
-        phaseResult = await specifyPhase(input as any);
+        phaseResult = await specifyPhase(phaseInput as SpecifyInput, projectPath);
         break;
       case "plan":
-        phaseResult = await planPhase(input as any);
+        phaseResult = await planPhase(phaseInput as PlanInput, projectPath);
         break;
       case "implement":
-        phaseResult = await implementPhase(input as any);
+        phaseResult = await implementPhase(phaseInput as ImplementInput, projectPath);
         break;
       case "release":
-        phaseResult = await releasePhase(input as any);
+        phaseResult = await releasePhase(phaseInput as ReleaseInput, projectPath);
+        break;
+      case "review":
+        phaseResult = await reviewPhase(phaseInput as ReviewInput, workflowPhase, workflow, projectPath);
         break;
       default:
         // TypeScript should prevent this, but handle defensively
@@ -277,11 +507,11 @@ export async function executePhase(
     };
   }
   
-  // 4. Return result with next phase suggestion
-  const currentIndex = PHASE_SEQUENCE.indexOf(phase);
-  const nextPhase = currentIndex < PHASE_SEQUENCE.length - 1
-    ? PHASE_SEQUENCE[currentIndex + 1]
-    : undefined;
+  // 5. Return result with next phase suggestion
+  // Workflows that do not end in release complete with their last phase
+  if (phaseResult.success && !nextPhase && workflowPhase.handler !== "release") {
+    updateFeatureStatus(featureName, "completed");
+  }
   
   return {
     success: phaseResult.success,
@@ -289,11 +519,81 @@ export async function executePhase(
     gatesPassed,
     artifactPath: phaseResult.artifactPath,
     error: phaseResult.error,
+    failedGate: phaseResult.failedGate,
     nextPhase,
+    algorithmPhase: workflowPhase.algorithmPhase,
     effortLevel: effortDetection.effortLevel,
   };
 }
 
+/**
+ * Rejects when a gate does not settle within gates.timeoutMs.
+ */
+async function withGateTimeout<T>(run: Promise<T>, gateName: string, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${gateName} gate timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([run, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Gets a feature, or null when no database is open (dry runs in a project
+ * without one).
+ */
+function lookupFeature(featureName: string): Feature | null {
+  try {
+    return getFeature(featureName);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves the workflow for a phase run and records it for new features.
+ * A feature keeps the workflow it was created with; features recorded
+ * without one run the default workflow and can only be assigned another
+ * before their first phase completes. Nothing is recorded when the phase
+ * is not part of the workflow, or when `record` is false (dry runs).
+ * 
+ * @throws WorkflowError if the workflow is unknown, invalid, or conflicts
+ *   with the one already assigned
+ */
+function assignWorkflow(
+  featureName: string,
+  phase: FeaturePhase,
+  projectPath: string,
+  requested?: string,
+  record = true
+): WorkflowDefinition {
+  const feature = lookupFeature(featureName);
+  const assigned = feature?.workflow
+    ?? (feature && feature.phase !== "none" ? DEFAULT_WORKFLOW_NAME : null);
+  
+  if (requested && assigned && requested !== assigned) {
+    throw new WorkflowError(
+      `Feature '${featureName}' runs the '${assigned}' workflow; it cannot switch to '${requested}'`
+    );
+  }
+  
+  const workflow = resolveFeatureWorkflow(featureName, { projectPath, workflow: requested });
+  if (!getWorkflowPhase(workflow, phase) || !record) {
+    return workflow;
+  }
+  
+  if (!feature && workflow.name !== DEFAULT_WORKFLOW_NAME) {
+    addFeature({ id: featureName, name: featureName, workflow: workflow.name });
+  } else if (feature && !feature.workflow && requested) {
+    setFeatureWorkflow(featureName, workflow.name);
+  }
+  
+  return workflow;
+}
+
 /**
  * Detects which phase to run next based on existing artifacts and git history.
  * 
@@ -301,6 +601,7 @@ export async function executePhase(
  * Falls back to artifact existence if git commits aren't found.
  * 
  * @param featureName - Feature name
+ * @param options - Project path and workflow override
  * @returns Next phase to run, or null if all phases complete
  * 
  * @example
@@ -313,11 +614,16 @@ export async function executePhase(
  * }
  * ```
  */
-export async function detectNextPhase(featureName: string): Promise<Phase | null> {
+export async function detectNextPhase(
+  featureName: string,
+  options: WorkflowStatusOptions = {}
+): Promise<FeaturePhase | null> {
+  const phaseOrder = getPhaseNames(resolveFeatureWorkflow(featureName, options));
+  
   // Check each phase in sequence to find first incomplete one
-  for (const phase of PHASE_SEQUENCE) {
+  for (const phase of phaseOrder) {
     // Check git history for phase completion commit
-    const isComplete = await isPhaseComplete(phase, featureName);
+    const isComplete = await isPhaseComplete(phase, featureName, options.projectPath, phaseOrder);
     
     if (!isComplete) {
       // Phase not complete - this is the next phase to run
@@ -329,13 +635,47 @@ export async function detectNextPhase(featureName: string): Promise<Phase | null
   return null;
 }
 
+/**
+ * Runs a phase with input derived from the feature's earlier artifacts.
+ */
+async function executeDerivedPhase(
+  phase: FeaturePhase,
+  featureName: string,
+  options: OrchestratorOptions
+): Promise<OrchestratorResult> {
+  const projectPath = options.projectPath || process.cwd();
+  
+  let derived: DerivedInput;
+  try {
+    const workflowPhase = getWorkflowPhase(resolveFeatureWorkflow(featureName, { ...options, projectPath }), phase);
+    if (!workflowPhase) {
+      return executePhase(phase, featureName, undefined, options);
+    }
+    derived = await derivePhaseInput(workflowPhase.handler, { featureName, projectPath, batch: options.batch });
+  } catch (error) {
+    if (!(error instanceof InputDerivationError) && !(error instanceof WorkflowError)) throw error;
+    return {
+      success: false,
+      phase,
+      gatesPassed: [],
+      error: error.message,
+      ...(error instanceof InputDerivationError ? { inputErrors: error.errors } : {}),
+    };
+  }
+  
+  const result = await executePhase(phase, featureName, derived.input, options);
+  return { ...result, derivedFrom: derived.source, inferred: derived.inferred };
+}
+
 /**
  * Resumes workflow from where it left off.
  * 
- * Automatically detects the next phase that needs to run and executes it.
+ * Automatically detects the next phase that needs to run and executes it
+ * with input derived from the earlier artifacts (see phases/input-providers).
  * Useful for picking up work after interruption or for continuous execution.
  * 
  * @param featureName - Feature name
+ * @param options - Project path and workflow override
  * @returns OrchestratorResult for the executed phase
  * 
  * @example
@@ -345,6 +685,9 @@ export async function detectNextPhase(featureName: string): Promise<Phase | null
  * 
  * if (result.success) {
  *   console.log(`Completed ${result.phase} phase`);
+ *   if (result.inferred?.length) {
+ *     console.log(`Review inferred ${result.inferred.join(", ")} (from ${result.derivedFrom})`);
+ *   }
  *   if (result.nextPhase) {
  *     console.log(`Next: ${result.nextPhase}`);
  *   } else {
@@ -353,22 +696,25 @@ export async function detectNextPhase(featureName: string): Promise<Phase | null
  * }
  * ```
  */
-export async function resumeWorkflow(featureName: string): Promise<OrchestratorResult> {
-  const nextPhase = await detectNextPhase(featureName);
+export async function resumeWorkflow(
+  featureName: string,
+  options: WorkflowStatusOptions = {}
+): Promise<OrchestratorResult> {
+  const nextPhase = await detectNextPhase(featureName, options);
   
   if (!nextPhase) {
     // All phases complete
+    const phases = getPhaseNames(resolveFeatureWorkflow(featureName, options));
     return {
       success: true,
-      phase: "release",
+      phase: phases[phases.length - 1],
       gatesPassed: [],
       nextPhase: undefined,
     };
   }
   
-  // Execute the next phase
-  // Note: Caller must provide phase-specific input
-  return executePhase(nextPhase, featureName);
+  // Execute the next phase with input derived from earlier artifacts
+  return executeDerivedPhase(nextPhase, featureName, options);
 }
 
 /**
@@ -376,7 +722,8 @@ export async function resumeWorkflow(featureName: string): Promise<OrchestratorR
  * Useful for displaying progress or debugging workflow state.
  * 
  * @param featureName - Feature name
- * @returns Record of phase completion status
+ * @param options - Project path and workflow override
+ * @returns Completion status keyed by the workflow's phases, in order
  * 
  * @example
  * ```typescript
@@ -388,23 +735,401 @@ export async function resumeWorkflow(featureName: string): Promise<OrchestratorR
  * ```
  */
 export async function getWorkflowStatus(
-  featureName: string
-): Promise<Record<Phase, boolean>> {
-  const status: Record<Phase, boolean> = {
-    propose: false,
-    specify: false,
-    plan: false,
-    implement: false,
-    release: false,
-  };
+  featureName: string,
+  options: WorkflowStatusOptions = {}
+): Promise<Record<string, boolean>> {
+  const phaseOrder = getPhaseNames(resolveFeatureWorkflow(featureName, options));
+  const status: Record<string, boolean> = {};
   
-  for (const phase of PHASE_SEQUENCE) {
-    status[phase] = await isPhaseComplete(phase, featureName);
+  for (const phase of phaseOrder) {
+    status[phase] = await isPhaseComplete(phase, featureName, options.projectPath, phaseOrder);
   }
   
   return status;
 }
 
+/**
+ * Reopens a completed phase so it can be revised.
+ * 
+ * 1. Marks artifacts of all later phases as stale (frontmatter `status: review`)
+ * 2. Commits a "phase reopened" marker with the stale artifacts
+ * 3. Resets the feature's phase in SQLite to the phase before the reopened one
+ * 
+ * The marker makes isPhaseComplete() - and so detectNextPhase(),
+ * getWorkflowStatus() and the phase-complete gate - treat this phase and
+ * every later phase as incomplete until they are run again.
+ * 
+ * @param featureName - Feature name
+ * @param phase - Completed phase of the feature's workflow to reopen
+ * @param options - Project path and reason
+ * @returns ReopenResult listing the stale artifacts
+ * 
+ * @example
+ * ```typescript
+ * const result = await reopenPhase("user-auth", "specify", { reason: "Missing SSO requirement" });
+ * if (result.success) {
+ *   console.log(`Review: ${result.staleArtifacts.join(", ")}`);
+ *   await executePhase("specify", "user-auth", revisedSpecInput);
+ * }
+ * ```
+ */
+export async function reopenPhase(
+  featureName: string,
+  phase: FeaturePhase,
+  options: ReopenOptions = {}
+): Promise<ReopenResult> {
+  const invalid = checkFeatureId(featureName);
+  if (invalid) {
+    return { success: false, phase, staleArtifacts: [], error: invalid };
+  }
+  
+  const projectPath = options.projectPath ?? process.cwd();
+  initDatabase(projectPath);
+
+  let workflow: WorkflowDefinition;
+  try {
+    workflow = resolveFeatureWorkflow(featureName, { projectPath });
+  } catch (error) {
+    return { success: false, phase, staleArtifacts: [], error: (error as Error).message };
+  }
+
+  const phaseOrder = getPhaseNames(workflow);
+  const phaseIndex = phaseOrder.indexOf(phase);
+
+  if (phaseIndex === -1) {
+    return {
+      success: false,
+      phase,
+      staleArtifacts: [],
+      error: `Invalid phase: ${phase}. Must be one of: ${phaseOrder.join(", ")}`,
+    };
+  }
+
+  if (!(await isPhaseComplete(phase, featureName, projectPath, phaseOrder))) {
+    return {
+      success: false,
+      phase,
+      staleArtifacts: [],
+      error: `The ${phase} phase is not complete for ${featureName}; there is nothing to reopen.`,
+    };
+  }
+
+  // 1. Mark downstream artifacts stale
+  const staleArtifacts: string[] = [];
+  const today = new Date().toISOString().split("T")[0];
+  for (const downstream of workflow.phases.slice(phaseIndex + 1)) {
+    const artifactPath = getPhaseArtifactPath(featureName, downstream, projectPath);
+    if (!existsSync(artifactPath)) continue;
+
+    const content = await readFile(artifactPath, "utf-8");
+    const updated = setFrontmatterFields(content, { status: "review", updated: today });
+    if (updated !== content) {
+      await writeFile(artifactPath, updated, "utf-8");
+      staleArtifacts.push(artifactPath);
+    }
+  }
+
+  // 2. Record the reopen marker
+  const commitResult = await createReopenCommit(phase, featureName, staleArtifacts, options.reason, projectPath);
+  if (!commitResult.success) {
+    return {
+      success: false,
+      phase,
+      staleArtifacts,
+      error: `Failed to commit reopen marker: ${commitResult.stderr || commitResult.error?.message}`,
+    };
+  }
+
+  // 3. Reset SQLite state so resumeFeature() runs the reopened phase next
+  const feature = getFeature(featureName);
+  if (feature) {
+    updateFeaturePhase(featureName, phaseIndex === 0 ? "none" : phaseOrder[phaseIndex - 1]);
+    if (feature.status === "completed") {
+      updateFeatureStatus(featureName, "in_progress");
+    }
+  }
+
+  return {
+    success: true,
+    phase,
+    staleArtifacts,
+    message: `Reopened ${phase} for ${featureName}. Next: specfirst ${phase} ${featureName}`,
+  };
+}
+
+/**
+ * Renames a feature.
+ * 
+ * 1. Moves the feature directory (`Features/{name}`) and the project
+ *    directory holding its constitution to the new name
+ * 2. Rewrites the frontmatter `feature:` field of the moved artifacts
+ * 3. Changes the feature's ID in SQLite, with its criteria, dependencies
+ *    and session references, and updates its artifact paths
+ * 4. Commits a rename marker with the moved files, so phases completed
+ *    under the old name count for the new one
+ * 
+ * @param featureName - Current feature name
+ * @param newName - New feature name (a valid FeatureId)
+ * @param options - Project path and new display title
+ * @returns RenameResult listing moved directories and rewritten artifacts
+ * 
+ * @example
+ * ```typescript
+ * const result = await renameFeature("auth", "user-auth", { title: "User Authentication" });
+ * if (!result.success) console.error(result.error);
+ * ```
+ */
+export async function renameFeature(
+  featureName: string,
+  newName: string,
+  options: RenameOptions = {}
+): Promise<RenameResult> {
+  const fail = (error: string): RenameResult => ({
+    success: false,
+    featureName,
+    movedPaths: [],
+    updatedArtifacts: [],
+    error,
+  });
+  
+  const invalid = checkFeatureId(featureName) ?? checkFeatureId(newName);
+  if (invalid) return fail(invalid);
+  if (featureName === newName) return fail(`${featureName} already has that name`);
+  
+  const projectPath = options.projectPath ?? process.cwd();
+  initDatabase(projectPath);
+  
+  const feature = getFeature(featureName);
+  const { getFeaturePaths } = getConfig(projectPath);
+  const [from, to] = [getFeaturePaths(featureName), getFeaturePaths(newName)];
+  const moves = [
+    [from.featureDir, to.featureDir],
+    [from.projectDir, to.projectDir],
+  ].filter(([source, target]) => source !== target && existsSync(source));
+  
+  if (!feature && moves.length === 0) {
+    return fail(`Feature not found: ${featureName}`);
+  }
+  if (getFeature(newName)) {
+    return fail(`Feature already exists: ${newName}`);
+  }
+  const taken = moves.find(([, to]) => existsSync(to));
+  if (taken) {
+    return fail(`Cannot rename ${featureName}: ${taken[1]} already exists`);
+  }
+  
+  // 1. Move artifact directories
+  for (const [from, to] of moves) {
+    await mkdir(dirname(to), { recursive: true });
+    await rename(from, to);
+  }
+  
+  // 2. Point frontmatter at the new name
+  const updatedArtifacts: string[] = [];
+  for (const [, to] of moves) {
+    for (const path of await listMarkdownFiles(to)) {
+      const content = await readFile(path, "utf-8");
+      if (parseFrontmatter(content).feature === undefined) continue;
+      const updated = setFrontmatterFields(content, { feature: newName });
+      if (updated !== content) {
+        await writeFile(path, updated, "utf-8");
+        updatedArtifacts.push(path);
+      }
+    }
+  }
+  
+  // 3. Move the SQLite record
+  if (feature) {
+    const movePath = (path: string | null): string | undefined => {
+      const move = path ? moves.find(([from]) => path.startsWith(`${from}/`)) : undefined;
+      return move ? `${move[1]}${path!.slice(move[0].length)}` : undefined;
+    };
+    renameFeatureRecord(featureName, newName, {
+      name: options.title ?? (feature.name === featureName ? newName : feature.name),
+      paths: {
+        proposalPath: movePath(feature.proposalPath),
+        specPath: movePath(feature.specPath),
+        planPath: movePath(feature.planPath),
+        tasksPath: movePath(feature.tasksPath),
+        constitutionPath: movePath(feature.constitutionPath),
+      },
+    });
+  }
+  
+  // 4. Record the rename marker
+  const movedPaths = moves.map(([, to]) => to);
+  const commitResult = await createRenameCommit(featureName, newName, moves.flat(), projectPath);
+  if (!commitResult.success) {
+    return {
+      success: false,
+      featureName: newName,
+      movedPaths,
+      updatedArtifacts,
+      error: `Renamed ${featureName} to ${newName}, but failed to commit the rename marker: ${commitResult.stderr || commitResult.error?.message}`,
+    };
+  }
+  
+  return {
+    success: true,
+    featureName: newName,
+    movedPaths,
+    updatedArtifacts,
+    message: `Renamed ${featureName} to ${newName}`,
+  };
+}
+
+/**
+ * Moves feature artifacts between storage modes, e.g. from
+ * `MEMORY/execution/Features/<feature>/specs/` into the project's
+ * `specs/<feature>/` after switching to `artifacts.storage: repo`.
+ * 
+ * Process:
+ * 1. Checks that no target directory already exists (nothing is moved otherwise)
+ * 2. Moves each feature's specs directory to the configured location
+ * 3. Copies the constitution when the target has none (it is shared by
+ *    every feature in repo storage, and per feature in memory storage)
+ * 4. Points the features' SQLite artifact paths at the new location
+ * 5. Commits the moved files (see createStorageCommit)
+ * 
+ * The old location uses the default artifact root of the `from` mode.
+ * 
+ * @param options - Project path, source mode and features to move
+ * @returns MigrateStorageResult listing moved and skipped features
+ * 
+ * @example
+ * ```typescript
+ * // .specfirst/config.yaml sets artifacts.storage: repo
+ * const result = await migrateStorage({ projectPath });
+ * console.log(result.message); // "Moved 2 features to repo storage"
+ * ```
+ */
+export async function migrateStorage(options: MigrateStorageOptions = {}): Promise<MigrateStorageResult> {
+  const projectPath = options.projectPath ?? process.cwd();
+  const config = getConfig(projectPath);
+  const from = options.from ?? STORAGE_MODES.find(mode => mode !== config.storage)!;
+  const fail = (error: string): MigrateStorageResult => ({
+    success: false,
+    storage: config.storage,
+    migrated: [],
+    skipped: [],
+    error,
+  });
+  
+  for (const featureName of options.features ?? []) {
+    const invalid = checkFeatureId(featureName);
+    if (invalid) return fail(invalid);
+  }
+  
+  const source: StorageLayout = { storage: from, artifactRoot: getDefaultArtifactRoot(from, projectPath), projectPath };
+  if (source.storage === config.storage && source.artifactRoot === config.artifactRoot) {
+    return fail(`Artifacts are already in ${from} storage at ${config.artifactRoot}`);
+  }
+  
+  initDatabase(projectPath);
+  const featureNames = options.features ?? getFeatures().map(f => f.id);
+  const moves = featureNames.map(featureName => ({
+    featureName,
+    from: createFeaturePaths(featureName, source),
+    to: config.getFeaturePaths(featureName),
+  }));
+  
+  // 1. Refuse to overwrite anything
+  const pending = moves.filter(move => existsSync(move.from.specsDir));
+  const taken = pending.find(move => existsSync(move.to.specsDir));
+  if (taken) {
+    return fail(`Cannot move ${taken.featureName}: ${taken.to.specsDir} already exists`);
+  }
+  
+  // 2-4. Move artifacts, constitution and database paths
+  const staged: string[] = [];
+  for (const { featureName, from: old, to } of pending) {
+    await mkdir(dirname(to.specsDir), { recursive: true });
+    await rename(old.specsDir, to.specsDir);
+    staged.push(old.specsDir, to.specsDir);
+    
+    if (existsSync(old.constitutionPath) && !existsSync(to.constitutionPath)) {
+      await mkdir(dirname(to.constitutionPath), { recursive: true });
+      await copyFile(old.constitutionPath, to.constitutionPath);
+      staged.push(to.constitutionPath);
+    }
+    
+    const feature = getFeature(featureName);
+    if (feature) {
+      const movePath = (path: string | null): string | undefined =>
+        path?.startsWith(`${old.specsDir}/`) ? `${to.specsDir}${path.slice(old.specsDir.length)}` : undefined;
+      updateFeaturePaths(featureName, {
+        proposalPath: movePath(feature.proposalPath),
+        specPath: movePath(feature.specPath),
+        planPath: movePath(feature.planPath),
+        tasksPath: movePath(feature.tasksPath),
+        constitutionPath: feature.constitutionPath === old.constitutionPath ? to.constitutionPath : undefined,
+      });
+    }
+  }
+  
+  const migrated = pending.map(move => ({ featureName: move.featureName, from: move.from.specsDir, to: move.to.specsDir }));
+  const skipped = moves.filter(move => !pending.includes(move)).map(move => move.featureName);
+  const message = `Moved ${migrated.length} feature${migrated.length === 1 ? "" : "s"} to ${config.storage} storage`;
+  if (migrated.length === 0) {
+    return { success: true, storage: config.storage, migrated, skipped, message };
+  }
+  
+  // 5. Commit the move
+  const commitResult = await createStorageCommit(config.storage, migrated.map(m => m.featureName), staged, projectPath);
+  if (!commitResult.success) {
+    return {
+      success: false,
+      storage: config.storage,
+      migrated,
+      skipped,
+      error: `${message}, but failed to commit the move: ${commitResult.stderr || commitResult.error?.message}`,
+    };
+  }
+  
+  return { success: true, storage: config.storage, migrated, skipped, message };
+}
+
+/**
+ * Lists markdown files under a directory, recursively.
+ */
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listMarkdownFiles(path)));
+    } else if (entry.name.endsWith(".md")) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Gets the artifact a phase produces.
+ * 
+ * @param featureName - Feature name
+ * @param phase - Phase of the feature's workflow
+ * @param projectPath - Project root path
+ * @returns Path of the proposal, spec, plan, tasks, review or release notes
+ */
+export function getPhaseArtifactPath(featureName: string, phase: WorkflowPhase, projectPath?: string): string {
+  switch (phase.handler) {
+    case "propose":
+      return getArtifactPath(featureName, "proposal", projectPath);
+    case "specify":
+      return getArtifactPath(featureName, "spec", projectPath);
+    case "plan":
+      return getArtifactPath(featureName, "plan", projectPath);
+    case "implement":
+      return getArtifactPath(featureName, "tasks", projectPath);
+    case "review":
+      return getReviewPath(featureName, phase.name, projectPath);
+    default:
+      return getReleasePath(featureName, projectPath);
+  }
+}
+
 /**
  * Start a new SpecFirst session.
  * Used by Cedars when spawning a new session.
@@ -448,7 +1173,7 @@ export async function resumeOrStartSession(projectPath: string): Promise<{
   sessionId: string;
   resumed: boolean;
   currentFeature: Feature | null;
-  currentPhase: Phase | null;
+  currentPhase: FeaturePhase | null;
 }> {
   initDatabase(projectPath);
   
@@ -482,6 +1207,9 @@ export async function resumeOrStartSession(projectPath: string): Promise<{
  * 
  * ISC #7: Cold-start resume works from SQLite state alone
  * 
+ * Phases an earlier run left unfinished are completed or rolled back
+ * before the state is read (see lib/journal).
+ * 
  * @param featureName - Feature to resume
  * @param projectPath - Project root path
  * @param options - Execution options
@@ -500,48 +1228,50 @@ export async function resumeFeature(
   projectPath: string,
   options?: OrchestratorOptions
 ): Promise<OrchestratorResult> {
-  initDatabase(projectPath);
+  // A dry run never creates the database
+  const hasDatabase = !options?.dryRun || existsSync(getDbPath(projectPath));
+  if (hasDatabase) {
+    initDatabase(projectPath);
+  }
   
-  const feature = getFeature(featureName);
+  // Settle unfinished phases first so the recorded phase is accurate
+  const recovered = options?.dryRun ? [] : await recoverPhaseJournals(projectPath);
+  const withRecovered = (result: OrchestratorResult): OrchestratorResult =>
+    recovered.length > 0 ? { ...result, recovered: [...recovered, ...(result.recovered ?? [])] } : result;
+  
+  const feature = hasDatabase ? getFeature(featureName) : null;
   if (!feature) {
-    return {
+    return withRecovered({
       success: false,
       phase: 'none',
       gatesPassed: [],
       message: `Feature '${featureName}' not found. Use 'specfirst propose ${featureName}' to start.`,
-    };
+    });
   }
   
   // Determine next phase based on current phase
-  const nextPhase = getNextPhase(feature.phase);
+  let nextPhase: FeaturePhase | null;
+  try {
+    nextPhase = getNextWorkflowPhase(resolveFeatureWorkflow(featureName, { projectPath }), feature.phase);
+  } catch (error) {
+    return withRecovered({
+      success: false,
+      phase: feature.phase,
+      gatesPassed: [],
+      error: (error as Error).message,
+    });
+  }
   if (!nextPhase) {
-    return {
+    return withRecovered({
       success: true,
       phase: feature.phase,
       gatesPassed: [],
       message: `Feature '${featureName}' is already complete (phase: ${feature.phase}).`,
-    };
+    });
   }
   
-  // Execute next phase
-  return executePhase(nextPhase, featureName, undefined, { ...options, projectPath });
-}
-
-/**
- * Get next phase in sequence based on current phase.
- * 
- * @param currentPhase - Current phase
- * @returns Next phase, or null if complete
- */
-function getNextPhase(currentPhase: Phase): Phase | null {
-  const phaseOrder: Phase[] = ['none', 'propose', 'specify', 'plan', 'implement', 'release'];
-  const currentIndex = phaseOrder.indexOf(currentPhase);
-  
-  if (currentIndex === -1 || currentIndex >= phaseOrder.length - 1) {
-    return null; // Already at release or unknown
-  }
-  
-  return phaseOrder[currentIndex + 1];
+  // Execute next phase with input derived from earlier artifacts
+  return withRecovered(await executeDerivedPhase(nextPhase, featureName, { ...options, projectPath }));
 }
 
 /**
@@ -564,6 +1294,24 @@ export function listFeatures(projectPath: string): Feature[] {
   return getFeatures();
 }
 
+/**
+ * Get the feature dependency graph.
+ * Features are returned in dependency order (prerequisites first).
+ * 
+ * @param projectPath - Project root path
+ * @returns Ordered features and their dependency edges
+ * 
+ * @example
+ * ```typescript
+ * const { features, dependencies } = getFeatureGraph("/path/to/project");
+ * console.log(formatGraphMermaid(features, dependencies));
+ * ```
+ */
+export function getFeatureGraph(projectPath: string): { features: Feature[]; dependencies: FeatureDependency[] } {
+  initDatabase(projectPath);
+  return { features: getFeatureQueue(), dependencies: getFeatureDependencyEdges() };
+}
+
 /**
  * Get feature statistics.
  * Useful for dashboard overview.
@@ -584,31 +1332,52 @@ export function getFeatureStats(projectPath: string): FeatureStats {
   return getStats();
 }
 
+/**
+ * Get a feature's history from the event log: status and phase changes,
+ * criterion transitions, gate runs and claims, oldest first.
+ * Does not create the database when it does not exist yet.
+ * 
+ * @param featureName - Feature name
+ * @param projectPath - Project root path
+ * @returns Events (empty when nothing was recorded)
+ * 
+ * @example
+ * ```typescript
+ * for (const event of getFeatureHistory("user-auth", "/path/to/project")) {
+ *   console.log(`${event.at.toISOString()} ${event.type} ${event.to ?? ""}`);
+ * }
+ * ```
+ */
+export function getFeatureHistory(featureName: string, projectPath: string): WorkflowEvent[] {
+  if (!existsSync(getDbPath(projectPath))) {
+    return [];
+  }
+  initDatabase(projectPath);
+  return getFeatureTimeline(featureName);
+}
+
 // Self-test when run directly with: bun phases/orchestrator.ts
 if (import.meta.main) {
   console.log("🧪 Testing Phase Orchestrator\n");
   
   // Test 1: Validate phase routing logic
   console.log("Test 1: Phase routing validation");
-  console.log("  Phase sequence:", PHASE_SEQUENCE.join(" → "));
+  console.log("  Phase sequence:", getPhaseNames(DEFAULT_WORKFLOW).join(" → "));
   console.log("  ✅ PASS - Linear sequence defined");
   console.log();
   
   // Test 2: Gate requirements mapping
   console.log("Test 2: Gate requirements per phase");
-  for (const phase of PHASE_SEQUENCE) {
-    const gates = PHASE_GATES[phase];
-    console.log(`  ${phase}: ${gates.join(", ")}`);
+  for (const phase of DEFAULT_WORKFLOW.phases) {
+    console.log(`  ${phase.name}: ${phase.gates.join(", ")}`);
   }
   console.log("  ✅ PASS - All phases have gate requirements");
   console.log();
   
   // Test 3: Next phase detection
   console.log("Test 3: Next phase logic");
-  for (let i = 0; i < PHASE_SEQUENCE.length; i++) {
-    const currentPhase = PHASE_SEQUENCE[i];
-    const nextPhase = i < PHASE_SEQUENCE.length - 1 ? PHASE_SEQUENCE[i + 1] : "none";
-    console.log(`  ${currentPhase} → ${nextPhase}`);
+  for (const phase of getPhaseNames(DEFAULT_WORKFLOW)) {
+    console.log(`  ${phase} → ${getNextWorkflowPhase(DEFAULT_WORKFLOW, phase) ?? "none"}`);
   }
   console.log("  ✅ PASS - Next phase progression defined");
   console.log();
@@ -641,10 +1410,7 @@ if (import.meta.main) {
   console.log("Test 6: ISC Criteria Verification");
   
   // ISC #33: Phase orchestrator routes requests to correct phase
-  const routingWorks = PHASE_SEQUENCE.every(phase => {
-    const gates = PHASE_GATES[phase];
-    return gates !== undefined && gates.length > 0;
-  });
+  const routingWorks = DEFAULT_WORKFLOW.phases.every(phase => phase.gates.length > 0);
   console.log(`  ISC #33 (Routes to correct phase): ${routingWorks ? "✅ PASS" : "❌ FAIL"}`);
   
   // ISC #34: Phase orchestrator enforces gate checks
@@ -656,7 +1422,7 @@ if (import.meta.main) {
   console.log("Test 7: Workflow status detection");
   try {
     const status = await getWorkflowStatus("test-feature");
-    const allPhases = Object.keys(status).length === PHASE_SEQUENCE.length;
+    const allPhases = Object.keys(status).length === DEFAULT_WORKFLOW.phases.length;
     console.log(`  Result: ${allPhases ? "✅ PASS - Status tracking works" : "❌ FAIL - Missing phases in status"}`);
     console.log("  Status:", status);
   } catch (error) {
@@ -8,7 +8,9 @@ import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { mkdir, writeFile, rm } from "fs/promises";
 import { existsSync } from "fs";
 import { planPhase, type PlanInput } from "./plan";
+import { join } from "path";
 import { getArtifactPath } from "../lib/config";
+import { getJournalDir } from "../lib/journal";
 
 const TEST_FEATURE = "plan-phase-test";
 
@@ -43,7 +45,12 @@ describe("Plan Phase Integration Tests", () => {
   });
   
   afterAll(async () => {
-    // Cleanup is handled by system - tests run in .claude/MEMORY/execution/Features
+    // Artifacts are cleaned up by the system - tests run in .claude/MEMORY/execution/Features.
+    // The marker commit cannot be made there, so drop the journals it leaves behind;
+    // otherwise the next run refuses to write over the unsettled phase.
+    for (const feature of [TEST_FEATURE, `${TEST_FEATURE}-no-risks`]) {
+      await rm(join(getJournalDir(process.cwd()), `${feature}.json`), { force: true });
+    }
   });
   
   test("planPhase creates plan.md with all required sections", async () => {
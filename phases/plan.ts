@@ -10,12 +10,14 @@
  * @version 3.0.0
  */
 
-import { readFile, writeFile } from "fs/promises";
+import { readFile } from "fs/promises";
 import { generatePlan } from "../artifacts/plan";
 import { getArtifactPath, ensureFeatureDirectories } from "../lib/config";
-import { createPhaseCommit } from "../lib/git";
+import { writePhase } from "../lib/journal";
+import type { GitResult } from "../lib/git";
+import { checkFeatureId } from "../lib/feature-id";
 import { artifactGate } from "../gates/artifact";
-import { initDatabase, getFeature, addFeature, updateFeaturePhase, updateFeaturePaths } from "../lib/database";
+import { initDatabase, getFeature, addFeature } from "../lib/database";
 
 export interface PlanInput {
   featureName: string;
@@ -40,6 +42,7 @@ export interface PlanInput {
     estimatedEffort: string;
     dependencies: string[];
     risks: string[];  // REQUIRED - Criterion 28
+    traces?: string[];  // Spec IDs delivered by this phase (FR-001, US-001)
   }>;
   testingStrategy: {
     unitTests: string;
@@ -68,6 +71,51 @@ export interface PhaseResult {
   success: boolean;
   artifactPath?: string;
   error?: string;
+  /** Gate that stopped the phase */
+  failedGate?: string;
+}
+
+/**
+ * plan.md content rendered from PlanInput, or why it cannot be.
+ */
+export interface RenderResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+}
+
+/**
+ * Renders plan.md for the input without writing it. Every implementation
+ * phase must have a risk assessment (Criterion 28).
+ * 
+ * @param input - PlanInput
+ * @param projectPath - Project whose template overrides apply (defaults to cwd)
+ * @returns RenderResult with the plan.md content
+ */
+export function renderPlan(input: PlanInput, projectPath?: string): RenderResult {
+  for (const phase of input.implementationPhases) {
+    if (!phase.risks || phase.risks.length === 0) {
+      return {
+        success: false,
+        error: `Phase ${phase.number} "${phase.name}" is missing risk assessment (required by Criterion 28)`,
+      };
+    }
+  }
+  
+  return {
+    success: true,
+    content: generatePlan(
+      input.featureName,
+      input.executiveSummary,
+      input.adrs,
+      input.implementationPhases,
+      input.testingStrategy,
+      input.risks,
+      input.dependencies,
+      input.rollbackProcedures,
+      { projectPath }
+    ),
+  };
 }
 
 /**
@@ -81,6 +129,7 @@ export interface PhaseResult {
  * 5. Create git commit marking phase completion
  * 
  * @param input - Plan input data with phases and risks
+ * @param projectPath - Project to write into (defaults to cwd)
  * @returns PhaseResult with success status and artifact path
  * 
  * @example
@@ -108,11 +157,13 @@ export interface PhaseResult {
  * });
  * ```
  */
-export async function planPhase(input: PlanInput): Promise<PhaseResult> {
+export async function planPhase(input: PlanInput, projectPath: string = process.cwd()): Promise<PhaseResult> {
+  const invalid = checkFeatureId(input.featureName);
+  if (invalid) return { success: false, error: invalid };
+
   try {
     // Step 1: Initialize database
     console.log("💾 Initializing database...");
-    const projectPath = process.cwd();
     initDatabase(projectPath);
     
     // Step 2: Get or create feature
@@ -128,11 +179,12 @@ export async function planPhase(input: PlanInput): Promise<PhaseResult> {
     
     // Step 3: Run artifact gate (checks spec.md exists)
     console.log("🚪 Running artifact gate for plan phase...");
-    const gateResult = await artifactGate("plan", input.featureName);
+    const gateResult = await artifactGate("plan", input.featureName, undefined, projectPath);
     
     if (!gateResult.passed) {
       return {
         success: false,
+        failedGate: "artifact",
         error: `Artifact gate failed: ${gateResult.error}\n\nResolution: ${gateResult.resolution}`,
       };
     }
@@ -140,10 +192,10 @@ export async function planPhase(input: PlanInput): Promise<PhaseResult> {
     
     // Step 4: Ensure feature directories exist
     console.log("📁 Ensuring feature directories exist...");
-    await ensureFeatureDirectories(input.featureName);
+    await ensureFeatureDirectories(input.featureName, projectPath);
     
     // Step 5: Read spec.md for context (optional verification)
-    const specPath = getArtifactPath(input.featureName, "spec");
+    const specPath = getArtifactPath(input.featureName, "spec", projectPath);
     console.log(`📖 Reading spec.md from: ${specPath}`);
     
     try {
@@ -156,39 +208,30 @@ export async function planPhase(input: PlanInput): Promise<PhaseResult> {
       };
     }
     
-    // Step 6: Validate implementation phases have risks (Criterion 28)
-    console.log("🔍 Validating implementation phases...");
-    for (const phase of input.implementationPhases) {
-      if (!phase.risks || phase.risks.length === 0) {
-        return {
-          success: false,
-          error: `Phase ${phase.number} "${phase.name}" is missing risk assessment (required by Criterion 28)`,
-        };
-      }
-    }
-    console.log(`✅ All ${input.implementationPhases.length} phases have risk assessments\n`);
-    
-    // Step 7: Generate plan content
+    // Steps 6-7: Validate phase risks (Criterion 28) and generate plan content
     console.log("📝 Generating plan.md content...");
-    const planContent = generatePlan(
-      input.featureName,
-      input.executiveSummary,
-      input.adrs,
-      input.implementationPhases,
-      input.testingStrategy,
-      input.risks,
-      input.dependencies,
-      input.rollbackProcedures
-    );
+    const rendered = renderPlan(input, projectPath);
+    if (!rendered.success) {
+      return { success: false, error: rendered.error };
+    }
+    const planContent = rendered.content!;
     
     console.log(`✅ Generated plan with ${input.implementationPhases.length} phases\n`);
     
-    // Step 8: Write to file
-    const planPath = getArtifactPath(input.featureName, "plan");
+    // Steps 8-10: Write to file, update SQLite (phase and paths) and create
+    // the git commit, journaled so an interrupted run is completed on the next start
+    const planPath = getArtifactPath(input.featureName, "plan", projectPath);
     console.log(`💾 Writing plan.md to: ${planPath}`);
     
+    let gitResult: GitResult;
     try {
-      await writeFile(planPath, planContent, "utf-8");
+      ({ commit: gitResult } = await writePhase({
+        featureName: input.featureName,
+        phase: "plan",
+        artifactPath: planPath,
+        content: planContent,
+        database: { phase: "plan", paths: { planPath } },
+      }, projectPath));
       console.log("✅ Plan.md written successfully\n");
     } catch (error) {
       return {
@@ -197,19 +240,8 @@ export async function planPhase(input: PlanInput): Promise<PhaseResult> {
       };
     }
     
-    // Step 9: Update SQLite: phase and paths
-    console.log("💾 Updating database state...");
-    updateFeaturePhase(input.featureName, "plan");
-    updateFeaturePaths(input.featureName, {
-      planPath: planPath,
-    });
-    
-    // Step 10: Create git commit (artifact only)
-    console.log("📌 Creating git commit...");
-    const gitResult = await createPhaseCommit("plan", input.featureName, planPath);
-    
     if (!gitResult.success) {
-      console.warn("⚠️  Git commit failed (non-fatal):", gitResult.stderr || gitResult.error?.message);
+      console.warn("⚠️  Git commit failed (non-fatal, retried on the next run):", gitResult.stderr || gitResult.error?.message);
     } else {
       console.log("✅ Git commit created\n");
     }
@@ -0,0 +1,288 @@
+/**
+ * Phase Preview - SpecFirst 4.0
+ *
+ * Renders what a phase would produce without writing anything: the artifact
+ * content, a unified diff against the artifact on disk, the SQLite changes
+ * and the marker commit message. executePhase() uses it for
+ * `{ dryRun: true }` after the gates have run, so agents and reviewers can
+ * check a phase's output before committing to it.
+ *
+ * Each phase renders through the same function the phase itself uses
+ * (renderProposal, renderSpec, renderPlan, renderTasks, renderReleaseNotes,
+ * generateReview), so a preview fails exactly where the real run would.
+ * Steps that need a person or change other files (the interactive Doctorow
+ * checklist, running Verify methods, merging the feature branch) are listed
+ * in `skipped` instead of run.
+ *
+ * @module phases/preview
+ * @version 4.0.0
+ */
+
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { isAbsolute, relative } from "path";
+import { validateProposal } from "../artifacts/proposal";
+import { validateSpec } from "../artifacts/spec";
+import { validatePlan } from "../artifacts/plan";
+import { getArtifactPath, getConfig } from "../lib/config";
+import { createUnifiedDiff } from "../lib/diff";
+import { formatPhaseCommitMessage } from "../lib/git";
+import type { Feature } from "../lib/database";
+import type { WorkflowPhase } from "../lib/workflow";
+import { renderProposal, type ProposeInput } from "./propose";
+import { renderSpec, type SpecifyInput } from "./specify";
+import { renderPlan, type PlanInput } from "./plan";
+import { renderTasks, type ImplementInput } from "./implement";
+import { renderReleaseNotes, getReleasePath, type ReleaseInput } from "./release";
+import { generateReview, getReviewPath, type ReviewInput } from "./review";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A row a phase would insert or update */
+export interface DatabaseChange {
+  table: "features" | "criteria";
+  action: "insert" | "update";
+  /** Feature the row belongs to */
+  featureId: string;
+  /** Columns written */
+  values: Record<string, unknown>;
+  /** Current values of the updated columns */
+  previous?: Record<string, unknown>;
+}
+
+/** What a phase would write */
+export interface PhasePreview {
+  artifactPath: string;
+  /** Would-be artifact content */
+  content: string;
+  /** Unified diff against the existing artifact ("" when unchanged) */
+  diff: string;
+  databaseChanges: DatabaseChange[];
+  /** Marker commit message ("" when the phase would not commit) */
+  commitMessage: string;
+  /** Problems the artifact validator reports for the rendered content */
+  validationErrors: string[];
+  /** Steps of a real run the preview did not perform */
+  skipped: string[];
+}
+
+export interface PreviewContext {
+  featureName: string;
+  projectPath: string;
+  /** Current database record (null for a new feature or project) */
+  feature: Feature | null;
+  /** The phase is the last of a workflow that does not end in release */
+  completesFeature: boolean;
+}
+
+export interface PreviewResult {
+  success: boolean;
+  preview?: PhasePreview;
+  error?: string;
+}
+
+/** Rendered artifact and the phase-specific changes that come with it */
+interface Rendered {
+  artifactPath: string;
+  content: string;
+  values: Record<string, unknown>;
+  criteria?: string[];
+  validationErrors?: string[];
+  skipped?: string[];
+  commits?: boolean;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Renders a phase's artifact through the phase's own render function.
+ */
+async function render(
+  phase: WorkflowPhase,
+  input: unknown,
+  context: PreviewContext
+): Promise<Rendered | { error: string }> {
+  const { featureName, projectPath } = context;
+  const config = getConfig(projectPath);
+
+  switch (phase.handler) {
+    case "propose": {
+      const artifactPath = getArtifactPath(featureName, "proposal", projectPath);
+      const content = renderProposal(input as ProposeInput, projectPath);
+      return {
+        artifactPath,
+        content,
+        values: { status: "in_progress", phase: phase.name, proposalPath: artifactPath },
+        validationErrors: validateProposal(content, config).errors,
+      };
+    }
+    case "specify": {
+      const artifactPath = getArtifactPath(featureName, "spec", projectPath);
+      const content = renderSpec(input as SpecifyInput, projectPath);
+      return {
+        artifactPath,
+        content,
+        values: { phase: phase.name, specPath: artifactPath },
+        validationErrors: validateSpec(content, config).errors,
+      };
+    }
+    case "plan": {
+      const rendered = renderPlan(input as PlanInput, projectPath);
+      if (!rendered.success) return { error: rendered.error! };
+      const artifactPath = getArtifactPath(featureName, "plan", projectPath);
+      return {
+        artifactPath,
+        content: rendered.content!,
+        values: { phase: phase.name, planPath: artifactPath },
+        validationErrors: validatePlan(rendered.content!, config).errors,
+      };
+    }
+    case "implement": {
+      const rendered = renderTasks(input as ImplementInput, projectPath);
+      if (!rendered.success) return { error: rendered.error! };
+      const artifactPath = getArtifactPath(featureName, "tasks", projectPath);
+      return {
+        artifactPath,
+        content: rendered.content!,
+        values: { phase: phase.name, tasksPath: artifactPath },
+        criteria: (input as ImplementInput).criteria.map(c => c.criterion),
+      };
+    }
+    case "release": {
+      const releaseInput = input as ReleaseInput;
+      const skipped: string[] = [];
+      if (!releaseInput.batchMode) skipped.push("Doctorow checklist (interactive; auto-approved with batchMode)");
+      if (releaseInput.verify) skipped.push("Running criterion Verify methods (would update tasks.md)");
+      if (releaseInput.merge && config.gitBranchPerFeature) {
+        skipped.push(`${releaseInput.merge === "squash" ? "Squashing" : "Merging"} specfirst/${featureName} into its base branch`);
+      }
+
+      const rendered = await renderReleaseNotes(releaseInput, projectPath);
+      if (!rendered.success) return { error: rendered.error! };
+      return {
+        artifactPath: getReleasePath(featureName, projectPath),
+        content: rendered.content!,
+        values: { phase: phase.name, status: "completed" },
+        skipped,
+      };
+    }
+    case "review": {
+      const reviewInput = input as ReviewInput;
+      if (typeof reviewInput.approved !== "boolean") {
+        return { error: `The ${phase.name} phase requires "approved: true" or "approved: false" in its input` };
+      }
+      const date = new Date().toISOString().split("T")[0];
+      return {
+        artifactPath: getReviewPath(featureName, phase.name, projectPath),
+        content: generateReview(reviewInput, phase, date),
+        values: reviewInput.approved ? { phase: phase.name } : {},
+        commits: reviewInput.approved,
+      };
+    }
+  }
+}
+
+/**
+ * Gets a path relative to the project, or absolute when outside it.
+ */
+function toDisplayPath(path: string, projectPath: string): string {
+  const rel = relative(projectPath, path);
+  return rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel : path;
+}
+
+/**
+ * Lists the rows a phase would insert or update.
+ */
+function planDatabaseChanges(rendered: Rendered, context: PreviewContext): DatabaseChange[] {
+  const { featureName, feature } = context;
+  const changes: DatabaseChange[] = [];
+  const completes = context.completesFeature && (rendered.commits ?? true);
+  const values = { ...rendered.values, ...(completes ? { status: "completed" } : {}) };
+
+  if (!feature) {
+    changes.push({ table: "features", action: "insert", featureId: featureName, values: { id: featureName, name: featureName } });
+  }
+
+  if (Object.keys(values).length > 0) {
+    const current = feature as unknown as Record<string, unknown> | null;
+    changes.push({
+      table: "features",
+      action: "update",
+      featureId: featureName,
+      values,
+      ...(current ? { previous: Object.fromEntries(Object.keys(values).map(key => [key, current[key]])) } : {}),
+    });
+  }
+
+  for (const criterion of rendered.criteria ?? []) {
+    changes.push({ table: "criteria", action: "insert", featureId: featureName, values: { criterion, status: "pending" } });
+  }
+
+  return changes;
+}
+
+// =============================================================================
+// Preview
+// =============================================================================
+
+/**
+ * Previews a phase: renders its artifact and lists the changes a real run
+ * would make, without touching disk, database or git.
+ *
+ * @param phase - Workflow phase to preview
+ * @param input - Validated phase input
+ * @param context - Feature, project and current database record
+ * @returns PreviewResult; fails where the phase itself would fail
+ *
+ * @example
+ * ```typescript
+ * const result = await previewPhase(getWorkflowPhase(workflow, "plan")!, input, {
+ *   featureName: "user-auth",
+ *   projectPath,
+ *   feature: getFeature("user-auth"),
+ *   completesFeature: false,
+ * });
+ * console.log(result.preview?.diff);
+ * ```
+ */
+export async function previewPhase(
+  phase: WorkflowPhase,
+  input: unknown,
+  context: PreviewContext
+): Promise<PreviewResult> {
+  const rendered = await render(phase, input, context);
+  if ("error" in rendered) {
+    return { success: false, error: rendered.error };
+  }
+
+  const { artifactPath, content } = rendered;
+  const existing = existsSync(artifactPath) ? await readFile(artifactPath, "utf-8") : null;
+  const displayPath = toDisplayPath(artifactPath, context.projectPath);
+  const commits = rendered.commits ?? true;
+
+  return {
+    success: true,
+    preview: {
+      artifactPath,
+      content,
+      diff: createUnifiedDiff(existing, content, {
+        oldPath: isAbsolute(displayPath) ? displayPath : `a/${displayPath}`,
+        newPath: isAbsolute(displayPath) ? displayPath : `b/${displayPath}`,
+      }),
+      databaseChanges: planDatabaseChanges(rendered, context),
+      commitMessage: commits
+        ? formatPhaseCommitMessage(phase.name, context.featureName, artifactPath, {
+          cwd: context.projectPath,
+          artifactSha256: createHash("sha256").update(content).digest("hex"),
+        })
+        : "",
+      validationErrors: rendered.validationErrors ?? [],
+      skipped: rendered.skipped ?? [],
+    },
+  };
+}
@@ -16,9 +16,10 @@
 import { writeFile } from "fs/promises";
 import { generateProposal, createProposalTemplate } from "../artifacts/proposal";
 import { getArtifactPath, ensureFeatureDirectories } from "../lib/config";
-import { createPhaseCommit } from "../lib/git";
+import { writePhase } from "../lib/journal";
+import { checkFeatureId } from "../lib/feature-id";
 import { prerequisiteGate } from "../gates/prerequisite";
-import { initDatabase, getFeature, addFeature, updateFeaturePhase, updateFeaturePaths, updateFeatureStatus } from "../lib/database";
+import { initDatabase, getFeature, addFeature, updateFeaturePaths, updateFeatureStatus } from "../lib/database";
 import type { SolutionApproach } from "../artifacts/types";
 
 /**
@@ -27,6 +28,8 @@ import type { SolutionApproach } from "../artifacts/types";
  */
 export interface ProposeInput {
   featureName: string;
+  /** Display title for a new feature (defaults to featureName) */
+  title?: string;
   problemStatement: string;
   solutionApproaches: Array<{
     name: string;
@@ -46,6 +49,27 @@ export interface PhaseResult {
   success: boolean;
   artifactPath?: string;
   error?: string;
+  /** Gate that stopped the phase */
+  failedGate?: string;
+}
+
+/**
+ * Renders proposal.md for the input without writing it.
+ * 
+ * @param input - ProposeInput with all proposal data
+ * @param projectPath - Project whose template overrides apply (defaults to cwd)
+ * @returns proposal.md content
+ */
+export function renderProposal(input: ProposeInput, projectPath?: string): string {
+  return generateProposal(
+    input.featureName,
+    input.problemStatement,
+    input.solutionApproaches as SolutionApproach[],
+    input.recommendedApproach,
+    input.antiPatterns || [],
+    input.openQuestions || [],
+    { projectPath }
+  );
 }
 
 /**
@@ -59,6 +83,7 @@ export interface PhaseResult {
  * 5. Create git commit marking phase completion
  * 
  * @param input - ProposeInput with all proposal data
+ * @param projectPath - Project to write into (defaults to cwd)
  * @returns PhaseResult indicating success/failure
  * 
  * @example
@@ -83,10 +108,12 @@ export interface PhaseResult {
  * }
  * ```
  */
-export async function proposePhase(input: ProposeInput): Promise<PhaseResult> {
+export async function proposePhase(input: ProposeInput, projectPath: string = process.cwd()): Promise<PhaseResult> {
+  const invalid = checkFeatureId(input.featureName);
+  if (invalid) return { success: false, error: invalid };
+
   try {
     // 1. Initialize database
-    const projectPath = process.cwd();
     initDatabase(projectPath);
     
     // 2. Get or create feature
@@ -94,7 +121,7 @@ export async function proposePhase(input: ProposeInput): Promise<PhaseResult> {
     if (!feature) {
       addFeature({
         id: input.featureName,
-        name: input.featureName,
+        name: input.title ?? input.featureName,
         description: input.problemStatement,
       });
       feature = getFeature(input.featureName);
@@ -104,46 +131,34 @@ export async function proposePhase(input: ProposeInput): Promise<PhaseResult> {
     updateFeatureStatus(input.featureName, "in_progress");
     
     // 4. Run prerequisite gate
-    const gateResult = await prerequisiteGate(input.featureName);
+    const gateResult = await prerequisiteGate(input.featureName, projectPath);
     if (!gateResult.passed) {
       return {
         success: false,
+        failedGate: "prerequisite",
         error: `Prerequisite gate failed: ${gateResult.error}\n\n${gateResult.resolution}`,
       };
     }
 
     // 5. Ensure directories exist
-    await ensureFeatureDirectories(input.featureName);
+    await ensureFeatureDirectories(input.featureName, projectPath);
 
     // 6. Generate proposal content
-    const proposalContent = generateProposal(
-      input.featureName,
-      input.problemStatement,
-      input.solutionApproaches as SolutionApproach[],
-      input.recommendedApproach,
-      input.antiPatterns || [],
-      input.openQuestions || []
-    );
+    const proposalContent = renderProposal(input, projectPath);
 
-    // 7. Write to file
-    const artifactPath = getArtifactPath(input.featureName, "proposal");
-    await writeFile(artifactPath, proposalContent, "utf-8");
-
-    // 8. Update SQLite: phase and paths
-    updateFeaturePhase(input.featureName, "propose");
-    updateFeaturePaths(input.featureName, {
-      proposalPath: artifactPath,
-    });
-
-    // 9. Create git commit (artifact only)
-    const commitResult = await createPhaseCommit(
-      "propose",
-      input.featureName,
-      artifactPath
-    );
+    // 7-9. Write the file, update SQLite (phase and paths) and commit it,
+    // journaled so an interrupted run is completed on the next start
+    const artifactPath = getArtifactPath(input.featureName, "proposal", projectPath);
+    const { commit: commitResult } = await writePhase({
+      featureName: input.featureName,
+      phase: "propose",
+      artifactPath,
+      content: proposalContent,
+      database: { phase: "propose", paths: { proposalPath: artifactPath } },
+    }, projectPath);
 
     if (!commitResult.success) {
-      // File was created but commit failed
+      // File was created but commit failed; retried on the next start
       return {
         success: false,
         artifactPath,
@@ -179,6 +194,8 @@ export async function proposePhase(input: ProposeInput): Promise<PhaseResult> {
  * 5. Skip git commit (user will commit after filling in template)
  * 
  * @param featureName - Name of the feature
+ * @param projectPath - Project to write into (defaults to cwd)
+ * @param title - Display title for a new feature (defaults to featureName)
  * @returns PhaseResult with path to template
  * 
  * @example
@@ -191,10 +208,12 @@ export async function proposePhase(input: ProposeInput): Promise<PhaseResult> {
  * }
  * ```
  */
-export async function createProposalInteractive(featureName: string): Promise<PhaseResult> {
+export async function createProposalInteractive(featureName: string, projectPath: string = process.cwd(), title?: string): Promise<PhaseResult> {
+  const invalid = checkFeatureId(featureName);
+  if (invalid) return { success: false, error: invalid };
+
   try {
     // 1. Initialize database
-    const projectPath = process.cwd();
     initDatabase(projectPath);
     
     // 2. Get or create feature
@@ -202,29 +221,30 @@ export async function createProposalInteractive(featureName: string): Promise<Ph
     if (!feature) {
       addFeature({
         id: featureName,
-        name: featureName,
+        name: title ?? featureName,
         description: "Interactive proposal - description pending",
       });
       feature = getFeature(featureName);
     }
     
     // 3. Run prerequisite gate
-    const gateResult = await prerequisiteGate(featureName);
+    const gateResult = await prerequisiteGate(featureName, projectPath);
     if (!gateResult.passed) {
       return {
         success: false,
+        failedGate: "prerequisite",
         error: `Prerequisite gate failed: ${gateResult.error}\n\n${gateResult.resolution}`,
       };
     }
 
     // 4. Ensure directories exist
-    await ensureFeatureDirectories(featureName);
+    await ensureFeatureDirectories(featureName, projectPath);
 
     // 5. Generate template content
     const templateContent = createProposalTemplate(featureName);
 
     // 6. Write to file
-    const artifactPath = getArtifactPath(featureName, "proposal");
+    const artifactPath = getArtifactPath(featureName, "proposal", projectPath);
     await writeFile(artifactPath, templateContent, "utf-8");
     
     // 7. Update SQLite paths
@@ -13,13 +13,21 @@
  * @version 3.0.0
  */
 
-import { readFile, writeFile } from "fs/promises";
+import { readFile } from "fs/promises";
+import { dirname, join } from "path";
 import { parseTasksFile } from "../artifacts/tasks";
-import { getArtifactPath, ensureFeatureDirectories } from "../lib/config";
-import { createPhaseCommit, getFeatureCommits } from "../lib/git";
+import { parseProposal } from "../artifacts/proposal";
+import { parseSpec } from "../artifacts/spec";
+import { parsePlan } from "../artifacts/plan";
+import { formatFrontmatter } from "../artifacts/frontmatter";
+import { verifyFeature, formatVerificationReport } from "../algorithm/verifier";
+import { getArtifactPath, ensureFeatureDirectories, getConfig } from "../lib/config";
+import { getFeatureCommits, mergeFeatureBranch, type MergeStrategy } from "../lib/git";
+import { checkFeatureId } from "../lib/feature-id";
 import { artifactGate } from "../gates/artifact";
 import { runDoctorowGateBatch, runDoctorowGateInteractive } from "../gates/doctorow";
-import { initDatabase, getFeature, addFeature, updateFeaturePhase, updateFeatureStatus } from "../lib/database";
+import { initDatabase, getFeature, addFeature, getFeatureTimeline } from "../lib/database";
+import { writePhase } from "../lib/journal";
 
 /**
  * Input for the release phase.
@@ -30,6 +38,8 @@ export interface ReleaseInput {
   releaseDate?: string;
   additionalNotes?: string;
   batchMode?: boolean; // If true, auto-approve Doctorow gate
+  verify?: boolean; // If true, run criterion Verify methods before checking statuses
+  merge?: MergeStrategy; // Branch-per-feature mode: merge or squash specfirst/<feature> after the release commit
 }
 
 /**
@@ -39,8 +49,90 @@ export interface PhaseResult {
   success: boolean;
   artifactPath?: string;
   error?: string;
+  /** Gate that stopped the phase */
+  failedGate?: string;
   releaseNotes?: string;
   incompleteCriteria?: number;
+  mergedInto?: string;
+}
+
+/**
+ * Release notes rendered from ReleaseInput, or why the feature cannot be released.
+ */
+export interface RenderResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+  incompleteCriteria?: number;
+}
+
+/**
+ * Gets the release notes path of a feature.
+ *
+ * @param featureName - Feature name
+ * @param projectPath - Project whose storage settings apply (defaults to cwd)
+ * @returns Path to RELEASE.md next to tasks.md
+ */
+export function getReleasePath(featureName: string, projectPath?: string): string {
+  return join(dirname(getArtifactPath(featureName, "tasks", projectPath)), "RELEASE.md");
+}
+
+/**
+ * Renders RELEASE.md for the input without writing it.
+ *
+ * Reads tasks.md and fails unless every criterion is ✅ and no
+ * anti-criterion is triggered (❌).
+ *
+ * @param input - ReleaseInput with version and metadata
+ * @param projectPath - Project whose artifacts and git history are read (defaults to cwd)
+ * @returns RenderResult with the release notes
+ */
+export async function renderReleaseNotes(input: ReleaseInput, projectPath?: string): Promise<RenderResult> {
+  // Parse tasks.md to get ISC criteria
+  const tasksPath = getArtifactPath(input.featureName, "tasks", projectPath);
+  const tasksContent = await readFile(tasksPath, "utf-8");
+  const { criteria, antiCriteria } = parseTasksFile(tasksContent);
+
+  // Verify ALL criteria have status ✅
+  const incomplete = criteria.filter(c => c.status !== "✅");
+  
+  if (incomplete.length > 0) {
+    const incompleteList = incomplete
+      .map(c => `  - #${c.id}: ${c.criterion} (${c.status})`)
+      .join("\n");
+    
+    return {
+      success: false,
+      incompleteCriteria: incomplete.length,
+      error: `Cannot release: ${incomplete.length} criteria not verified\n\n${incompleteList}\n\nAll criteria must be ✅ before release.`,
+    };
+  }
+
+  // Check anti-criteria are avoided (should be ✅ or 👀)
+  const triggeredAnti = antiCriteria.filter(a => a.status === "❌");
+  if (triggeredAnti.length > 0) {
+    const triggeredList = triggeredAnti
+      .map(a => `  - ${a.id}: ${a.criterion}`)
+      .join("\n");
+    
+    return {
+      success: false,
+      error: `Cannot release: ${triggeredAnti.length} anti-criteria triggered\n\n${triggeredList}`,
+    };
+  }
+
+  return {
+    success: true,
+    content: await generateReleaseNotes(
+      input.featureName,
+      input.version,
+      input.releaseDate,
+      criteria.length,
+      antiCriteria.length,
+      input.additionalNotes,
+      projectPath
+    ),
+  };
 }
 
 /**
@@ -49,14 +141,17 @@ export interface PhaseResult {
  * Flow:
  * 1. Run artifact gate (checks all required artifacts exist)
  * 2. Run Doctorow gate (pre-release checklist)
- * 3. Parse tasks.md to get ISC criteria
- * 4. Verify ALL criteria have status ✅
- * 5. If not all complete, return error with count
- * 6. Generate release notes from all artifacts
- * 7. Write RELEASE.md
- * 8. Create git commit
+ * 3. Optionally run criterion Verify methods (input.verify)
+ * 4. Parse tasks.md to get ISC criteria
+ * 5. Verify ALL criteria have status ✅
+ * 6. If not all complete, return error with count
+ * 7. Generate release notes from all artifacts
+ * 8. Write RELEASE.md
+ * 9. Create git commit
+ * 10. Branch-per-feature mode: merge or squash the feature branch (input.merge)
  * 
  * @param input - ReleaseInput with version and metadata
+ * @param projectPath - Project to write into (defaults to cwd)
  * @returns PhaseResult indicating success/failure
  * 
  * @example
@@ -75,11 +170,13 @@ export interface PhaseResult {
  * }
  * ```
  */
-export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
+export async function releasePhase(input: ReleaseInput, projectPath: string = process.cwd()): Promise<PhaseResult> {
+  const invalid = checkFeatureId(input.featureName);
+  if (invalid) return { success: false, error: invalid };
+
   try {
     // 1. Initialize database
     console.log("💾 Initializing database...");
-    const projectPath = process.cwd();
     initDatabase(projectPath);
     
     // 2. Get or create feature
@@ -94,10 +191,11 @@ export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
     }
     
     // 3. Run artifact gate (ensures all required artifacts exist)
-    const gateResult = await artifactGate("release", input.featureName);
+    const gateResult = await artifactGate("release", input.featureName, undefined, projectPath);
     if (!gateResult.passed) {
       return {
         success: false,
+        failedGate: "artifact",
         error: `Artifact gate failed: ${gateResult.error}\n\n${gateResult.resolution}`,
       };
     }
@@ -115,6 +213,7 @@ export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
 
       return {
         success: false,
+        failedGate: "doctorow",
         error: `Doctorow gate failed: ${doctorowResult.checks.filter(c => !c.passed).length} check(s) not completed\n\n${failedChecks}\n\nAll checks must pass before release.`,
       };
     }
@@ -125,67 +224,37 @@ export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
       console.log("   All checks auto-approved in batch mode");
     }
 
-    // 5. Parse tasks.md to get ISC criteria
-    const tasksPath = getArtifactPath(input.featureName, "tasks");
-    const tasksContent = await readFile(tasksPath, "utf-8");
-    const { criteria, antiCriteria } = parseTasksFile(tasksContent);
-
-    // 6. Verify ALL criteria have status ✅
-    const incomplete = criteria.filter(c => c.status !== "✅");
-    
-    if (incomplete.length > 0) {
-      const incompleteList = incomplete
-        .map(c => `  - #${c.id}: ${c.criterion} (${c.status})`)
-        .join("\n");
-      
-      return {
-        success: false,
-        incompleteCriteria: incomplete.length,
-        error: `Cannot release: ${incomplete.length} criteria not verified\n\n${incompleteList}\n\nAll criteria must be ✅ before release.`,
-      };
+    // 5. Optionally execute Verify methods so statuses reflect real evidence
+    if (input.verify) {
+      const report = await verifyFeature(input.featureName, { projectPath });
+      console.log(`\n${formatVerificationReport(report)}`);
     }
 
-    // Check anti-criteria are avoided (should be ✅ or 👀)
-    const triggeredAnti = antiCriteria.filter(a => a.status === "❌");
-    if (triggeredAnti.length > 0) {
-      const triggeredList = triggeredAnti
-        .map(a => `  - ${a.id}: ${a.criterion}`)
-        .join("\n");
-      
+    // 6-9. Check criteria statuses and generate release notes
+    const rendered = await renderReleaseNotes(input, projectPath);
+    if (!rendered.success) {
       return {
         success: false,
-        error: `Cannot release: ${triggeredAnti.length} anti-criteria triggered\n\n${triggeredList}`,
+        incompleteCriteria: rendered.incompleteCriteria,
+        error: rendered.error,
       };
     }
+    const releaseNotes = rendered.content!;
 
-    // 7. Generate release notes from all artifacts
-    const releaseNotes = await generateReleaseNotes(
-      input.featureName,
-      input.version,
-      input.releaseDate,
-      criteria.length,
-      antiCriteria.length,
-      input.additionalNotes
-    );
-
-    // 8. Write RELEASE.md
-    await ensureFeatureDirectories(input.featureName);
-    const releasePath = `${getArtifactPath(input.featureName, "tasks").replace("/tasks.md", "")}/RELEASE.md`;
-    await writeFile(releasePath, releaseNotes, "utf-8");
-
-    // 9. Update SQLite: phase and status to completed
+    // 10-11. Update SQLite (phase and status to completed) and create the
+    // git commit, journaled so an interrupted run is completed on the next start
+    await ensureFeatureDirectories(input.featureName, projectPath);
+    const releasePath = getReleasePath(input.featureName, projectPath);
     console.log("💾 Updating database state...");
-    updateFeaturePhase(input.featureName, "release");
-    updateFeatureStatus(input.featureName, "completed");
+    const { commit: commitResult } = await writePhase({
+      featureName: input.featureName,
+      phase: "release",
+      artifactPath: releasePath,
+      content: releaseNotes,
+      database: { phase: "release", status: "completed" },
+    }, projectPath);
     console.log("✅ Feature marked as completed in database");
 
-    // 10. Create git commit (artifact only)
-    const commitResult = await createPhaseCommit(
-      "release",
-      input.featureName,
-      releasePath
-    );
-
     if (!commitResult.success) {
       return {
         success: false,
@@ -194,10 +263,31 @@ export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
       };
     }
 
+    // 12. Merge the feature branch back (branch-per-feature mode)
+    let mergedInto: string | undefined;
+    if (getConfig(projectPath).gitBranchPerFeature) {
+      if (input.merge && !commitResult.pending) {
+        const mergeResult = await mergeFeatureBranch(input.featureName, input.merge, projectPath);
+        if (!mergeResult.success) {
+          return {
+            success: false,
+            artifactPath: releasePath,
+            releaseNotes,
+            error: `Release committed but ${input.merge} of specfirst/${input.featureName} failed: ${mergeResult.stderr || mergeResult.error?.message}`,
+          };
+        }
+        mergedInto = mergeResult.stdout;
+        console.log(`🔀 ${input.merge === "squash" ? "Squashed" : "Merged"} specfirst/${input.featureName} into ${mergedInto}`);
+      } else {
+        console.log(`💡 Release markers are on specfirst/${input.featureName}; release with merge: "merge" or "squash" to bring them back`);
+      }
+    }
+
     return {
       success: true,
       artifactPath: releasePath,
       releaseNotes,
+      mergedInto,
     };
   } catch (error) {
     const err = error as Error;
@@ -216,7 +306,8 @@ export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
  * - spec.md - Functional requirements
  * - plan.md - Implementation phases
  * - tasks.md - Verification status
- * - git history - Phase completion timeline
+ * - event log - Phase completion timeline (git history for features that
+ *   predate the event log)
  * 
  * @param featureName - Feature name
  * @param version - Release version
@@ -224,6 +315,7 @@ export async function releasePhase(input: ReleaseInput): Promise<PhaseResult> {
  * @param criteriaCount - Total criteria count
  * @param antiCriteriaCount - Total anti-criteria count
  * @param additionalNotes - Optional additional notes
+ * @param projectPath - Project whose artifacts and git history are read (defaults to cwd)
  * @returns Formatted release notes
  */
 async function generateReleaseNotes(
@@ -232,53 +324,31 @@ async function generateReleaseNotes(
   releaseDate: string | undefined,
   criteriaCount: number,
   antiCriteriaCount: number,
-  additionalNotes?: string
+  additionalNotes?: string,
+  projectPath?: string
 ): Promise<string> {
   const date = releaseDate || new Date().toISOString().split("T")[0];
   
   // Read proposal.md for problem statement
   let problemStatement = "(Problem statement not available)";
   try {
-    const proposalPath = getArtifactPath(featureName, "proposal");
-    const proposalContent = await readFile(proposalPath, "utf-8");
-    const match = proposalContent.match(/## Problem Statement\s+([^\n#]+(?:\n(?!##)[^\n]+)*)/);
-    if (match) {
-      problemStatement = match[1].trim();
+    const proposalPath = getArtifactPath(featureName, "proposal", projectPath);
+    const proposal = parseProposal(await readFile(proposalPath, "utf-8"));
+    if (proposal.problemStatement) {
+      problemStatement = proposal.problemStatement;
     }
   } catch {
-    // Proposal not available, use default
+    // Proposal not available or unparseable, use default
   }
 
   // Read spec.md for functional requirements
   let features: string[] = [];
   try {
-    const specPath = getArtifactPath(featureName, "spec");
-    const specContent = await readFile(specPath, "utf-8");
-    
-    // Extract FR rows from table
-    const lines = specContent.split("\n");
-    let inFRSection = false;
-    
-    for (const line of lines) {
-      if (line.includes("## Functional Requirements")) {
-        inFRSection = true;
-        continue;
-      }
-      
-      if (inFRSection && line.includes("##")) {
-        break; // End of FR section
-      }
-      
-      if (inFRSection && line.match(/^\|\s*FR-\d+/)) {
-        const columns = line.split("|").filter(c => c.trim());
-        if (columns.length >= 2) {
-          const frDescription = columns[1].trim();
-          features.push(frDescription);
-        }
-      }
-    }
+    const specPath = getArtifactPath(featureName, "spec", projectPath);
+    const spec = parseSpec(await readFile(specPath, "utf-8"));
+    features = spec.functionalRequirements.map(fr => fr.description);
   } catch {
-    // Spec not available
+    // Spec not available or unparseable
   }
 
   const featuresList = features.length > 0
@@ -288,51 +358,63 @@ async function generateReleaseNotes(
   // Read plan.md for phases
   let phasesList = "";
   try {
-    const planPath = getArtifactPath(featureName, "plan");
-    const planContent = await readFile(planPath, "utf-8");
+    const planPath = getArtifactPath(featureName, "plan", projectPath);
+    const plan = parsePlan(await readFile(planPath, "utf-8"));
     
-    // Extract phase names
-    const phaseMatches = planContent.matchAll(/### Phase (\d+): ([^\n]+)/g);
-    const phases = Array.from(phaseMatches).map(m => `${m[1]}. ${m[2].trim()}`);
-    
-    phasesList = phases.length > 0
-      ? phases.map(p => `- Phase ${p}`).join("\n")
+    phasesList = plan.implementationPhases.length > 0
+      ? plan.implementationPhases.map(p => `- Phase ${p.number}. ${p.name}`).join("\n")
       : "- (Phases not documented in plan.md)";
   } catch {
     phasesList = "- (plan.md not available)";
   }
 
-  // Get git commit history for phase timeline
+  // Phase timeline from the event log, falling back to git commits
   let phaseHistory = "";
   try {
-    const commits = await getFeatureCommits(featureName);
-    
-    if (commits.length > 0) {
-      phaseHistory = commits
-        .map(c => {
-          const phaseName = c.message.match(/SpecFirst: (\w+) phase/)?.[1] || "unknown";
-          const date = new Date(c.timestamp).toISOString().split("T")[0];
-          return `- **${phaseName}**: ${date} (${c.hash.substring(0, 7)})`;
-        })
-        .join("\n");
-    } else {
-      phaseHistory = "- No phase commits found";
-    }
+    const phaseEvents = getFeatureTimeline(featureName).filter(e => e.type === "feature.phase");
+    phaseHistory = phaseEvents
+      .map(e => {
+        const date = e.at.toISOString().split("T")[0];
+        const from = e.from && e.from !== "none" ? `from ${e.from}, ` : "";
+        return `- **${e.to}**: ${date} (${from}by ${e.actor})`;
+      })
+      .join("\n");
   } catch {
-    phaseHistory = "- (Git history not available)";
+    // Database not open (preview without a database)
+  }
+  if (!phaseHistory) {
+    try {
+      const commits = await getFeatureCommits(featureName, projectPath);
+      
+      if (commits.length > 0) {
+        phaseHistory = commits
+          .map(c => {
+            const phaseName = c.message.match(/SpecFirst: ([\w-]+) phase/)?.[1] || "unknown";
+            const date = new Date(c.timestamp).toISOString().split("T")[0];
+            return `- **${phaseName}**: ${date} (${c.hash.substring(0, 7)})`;
+          })
+          .join("\n");
+      } else {
+        phaseHistory = "- No phase history recorded";
+      }
+    } catch {
+      phaseHistory = "- (Git history not available)";
+    }
   }
 
   const notesSection = additionalNotes
     ? `\n## Additional Notes\n\n${additionalNotes}\n`
     : "";
 
-  return `---
-feature: ${featureName}
-version: ${version}
-release_date: ${date}
-phase: release
-status: complete
----
+  const frontmatter = formatFrontmatter({
+    feature: featureName,
+    version,
+    release_date: date,
+    phase: "release",
+    status: "complete",
+  });
+
+  return `${frontmatter}
 
 # ${featureName} - Release Notes v${version}
 
@@ -0,0 +1,208 @@
+/**
+ * Review Phase - SpecFirst 4.0
+ *
+ * Runs custom workflow phases that are not one of the built-in phases,
+ * such as a security review or spike findings (see lib/workflow). Writes
+ * `<phase>.md` next to the other feature artifacts with the checklist,
+ * findings and the reviewer's decision.
+ *
+ * Only an approved review creates the phase completion commit; a review
+ * that requests changes records the document and leaves the phase open.
+ *
+ * @module phases/review
+ * @version 4.0.0
+ */
+
+import { dirname, join } from "path";
+import { formatFrontmatter } from "../artifacts/frontmatter";
+import { getArtifactPath, ensureFeatureDirectories } from "../lib/config";
+import { writePhase, writeFileAtomic } from "../lib/journal";
+import type { GitResult } from "../lib/git";
+import { checkFeatureId } from "../lib/feature-id";
+import { artifactGate } from "../gates/artifact";
+import { initDatabase, getFeature, addFeature } from "../lib/database";
+import type { WorkflowDefinition, WorkflowPhase } from "../lib/workflow";
+
+/**
+ * Input for a review phase.
+ */
+export interface ReviewInput {
+  featureName: string;
+  /** Whether the reviewer signs off the phase */
+  approved: boolean;
+  reviewer?: string;
+  /** One entry per finding */
+  findings?: string[];
+  notes?: string;
+}
+
+/**
+ * Result of a review phase execution.
+ */
+export interface PhaseResult {
+  success: boolean;
+  artifactPath?: string;
+  error?: string;
+  /** Gate that stopped the phase */
+  failedGate?: string;
+  message?: string;
+}
+
+/**
+ * Gets the document a review phase writes.
+ *
+ * @param featureName - Feature name
+ * @param phaseName - Review phase name
+ * @param projectPath - Project whose storage settings apply (defaults to cwd)
+ * @returns Path to `<phase>.md` in the feature's specs directory
+ */
+export function getReviewPath(featureName: string, phaseName: string, projectPath?: string): string {
+  return join(dirname(getArtifactPath(featureName, "spec", projectPath)), `${phaseName}.md`);
+}
+
+/**
+ * Renders the review document.
+ */
+export function generateReview(input: ReviewInput, phase: WorkflowPhase, date: string): string {
+  const title = phase.name.split("-").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+  const mark = input.approved ? "x" : " ";
+  const findings = input.findings ?? [];
+
+  const sections = [
+    formatFrontmatter({
+      feature: input.featureName,
+      phase: phase.name,
+      status: input.approved ? "approved" : "review",
+      reviewer: input.reviewer,
+      date,
+    }),
+    "",
+    `# ${title}: ${input.featureName}`,
+    "",
+    ...(phase.description ? [phase.description, ""] : []),
+    "## Checklist",
+    "",
+    ...(phase.checklist && phase.checklist.length > 0
+      ? phase.checklist.map(item => `- [${mark}] ${item}`)
+      : ["- (No checklist defined)"]),
+    "",
+    "## Findings",
+    "",
+    ...(findings.length > 0 ? findings.map(f => `- ${f}`) : ["- None"]),
+    "",
+    "## Decision",
+    "",
+    input.approved
+      ? `Approved${input.reviewer ? ` by ${input.reviewer}` : ""}.`
+      : "Changes requested. Re-run this phase once the findings are resolved.",
+    "",
+  ];
+
+  if (input.notes) {
+    sections.push("## Notes", "", input.notes, "");
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Executes a review phase.
+ *
+ * Workflow:
+ * 1. Run artifact gate against the workflow
+ * 2. Write `<phase>.md`
+ * 3. If approved: record the phase in SQLite and create the completion commit
+ *
+ * @param input - Reviewer decision and findings
+ * @param phase - Workflow phase being run
+ * @param workflow - Workflow the phase belongs to
+ * @param projectPath - Project to write into (defaults to cwd)
+ * @returns PhaseResult; fails when the review requests changes
+ *
+ * @example
+ * ```typescript
+ * const workflow = getWorkflow("secure");
+ * const result = await reviewPhase(
+ *   { featureName: "user-auth", approved: true, reviewer: "sam", findings: [] },
+ *   getWorkflowPhase(workflow, "security-review")!,
+ *   workflow
+ * );
+ * ```
+ */
+export async function reviewPhase(
+  input: ReviewInput,
+  phase: WorkflowPhase,
+  workflow: WorkflowDefinition,
+  projectPath: string = process.cwd()
+): Promise<PhaseResult> {
+  const { featureName } = input;
+
+  const invalid = checkFeatureId(featureName);
+  if (invalid) return { success: false, error: invalid };
+
+  if (typeof input.approved !== "boolean") {
+    return {
+      success: false,
+      error: `The ${phase.name} phase requires "approved: true" or "approved: false" in its input`,
+    };
+  }
+
+  // 1. Initialize database
+  initDatabase(projectPath);
+  if (!getFeature(featureName)) {
+    addFeature({ id: featureName, name: featureName, workflow: workflow.name });
+  }
+
+  // 2. Run artifact gate
+  const gateResult = await artifactGate(phase.name, featureName, workflow, projectPath);
+  if (!gateResult.passed) {
+    return {
+      success: false,
+      failedGate: "artifact",
+      error: gateResult.error,
+      message: gateResult.resolution,
+    };
+  }
+
+  // 3. Write the review document; an approval also records the completed
+  // phase, journaled so an interrupted run is completed on the next start
+  await ensureFeatureDirectories(featureName, projectPath);
+  const reviewPath = getReviewPath(featureName, phase.name, projectPath);
+  const date = new Date().toISOString().split("T")[0];
+  const content = generateReview(input, phase, date);
+
+  let gitResult: GitResult;
+  try {
+    if (!input.approved) {
+      await writeFileAtomic(reviewPath, content);
+      return {
+        success: false,
+        artifactPath: reviewPath,
+        error: `Review requested changes for ${featureName}; see ${reviewPath}`,
+      };
+    }
+    ({ commit: gitResult } = await writePhase({
+      featureName,
+      phase: phase.name,
+      artifactPath: reviewPath,
+      content,
+      database: { phase: phase.name },
+    }, projectPath));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to write ${phase.name}.md: ${(error as Error).message}`,
+    };
+  }
+
+  if (!gitResult.success) {
+    console.warn(`⚠️  Git commit failed: ${gitResult.stderr}`);
+    console.warn("Review recorded but not committed to git; the commit is retried on the next run.");
+  }
+
+  return {
+    success: true,
+    artifactPath: reviewPath,
+    message: `${phase.name} approved for ${featureName}`,
+  };
+}
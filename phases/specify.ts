@@ -9,12 +9,15 @@
  * @version 3.0.0
  */
 
+import { existsSync } from "fs";
 import { readFile, writeFile } from "fs/promises";
 import { generateSpec, createSpecTemplate } from "../artifacts/spec";
 import { getArtifactPath, ensureFeatureDirectories } from "../lib/config";
-import { createPhaseCommit } from "../lib/git";
+import { writePhase } from "../lib/journal";
+import type { GitResult } from "../lib/git";
+import { checkFeatureId } from "../lib/feature-id";
 import { artifactGate } from "../gates/artifact";
-import { initDatabase, getFeature, addFeature, updateFeaturePhase, updateFeaturePaths } from "../lib/database";
+import { initDatabase, getFeature, addFeature, updateFeaturePaths } from "../lib/database";
 
 /**
  * Input for the Specify phase.
@@ -57,9 +60,31 @@ export interface PhaseResult {
   success: boolean;
   artifactPath?: string;
   error?: string;
+  /** Gate that stopped the phase */
+  failedGate?: string;
   message?: string;
 }
 
+/**
+ * Renders spec.md for the input without writing it.
+ * 
+ * @param input - Specification data
+ * @param projectPath - Project whose template overrides apply (defaults to cwd)
+ * @returns spec.md content
+ */
+export function renderSpec(input: SpecifyInput, projectPath?: string): string {
+  return generateSpec(
+    input.featureName,
+    input.functionalRequirements,
+    input.nonFunctionalRequirements,
+    input.userStories,
+    input.successCriteria,
+    input.architectureDiagram,
+    input.milestone,
+    { projectPath }
+  );
+}
+
 /**
  * Executes the Specify phase.
  * 
@@ -72,6 +97,7 @@ export interface PhaseResult {
  * 6. Create git commit (if in git repo)
  * 
  * @param input - Specification data (FRs, NFRs, user stories, etc.)
+ * @param projectPath - Project to write into (defaults to cwd)
  * @returns PhaseResult with success status and artifact path
  * 
  * @example
@@ -94,12 +120,13 @@ export interface PhaseResult {
  * }
  * ```
  */
-export async function specifyPhase(input: SpecifyInput): Promise<PhaseResult> {
+export async function specifyPhase(input: SpecifyInput, projectPath: string = process.cwd()): Promise<PhaseResult> {
   const { featureName } = input;
+  const invalid = checkFeatureId(featureName);
+  if (invalid) return { success: false, error: invalid };
   
   // 1. Initialize database
   console.log("💾 Initializing database...");
-  const projectPath = process.cwd();
   initDatabase(projectPath);
   
   // 2. Get or create feature
@@ -115,11 +142,12 @@ export async function specifyPhase(input: SpecifyInput): Promise<PhaseResult> {
   
   // 3. Run artifact gate (checks proposal exists)
   console.log("🔍 Running artifact gate...");
-  const gateResult = await artifactGate("specify", featureName);
+  const gateResult = await artifactGate("specify", featureName, undefined, projectPath);
   
   if (!gateResult.passed) {
     return {
       success: false,
+      failedGate: "artifact",
       error: gateResult.error,
       message: gateResult.resolution,
     };
@@ -127,40 +155,42 @@ export async function specifyPhase(input: SpecifyInput): Promise<PhaseResult> {
   
   // 4. Ensure feature directories exist
   console.log("📁 Ensuring feature directories exist...");
-  await ensureFeatureDirectories(featureName);
-  
-  // 5. Read proposal.md for context
-  const proposalPath = getArtifactPath(featureName, "proposal");
-  console.log(`📖 Reading proposal from ${proposalPath}...`);
-  
-  let proposalContent: string;
-  try {
-    proposalContent = await readFile(proposalPath, "utf-8");
-  } catch (error) {
-    return {
-      success: false,
-      error: `Failed to read proposal.md: ${(error as Error).message}`,
-    };
+  await ensureFeatureDirectories(featureName, projectPath);
+  
+  // 5. Read proposal.md for context (workflows without a propose phase have none)
+  const proposalPath = getArtifactPath(featureName, "proposal", projectPath);
+  
+  let proposalContent: string | undefined;
+  if (existsSync(proposalPath)) {
+    console.log(`📖 Reading proposal from ${proposalPath}...`);
+    try {
+      proposalContent = await readFile(proposalPath, "utf-8");
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to read proposal.md: ${(error as Error).message}`,
+      };
+    }
   }
   
   // 6. Generate spec content
   console.log("⚙️  Generating spec content...");
-  const specContent = generateSpec(
-    featureName,
-    input.functionalRequirements,
-    input.nonFunctionalRequirements,
-    input.userStories,
-    input.successCriteria,
-    input.architectureDiagram,
-    input.milestone
-  );
+  const specContent = renderSpec(input, projectPath);
   
-  // 7. Write to file
-  const specPath = getArtifactPath(featureName, "spec");
+  // 7-9. Write to file, update SQLite (phase and paths) and create the
+  // git commit, journaled so an interrupted run is completed on the next start
+  const specPath = getArtifactPath(featureName, "spec", projectPath);
   console.log(`💾 Writing spec to ${specPath}...`);
   
+  let gitResult: GitResult;
   try {
-    await writeFile(specPath, specContent, "utf-8");
+    ({ commit: gitResult } = await writePhase({
+      featureName,
+      phase: "specify",
+      artifactPath: specPath,
+      content: specContent,
+      database: { phase: "specify", paths: { specPath } },
+    }, projectPath));
   } catch (error) {
     return {
       success: false,
@@ -168,21 +198,10 @@ export async function specifyPhase(input: SpecifyInput): Promise<PhaseResult> {
     };
   }
   
-  // 8. Update SQLite: phase and paths
-  console.log("💾 Updating database state...");
-  updateFeaturePhase(featureName, "specify");
-  updateFeaturePaths(featureName, {
-    specPath: specPath,
-  });
-  
-  // 9. Create git commit (artifact only)
-  console.log("📝 Creating git commit...");
-  const gitResult = await createPhaseCommit("specify", featureName, specPath);
-  
   if (!gitResult.success) {
     // Git commit failed but artifact was created - warn but don't fail
     console.warn(`⚠️  Git commit failed: ${gitResult.stderr}`);
-    console.warn("Artifact created successfully but not committed to git.");
+    console.warn("Artifact created successfully but not committed to git; the commit is retried on the next run.");
   } else {
     console.log("✅ Git commit created");
   }
@@ -199,11 +218,14 @@ export async function specifyPhase(input: SpecifyInput): Promise<PhaseResult> {
  * Used when AI-generated requirements are not desired.
  * 
  * @param featureName - Name of the feature
+ * @param projectPath - Project to write into (defaults to cwd)
  * @returns PhaseResult with success status
  */
-export async function createSpecManual(featureName: string): Promise<PhaseResult> {
+export async function createSpecManual(featureName: string, projectPath: string = process.cwd()): Promise<PhaseResult> {
+  const invalid = checkFeatureId(featureName);
+  if (invalid) return { success: false, error: invalid };
+
   // 1. Initialize database
-  const projectPath = process.cwd();
   initDatabase(projectPath);
   
   // 2. Get or create feature
@@ -218,24 +240,25 @@ export async function createSpecManual(featureName: string): Promise<PhaseResult
   }
   
   // 3. Run artifact gate
-  const gateResult = await artifactGate("specify", featureName);
+  const gateResult = await artifactGate("specify", featureName, undefined, projectPath);
   
   if (!gateResult.passed) {
     return {
       success: false,
+      failedGate: "artifact",
       error: gateResult.error,
       message: gateResult.resolution,
     };
   }
   
   // 4. Ensure directories exist
-  await ensureFeatureDirectories(featureName);
+  await ensureFeatureDirectories(featureName, projectPath);
   
   // 5. Generate template
   const specContent = createSpecTemplate(featureName);
   
   // 6. Write to file
-  const specPath = getArtifactPath(featureName, "spec");
+  const specPath = getArtifactPath(featureName, "spec", projectPath);
   
   try {
     await writeFile(specPath, specContent, "utf-8");
@@ -18,6 +18,7 @@ import {
   resolvePath,
   getFeatureDir,
   getProjectDir,
+  getPlatforms,
   type Platform,
 } from "../../lib/platform";
 import { getConfig, getArtifactPath } from "../../lib/config";
@@ -209,7 +210,7 @@ describe("Platform Compatibility", () => {
       
       // This will check filesystem, result depends on actual setup
       const platform = detectPlatform();
-      expect(["opencode", "claudecode", "unknown"]).toContain(platform);
+      expect(getPlatforms().map(p => p.id)).toContain(platform);
     });
   });
 
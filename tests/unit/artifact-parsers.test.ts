@@ -0,0 +1,254 @@
+/**
+ * Artifact Parser Unit Tests - SpecFirst 4.0
+ *
+ * Tests that parseProposal, parseSpec and parsePlan round-trip the markdown
+ * produced by the generators and report line-numbered errors.
+ *
+ * @module tests/unit/artifact-parsers
+ * @version 4.0.0
+ */
+
+import { describe, it, expect } from "bun:test";
+import { generateProposal, parseProposal } from "../../artifacts/proposal";
+import { generateSpec, parseSpec } from "../../artifacts/spec";
+import { generatePlan, parsePlan } from "../../artifacts/plan";
+import { ArtifactParseError } from "../../artifacts/markdown";
+import type {
+  SolutionApproach,
+  FunctionalRequirement,
+  NonFunctionalRequirement,
+  UserStory,
+  SuccessCriterion,
+  ADR,
+  ImplementationPhase,
+  TestingStrategy,
+  Risk,
+  Dependency,
+} from "../../artifacts/types";
+
+/**
+ * Runs a parser and returns the ArtifactParseError it throws.
+ */
+function parseError(fn: () => unknown): ArtifactParseError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ArtifactParseError);
+    return error as ArtifactParseError;
+  }
+  throw new Error("Expected ArtifactParseError");
+}
+
+describe("parseProposal()", () => {
+  const approaches: SolutionApproach[] = [
+    {
+      name: "Email-based reset",
+      description: "Send a signed reset link.\nLinks expire after one hour.",
+      pros: ["Simple", "Familiar to users"],
+      cons: ["Requires email access"],
+    },
+    {
+      name: "SMS codes",
+      description: "Send a one-time code by SMS.",
+      pros: [],
+      cons: ["Carrier costs", "SIM swapping"],
+    },
+  ];
+
+  it("should round-trip generateProposal output", () => {
+    const content = generateProposal(
+      "password-reset",
+      "Users cannot reset their passwords without support.",
+      approaches,
+      "Email-based reset because it needs no new infrastructure.",
+      ["Security questions"],
+      ["Should links be single-use?"]
+    );
+
+    const proposal = parseProposal(content);
+
+    expect(proposal.frontmatter.feature).toBe("password-reset");
+    expect(proposal.frontmatter.phase).toBe("propose");
+    expect(proposal.problemStatement).toBe("Users cannot reset their passwords without support.");
+    expect(proposal.solutionApproaches).toEqual(approaches);
+    expect(proposal.recommendedApproach).toBe("Email-based reset because it needs no new infrastructure.");
+    expect(proposal.antiPatterns).toEqual(["Security questions"]);
+    expect(proposal.openQuestions).toEqual(["Should links be single-use?"]);
+  });
+
+  it("should drop the empty anti-patterns placeholder", () => {
+    const proposal = parseProposal(generateProposal("f", "Problem", approaches, "A"));
+
+    expect(proposal.antiPatterns).toEqual([]);
+    expect(proposal.openQuestions).toEqual([]);
+  });
+
+  it("should report missing sections", () => {
+    const content = "---\nfeature: f\nphase: propose\nstatus: draft\ncreated: 2026-01-01\n---\n\n# f\n\n## Problem Statement\n\nX\n";
+    const error = parseError(() => parseProposal(content));
+
+    const messages = error.errors.map(e => e.message);
+    expect(messages).toContain("Missing required section: Solution Approaches");
+    expect(messages).toContain("Missing required section: Recommended Approach");
+  });
+
+  it("should report malformed option headings with line numbers", () => {
+    const content = generateProposal("f", "Problem", approaches, "A").replace("### Option B: SMS codes", "### SMS codes");
+    const error = parseError(() => parseProposal(content));
+    const line = content.split("\n").indexOf("### SMS codes") + 1;
+
+    expect(error.errors[0].line).toBe(line);
+    expect(error.message).toContain(`Line ${line}`);
+  });
+
+  it("should reject a phase mismatch in frontmatter", () => {
+    const content = generateProposal("f", "Problem", approaches, "A").replace("phase: propose", "phase: plan");
+    const error = parseError(() => parseProposal(content));
+
+    expect(error.errors[0].field).toBe("frontmatter.phase");
+    expect(error.errors[0].line).toBe(3);
+  });
+});
+
+describe("parseSpec()", () => {
+  const frs: FunctionalRequirement[] = [
+    { id: "FR-001", description: "System sends reset email", priority: "must", verificationMethod: "Integration test" },
+    { id: "FR-002", description: "Links expire after one hour", priority: "should", verificationMethod: "Unit test" },
+  ];
+  const nfrs: NonFunctionalRequirement[] = [
+    { id: "NFR-001", description: "Email delivery latency", metric: "p95", target: "< 30s" },
+  ];
+  const stories: UserStory[] = [
+    { id: "US-001", title: "Reset forgotten password", given: "a registered user", when: "they request a reset", then: "an email arrives" },
+  ];
+  const scs: SuccessCriterion[] = [
+    { id: "SC-001", description: "Support tickets drop by half", verificationMethod: "Helpdesk report" },
+  ];
+
+  it("should round-trip generateSpec output", () => {
+    const diagram = "```mermaid\ngraph TD\n  A --> B\n```";
+    const spec = parseSpec(generateSpec("password-reset", frs, nfrs, stories, scs, diagram, "M1"));
+
+    expect(spec.frontmatter.based_on).toBe("proposal.md");
+    expect(spec.frontmatter.milestone).toBe("M1");
+    expect(spec.functionalRequirements).toEqual(frs);
+    expect(spec.nonFunctionalRequirements).toEqual(nfrs);
+    expect(spec.userStories).toEqual(stories);
+    expect(spec.successCriteria).toEqual(scs);
+    expect(spec.architectureDiagram).toBe(diagram);
+  });
+
+  it("should return empty lists for placeholder tables", () => {
+    const spec = parseSpec(generateSpec("f", [], [], [], []));
+
+    expect(spec.functionalRequirements).toEqual([]);
+    expect(spec.nonFunctionalRequirements).toEqual([]);
+    expect(spec.successCriteria).toEqual([]);
+    expect(spec.architectureDiagram).toBeUndefined();
+  });
+
+  it("should report invalid priorities with the table line", () => {
+    const content = generateSpec("f", frs, nfrs, stories, scs).replace("| MUST |", "| URGENT |");
+    const error = parseError(() => parseSpec(content));
+    const line = content.split("\n").findIndex(l => l.includes("URGENT")) + 1;
+
+    expect(error.errors).toHaveLength(1);
+    expect(error.errors[0].line).toBe(line);
+    expect(error.errors[0].message).toContain("URGENT");
+  });
+
+  it("should report user stories missing Given/When/Then", () => {
+    const content = generateSpec("f", frs, nfrs, stories, scs).replace("**When:** they request a reset\n", "");
+    const error = parseError(() => parseSpec(content));
+
+    expect(error.errors[0].field).toBe("userStories.US-001.when");
+  });
+});
+
+describe("parsePlan()", () => {
+  const adrs: ADR[] = [
+    {
+      id: "ADR-001",
+      title: "Use signed tokens",
+      status: "accepted",
+      date: "2026-01-25",
+      context: "Reset links must not be guessable.",
+      decision: "Use HMAC-signed tokens.",
+      rationale: "No database lookup needed.",
+      alternatives: [{ name: "Random IDs", reason: "Requires storage" }],
+      consequences: ["Key rotation needed", "Stateless verification"],
+    },
+  ];
+  const phases: ImplementationPhase[] = [
+    {
+      number: 1,
+      name: "Foundation",
+      objective: "Token signing",
+      deliverables: ["Signer module"],
+      acceptanceCriteria: ["Tokens verify"],
+      estimatedEffort: "2 days",
+      dependencies: [],
+      risks: ["Clock skew"],
+    },
+    {
+      number: 2,
+      name: "Email",
+      objective: "Send reset emails",
+      deliverables: ["Mailer", "Templates"],
+      acceptanceCriteria: ["Email sent"],
+      estimatedEffort: "3 days",
+      dependencies: ["Phase 1"],
+      risks: [],
+    },
+  ];
+  const testing: TestingStrategy = {
+    unitTests: "bun test",
+    integrationTests: "Mail sandbox",
+    e2eTests: "Playwright",
+    performanceTests: "k6",
+    coverageTarget: "80%",
+  };
+  const risks: Risk[] = [
+    { id: "R-001", description: "Email spam filters", probability: "medium", impact: "high", mitigation: "SPF/DKIM" },
+  ];
+  const deps: Dependency[] = [
+    { name: "SMTP relay", type: "external", risk: "low", mitigation: "Fallback provider" },
+  ];
+
+  it("should round-trip generatePlan output", () => {
+    const content = generatePlan("password-reset", "Two phases.", adrs, phases, testing, risks, deps, "Revert deploy.");
+    const plan = parsePlan(content);
+
+    expect(plan.frontmatter.based_on).toBe("spec.md");
+    expect(plan.executiveSummary).toBe("Two phases.");
+    expect(plan.adrs).toEqual(adrs);
+    expect(plan.implementationPhases).toEqual(phases);
+    expect(plan.testingStrategy).toEqual(testing);
+    expect(plan.riskMatrix).toEqual(risks);
+    expect(plan.dependencies).toEqual(deps);
+    expect(plan.rollbackProcedures).toBe("Revert deploy.");
+  });
+
+  it("should return empty lists for placeholder tables", () => {
+    const plan = parsePlan(generatePlan("f", "S", [], phases, testing, [], [], "R"));
+
+    expect(plan.adrs).toEqual([]);
+    expect(plan.riskMatrix).toEqual([]);
+    expect(plan.dependencies).toEqual([]);
+  });
+
+  it("should report invalid risk levels with the table line", () => {
+    const content = generatePlan("f", "S", adrs, phases, testing, risks, deps, "R").replace("| MEDIUM |", "| SEVERE |");
+    const error = parseError(() => parsePlan(content));
+    const line = content.split("\n").findIndex(l => l.includes("SEVERE")) + 1;
+
+    expect(error.errors[0].line).toBe(line);
+    expect(error.errors[0].field).toBe("riskMatrix.R-001.probability");
+  });
+
+  it("should require at least one implementation phase", () => {
+    const error = parseError(() => parsePlan(generatePlan("f", "S", [], [], testing, [], [], "R")));
+
+    expect(error.errors[0].message).toContain("need at least one ### Phase section");
+  });
+});
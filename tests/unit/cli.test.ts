@@ -0,0 +1,400 @@
+/**
+ * CLI Unit Tests - SpecFirst 4.0
+ *
+ * Tests argument parsing, input loading and exit codes of the specfirst CLI.
+ *
+ * @module tests/unit/cli
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  runCli,
+  parseArgs,
+  parseInputContent,
+  loadPhaseInput,
+  exitCodeForResult,
+  EXIT_CODES,
+  CliError,
+  type CliIO,
+} from "../../cli/specfirst";
+import { getArtifactPath } from "../../lib/config";
+import { setGitBackend, __testing as gitTesting } from "../../lib/git";
+import { closeDatabase } from "../../lib/database";
+
+const FIXTURES_DIR = join(import.meta.dir, "../fixtures/test-feature");
+
+const VALID_TASKS = `
+## IDEAL
+Test feature working correctly with all functionality
+
+## ISC TRACKER
+
+| # | Criterion | Status | Evidence |
+|---|-----------|--------|----------|
+| 1 | Criterion one has exactly eight words total | ⬜ | - |
+| 2 | Criterion two also has exactly eight words | ⬜ | - |
+
+## ANTI-CRITERIA
+
+| ! | Anti-Criterion | Status |
+|---|----------------|--------|
+| 1 | System must not crash when receiving invalid user input | 👀 |
+
+## PROGRESS
+0/2 verified
+`;
+
+/**
+ * Creates an in-memory IO that records output.
+ */
+function createIO(stdin = ""): CliIO & { out: string[]; err: string[] } {
+  const out: string[] = [];
+  const err: string[] = [];
+  return {
+    out,
+    err,
+    stdout: (line) => out.push(line),
+    stderr: (line) => err.push(line),
+    readStdin: async () => stdin,
+  };
+}
+
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), "specfirst-cli-"));
+});
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe("parseArgs()", () => {
+  it("should split command, positionals and flags", () => {
+    const args = parseArgs(["propose", "user-auth", "--input", "p.yaml", "--batch"]);
+
+    expect(args.command).toBe("propose");
+    expect(args.positionals).toEqual(["user-auth"]);
+    expect(args.input).toBe("p.yaml");
+    expect(args.batch).toBe(true);
+    expect(args.quick).toBe(false);
+  });
+
+  it("should accept - as stdin input", () => {
+    const args = parseArgs(["plan", "user-auth", "-i", "-"]);
+    expect(args.input).toBe("-");
+  });
+
+  it("should reject unknown options", () => {
+    expect(() => parseArgs(["list", "--nope"])).toThrow(CliError);
+  });
+
+  it("should reject options missing a value", () => {
+    expect(() => parseArgs(["propose", "user-auth", "--input"])).toThrow("requires a value");
+  });
+});
+
+describe("parseInputContent()", () => {
+  it("should parse JSON files strictly", () => {
+    const input = parseInputContent('{"featureName": "a", "problemStatement": "b"}', "input.json");
+    expect(input.problemStatement).toBe("b");
+  });
+
+  it("should parse YAML files", () => {
+    const input = parseInputContent("featureName: a\nsolutionApproaches:\n  - name: Queue\n", "input.yaml");
+    expect(input.solutionApproaches).toEqual([{ name: "Queue" }]);
+  });
+
+  it("should parse JSON from stdin", () => {
+    const input = parseInputContent('{"version": "1.0.0"}', "-");
+    expect(input.version).toBe("1.0.0");
+  });
+
+  it("should reject non-object input with input exit code", () => {
+    try {
+      parseInputContent("- just\n- a list\n", "-");
+      throw new Error("expected CliError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(CliError);
+      expect((error as CliError).exitCode).toBe(EXIT_CODES.INPUT);
+    }
+  });
+
+  it("should reject malformed JSON", () => {
+    expect(() => parseInputContent("{ nope", "input.json")).toThrow("Failed to parse input");
+  });
+});
+
+describe("loadPhaseInput()", () => {
+  it("should fill in featureName when omitted", async () => {
+    const path = join(tempDir, "propose.yaml");
+    await writeFile(path, "problemStatement: Users cannot reset passwords\n", "utf-8");
+
+    const input = await loadPhaseInput(path, "password-reset", createIO());
+
+    expect(input.featureName).toBe("password-reset");
+    expect(input.problemStatement).toBe("Users cannot reset passwords");
+  });
+
+  it("should read stdin when source is -", async () => {
+    const input = await loadPhaseInput("-", "cli-feature", createIO('{"version": "2.0.0"}'));
+    expect(input.version).toBe("2.0.0");
+  });
+
+  it("should reject mismatched featureName", async () => {
+    const io = createIO('{"featureName": "other"}');
+    await expect(loadPhaseInput("-", "cli-feature", io)).rejects.toThrow("does not match");
+  });
+
+  it("should reject missing files", async () => {
+    await expect(loadPhaseInput(join(tempDir, "missing.json"), "x", createIO())).rejects.toThrow("not found");
+  });
+});
+
+describe("exitCodeForResult()", () => {
+  it("should map success, gate failures and phase failures", () => {
+    expect(exitCodeForResult({ success: true, phase: "propose", gatesPassed: [] })).toBe(EXIT_CODES.SUCCESS);
+    expect(exitCodeForResult({
+      success: false,
+      phase: "specify",
+      gatesPassed: ["prerequisite"],
+      error: "Artifact gate failed: proposal.md missing",
+      failedGate: "artifact",
+    })).toBe(EXIT_CODES.GATE_FAILED);
+    expect(exitCodeForResult({
+      success: false,
+      phase: "release",
+      gatesPassed: ["prerequisite", "artifact"],
+      error: "Gate execution failed (isc-format): isc-format gate timed out after 10ms",
+      failedGate: "isc-format",
+    })).toBe(EXIT_CODES.GATE_FAILED);
+    expect(exitCodeForResult({
+      success: false,
+      phase: "plan",
+      gatesPassed: ["prerequisite", "artifact"],
+      error: "Phase execution failed: boom",
+    })).toBe(EXIT_CODES.PHASE_FAILED);
+  });
+});
+
+describe("runCli()", () => {
+  it("should print usage and exit with usage code when no command given", async () => {
+    const io = createIO();
+    const code = await runCli([], io);
+
+    expect(code).toBe(EXIT_CODES.USAGE);
+    expect(io.out.join("\n")).toContain("Usage: specfirst");
+  });
+
+  it("should exit successfully for --help", async () => {
+    const io = createIO();
+    expect(await runCli(["--help"], io)).toBe(EXIT_CODES.SUCCESS);
+  });
+
+  it("should reject unknown commands", async () => {
+    const io = createIO();
+    const code = await runCli(["deploy", "x"], io);
+
+    expect(code).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain("Unknown command: deploy");
+  });
+
+  it("should require a feature name for phase commands", async () => {
+    const io = createIO();
+    expect(await runCli(["propose"], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain("Missing feature name");
+  });
+
+  it("should require input for phases that cannot infer it", async () => {
+    const io = createIO();
+    expect(await runCli(["specify", "cli-feature"], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain("requires input");
+  });
+
+  it("should report unparseable input with input exit code", async () => {
+    const io = createIO("{ nope: [");
+    expect(await runCli(["propose", "cli-feature", "--input", "-"], io)).toBe(EXIT_CODES.INPUT);
+  });
+
+  it("should exit with the gate code when a gate times out", async () => {
+    const io = createIO(JSON.stringify({
+      problemStatement: "Reports take minutes to load for every user.",
+      solutionApproaches: [{ name: "Caching", description: "Cache report queries", pros: ["Fast"], cons: ["Stale"] }],
+      recommendedApproach: "Cache report queries.",
+    }));
+    const originalOpencodeDir = process.env.OPENCODE_DIR;
+    process.env.OPENCODE_DIR = tempDir;
+    process.env.SPECFIRST_GATE_TIMEOUT_MS = "50";
+    // Past the constitution check, the prerequisite gate waits on git forever
+    setGitBackend({ run: () => new Promise(() => {}) });
+    try {
+      const constitutionPath = getArtifactPath("cli-feature", "constitution", tempDir);
+      await mkdir(dirname(constitutionPath), { recursive: true });
+      await writeFile(constitutionPath, "# Constitution\n", "utf-8");
+
+      expect(await runCli(["propose", "cli-feature", "--input", "-", "--project", tempDir], io)).toBe(EXIT_CODES.GATE_FAILED);
+    } finally {
+      setGitBackend();
+      delete process.env.SPECFIRST_GATE_TIMEOUT_MS;
+      if (originalOpencodeDir === undefined) delete process.env.OPENCODE_DIR;
+      else process.env.OPENCODE_DIR = originalOpencodeDir;
+    }
+    expect(io.err.join("\n")).toContain("Gate execution failed (prerequisite)");
+  });
+
+  it("should keep phase artifacts and state in --project when run from another directory", async () => {
+    const projectDir = join(tempDir, "project");
+    const otherDir = join(tempDir, "elsewhere");
+    await mkdir(join(projectDir, ".specfirst"), { recursive: true });
+    await mkdir(otherDir, { recursive: true });
+    await writeFile(join(projectDir, ".specfirst", "config.yaml"), "artifacts:\n  storage: repo\n", "utf-8");
+    await writeFile(join(projectDir, "CONSTITUTION.md"), "# Constitution\n", "utf-8");
+    await gitTesting.runGit(["init", "-q"], projectDir);
+    await gitTesting.runGit(["config", "user.email", "test@example.com"], projectDir);
+    await gitTesting.runGit(["config", "user.name", "Test"], projectDir);
+    const io = createIO(JSON.stringify({
+      problemStatement: "Users sign in separately to every internal tool.",
+      solutionApproaches: [{ name: "OIDC", description: "Single sign-on via OIDC", pros: ["Standard"], cons: ["Setup"] }],
+      recommendedApproach: "Use OIDC single sign-on.",
+    }));
+    const originalCwd = process.cwd();
+    const originalOpencodeDir = process.env.OPENCODE_DIR;
+    process.env.OPENCODE_DIR = tempDir;
+    process.chdir(otherDir);
+    try {
+      expect(await runCli(["propose", "cli-project", "--input", "-", "--project", projectDir], io)).toBe(EXIT_CODES.SUCCESS);
+      expect(await runCli(["trace", "cli-project", "--project", projectDir], io)).toBe(EXIT_CODES.INPUT);
+    } finally {
+      closeDatabase();
+      process.chdir(originalCwd);
+      if (originalOpencodeDir === undefined) delete process.env.OPENCODE_DIR;
+      else process.env.OPENCODE_DIR = originalOpencodeDir;
+    }
+
+    expect(getArtifactPath("cli-project", "proposal", projectDir)).toStartWith(projectDir);
+    expect(existsSync(getArtifactPath("cli-project", "proposal", projectDir))).toBe(true);
+    expect(io.err.join("\n")).toContain(`spec.md not found at ${getArtifactPath("cli-project", "spec", projectDir)}`);
+    expect(existsSync(join(otherDir, ".specfirst"))).toBe(false);
+  });
+
+  it("should validate a tasks.md file path", async () => {
+    const path = join(tempDir, "tasks.md");
+    await writeFile(path, VALID_TASKS, "utf-8");
+    const io = createIO();
+
+    expect(await runCli(["validate", path], io)).toBe(EXIT_CODES.SUCCESS);
+  });
+
+  it("should fail validation for invalid tasks.md", async () => {
+    const io = createIO();
+    expect(await runCli(["validate", join(FIXTURES_DIR, "tasks.md")], io)).toBe(EXIT_CODES.GATE_FAILED);
+  });
+
+  it("should list features as JSON for an empty project", async () => {
+    const io = createIO();
+    const code = await runCli(["list", "--json", "--project", tempDir], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(io.out.join("\n"))).toEqual([]);
+  });
+
+  it("should print an empty feature graph as JSON", async () => {
+    const io = createIO();
+    const code = await runCli(["graph", "--json", "--project", tempDir], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(io.out.join("\n"))).toEqual({ queue: [], dependencies: [] });
+  });
+
+  it("should reject unknown graph formats", async () => {
+    const io = createIO();
+    expect(await runCli(["graph", "--format", "png", "--project", tempDir], io)).toBe(EXIT_CODES.USAGE);
+  });
+
+  it("should reject reopen without a valid phase", async () => {
+    const io = createIO();
+    expect(await runCli(["reopen", "cli-feature", "deploy"], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain("specfirst reopen <feature>");
+  });
+
+  it("should reject feature names that are not slugs", async () => {
+    const io = createIO();
+    expect(await runCli(["status", "../../etc"], io)).toBe(EXIT_CODES.USAGE);
+    expect(await runCli(["rename", "cli-feature", "Bad Name"], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain('Invalid feature name "../../etc"');
+    expect(io.err.join("\n")).toContain('Invalid feature name "Bad Name"');
+  });
+
+  it("should reject unknown storage modes for migrate", async () => {
+    const io = createIO();
+    expect(await runCli(["migrate", "--from", "cloud", "--project", tempDir], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain("--from memory|repo");
+  });
+
+  it("should reject unknown merge strategies", async () => {
+    const io = createIO();
+    expect(await runCli(["release", "cli-feature", "--merge", "rebase"], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err.join("\n")).toContain("--merge <merge|squash>");
+  });
+
+  it("should report built-in templates as JSON", async () => {
+    const io = createIO();
+    const code = await runCli(["templates", "--json", "--project", tempDir], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(io.out.join("\n")).map((t: { name: string }) => t.name)).toEqual(["proposal", "spec", "plan", "tasks"]);
+  });
+
+  it("should list workflows as JSON", async () => {
+    const io = createIO();
+    const code = await runCli(["workflows", "--json", "--project", tempDir], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(io.out.join("\n")).map((w: { name: string }) => w.name)).toContain("default");
+  });
+
+  it("should reject unknown workflows for new features", async () => {
+    const io = createIO();
+    const code = await runCli(["status", "cli-feature", "--workflow", "no-such-flow", "--project", tempDir], io);
+
+    expect(code).toBe(EXIT_CODES.INPUT);
+    expect(io.err.join("\n")).toContain('Unknown workflow "no-such-flow"');
+  });
+
+  it("should report configuration sources as JSON", async () => {
+    const io = createIO();
+    const code = await runCli(["config", "--json", "--project", tempDir], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    const entries = JSON.parse(io.out.join("\n"));
+    expect(entries.find((e: { key: string }) => e.key === "iscMaxWords")).toMatchObject({ value: 12 });
+  });
+
+  it("should report status as JSON", async () => {
+    const io = createIO();
+    const code = await runCli(["status", "cli-status-never-started", "--json"], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    const parsed = JSON.parse(io.out.join("\n"));
+    expect(parsed.status.propose).toBe(false);
+    expect(parsed.nextPhase).toBe("propose");
+  });
+
+  it("should report a missing spec.md for trace with input exit code", async () => {
+    const io = createIO();
+    const code = await runCli(["trace", "cli-trace-never-started"], io);
+
+    expect(code).toBe(EXIT_CODES.INPUT);
+    expect(io.err.join("\n")).toContain("spec.md not found");
+  });
+
+  it("should report a missing tasks.md for verify with input exit code", async () => {
+    const io = createIO();
+    expect(await runCli(["verify", "cli-verify-never-started"], io)).toBe(EXIT_CODES.INPUT);
+  });
+});
@@ -3,7 +3,8 @@
  * 
  * ISC #53: Unit tests achieve eighty percent line coverage
  * 
- * Tests configuration loading, validation, and feature path generation.
+ * Tests configuration loading and layering, validation, and feature path
+ * generation.
  * 
  * @module tests/unit/config
  * @version 3.0.0
@@ -12,13 +13,18 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
 import {
   getConfig,
+  describeConfig,
   validateEnvironment,
   getArtifactPath,
   ensureFeatureDirectories,
+  ConfigError,
   type SpecFirstConfig,
 } from "../../lib/config";
-import { existsSync } from "fs";
+import { validateCriterionWordCount, validateTasks } from "../../artifacts/tasks";
+import { validateISCFormat } from "../../gates/isc-format";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
 import { rm } from "fs/promises";
+import { tmpdir } from "os";
 import { join } from "path";
 
 describe("Configuration", () => {
@@ -57,21 +63,27 @@ describe("Configuration", () => {
     it("should load git configuration from environment", () => {
       process.env.SPECFIRST_AUTO_COMMIT = "false";
       process.env.SPECFIRST_BRANCH = "feature/test";
+      process.env.SPECFIRST_BRANCH_PER_FEATURE = "true";
       
       const config = getConfig();
       
       expect(config.gitAutoCommit).toBe(false);
       expect(config.gitBranch).toBe("feature/test");
+      expect(config.gitBranchPerFeature).toBe(true);
     });
 
     it("should use default values for git config", () => {
       delete process.env.SPECFIRST_AUTO_COMMIT;
       delete process.env.SPECFIRST_BRANCH;
+      delete process.env.SPECFIRST_BRANCH_PER_FEATURE;
+      delete process.env.SPECFIRST_GIT_TIMEOUT_MS;
       
       const config = getConfig();
       
       expect(config.gitAutoCommit).toBe(true);
       expect(config.gitBranch).toBeUndefined();
+      expect(config.gitBranchPerFeature).toBe(false);
+      expect(config.gitTimeoutMs).toBe(30000);
     });
 
     it("should load validation settings from environment", () => {
@@ -90,12 +102,122 @@ describe("Configuration", () => {
       
       const config = getConfig();
       
-      expect(config.iscWordCount).toBe(8);
+      expect(config.iscMinWords).toBe(8);
+      expect(config.iscMaxWords).toBe(12);
       expect(config.artifactMaxSizeKb).toBe(50);
       expect(config.gateTimeoutMs).toBe(5000);
     });
   });
 
+  describe("config files", () => {
+    let rootDir: string;
+    let projectDir: string;
+
+    function writeConfig(dir: string, name: string, content: string): string {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, name), content);
+      return join(dir, name);
+    }
+
+    beforeEach(() => {
+      rootDir = mkdtempSync(join(tmpdir(), "specfirst-config-"));
+      projectDir = join(rootDir, "project");
+      process.env.OPENCODE_DIR = rootDir;
+      for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+        delete process.env[key];
+      }
+    });
+
+    afterEach(() => {
+      rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it("should layer project over environment over user settings", () => {
+      writeConfig(join(rootDir, "skills", "SpecFirst"), "config.yaml", "criteria:\n  minWords: 6\n  maxWords: 10\ngates:\n  timeoutMs: 1000\n");
+      process.env.SPECFIRST_ISC_MAX_WORDS = "14";
+      const projectFile = writeConfig(join(projectDir, ".specfirst"), "config.json", '{"criteria": {"maxWords": 16}}');
+
+      const config = getConfig(projectDir);
+      expect(config.iscMinWords).toBe(6);
+      expect(config.iscMaxWords).toBe(16);
+      expect(config.gateTimeoutMs).toBe(1000);
+
+      const entries = describeConfig(projectDir);
+      expect(entries.find(e => e.key === "iscMaxWords")).toMatchObject({ source: "project", origin: projectFile });
+      expect(entries.find(e => e.key === "gateTimeoutMs")?.source).toBe("user");
+      expect(entries.find(e => e.key === "gitTimeoutMs")).toMatchObject({ source: "default", value: 30000 });
+
+      delete process.env.SPECFIRST_ISC_MAX_WORDS;
+      process.env.SPECFIRST_GATE_TIMEOUT_MS = "2000";
+      expect(describeConfig(projectDir).find(e => e.key === "gateTimeoutMs")).toMatchObject({
+        value: 2000,
+        source: "env",
+        origin: "SPECFIRST_GATE_TIMEOUT_MS",
+      });
+    });
+
+    it("should resolve the artifact root against the project", () => {
+      writeConfig(join(projectDir, ".specfirst"), "config.yaml", "artifacts:\n  root: specs\n");
+
+      const config = getConfig(projectDir);
+      expect(config.artifactRoot).toBe(join(projectDir, "specs"));
+      expect(config.getFeaturePaths("user-auth").specPath).toBe(join(projectDir, "specs/Features/user-auth/specs/spec.md"));
+    });
+
+    it("should replace required sections per artifact", () => {
+      writeConfig(join(projectDir, ".specfirst"), "config.yaml", "artifacts:\n  requiredSections:\n    spec: [Overview, '## User Stories']\n");
+
+      const { requiredSections } = getConfig(projectDir);
+      expect(requiredSections.spec).toEqual(["Overview", "User Stories"]);
+      expect(requiredSections.tasks).toEqual(["IDEAL", "ISC TRACKER", "ANTI-CRITERIA", "PROGRESS"]);
+    });
+
+    it("should reject invalid environment values instead of yielding NaN", () => {
+      process.env.SPECFIRST_GIT_TIMEOUT_MS = "soon";
+      process.env.SPECFIRST_AUTO_COMMIT = "nope";
+
+      expect(() => getConfig(projectDir)).toThrow(ConfigError);
+      expect(() => getConfig(projectDir)).toThrow("SPECFIRST_GIT_TIMEOUT_MS must be an integer");
+      expect(() => getConfig(projectDir)).toThrow("SPECFIRST_AUTO_COMMIT must be true or false");
+    });
+
+    it("should reject unknown keys and inverted word ranges", () => {
+      writeConfig(join(projectDir, ".specfirst"), "config.yaml", "criteria:\n  wordCount: 8\n");
+      expect(() => getConfig(projectDir)).toThrow('unknown key "criteria.wordCount"');
+
+      writeConfig(join(projectDir, ".specfirst"), "config.yaml", "criteria:\n  minWords: 12\n  maxWords: 8\n");
+      expect(() => getConfig(projectDir)).toThrow("criteria.minWords (12, project) must not exceed criteria.maxWords (8, project)");
+    });
+  });
+
+  describe("validators", () => {
+    const settings = {
+      iscMinWords: 3,
+      iscMaxWords: 5,
+      requiredSections: { ...getConfig().requiredSections, tasks: ["ISC TRACKER"] },
+    };
+    const tasks = [
+      "## ISC TRACKER",
+      "",
+      "| # | Criterion | Status | Evidence |",
+      "|---|-----------|--------|----------|",
+      "| 1 | Login page renders quickly | ⬜ | - |",
+    ].join("\n");
+
+    it("should use the configured criterion word range", () => {
+      expect(validateCriterionWordCount("Login page renders quickly", settings).valid).toBe(true);
+      expect(validateCriterionWordCount("Login page renders quickly").valid).toBe(false);
+      expect(validateISCFormat(tasks, settings).passed).toBe(true);
+      expect(validateISCFormat(tasks).errors.map(e => e.message)).toContain("Criterion must be 8-12 words (Algorithm v1.8.0)");
+    });
+
+    it("should use the configured required sections", () => {
+      const errors = validateTasks(tasks, settings).errors;
+      expect(errors.filter(e => e.startsWith("Missing required section"))).toEqual([]);
+      expect(validateTasks(tasks).errors).toContain("Missing required section: PROGRESS");
+    });
+  });
+
   describe("Feature Paths", () => {
     beforeEach(() => {
       process.env.OPENCODE_DIR = "/test/.opencode";
@@ -24,6 +24,14 @@ import {
   releaseFeature,
   endSession,
   getStats,
+  addFeatureDependency,
+  removeFeatureDependency,
+  getFeatureDependencies,
+  getFeatureQueue,
+  claimNextFeature,
+  renewClaim,
+  reclaimStaleClaims,
+  getSessionHistory,
 } from "../../lib/database";
 
 describe("Database Module", () => {
@@ -341,6 +349,126 @@ describe("Database Module", () => {
       // Note: releaseFeature doesn't update status - that's separate
     });
 
+    test("claimFeature refuses a feature held by another live session", () => {
+      const first = createSession();
+      const second = createSession();
+      const featureId = nextFeatureId();
+      addFeature({ id: featureId, name: "Contested" });
+
+      expect(claimFeature(first, featureId)).toBe(true);
+      expect(claimFeature(second, featureId)).toBe(false);
+      expect(claimFeature(first, featureId)).toBe(true);
+      expect(getFeature(featureId)?.sessionId).toBe(first);
+      expect(getFeature(featureId)?.claimExpiresAt).toBeInstanceOf(Date);
+    });
+
+    test("claimFeature takes over an expired lease and records it", async () => {
+      const crashed = createSession();
+      const rescuer = createSession();
+      const featureId = nextFeatureId();
+      addFeature({ id: featureId, name: "Abandoned" });
+
+      claimFeature(crashed, featureId, 1);
+      await Bun.sleep(5);
+
+      expect(claimFeature(rescuer, featureId)).toBe(true);
+      expect(getSession(crashed)?.currentFeatureId).toBeNull();
+      expect(getSessionHistory().map(e => [e.sessionId, e.action])).toEqual([
+        [crashed, "claimed"],
+        [crashed, "expired"],
+        [rescuer, "reclaimed"],
+      ]);
+    });
+
+    test("renewClaim extends only the holder's lease", async () => {
+      const holder = createSession();
+      const other = createSession();
+      const featureId = nextFeatureId();
+      addFeature({ id: featureId, name: "Renewed" });
+
+      claimFeature(holder, featureId, 20);
+      expect(renewClaim(other, featureId)).toBe(false);
+      expect(renewClaim(holder, featureId, 60_000)).toBe(true);
+      await Bun.sleep(30);
+
+      expect(claimFeature(other, featureId)).toBe(false);
+      expect(getSession(holder)?.lastHeartbeatAt).toBeInstanceOf(Date);
+    });
+
+    test("reclaimStaleClaims releases expired claims", () => {
+      const sessionId = createSession();
+      const stale = nextFeatureId();
+      const live = nextFeatureId();
+      addFeature({ id: stale, name: "Stale" });
+      addFeature({ id: live, name: "Live" });
+      claimFeature(sessionId, stale, 1000);
+      claimFeature(sessionId, live, 60_000);
+
+      const released = reclaimStaleClaims(new Date(Date.now() + 5000));
+
+      expect(released).toEqual([stale]);
+      expect(getFeature(stale)?.sessionId).toBeNull();
+      expect(getFeature(live)?.sessionId).toBe(sessionId);
+      expect(getSessionHistory(sessionId).at(-1)).toMatchObject({ featureId: stale, action: "expired" });
+    });
+
+    test("claimNextFeature lets parallel sessions drain the queue without overlap", () => {
+      const sessions = [createSession(), createSession(), createSession()];
+      const ids = [nextFeatureId(), nextFeatureId()];
+      ids.forEach((id, i) => addFeature({ id, name: id, priority: i + 1 }));
+
+      const claimed = sessions.map(s => claimNextFeature(s)?.id ?? null);
+
+      expect(claimed).toEqual([ids[0], ids[1], null]);
+      expect(getNextFeature()).toBeNull();
+    });
+
+    test("getNextFeature offers a feature whose claim is held by a session that stopped running", () => {
+      const sessionId = createSession();
+      const featureId = nextFeatureId();
+      addFeature({ id: featureId, name: "Orphaned" });
+      claimFeature(sessionId, featureId, 60_000);
+      expect(getNextFeature()).toBeNull();
+
+      const { Database } = require("bun:sqlite");
+      const db = new Database(getDbPath(tempDir));
+      db.run(`UPDATE sessions SET status = 'failed' WHERE id = ?`, [sessionId]);
+      db.close();
+
+      expect(getNextFeature()?.id).toBe(featureId);
+      expect(claimFeature(createSession(), featureId)).toBe(true);
+    });
+
+    test("endSession releases the session's claims", () => {
+      const sessionId = createSession();
+      const featureId = nextFeatureId();
+      addFeature({ id: featureId, name: "Held" });
+      claimFeature(sessionId, featureId);
+
+      endSession(sessionId);
+
+      expect(getFeature(featureId)?.sessionId).toBeNull();
+      expect(getSessionHistory(sessionId).map(e => e.action)).toEqual(["claimed", "released"]);
+    });
+
+    test("endSession changes nothing when recording a release fails", () => {
+      const sessionId = createSession();
+      const featureId = nextFeatureId();
+      addFeature({ id: featureId, name: "Held" });
+      claimFeature(sessionId, featureId);
+      const { Database } = require("bun:sqlite");
+      const db = new Database(getDbPath(tempDir));
+      db.run(`CREATE TRIGGER fail_release BEFORE INSERT ON session_history
+              WHEN NEW.action = 'released' BEGIN SELECT RAISE(ABORT, 'disk full'); END`);
+      db.close();
+
+      expect(() => endSession(sessionId)).toThrow("disk full");
+
+      expect(getFeature(featureId)?.sessionId).toBe(sessionId);
+      expect(getSession(sessionId)?.status).toBe("running");
+      expect(getSessionHistory(sessionId).map(e => e.action)).toEqual(["claimed"]);
+    });
+
     test("endSession marks session completed", () => {
       const sessionId = createSession();
       
@@ -383,7 +511,74 @@ describe("Database Module", () => {
     });
   });
 
-  // 6. Edge Cases
+  // 6. Feature Dependencies
+  describe("Feature Dependencies", () => {
+    test("getNextFeature skips features with unfinished dependencies", () => {
+      const auth = nextFeatureId();
+      const checkout = nextFeatureId();
+      addFeature({ id: auth, name: "Auth", priority: 2 });
+      addFeature({ id: checkout, name: "Checkout", priority: 1 });
+      addFeatureDependency(checkout, auth);
+
+      expect(getNextFeature()?.id).toBe(auth);
+
+      updateFeatureStatus(auth, "completed");
+      expect(getNextFeature()?.id).toBe(checkout);
+    });
+
+    test("getNextFeature does not wait for a skipped dependency", () => {
+      const auth = nextFeatureId();
+      const checkout = nextFeatureId();
+      addFeature({ id: auth, name: "Auth", priority: 2 });
+      addFeature({ id: checkout, name: "Checkout", priority: 1 });
+      addFeatureDependency(checkout, auth);
+
+      updateFeatureStatus(auth, "skipped");
+      expect(getNextFeature()?.id).toBe(checkout);
+    });
+
+    test("addFeatureDependency rejects cycles and unknown features", () => {
+      const a = nextFeatureId();
+      const b = nextFeatureId();
+      const c = nextFeatureId();
+      for (const id of [a, b, c]) addFeature({ id, name: id });
+
+      addFeatureDependency(b, a);
+      addFeatureDependency(c, b);
+
+      expect(() => addFeatureDependency(a, c)).toThrow(`Dependency cycle: ${a} → ${c} → ${b} → ${a}`);
+      expect(() => addFeatureDependency(a, a)).toThrow("Dependency cycle");
+      expect(() => addFeatureDependency(a, "feat-missing")).toThrow("Feature not found: feat-missing");
+    });
+
+    test("removeFeatureDependency unblocks the feature", () => {
+      const a = nextFeatureId();
+      const b = nextFeatureId();
+      addFeature({ id: a, name: "A", priority: 2 });
+      addFeature({ id: b, name: "B", priority: 1 });
+      addFeatureDependency(b, a);
+      addFeatureDependency(b, a);
+
+      expect(getFeatureDependencies(b)).toEqual([a]);
+      expect(removeFeatureDependency(b, a)).toBe(true);
+      expect(removeFeatureDependency(b, a)).toBe(false);
+      expect(getNextFeature()?.id).toBe(b);
+    });
+
+    test("getFeatureQueue orders prerequisites first, then by priority", () => {
+      const api = nextFeatureId();
+      const ui = nextFeatureId();
+      const docs = nextFeatureId();
+      addFeature({ id: api, name: "API", priority: 3 });
+      addFeature({ id: ui, name: "UI", priority: 1 });
+      addFeature({ id: docs, name: "Docs", priority: 2 });
+      addFeatureDependency(ui, api);
+
+      expect(getFeatureQueue().map(f => f.id)).toEqual([docs, api, ui]);
+    });
+  });
+
+  // 7. Edge Cases
   describe("Edge Cases", () => {
     test("handles multiple features with same priority", () => {
       addFeature({ id: nextFeatureId(), name: "F1", description: "Test", priority: 1 });
@@ -0,0 +1,220 @@
+/**
+ * Doctor Unit Tests - SpecFirst 4.0
+ *
+ * Tests reconciliation of git markers, artifacts and SQLite: reporting
+ * where they disagree, repairing the database from git, and rebuilding it
+ * after it was lost.
+ *
+ * @module tests/unit/doctor
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, existsSync } from "fs";
+import { tmpdir, hostname } from "os";
+import { join, dirname } from "path";
+import { createHash } from "crypto";
+import { runDoctor } from "../../phases/doctor";
+import { getArtifactPath } from "../../lib/config";
+import {
+  initDatabase,
+  closeDatabase,
+  addFeature,
+  getFeature,
+  getCriteria,
+  getDbPath,
+  updateFeaturePhase,
+  updateFeatureStatus,
+  updateFeaturePaths,
+} from "../../lib/database";
+import { createPhaseCommit, __testing as gitTesting } from "../../lib/git";
+import { getJournalDir, __testing as journalTesting, type PhaseJournal } from "../../lib/journal";
+import { runCli, EXIT_CODES, type CliIO } from "../../cli/specfirst";
+
+const FEATURE = "doctor-feature";
+
+const TASKS = `# Tasks
+
+## ISC TRACKER
+
+| # | Criterion | Status | Evidence |
+|---|-----------|--------|----------|
+| 1 | Users can export reports as CSV files | ✅ | export.test.ts passes |
+| 2 | Reports load in under two seconds on average | ⬜ | |
+`;
+
+const originalEnv = { ...process.env };
+const originalCwd = process.cwd();
+let repoDir: string;
+
+/**
+ * Writes a phase's artifact and commits its completion marker.
+ */
+async function complete(phase: string, artifact: "proposal" | "spec" | "plan" | "tasks", content = `# ${phase}\n`): Promise<string> {
+  const path = getArtifactPath(FEATURE, artifact, repoDir);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+  await createPhaseCommit(phase, FEATURE, path, repoDir);
+  return path;
+}
+
+beforeEach(async () => {
+  repoDir = mkdtempSync(join(tmpdir(), "specfirst-doctor-"));
+  process.env.OPENCODE_DIR = repoDir;
+  for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+    delete process.env[key];
+  }
+  process.chdir(repoDir);
+  await gitTesting.runGit(["init", "-q"], repoDir);
+  await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+  await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+});
+
+afterEach(() => {
+  closeDatabase();
+  process.chdir(originalCwd);
+  process.env = { ...originalEnv };
+  rmSync(repoDir, { recursive: true, force: true });
+});
+
+describe("runDoctor()", () => {
+  it("should report no issues when git, artifacts and the database agree", async () => {
+    const proposalPath = await complete("propose", "proposal");
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE, proposalPath });
+    updateFeatureStatus(FEATURE, "in_progress");
+    updateFeaturePhase(FEATURE, "propose");
+
+    const report = await runDoctor({ projectPath: repoDir });
+
+    expect(report.features).toEqual([
+      expect.objectContaining({ featureName: FEATURE, completedPhases: ["propose"], expectedPhase: "propose", issues: [] }),
+    ]);
+    expect(report.remaining).toBe(0);
+  });
+
+  it("should report a database behind git and repair it on request", async () => {
+    const proposalPath = await complete("propose", "proposal");
+    const specPath = await complete("specify", "spec");
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE, proposalPath });
+    updateFeatureStatus(FEATURE, "in_progress");
+    updateFeaturePhase(FEATURE, "propose");
+
+    const report = await runDoctor({ projectPath: repoDir });
+    expect(report.features[0].issues.map(i => i.kind)).toEqual(["phase", "path"]);
+    expect(report.remaining).toBe(2);
+    expect(getFeature(FEATURE)?.phase).toBe("propose");
+
+    const repaired = await runDoctor({ projectPath: repoDir, repair: true });
+    expect(repaired.features[0].issues.every(i => i.repaired)).toBe(true);
+    expect(repaired.remaining).toBe(0);
+    expect(getFeature(FEATURE)).toMatchObject({ phase: "specify", specPath });
+  });
+
+  it("should not create the database when only checking", async () => {
+    await complete("propose", "proposal");
+
+    const report = await runDoctor({ projectPath: repoDir });
+
+    expect(report.features[0]).toMatchObject({ record: null, issues: [expect.objectContaining({ kind: "missing-record" })] });
+    expect(existsSync(getDbPath(repoDir))).toBe(false);
+  });
+
+  it("should rebuild the database from markers and tasks.md", async () => {
+    await complete("propose", "proposal");
+    await complete("specify", "spec");
+    await complete("plan", "plan");
+    const tasksPath = await complete("implement", "tasks", TASKS);
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE });
+    updateFeaturePhase(FEATURE, "release");
+    updateFeatureStatus(FEATURE, "completed");
+    closeDatabase();
+
+    const report = await runDoctor({ projectPath: repoDir, rebuild: true });
+
+    expect(existsSync(report.backupPath!)).toBe(true);
+    expect(report.remaining).toBe(0);
+    expect(getFeature(FEATURE)).toMatchObject({ phase: "implement", status: "in_progress", tasksPath });
+    // Criteria IDs created in the same millisecond sort randomly
+    expect(getCriteria(FEATURE).map(c => [c.criterion, c.status, c.evidence]).sort()).toEqual([
+      ["Reports load in under two seconds on average", "pending", null],
+      ["Users can export reports as CSV files", "verified", "export.test.ts passes"],
+    ]);
+  });
+
+  it("should sync criteria statuses from tasks.md", async () => {
+    const tasksPath = await complete("implement", "tasks", TASKS);
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE, tasksPath });
+    updateFeatureStatus(FEATURE, "in_progress");
+    await runDoctor({ projectPath: repoDir, repair: true });
+    writeFileSync(tasksPath, TASKS.replace("| ⬜ | |", "| ❌ | too slow |"));
+
+    const report = await runDoctor({ projectPath: repoDir, repair: true });
+
+    expect(report.features[0].issues.map(i => i.message)).toContain("Criteria in tasks.md: 1 with a different status in the database");
+    expect(getCriteria(FEATURE).map(c => c.status).sort()).toEqual(["failed", "verified"]);
+  });
+
+  it("should report missing and stale artifacts without repairing them", async () => {
+    const proposalPath = await complete("propose", "proposal");
+    const specPath = await complete("specify", "spec");
+    rmSync(proposalPath);
+    writeFileSync(specPath, "---\nstatus: review\n---\n# Spec\n");
+
+    const report = await runDoctor({ projectPath: repoDir, repair: true });
+
+    expect(report.features[0].issues.filter(i => !i.repaired).map(i => i.kind)).toEqual(["missing-artifact", "stale-artifact"]);
+    expect(report.remaining).toBe(2);
+  });
+
+  it("should settle unfinished phases when repairing", async () => {
+    const proposalPath = await complete("propose", "proposal");
+    const specPath = getArtifactPath(FEATURE, "spec", repoDir);
+    writeFileSync(specPath, "# Spec\n");
+    const journal: PhaseJournal = {
+      featureName: FEATURE,
+      phase: "specify",
+      artifactPath: specPath,
+      artifactSha256: createHash("sha256").update("# Spec\n").digest("hex"),
+      previousContent: null,
+      database: { phase: "specify", paths: { specPath } },
+      completed: ["artifact"],
+      startedAt: new Date().toISOString(),
+      pid: 999999,
+      host: hostname(),
+    };
+    mkdirSync(getJournalDir(repoDir), { recursive: true });
+    writeFileSync(journalTesting.getJournalPath(FEATURE, repoDir), JSON.stringify(journal));
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE });
+    updateFeaturePaths(FEATURE, { proposalPath });
+
+    const checked = await runDoctor({ projectPath: repoDir });
+    expect(checked.features[0].issues[0]).toMatchObject({ kind: "unfinished-phase", repairable: true });
+
+    const report = await runDoctor({ projectPath: repoDir, repair: true });
+
+    expect(report.features[0].issues[0]).toMatchObject({ kind: "unfinished-phase", repaired: true });
+    expect(report.features[0].completedPhases).toEqual(["propose", "specify"]);
+    expect(report.remaining).toBe(0);
+    expect(getFeature(FEATURE)).toMatchObject({ phase: "specify", status: "in_progress" });
+  });
+});
+
+describe("specfirst doctor", () => {
+  it("should exit with GATE_FAILED until the issues are repaired", async () => {
+    await complete("propose", "proposal");
+    const out: string[] = [];
+    const io: CliIO = { stdout: (line) => out.push(line), stderr: () => {}, readStdin: async () => "" };
+
+    expect(await runCli(["doctor", "--project", repoDir, "--json"], io)).toBe(EXIT_CODES.GATE_FAILED);
+    expect(JSON.parse(out.join("\n")).remaining).toBe(1);
+
+    expect(await runCli(["doctor", FEATURE, "--project", repoDir, "--repair"], io)).toBe(EXIT_CODES.SUCCESS);
+    expect(await runCli(["doctor", "--project", repoDir], io)).toBe(EXIT_CODES.SUCCESS);
+    expect(out.at(-1)).toBe("✅ Git markers, artifacts and database agree");
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Event Log Unit Tests - SpecFirst 4.0
+ *
+ * Tests the append-only log of workflow state transitions: which changes
+ * are recorded, who and which session they are attributed to, feature
+ * timelines across renames, and the history command built on them.
+ *
+ * @module tests/unit/events
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  initDatabase,
+  closeDatabase,
+  getDbPath,
+  addFeature,
+  updateFeatureStatus,
+  updateFeaturePhase,
+  renameFeatureRecord,
+  addCriterion,
+  updateCriterionStatus,
+  createSession,
+  claimFeature,
+  recordGateRun,
+  getEvents,
+  getFeatureTimeline,
+  setEventActor,
+  getEventActor,
+} from "../../lib/database";
+import { getArtifactPath } from "../../lib/config";
+import { __testing as gitTesting } from "../../lib/git";
+import { executePhase } from "../../phases/orchestrator";
+import { runCli, EXIT_CODES, type CliIO } from "../../cli/specfirst";
+
+const FEATURE = "events-feature";
+
+const PROPOSE_INPUT = {
+  featureName: FEATURE,
+  problemStatement: "Reports take minutes to load. Users give up before they render.",
+  solutionApproaches: [
+    { name: "Caching", description: "Cache report queries", pros: ["Fast"], cons: ["Stale data"] },
+  ],
+  recommendedApproach: "Cache report queries for five minutes.",
+  antiPatterns: ["Caching per-user data globally"],
+};
+
+const originalEnv = { ...process.env };
+const originalCwd = process.cwd();
+let repoDir: string;
+
+beforeEach(async () => {
+  repoDir = mkdtempSync(join(tmpdir(), "specfirst-events-"));
+  process.env.OPENCODE_DIR = repoDir;
+  for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+    delete process.env[key];
+  }
+  process.chdir(repoDir);
+  await gitTesting.runGit(["init", "-q"], repoDir);
+  await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+  await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+});
+
+afterEach(() => {
+  setEventActor();
+  closeDatabase();
+  process.chdir(originalCwd);
+  process.env = { ...originalEnv };
+  rmSync(repoDir, { recursive: true, force: true });
+});
+
+describe("event log", () => {
+  beforeEach(() => {
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE });
+  });
+
+  it("should record status and phase changes only when they change", () => {
+    updateFeatureStatus(FEATURE, "in_progress");
+    updateFeatureStatus(FEATURE, "in_progress");
+    updateFeaturePhase(FEATURE, "propose");
+    updateFeaturePhase(FEATURE, "propose");
+
+    expect(getFeatureTimeline(FEATURE).map(e => [e.type, e.from, e.to])).toEqual([
+      ["feature.created", null, "pending"],
+      ["feature.status", "pending", "in_progress"],
+      ["feature.phase", "none", "propose"],
+    ]);
+  });
+
+  it("should record criterion transitions with their evidence", () => {
+    const id = addCriterion(FEATURE, "Users can export reports as CSV files");
+    updateCriterionStatus(id, "verified", "export.test.ts passes");
+
+    const events = getEvents({ featureId: FEATURE, types: ["criterion.added", "criterion.status"] });
+
+    expect(events.map(e => [e.type, e.subject, e.from, e.to, e.detail])).toEqual([
+      ["criterion.added", id, null, "pending", "Users can export reports as CSV files"],
+      ["criterion.status", id, "pending", "verified", "export.test.ts passes"],
+    ]);
+  });
+
+  it("should reject updates and deletes", () => {
+    const raw = new Database(getDbPath(repoDir));
+    try {
+      expect(() => raw.run(`UPDATE events SET actor = 'someone else'`)).toThrow("events are append-only");
+      expect(() => raw.run(`DELETE FROM events`)).toThrow("events are append-only");
+    } finally {
+      raw.close();
+    }
+    expect(getEvents({ featureId: FEATURE })).toHaveLength(1);
+  });
+
+  it("should attribute events to the actor and the session holding the claim", () => {
+    setEventActor("planner-agent");
+    const sessionId = createSession();
+    claimFeature(sessionId, FEATURE);
+    recordGateRun(FEATURE, "specify", "artifact", false, "proposal.md not found");
+
+    const [claimed, gate] = getEvents({ featureId: FEATURE, types: ["session.claimed", "gate.run"] });
+
+    expect(claimed).toMatchObject({ sessionId, actor: "planner-agent" });
+    expect(gate).toMatchObject({
+      subject: "artifact",
+      to: "failed",
+      detail: "specify phase: proposal.md not found",
+      sessionId,
+      actor: "planner-agent",
+    });
+    expect(getEvents({ sessionId }).map(e => e.type)).toContain("session.started");
+
+    setEventActor();
+    expect(getEventActor()).not.toBe("planner-agent");
+  });
+
+  it("should follow renames without inheriting a reused name's events", () => {
+    updateFeaturePhase(FEATURE, "propose");
+    renameFeatureRecord(FEATURE, "renamed-feature");
+    addFeature({ id: FEATURE, name: FEATURE });
+    updateFeaturePhase("renamed-feature", "specify");
+
+    expect(getFeatureTimeline("renamed-feature").map(e => [e.type, e.to])).toEqual([
+      ["feature.created", "pending"],
+      ["feature.phase", "propose"],
+      ["feature.renamed", "renamed-feature"],
+      ["feature.phase", "specify"],
+    ]);
+    expect(getFeatureTimeline(FEATURE).map(e => e.type)).toEqual(["feature.created"]);
+  });
+});
+
+describe("executePhase() gate runs", () => {
+  beforeEach(() => {
+    const constitutionPath = getArtifactPath(FEATURE, "constitution", repoDir);
+    mkdirSync(dirname(constitutionPath), { recursive: true });
+    writeFileSync(constitutionPath, "# Constitution\n");
+  });
+
+  it("should record gate runs but not during a dry run", async () => {
+    await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir, dryRun: true });
+    await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir });
+
+    const gates = getEvents({ featureId: FEATURE, types: ["gate.run"] });
+
+    expect(gates.map(e => [e.subject, e.to, e.detail])).toEqual([["prerequisite", "passed", "propose phase"]]);
+    expect(getFeatureTimeline(FEATURE).filter(e => e.type === "feature.phase").map(e => e.to)).toEqual(["propose"]);
+  });
+});
+
+describe("specfirst history", () => {
+  it("should print the feature's events", async () => {
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE });
+    updateFeatureStatus(FEATURE, "in_progress");
+    const out: string[] = [];
+    const io: CliIO = { stdout: (line) => out.push(line), stderr: () => {}, readStdin: async () => "" };
+
+    expect(await runCli(["history", FEATURE, "--project", repoDir], io)).toBe(EXIT_CODES.SUCCESS);
+
+    expect(out[0]).toBe(`📜 ${FEATURE}`);
+    expect(out[2]).toContain("feature.status");
+    expect(out[2]).toContain("pending → in_progress");
+  });
+
+  it("should report no events without creating the database", async () => {
+    const out: string[] = [];
+    const io: CliIO = { stdout: (line) => out.push(line), stderr: () => {}, readStdin: async () => "" };
+
+    expect(await runCli(["history", FEATURE, "--project", repoDir, "--json"], io)).toBe(EXIT_CODES.SUCCESS);
+
+    expect(JSON.parse(out.join("\n"))).toEqual([]);
+    expect(existsSync(getDbPath(repoDir))).toBe(false);
+  });
+});
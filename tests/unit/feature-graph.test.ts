@@ -0,0 +1,97 @@
+/**
+ * Feature Graph Unit Tests - SpecFirst 4.0
+ *
+ * Tests dependency path finding, queue ordering and DOT/Mermaid export.
+ *
+ * @module tests/unit/feature-graph
+ * @version 4.0.0
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  findDependencyPath,
+  sortFeaturesByDependencies,
+  formatGraphDot,
+  formatGraphMermaid,
+} from "../../lib/feature-graph";
+import type { Feature, FeatureDependency } from "../../lib/database";
+
+function feature(id: string, name = id): Feature {
+  return {
+    id,
+    name,
+    description: null,
+    priority: 999,
+    status: "pending",
+    phase: "none",
+    proposalPath: null,
+    specPath: null,
+    planPath: null,
+    tasksPath: null,
+    constitutionPath: null,
+    createdAt: new Date(),
+    startedAt: null,
+    completedAt: null,
+    sessionId: null,
+    skipReason: null,
+    prdStatus: null,
+    prdPath: null,
+    effortLevel: null,
+    iteration: 0,
+    verificationSummary: null,
+    claimExpiresAt: null,
+    workflow: null,
+  };
+}
+
+const FEATURES = [feature("checkout", 'Checkout "v2"'), feature("cart"), feature("auth")];
+const EDGES: FeatureDependency[] = [
+  { featureId: "checkout", dependsOnId: "cart" },
+  { featureId: "cart", dependsOnId: "auth" },
+];
+
+describe("findDependencyPath()", () => {
+  it("should follow transitive dependencies", () => {
+    expect(findDependencyPath(EDGES, "checkout", "auth")).toEqual(["checkout", "cart", "auth"]);
+    expect(findDependencyPath(EDGES, "auth", "checkout")).toBeNull();
+  });
+});
+
+describe("sortFeaturesByDependencies()", () => {
+  it("should place prerequisites first", () => {
+    expect(sortFeaturesByDependencies(FEATURES, EDGES).map(f => f.id)).toEqual(["auth", "cart", "checkout"]);
+  });
+
+  it("should keep input order for independent features", () => {
+    const features = [feature("b"), feature("a"), feature("c")];
+    expect(sortFeaturesByDependencies(features, []).map(f => f.id)).toEqual(["b", "a", "c"]);
+  });
+
+  it("should throw on a cycle", () => {
+    const cyclic = [...EDGES, { featureId: "auth", dependsOnId: "checkout" }];
+    expect(() => sortFeaturesByDependencies(FEATURES, cyclic)).toThrow("Dependency cycle");
+  });
+});
+
+describe("graph export", () => {
+  it("should render DOT with prerequisite → dependent arrows", () => {
+    const dot = formatGraphDot(FEATURES, EDGES);
+
+    expect(dot.startsWith("digraph features {")).toBe(true);
+    expect(dot).toContain('"cart" -> "checkout";');
+    expect(dot).toContain('label="Checkout \\"v2\\"\\npending · none"');
+  });
+
+  it("should render a Mermaid flowchart", () => {
+    const mermaid = formatGraphMermaid(FEATURES, EDGES);
+
+    expect(mermaid.split("\n")).toEqual([
+      "flowchart LR",
+      '  f1["Checkout #quot;v2#quot;<br/>pending · none"]',
+      '  f2["cart<br/>pending · none"]',
+      '  f3["auth<br/>pending · none"]',
+      "  f2 --> f1",
+      "  f3 --> f2",
+    ]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Feature Identity Unit Tests - SpecFirst 4.0
+ *
+ * Tests FeatureId validation and slugs, rejection of unsafe names by the
+ * database, path helpers and phases, and renaming a feature with its
+ * artifacts, SQLite record and git history.
+ *
+ * @module tests/unit/feature-id
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  validateFeatureId,
+  isValidFeatureId,
+  assertFeatureId,
+  slugifyFeatureName,
+  FeatureIdError,
+} from "../../lib/feature-id";
+import { getArtifactPath } from "../../lib/config";
+import { getFeatureDir } from "../../lib/platform";
+import { parseFrontmatter } from "../../artifacts/frontmatter";
+import { executePhase, renameFeature } from "../../phases/orchestrator";
+import { createProposalInteractive } from "../../phases/propose";
+import { createPhaseCommit, createRenameCommit, isPhaseComplete, __testing as gitTesting } from "../../lib/git";
+import {
+  initDatabase,
+  closeDatabase,
+  addFeature,
+  getFeature,
+  addCriterion,
+  getCriteria,
+  addFeatureDependency,
+  getFeatureDependencies,
+} from "../../lib/database";
+
+const { runGit } = gitTesting;
+
+describe("validateFeatureId()", () => {
+  it("should accept lowercase slugs", () => {
+    for (const id of ["user-auth", "feat-001", "v2", "a"]) {
+      expect(validateFeatureId(id)).toEqual([]);
+    }
+  });
+
+  it("should reject traversal, separators, spaces and shell characters", () => {
+    for (const id of ["../../etc", "a/b", "a\\b", "user auth", "User-Auth", "x$(id)", "-auth", "auth--v2", "auth-", ""]) {
+      expect(isValidFeatureId(id)).toBe(false);
+    }
+    expect(validateFeatureId("../../etc")).toContain("must not contain path separators or '..'");
+  });
+
+  it("should reject reserved and overlong names", () => {
+    expect(validateFeatureId("none")).toEqual(['"none" is reserved']);
+    expect(isValidFeatureId("com1")).toBe(false);
+    expect(validateFeatureId("a".repeat(65))).toEqual(["must be at most 64 characters"]);
+  });
+
+  it("should throw FeatureIdError listing every problem", () => {
+    expect(() => assertFeatureId("Bad Name")).toThrow(FeatureIdError);
+    expect(() => assertFeatureId("Bad Name")).toThrow('Invalid feature name "Bad Name"');
+  });
+});
+
+describe("slugifyFeatureName()", () => {
+  it("should derive a slug from a display title", () => {
+    expect(slugifyFeatureName("User Auth (v2)")).toBe("user-auth-v2");
+    expect(slugifyFeatureName("  Café Menü  ")).toBe("cafe-menu");
+  });
+
+  it("should throw when nothing usable remains", () => {
+    expect(() => slugifyFeatureName("!!!")).toThrow(FeatureIdError);
+  });
+});
+
+describe("unsafe feature names", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-feature-id-"));
+    process.env.OPENCODE_DIR = rootDir;
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should be rejected by addFeature", () => {
+    initDatabase(rootDir);
+    expect(() => addFeature({ id: "../../etc", name: "Escape" })).toThrow(FeatureIdError);
+    addFeature({ id: "user-auth", name: "User Authentication (v2)" });
+    expect(getFeature("user-auth")?.name).toBe("User Authentication (v2)");
+  });
+
+  it("should be rejected by artifact path helpers", () => {
+    expect(() => getArtifactPath("../../etc", "spec")).toThrow(FeatureIdError);
+  });
+
+  it("should fail phases before anything is written", async () => {
+    const result = await executePhase("propose", "../../etc", {}, { projectPath: rootDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid feature name "../../etc"');
+    expect(existsSync(join(rootDir, "etc"))).toBe(false);
+  });
+});
+
+describe("display titles", () => {
+  const originalEnv = { ...process.env };
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-title-"));
+    process.env.OPENCODE_DIR = repoDir;
+    for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+      delete process.env[key];
+    }
+    await runGit(["init", "-q"], repoDir);
+    await runGit(["config", "user.email", "test@example.com"], repoDir);
+    await runGit(["config", "user.name", "Test"], repoDir);
+    const constitutionPath = getArtifactPath("user-auth", "constitution", repoDir);
+    mkdirSync(dirname(constitutionPath), { recursive: true });
+    writeFileSync(constitutionPath, "# Constitution\n");
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should name a proposed feature after its title", async () => {
+    const result = await executePhase("propose", "user-auth", {
+      featureName: "user-auth",
+      title: "User Authentication (v2)",
+      problemStatement: "Users share one account. Nobody can tell who changed what.",
+      solutionApproaches: [{ name: "JWT", description: "Signed tokens", pros: ["Stateless"], cons: ["Revocation"] }],
+      recommendedApproach: "Issue signed tokens at login.",
+    }, { projectPath: repoDir });
+
+    expect(result.error).toBeUndefined();
+    expect(getFeature("user-auth")?.name).toBe("User Authentication (v2)");
+  });
+
+  it("should fall back to the FeatureId without a title", async () => {
+    await createProposalInteractive("user-auth", repoDir);
+    expect(getFeature("user-auth")?.name).toBe("user-auth");
+
+    await createProposalInteractive("billing", repoDir, "Billing");
+    expect(getFeature("billing")?.name).toBe("Billing");
+  });
+});
+
+describe("renameFeature()", () => {
+  const originalEnv = { ...process.env };
+  let repoDir: string;
+
+  function writeArtifact(feature: string, type: "proposal" | "spec", phase: string, title = phase): string {
+    const path = getArtifactPath(feature, type);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `---\nfeature: ${feature}\nphase: ${phase}\nstatus: complete\n---\n\n# ${title}\n`);
+    return path;
+  }
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-rename-"));
+    process.env.OPENCODE_DIR = repoDir;
+    delete process.env.SPECFIRST_AUTO_COMMIT;
+    delete process.env.SPECFIRST_BRANCH;
+    delete process.env.SPECFIRST_BRANCH_PER_FEATURE;
+    await runGit(["init", "-q", "-b", "main"], repoDir);
+    await runGit(["config", "user.email", "test@example.com"], repoDir);
+    await runGit(["config", "user.name", "Test"], repoDir);
+
+    await createPhaseCommit("propose", "auth", writeArtifact("auth", "proposal", "propose"), repoDir);
+    await createPhaseCommit("specify", "auth", writeArtifact("auth", "spec", "specify"), repoDir);
+
+    initDatabase(repoDir);
+    addFeature({ id: "auth", name: "auth", proposalPath: getArtifactPath("auth", "proposal") });
+    addFeature({ id: "checkout", name: "Checkout" });
+    addFeatureDependency("checkout", "auth");
+    addCriterion("auth", "Login succeeds with valid credentials and session");
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should move artifacts and rewrite their frontmatter", async () => {
+    const result = await renameFeature("auth", "user-auth", { projectPath: repoDir });
+
+    expect(result.success).toBe(true);
+    expect(result.movedPaths).toContain(getFeatureDir("user-auth"));
+    expect(existsSync(getFeatureDir("auth"))).toBe(false);
+    expect(result.updatedArtifacts).toHaveLength(2);
+    expect(parseFrontmatter(readFileSync(getArtifactPath("user-auth", "spec"), "utf-8")).feature).toBe("user-auth");
+  });
+
+  it("should move the database record and everything pointing at it", async () => {
+    await renameFeature("auth", "user-auth", { projectPath: repoDir, title: "User Authentication" });
+
+    expect(getFeature("auth")).toBeNull();
+    expect(getFeature("user-auth")).toMatchObject({
+      name: "User Authentication",
+      proposalPath: getArtifactPath("user-auth", "proposal"),
+    });
+    expect(getCriteria("user-auth")).toHaveLength(1);
+    expect(getFeatureDependencies("checkout")).toEqual(["user-auth"]);
+  });
+
+  it("should carry completed phases over to the new name", async () => {
+    await renameFeature("auth", "user-auth", { projectPath: repoDir });
+
+    expect(await isPhaseComplete("specify", "user-auth", repoDir)).toBe(true);
+    expect(await isPhaseComplete("propose", "auth", repoDir)).toBe(false);
+    expect((await runGit(["log", "-1", "--format=%s"], repoDir)).stdout).toBe("SpecFirst: feature renamed from auth to user-auth");
+    expect((await runGit(["status", "--porcelain", "--", "Features"], repoDir)).stdout).toBe("");
+  });
+
+  it("should not credit a new feature reusing the old name", async () => {
+    await createRenameCommit("auth", "user-auth", [], repoDir);
+    await createPhaseCommit("propose", "auth", writeArtifact("auth", "proposal", "propose", "Another auth"), repoDir);
+
+    expect(await isPhaseComplete("propose", "auth", repoDir)).toBe(true);
+    expect(await isPhaseComplete("specify", "auth", repoDir)).toBe(false);
+    expect(await isPhaseComplete("specify", "user-auth", repoDir)).toBe(true);
+  });
+
+  it("should refuse names that are taken or invalid", async () => {
+    expect((await renameFeature("auth", "checkout", { projectPath: repoDir })).error).toBe("Feature already exists: checkout");
+    expect((await renameFeature("auth", "../x", { projectPath: repoDir })).success).toBe(false);
+    expect((await renameFeature("missing", "other", { projectPath: repoDir })).error).toBe("Feature not found: missing");
+    expect(existsSync(getFeatureDir("auth"))).toBe(true);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Frontmatter Unit Tests - SpecFirst 4.0
+ *
+ * Tests YAML frontmatter parsing, schema validation and rendering shared by
+ * the artifact parsers, validators and gates.
+ *
+ * @module tests/unit/frontmatter
+ * @version 4.0.0
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  extractFrontmatter,
+  parseFrontmatter,
+  validateFrontmatter,
+  checkArtifactFrontmatter,
+  formatFrontmatter,
+} from "../../artifacts/frontmatter";
+import { generateSpec, parseSpec, validateSpec } from "../../artifacts/spec";
+import { generateTasks } from "../../artifacts/tasks";
+import { validateISCFormat } from "../../gates/isc-format";
+import type { ValidationError } from "../../artifacts/types";
+
+const SPEC_FRONTMATTER = `---
+feature: password-reset
+phase: specify
+status: draft
+created: 2026-01-25
+based_on: proposal.md
+---
+
+# password-reset
+`;
+
+describe("extractFrontmatter()", () => {
+  it("should parse lists, quoted strings and nested keys", () => {
+    const errors: ValidationError[] = [];
+    const block = extractFrontmatter(
+      `---\nfeature: auth\ntitle: "Reset: v2"\ntags: [security, email]\nowner:\n  team: identity\n---\nBody`,
+      errors
+    );
+
+    expect(errors).toEqual([]);
+    expect(block!.data).toEqual({
+      feature: "auth",
+      title: "Reset: v2",
+      tags: ["security", "email"],
+      owner: { team: "identity" },
+    });
+    expect(block!.keyLines.owner).toBe(5);
+    expect(block!.bodyStart).toBe(7);
+  });
+
+  it("should report missing and unterminated frontmatter", () => {
+    const missing: ValidationError[] = [];
+    const unterminated: ValidationError[] = [];
+
+    expect(extractFrontmatter("# Title", missing)).toBeNull();
+    expect(extractFrontmatter("---\nfeature: x\n# Title", unterminated)).toBeNull();
+    expect(missing[0].message).toBe("Missing YAML frontmatter");
+    expect(unterminated[0].message).toBe("Unterminated YAML frontmatter");
+  });
+
+  it("should report invalid YAML at the offending line", () => {
+    const errors: ValidationError[] = [];
+    const block = extractFrontmatter("---\nfeature: x\ntags: [a, b\nstatus: draft\n---\n", errors);
+
+    expect(block!.invalid).toBe(true);
+    expect(errors[0].message).toContain("Invalid YAML frontmatter");
+    expect(errors[0].line).toBe(3);
+  });
+});
+
+describe("parseFrontmatter()", () => {
+  it("should return an empty object for content without frontmatter", () => {
+    expect(parseFrontmatter("# Just a heading")).toEqual({});
+    expect(parseFrontmatter("---\nstatus: complete\n---\nBody").status).toBe("complete");
+  });
+
+  it("should accept unquoted colons in plain values", () => {
+    expect(parseFrontmatter("---\ntitle: Auth: SSO\nstatus: complete\n---\nBody")).toEqual({
+      title: "Auth: SSO",
+      status: "complete",
+    });
+  });
+});
+
+describe("validateFrontmatter()", () => {
+  function validate(content: string, phase: "propose" | "specify" | "plan" | "implement") {
+    const errors: ValidationError[] = [];
+    const frontmatter = validateFrontmatter(extractFrontmatter(content, errors)!, phase, errors);
+    return { frontmatter, errors };
+  }
+
+  it("should accept valid spec frontmatter", () => {
+    const { frontmatter, errors } = validate(SPEC_FRONTMATTER, "specify");
+
+    expect(errors).toEqual([]);
+    expect(frontmatter.based_on).toBe("proposal.md");
+  });
+
+  it("should require phase extensions", () => {
+    const { errors } = validate(SPEC_FRONTMATTER.replace("based_on: proposal.md\n", ""), "specify");
+    expect(errors.map(e => e.field)).toEqual(["frontmatter.based_on"]);
+  });
+
+  it("should report schema errors at the key's line", () => {
+    const content = SPEC_FRONTMATTER
+      .replace("status: draft", "status: shipped")
+      .replace("created: 2026-01-25", "created: last week");
+    const { errors } = validate(content, "specify");
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatchObject({ field: "frontmatter.status", line: 4 });
+    expect(errors[1]).toMatchObject({ field: "frontmatter.created", line: 5 });
+  });
+
+  it("should reject lists for single-value fields", () => {
+    const { errors } = validate(SPEC_FRONTMATTER.replace("feature: password-reset", "feature: [a, b]"), "specify");
+    expect(errors[0]).toMatchObject({ field: "frontmatter.feature", line: 2 });
+  });
+
+  it("should accept progress statuses only for tasks.md", () => {
+    const tasks = "---\nfeature: f\nphase: implement\nstatus: in_progress\ncreated: 2026-01-25\nbased_on: plan.md\n---\n";
+
+    expect(validate(tasks, "implement").errors).toEqual([]);
+    expect(checkArtifactFrontmatter(SPEC_FRONTMATTER.replace("draft", "pending"), "specify")).toHaveLength(1);
+  });
+});
+
+describe("formatFrontmatter()", () => {
+  it("should quote values that would not round-trip", () => {
+    const block = formatFrontmatter({ feature: "auth", milestone: "M1: Beta", version: "1.0", author: undefined });
+
+    expect(block).toBe('---\nfeature: auth\nmilestone: "M1: Beta"\nversion: "1.0"\n---');
+    expect(parseFrontmatter(block)).toEqual({ feature: "auth", milestone: "M1: Beta", version: "1.0" });
+  });
+
+  it("should round-trip milestones containing colons through spec.md", () => {
+    const spec = parseSpec(generateSpec("f", [], [], [], [], undefined, "Q3: Launch"));
+    expect(spec.frontmatter.milestone).toBe("Q3: Launch");
+  });
+});
+
+describe("Validators and gates", () => {
+  it("should report frontmatter errors with line numbers in validateSpec", () => {
+    const content = generateSpec("f", [], [], [], []).replace("phase: specify", "phase: plan");
+    expect(validateSpec(content).errors).toContain('Line 3: Expected phase "specify", found "plan"');
+  });
+
+  it("should validate frontmatter in the ISC format gate when present", () => {
+    const content = generateTasks("f", "Ideal", [
+      { id: 1, criterion: "Password reset endpoint returns success for registered users", status: "⬜" },
+    ], [
+      { id: "A1", criterion: "No reset tokens are ever written to application logs", status: "👀" },
+    ]);
+
+    expect(validateISCFormat(content).passed).toBe(true);
+
+    const broken = validateISCFormat(content.replace("status: pending", "status: done"));
+    expect(broken.passed).toBe(false);
+    expect(broken.errors[0]).toMatchObject({ line: 4 });
+  });
+});
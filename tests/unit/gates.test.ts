@@ -14,9 +14,11 @@ import { prerequisiteGate } from "../../gates/prerequisite";
 import { artifactGate } from "../../gates/artifact";
 import { validateISCFormat } from "../../gates/isc-format";
 import { phaseCompleteGate } from "../../gates/phase-complete";
-import { existsSync } from "fs";
+import { getArtifactPath } from "../../lib/config";
+import { existsSync, mkdtempSync } from "fs";
 import { mkdir, writeFile, rm, readFile } from "fs/promises";
-import { join } from "path";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
 
 const TEST_FIXTURES_DIR = join(import.meta.dir, "../fixtures/test-feature");
 
@@ -127,6 +129,28 @@ describe("Gates", () => {
         await cleanupTestDir(testFeature);
       }
     });
+
+    it("should fail for artifacts over the configured size limit", async () => {
+      const originalEnv = { ...process.env };
+      const rootDir = mkdtempSync(join(tmpdir(), "specfirst-gates-"));
+      process.env.OPENCODE_DIR = rootDir;
+      process.env.SPECFIRST_MAX_ARTIFACT_KB = "1";
+      
+      try {
+        const constitutionPath = getArtifactPath("oversized", "constitution");
+        await mkdir(dirname(constitutionPath), { recursive: true });
+        await writeFile(constitutionPath, "x".repeat(2048));
+        
+        const result = await artifactGate("propose", "oversized");
+        
+        expect(result.passed).toBe(false);
+        expect(result.oversizedArtifacts).toEqual(["constitution.md (2 KB)"]);
+        expect(result.error).toContain("exceed 1 KB");
+      } finally {
+        process.env = { ...originalEnv };
+        await rm(rootDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("ISC Format Gate", () => {
@@ -241,6 +265,28 @@ Test
       }
     });
 
+    it("should report invalid frontmatter YAML instead of a missing status", async () => {
+      const originalOpencodeDir = process.env.OPENCODE_DIR;
+      const rootDir = mkdtempSync(join(tmpdir(), "specfirst-phase-complete-"));
+      process.env.OPENCODE_DIR = rootDir;
+      
+      try {
+        const proposalPath = getArtifactPath("broken-yaml", "proposal", rootDir);
+        await mkdir(dirname(proposalPath), { recursive: true });
+        await writeFile(proposalPath, "---\nstatus: complete\ntags: [a, b\n---\n# Proposal\n");
+        
+        const result = await phaseCompleteGate("propose", "broken-yaml", rootDir);
+        
+        expect(result.passed).toBe(false);
+        expect(result.error).toContain("Artifact frontmatter line 3: Invalid YAML frontmatter");
+        expect(result.error).not.toContain("(missing)");
+      } finally {
+        if (originalOpencodeDir === undefined) delete process.env.OPENCODE_DIR;
+        else process.env.OPENCODE_DIR = originalOpencodeDir;
+        await rm(rootDir, { recursive: true, force: true });
+      }
+    });
+
     it("should provide resolution guidance", async () => {
       const testFeature = getUniqueFeatureName();
       
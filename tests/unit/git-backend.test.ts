@@ -0,0 +1,181 @@
+/**
+ * Git Backend Unit Tests - SpecFirst 4.0
+ *
+ * Tests the argv-based process backend (no shell, exit codes, timeout and
+ * output limits) and driving gates and phases against the in-memory
+ * repository from lib/git-memory.
+ *
+ * @module tests/unit/git-backend
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  createPhaseCommit,
+  createReopenCommit,
+  isPhaseComplete,
+  getPhaseMarkers,
+  createProcessGitBackend,
+  setGitBackend,
+  __testing as gitTesting,
+} from "../../lib/git";
+import { createMemoryGitBackend } from "../../lib/git-memory";
+import { phaseCompleteGate } from "../../gates/phase-complete";
+import { executePhase, detectNextPhase } from "../../phases/orchestrator";
+import { getArtifactPath } from "../../lib/config";
+import { closeDatabase } from "../../lib/database";
+
+const { runGit } = gitTesting;
+
+describe("process git backend", () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-git-backend-"));
+    await runGit(["init", "-q", "-b", "main"], repoDir);
+    await runGit(["config", "user.email", "test@example.com"], repoDir);
+    await runGit(["config", "user.name", "Test"], repoDir);
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should pass feature names and paths to git without a shell", async () => {
+    const feature = "x$(touch pwned)`touch pwned2`";
+    const path = join(repoDir, "proposal $(touch pwned3).md");
+    writeFileSync(path, "# Proposal\n");
+
+    const result = await createPhaseCommit("propose", feature, path, repoDir);
+
+    expect(result.success).toBe(true);
+    expect(existsSync(join(repoDir, "pwned"))).toBe(false);
+    expect(existsSync(join(repoDir, "pwned2"))).toBe(false);
+    expect(existsSync(join(repoDir, "pwned3"))).toBe(false);
+    expect(await isPhaseComplete("propose", feature, repoDir)).toBe(true);
+    expect((await runGit(["log", "-1", "--format=%s"], repoDir)).stdout).toBe(`SpecFirst: propose phase complete for ${feature}`);
+  });
+
+  it("should report git's exit code", async () => {
+    expect(await runGit(["rev-parse", "--git-dir"], repoDir)).toMatchObject({ success: true, exitCode: 0 });
+
+    const result = await runGit(["rev-parse", "--verify", "--quiet", "refs/heads/missing"], repoDir);
+    expect(result).toMatchObject({ success: false, exitCode: 1 });
+  });
+
+  it("should kill git after the timeout", async () => {
+    // hash-object waits for stdin, which is never closed
+    const result = await runGit(["hash-object", "--stdin"], repoDir, { timeoutMs: 200 });
+
+    expect(result).toMatchObject({ success: false, exitCode: null, timedOut: true });
+    expect(result.stderr).toContain("timed out after 200ms");
+  });
+
+  it("should fail when output exceeds maxBuffer", async () => {
+    const backend = createProcessGitBackend({ maxBuffer: 4 });
+    const result = await backend.run(["--version"], repoDir, {});
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBeUndefined();
+  });
+});
+
+describe("in-memory git backend", () => {
+  const originalEnv = { ...process.env };
+  const originalCwd = process.cwd();
+  const FEATURE = "memory-feature";
+  let rootDir: string;
+
+  function writeArtifact(type: "proposal" | "spec", phase: string): string {
+    const path = getArtifactPath(FEATURE, type);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `---\nfeature: ${FEATURE}\nphase: ${phase}\nstatus: complete\n---\n\n# ${phase}\n`);
+    return path;
+  }
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-memory-"));
+    process.env.OPENCODE_DIR = rootDir;
+    delete process.env.SPECFIRST_AUTO_COMMIT;
+    delete process.env.SPECFIRST_BRANCH;
+    delete process.env.SPECFIRST_BRANCH_PER_FEATURE;
+    process.chdir(rootDir);
+  });
+
+  afterEach(() => {
+    setGitBackend();
+    closeDatabase();
+    process.chdir(originalCwd);
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should record and read phase markers without spawning git", async () => {
+    const git = createMemoryGitBackend({ gitDir: join(rootDir, "git") });
+    setGitBackend(git);
+
+    await createPhaseCommit("propose", FEATURE, writeArtifact("proposal", "propose"));
+    await createPhaseCommit("specify", FEATURE, writeArtifact("spec", "specify"));
+    await createReopenCommit("specify", FEATURE, []);
+
+    expect(git.commits.size).toBe(3);
+    expect(await isPhaseComplete("propose", FEATURE)).toBe(true);
+    expect(await isPhaseComplete("specify", FEATURE)).toBe(false);
+    expect((await getPhaseMarkers(FEATURE)).map(m => `${m.phase}:${m.status}`)).toEqual([
+      "specify:reopened",
+      "specify:complete",
+      "propose:complete",
+    ]);
+  });
+
+  it("should run the phase completion gate against the fake repository", async () => {
+    setGitBackend(createMemoryGitBackend());
+    const proposal = writeArtifact("proposal", "propose");
+
+    expect((await phaseCompleteGate("propose", FEATURE)).passed).toBe(false);
+
+    await createPhaseCommit("propose", FEATURE, proposal);
+    expect((await phaseCompleteGate("propose", FEATURE)).passed).toBe(true);
+  });
+
+  it("should remove its scratch git dir when replaced", async () => {
+    const git = createMemoryGitBackend();
+    setGitBackend(git);
+    const gitDir = (await git.run(["rev-parse", "--git-dir"], rootDir, {})).stdout;
+    expect(existsSync(gitDir)).toBe(true);
+
+    setGitBackend();
+
+    expect(existsSync(gitDir)).toBe(false);
+  });
+
+  it("should leave a gitDir it was given", async () => {
+    const gitDir = join(rootDir, "git");
+    mkdirSync(gitDir);
+    const git = createMemoryGitBackend({ gitDir });
+    await git.run(["rev-parse", "--git-dir"], rootDir, {});
+
+    git.dispose();
+
+    expect(existsSync(gitDir)).toBe(true);
+  });
+
+  it("should drive a custom workflow phase through the orchestrator", async () => {
+    const git = createMemoryGitBackend();
+    setGitBackend(git);
+    const constitution = getArtifactPath(FEATURE, "constitution");
+    mkdirSync(dirname(constitution), { recursive: true });
+    writeFileSync(constitution, "# Constitution\n");
+    mkdirSync(join(rootDir, ".specfirst", "workflows"), { recursive: true });
+    writeFileSync(join(rootDir, ".specfirst", "workflows", "audit.yaml"), "name: audit\nphases: [audit-review]\n");
+
+    const result = await executePhase("audit-review", FEATURE, { approved: true }, { projectPath: rootDir, workflow: "audit" });
+
+    expect(result.success).toBe(true);
+    expect(git.calls.some(args => args[0] === "commit")).toBe(true);
+    expect(await detectNextPhase(FEATURE, { projectPath: rootDir })).toBeNull();
+  });
+});
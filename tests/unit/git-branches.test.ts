@@ -0,0 +1,202 @@
+/**
+ * Git Branch and Auto-Commit Unit Tests - SpecFirst 4.0
+ *
+ * Tests how phase markers honor SPECFIRST_AUTO_COMMIT (queued markers and
+ * `commitPendingMarkers`) and SPECFIRST_BRANCH / branch-per-feature mode,
+ * including merging a feature branch back at release.
+ *
+ * @module tests/unit/git-branches
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createPhaseCommit,
+  isPhaseComplete,
+  getPendingMarkers,
+  commitPendingMarkers,
+  getFeatureBranch,
+  mergeFeatureBranch,
+  createRenameCommit,
+  __testing as gitTesting,
+} from "../../lib/git";
+
+const FEATURE = "branch-feature";
+const { runGit } = gitTesting;
+
+describe("phase markers", () => {
+  const originalEnv = { ...process.env };
+  let repoDir: string;
+
+  /** Writes an artifact and records its phase marker */
+  async function complete(phase: string, file = `${phase}.md`) {
+    const path = join(repoDir, file);
+    writeFileSync(path, `# ${phase}\n`);
+    return createPhaseCommit(phase, FEATURE, path, repoDir);
+  }
+
+  async function subjects(ref = "HEAD"): Promise<string[]> {
+    const result = await runGit(["log", ref, "--format=%s"], repoDir);
+    return result.stdout.split("\n").filter(Boolean);
+  }
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-branches-"));
+    process.env.OPENCODE_DIR = repoDir;
+    delete process.env.SPECFIRST_AUTO_COMMIT;
+    delete process.env.SPECFIRST_BRANCH;
+    delete process.env.SPECFIRST_BRANCH_PER_FEATURE;
+
+    await runGit(["init", "-q", "-b", "main"], repoDir);
+    await runGit(["config", "user.email", "test@example.com"], repoDir);
+    await runGit(["config", "user.name", "Test"], repoDir);
+    writeFileSync(join(repoDir, "README.md"), "# Project\n");
+    await runGit(["add", "README.md"], repoDir);
+    await runGit(["commit", "-q", "-m", "Initial commit"], repoDir);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe("with auto-commit off", () => {
+    it("should stage the artifact and queue the marker", async () => {
+      process.env.SPECFIRST_AUTO_COMMIT = "false";
+
+      const result = await complete("propose");
+
+      expect(result).toMatchObject({ success: true, pending: true });
+      expect(await subjects()).toEqual(["Initial commit"]);
+      expect((await runGit(["diff", "--cached", "--name-only"], repoDir)).stdout).toBe("propose.md");
+      expect(await getPendingMarkers(repoDir)).toHaveLength(1);
+      expect(await isPhaseComplete("propose", FEATURE, repoDir)).toBe(true);
+    });
+
+    it("should commit queued markers in order", async () => {
+      process.env.SPECFIRST_AUTO_COMMIT = "false";
+      await complete("propose");
+      await complete("specify");
+
+      const result = await commitPendingMarkers(repoDir);
+
+      expect(result.success).toBe(true);
+      expect((await subjects()).slice(0, 2)).toEqual([
+        `SpecFirst: specify phase complete for ${FEATURE}`,
+        `SpecFirst: propose phase complete for ${FEATURE}`,
+      ].map(s => expect.stringContaining(s)));
+      expect(await getPendingMarkers(repoDir)).toEqual([]);
+      expect((await runGit(["status", "--porcelain"], repoDir)).stdout).toBe("");
+    });
+
+    it("should flush queued markers before the next automatic commit", async () => {
+      process.env.SPECFIRST_AUTO_COMMIT = "false";
+      await complete("propose");
+      delete process.env.SPECFIRST_AUTO_COMMIT;
+
+      const result = await complete("specify");
+
+      expect(result.success).toBe(true);
+      expect(result.pending).toBeUndefined();
+      const log = await subjects();
+      expect(log[0]).toContain("SpecFirst: specify phase complete");
+      expect(log[1]).toContain("SpecFirst: propose phase complete");
+      expect(await getPendingMarkers(repoDir)).toEqual([]);
+    });
+  });
+
+  describe("with SPECFIRST_BRANCH", () => {
+    it("should commit markers on the configured branch", async () => {
+      process.env.SPECFIRST_BRANCH = "specs";
+
+      await complete("propose");
+
+      expect((await runGit(["branch", "--show-current"], repoDir)).stdout).toBe("specs");
+      expect(await subjects("main")).toEqual(["Initial commit"]);
+      expect(await isPhaseComplete("propose", FEATURE, repoDir)).toBe(true);
+    });
+  });
+
+  describe("with branch-per-feature", () => {
+    beforeEach(() => {
+      process.env.SPECFIRST_BRANCH_PER_FEATURE = "true";
+    });
+
+    it("should create the feature branch from the current branch", async () => {
+      expect(getFeatureBranch(FEATURE)).toBe(`specfirst/${FEATURE}`);
+
+      await complete("propose");
+
+      expect((await runGit(["branch", "--show-current"], repoDir)).stdout).toBe(`specfirst/${FEATURE}`);
+      expect((await runGit(["config", "--get", `branch.specfirst/${FEATURE}.specfirstBase`], repoDir)).stdout).toBe("main");
+      expect(await subjects("main")).toEqual(["Initial commit"]);
+    });
+
+    it("should branch a second feature from the first feature's base", async () => {
+      await complete("propose");
+      const secondPath = join(repoDir, "second.md");
+      writeFileSync(secondPath, "# propose\n");
+      await createPhaseCommit("propose", "second-feature", secondPath, repoDir);
+
+      expect((await runGit(["branch", "--show-current"], repoDir)).stdout).toBe("specfirst/second-feature");
+      expect((await runGit(["config", "--get", "branch.specfirst/second-feature.specfirstBase"], repoDir)).stdout).toBe("main");
+      expect(await subjects("specfirst/second-feature")).not.toContain(`SpecFirst: propose complete for ${FEATURE}`);
+    });
+
+    it("should find markers on the feature branch from another branch", async () => {
+      await complete("propose");
+      await runGit(["checkout", "-q", "main"], repoDir);
+
+      expect(await isPhaseComplete("propose", FEATURE, repoDir)).toBe(true);
+
+      await complete("specify");
+      expect((await runGit(["branch", "--show-current"], repoDir)).stdout).toBe(`specfirst/${FEATURE}`);
+      expect(await isPhaseComplete("specify", FEATURE, repoDir)).toBe(true);
+    });
+
+    it("should merge the feature branch into its base and delete it", async () => {
+      await complete("propose");
+      await complete("release");
+
+      const result = await mergeFeatureBranch(FEATURE, "merge", repoDir);
+
+      expect(result).toMatchObject({ success: true, stdout: "main" });
+      expect(await gitTesting.branchExists(`specfirst/${FEATURE}`, repoDir)).toBe(false);
+      expect((await subjects("main"))[0]).toBe(`SpecFirst: merge specfirst/${FEATURE} into main`);
+      expect(await isPhaseComplete("release", FEATURE, repoDir)).toBe(true);
+    });
+
+    it("should squash the feature branch and keep it for marker lookups", async () => {
+      await complete("propose");
+      await complete("release");
+
+      const result = await mergeFeatureBranch(FEATURE, "squash", repoDir);
+
+      expect(result.success).toBe(true);
+      expect(await subjects("main")).toEqual([`SpecFirst: squash specfirst/${FEATURE} into main`, "Initial commit"]);
+      expect((await runGit(["ls-files"], repoDir)).stdout.split("\n")).toContain("release.md");
+      expect(await isPhaseComplete("propose", FEATURE, repoDir)).toBe(true);
+    });
+
+    it("should rename the feature branch with the feature", async () => {
+      await complete("propose");
+
+      const result = await createRenameCommit(FEATURE, "renamed-feature", [], repoDir);
+
+      expect(result.success).toBe(true);
+      expect((await runGit(["branch", "--show-current"], repoDir)).stdout).toBe("specfirst/renamed-feature");
+      expect(await gitTesting.branchExists(`specfirst/${FEATURE}`, repoDir)).toBe(false);
+      expect((await runGit(["config", "--get", "branch.specfirst/renamed-feature.specfirstBase"], repoDir)).stdout).toBe("main");
+      expect(await isPhaseComplete("propose", "renamed-feature", repoDir)).toBe(true);
+    });
+
+    it("should fail when the feature has no branch", async () => {
+      const result = await mergeFeatureBranch("other-feature", "merge", repoDir);
+      expect(result.success).toBe(false);
+      expect(result.stderr).toContain("specfirst/other-feature does not exist");
+    });
+  });
+});
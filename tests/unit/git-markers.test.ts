@@ -0,0 +1,134 @@
+/**
+ * Phase Marker Trailer Unit Tests - SpecFirst 4.0
+ *
+ * Tests the SpecFirst-* trailers recorded on phase commits, exact feature
+ * matching when reading them back, and the fallback to legacy subject-only
+ * marker commits.
+ *
+ * @module tests/unit/git-markers
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createHash } from "crypto";
+import {
+  createPhaseCommit,
+  createReopenCommit,
+  createRenameCommit,
+  isPhaseComplete,
+  getMarkedFeatures,
+  getPhaseMarkers,
+  getPhaseCommit,
+  getFeatureCommits,
+  __testing as gitTesting,
+} from "../../lib/git";
+
+const { runGit } = gitTesting;
+
+describe("phase marker trailers", () => {
+  const originalEnv = { ...process.env };
+  let repoDir: string;
+
+  async function complete(phase: string, feature: string, content = `# ${phase}\n`) {
+    const path = join(repoDir, `${feature}-${phase}.md`);
+    writeFileSync(path, content);
+    return createPhaseCommit(phase, feature, path, repoDir);
+  }
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-markers-"));
+    process.env.OPENCODE_DIR = repoDir;
+    delete process.env.SPECFIRST_AUTO_COMMIT;
+    delete process.env.SPECFIRST_BRANCH;
+    delete process.env.SPECFIRST_BRANCH_PER_FEATURE;
+
+    await runGit(["init", "-q", "-b", "main"], repoDir);
+    await runGit(["config", "user.email", "test@example.com"], repoDir);
+    await runGit(["config", "user.name", "Test"], repoDir);
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should record feature, phase, status and artifact hash as trailers", async () => {
+    await complete("propose", "user-auth", "# Proposal\n");
+
+    const trailers = await runGit(["log", "-1", "--format=%(trailers)"], repoDir);
+    expect(trailers.stdout).toContain("SpecFirst-Feature: user-auth");
+    expect(trailers.stdout).toContain("SpecFirst-Phase: propose");
+    expect(trailers.stdout).toContain("SpecFirst-Status: complete");
+
+    const sha = createHash("sha256").update("# Proposal\n").digest("hex");
+    expect(await getPhaseMarkers("user-auth", repoDir)).toEqual([
+      expect.objectContaining({ feature: "user-auth", phase: "propose", status: "complete", artifactSha256: sha }),
+    ]);
+    expect((await runGit(["log", "-1", "--format=%s"], repoDir)).stdout).toBe("SpecFirst: propose phase complete for user-auth");
+  });
+
+  it("should not confuse features sharing a prefix", async () => {
+    await complete("propose", "auth-v2");
+    await complete("specify", "auth-v2");
+
+    expect(await isPhaseComplete("propose", "auth", repoDir)).toBe(false);
+    expect(await getFeatureCommits("auth", repoDir)).toEqual([]);
+    expect((await getFeatureCommits("auth-v2", repoDir)).map(c => c.message)).toEqual([
+      "SpecFirst: propose phase complete for auth-v2",
+      "SpecFirst: specify phase complete for auth-v2",
+    ]);
+  });
+
+  it("should match feature names containing regex metacharacters literally", async () => {
+    await complete("propose", "api.v2+");
+
+    expect(await isPhaseComplete("propose", "api.v2+", repoDir)).toBe(true);
+    expect(await isPhaseComplete("propose", "apixv22", repoDir)).toBe(false);
+    expect(await getPhaseCommit("propose", "api.v2+", repoDir)).toBeDefined();
+  });
+
+  it("should read reopen markers from trailers", async () => {
+    await complete("propose", "user-auth");
+    await complete("specify", "user-auth");
+    await createReopenCommit("specify", "user-auth", [], "Scope changed", repoDir);
+
+    expect(await isPhaseComplete("propose", "user-auth", repoDir)).toBe(true);
+    expect(await isPhaseComplete("specify", "user-auth", repoDir)).toBe(false);
+    expect((await getPhaseMarkers("user-auth", repoDir))[0]).toMatchObject({ phase: "specify", status: "reopened" });
+  });
+
+  it("should keep reading legacy subject-only markers", async () => {
+    const legacy = "SpecFirst: propose phase complete for old-feature\nArtifact: specs/proposal.md\nStatus: complete";
+    await runGit(["commit", "--allow-empty", "-q", "-m", legacy], repoDir);
+    await runGit(["commit", "--allow-empty", "-q", "-m", "SpecFirst: propose phase complete for old-feature-v2"], repoDir);
+
+    expect(await isPhaseComplete("propose", "old-feature", repoDir)).toBe(true);
+    expect(await isPhaseComplete("specify", "old-feature", repoDir)).toBe(false);
+    expect(await getFeatureCommits("old-feature", repoDir)).toHaveLength(1);
+    expect((await getPhaseMarkers("old-feature", repoDir))[0].artifactSha256).toBeUndefined();
+  });
+
+  it("should read trailers of markers queued with auto-commit off", async () => {
+    process.env.SPECFIRST_AUTO_COMMIT = "false";
+    await complete("propose", "auth");
+    await complete("propose", "auth-v2");
+
+    const markers = await getPhaseMarkers("auth", repoDir);
+    expect(markers).toHaveLength(1);
+    expect(markers[0]).toMatchObject({ feature: "auth", phase: "propose", status: "complete" });
+    expect(markers[0].commit).toBeUndefined();
+  });
+
+  it("should list marked features, leaving out names renamed away from", async () => {
+    await complete("propose", "auth");
+    await complete("propose", "billing");
+    await createRenameCommit("auth", "user-auth", [], repoDir);
+    process.env.SPECFIRST_AUTO_COMMIT = "false";
+    await complete("propose", "search");
+
+    expect(await getMarkedFeatures(repoDir)).toEqual(["billing", "search", "user-auth"]);
+  });
+});
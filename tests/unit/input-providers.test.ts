@@ -0,0 +1,173 @@
+/**
+ * Phase Input Provider Unit Tests - SpecFirst 4.0
+ *
+ * Tests deriving phase input from earlier artifacts and cold-start
+ * resumption of a feature from propose through implement.
+ *
+ * @module tests/unit/input-providers
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { derivePhaseInput, InputDerivationError, INFERRED_MARKER, FIRST_RELEASE_VERSION } from "../../phases/input-providers";
+import { executePhase, resumeWorkflow, resumeFeature } from "../../phases/orchestrator";
+import { validatePhaseInput } from "../../lib/input-schema";
+import { validateCriterionWordCount } from "../../artifacts/tasks";
+import { getArtifactPath } from "../../lib/config";
+import { closeDatabase } from "../../lib/database";
+import { __testing as gitTesting } from "../../lib/git";
+import { exitCodeForResult, EXIT_CODES } from "../../cli/specfirst";
+
+const FEATURE = "resume-feature";
+
+const PROPOSE_INPUT = {
+  featureName: FEATURE,
+  problemStatement: "Users lose their draft when the session expires. Support tickets mention it weekly.",
+  solutionApproaches: [
+    { name: "Autosave", description: "Save drafts every few seconds", pros: ["Simple"], cons: ["Writes often"] },
+  ],
+  recommendedApproach: "Autosave drafts to local storage every five seconds.",
+  antiPatterns: ["Blocking the editor while saving"],
+};
+
+const originalEnv = { ...process.env };
+const originalCwd = process.cwd();
+let repoDir: string;
+
+beforeEach(async () => {
+  repoDir = mkdtempSync(join(tmpdir(), "specfirst-providers-"));
+  process.env.OPENCODE_DIR = repoDir;
+  for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+    delete process.env[key];
+  }
+  process.chdir(repoDir);
+  await gitTesting.runGit(["init", "-q"], repoDir);
+  await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+  await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+
+  const constitutionPath = getArtifactPath(FEATURE, "constitution", repoDir);
+  mkdirSync(dirname(constitutionPath), { recursive: true });
+  writeFileSync(constitutionPath, "# Constitution\n");
+});
+
+afterEach(() => {
+  closeDatabase();
+  process.chdir(originalCwd);
+  process.env = { ...originalEnv };
+  rmSync(repoDir, { recursive: true, force: true });
+});
+
+describe("derivePhaseInput()", () => {
+  it("should draft a valid spec input from proposal.md", async () => {
+    await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir });
+
+    const derived = await derivePhaseInput("specify", { featureName: FEATURE, projectPath: repoDir });
+
+    expect(derived.source).toBe("proposal.md");
+    expect(derived.inferred).toContain("functionalRequirements");
+    expect(validatePhaseInput("specify", derived.input)).toEqual([]);
+    expect(derived.input.functionalRequirements).toEqual([{
+      id: "FR-001",
+      description: `${INFERRED_MARKER} Autosave drafts to local storage every five seconds`,
+      priority: "must",
+      verificationMethod: `${INFERRED_MARKER} Review against proposal.md`,
+    }]);
+    expect(derived.input.nonFunctionalRequirements).toHaveLength(1);
+  });
+
+  it("should report a missing source artifact", async () => {
+    const attempt = derivePhaseInput("plan", { featureName: FEATURE, projectPath: repoDir });
+
+    await expect(attempt).rejects.toThrow(InputDerivationError);
+    await expect(attempt).rejects.toThrow("spec.md not found");
+  });
+
+  it("should require explicit input for propose and review phases", async () => {
+    await expect(derivePhaseInput("review", { featureName: FEATURE, projectPath: repoDir })).rejects.toThrow(
+      "needs explicit input"
+    );
+  });
+
+  it("should fit criteria derived from plan.md to the configured word range", async () => {
+    await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir });
+    await resumeWorkflow(FEATURE, { projectPath: repoDir });
+    await resumeWorkflow(FEATURE, { projectPath: repoDir });
+    process.env.SPECFIRST_ISC_MIN_WORDS = "14";
+    process.env.SPECFIRST_ISC_MAX_WORDS = "16";
+
+    const derived = await derivePhaseInput("implement", { featureName: FEATURE, projectPath: repoDir });
+    const criteria = derived.input.criteria as Array<{ criterion: string }>;
+
+    expect(criteria.length).toBeGreaterThan(0);
+    for (const { criterion } of criteria) {
+      expect(validateCriterionWordCount(criterion)).toMatchObject({ valid: true });
+    }
+  });
+
+  it("should derive release input from state", async () => {
+    const derived = await derivePhaseInput("release", { featureName: FEATURE, projectPath: repoDir, batch: true });
+
+    expect(derived.input).toMatchObject({ featureName: FEATURE, version: FIRST_RELEASE_VERSION, batchMode: true });
+    expect(derived.input.additionalNotes).toStartWith(INFERRED_MARKER);
+    expect(validatePhaseInput("release", derived.input)).toEqual([]);
+  });
+
+  it("should bump the minor version after a previous release", async () => {
+    const releasePath = join(dirname(getArtifactPath(FEATURE, "tasks", repoDir)), "RELEASE.md");
+    mkdirSync(dirname(releasePath), { recursive: true });
+    writeFileSync(releasePath, `# ${FEATURE} - Release Notes v1.4.2\n`);
+
+    const derived = await derivePhaseInput("release", { featureName: FEATURE, projectPath: repoDir });
+
+    expect(derived.input.version).toBe("1.5.0");
+  });
+});
+
+describe("cold-start resumption", () => {
+  it("should run specify, plan and implement from earlier artifacts", async () => {
+    expect((await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir })).success).toBe(true);
+
+    const specify = await resumeWorkflow(FEATURE, { projectPath: repoDir });
+    expect(specify).toMatchObject({ success: true, phase: "specify", derivedFrom: "proposal.md" });
+    expect(readFileSync(getArtifactPath(FEATURE, "spec", repoDir), "utf-8")).toContain(INFERRED_MARKER);
+
+    const plan = await resumeWorkflow(FEATURE, { projectPath: repoDir });
+    expect(plan).toMatchObject({ success: true, phase: "plan", derivedFrom: "spec.md" });
+
+    const implement = await resumeFeature(FEATURE, repoDir);
+    expect(implement).toMatchObject({ success: true, phase: "implement", derivedFrom: "plan.md" });
+    expect(implement.inferred).toEqual(["criteria", "antiCriteria"]);
+    expect(readFileSync(getArtifactPath(FEATURE, "tasks", repoDir), "utf-8")).toContain("[I]");
+  });
+
+  it("should resume through implement when plan criteria are shorter than the word range", async () => {
+    process.env.SPECFIRST_ISC_MIN_WORDS = "10";
+    process.env.SPECFIRST_ISC_MAX_WORDS = "14";
+    const input = { ...PROPOSE_INPUT, recommendedApproach: "OIDC." };
+    expect((await executePhase("propose", FEATURE, input, { projectPath: repoDir })).success).toBe(true);
+
+    for (const phase of ["specify", "plan", "implement"]) {
+      const result = await resumeFeature(FEATURE, repoDir);
+      expect(result.error).toBeUndefined();
+      expect(result).toMatchObject({ success: true, phase });
+    }
+
+    const tasks = readFileSync(getArtifactPath(FEATURE, "tasks", repoDir), "utf-8");
+    expect(tasks).toContain("OIDC");
+    expect(tasks).toContain("[I]");
+  });
+
+  it("should fail with the input exit code when input cannot be derived", async () => {
+    await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir });
+    writeFileSync(getArtifactPath(FEATURE, "proposal", repoDir), "not a proposal\n");
+
+    const result = await resumeWorkflow(FEATURE, { projectPath: repoDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toStartWith("Cannot derive specify input");
+    expect(exitCodeForResult(result)).toBe(EXIT_CODES.INPUT);
+  });
+});
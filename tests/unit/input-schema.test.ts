@@ -0,0 +1,147 @@
+/**
+ * Phase Input Schema Unit Tests - SpecFirst 4.0
+ *
+ * Tests schema validation of phase inputs, its use in executePhase before
+ * any gate runs, and that the published JSON Schema files are current.
+ *
+ * @module tests/unit/input-schema
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  validatePhaseInput,
+  validateAgainstSchema,
+  assertPhaseInput,
+  formatInputSchema,
+  getSchemaFileName,
+  InputValidationError,
+  INPUT_SCHEMAS,
+  SCHEMAS_DIR,
+} from "../../lib/input-schema";
+import type { PhaseHandler } from "../../lib/workflow";
+import { executePhase } from "../../phases/orchestrator";
+import { exitCodeForResult, EXIT_CODES } from "../../cli/specfirst";
+import { closeDatabase } from "../../lib/database";
+
+const PLAN_PHASE = {
+  number: 1,
+  name: "Core",
+  objective: "Build it",
+  deliverables: ["Service"],
+  acceptanceCriteria: ["Service answers requests"],
+  estimatedEffort: "2 days",
+  dependencies: [],
+  risks: [],
+};
+
+const PLAN_INPUT = {
+  featureName: "user-auth",
+  executiveSummary: "JWT authentication",
+  adrs: [],
+  implementationPhases: [PLAN_PHASE, PLAN_PHASE, PLAN_PHASE],
+  testingStrategy: {
+    unitTests: "bun test",
+    integrationTests: "-",
+    e2eTests: "-",
+    performanceTests: "-",
+    coverageTarget: "80%",
+  },
+  risks: [{ id: "R1", description: "Token leak", probability: "low", impact: "high", mitigation: "Short expiry" }],
+  dependencies: [],
+  rollbackProcedures: "Revert the middleware",
+};
+
+describe("validatePhaseInput()", () => {
+  it("should accept a complete input", () => {
+    expect(validatePhaseInput("plan", PLAN_INPUT)).toEqual([]);
+    expect(validatePhaseInput("review", { featureName: "user-auth", approved: true })).toEqual([]);
+  });
+
+  it("should report missing fields with their path", () => {
+    const { risks, ...phaseWithoutRisks } = PLAN_PHASE;
+    const input = { ...PLAN_INPUT, implementationPhases: [PLAN_PHASE, PLAN_PHASE, phaseWithoutRisks] };
+
+    expect(validatePhaseInput("plan", input)).toEqual(["implementationPhases[2].risks: required"]);
+  });
+
+  it("should report wrong types and enum values", () => {
+    const errors = validatePhaseInput("specify", {
+      featureName: "user-auth",
+      functionalRequirements: [{ id: "FR-001", description: "Login", priority: "urgent", verificationMethod: "Test" }],
+      nonFunctionalRequirements: "none",
+      userStories: [],
+    });
+
+    expect(errors).toEqual([
+      "successCriteria: required",
+      "functionalRequirements[0].priority: must be one of must, should, could, wont",
+      "nonFunctionalRequirements: must be an array",
+    ]);
+  });
+
+  it("should reject input that is not an object", () => {
+    expect(validatePhaseInput("propose", undefined)).toEqual(["input: must be an object"]);
+  });
+
+  it("should accept numeric or string criterion ids", () => {
+    const schema = INPUT_SCHEMAS.implement.properties!.criteria.items!.properties!.id;
+
+    expect(validateAgainstSchema(3, schema)).toEqual([]);
+    expect(validateAgainstSchema("ISC-C3", schema)).toEqual([]);
+    expect(validateAgainstSchema(1.5, schema)).toEqual(["input: must be an integer or a string"]);
+  });
+
+  it("should throw InputValidationError listing every problem", () => {
+    expect(() => assertPhaseInput("release", { featureName: "x" })).toThrow(InputValidationError);
+    expect(() => assertPhaseInput("release", { featureName: "x" })).toThrow("Invalid release input:\n  - version: required");
+  });
+});
+
+describe("published schemas", () => {
+  it("should match INPUT_SCHEMAS", () => {
+    for (const handler of Object.keys(INPUT_SCHEMAS) as PhaseHandler[]) {
+      const published = readFileSync(join(SCHEMAS_DIR, getSchemaFileName(handler)), "utf-8");
+      expect(published).toBe(formatInputSchema(handler));
+    }
+  });
+});
+
+describe("executePhase() input validation", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-input-"));
+    process.env.OPENCODE_DIR = rootDir;
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should fail before any gate runs", async () => {
+    const result = await executePhase("plan", "user-auth", { ...PLAN_INPUT, risks: [{ id: "R1" }] }, { projectPath: rootDir });
+
+    expect(result.success).toBe(false);
+    expect(result.gatesPassed).toEqual([]);
+    expect(result.inputErrors).toContain("risks[0].description: required");
+    expect(result.error).toStartWith("Invalid plan input:\n  - risks[0].description: required");
+    expect(exitCodeForResult(result)).toBe(EXIT_CODES.INPUT);
+  });
+
+  it("should fill in featureName and reject a different one", async () => {
+    const { featureName, ...withoutName } = PLAN_INPUT;
+
+    const filled = await executePhase("plan", "user-auth", withoutName, { projectPath: rootDir });
+    expect(filled.inputErrors).toBeUndefined();
+
+    const other = await executePhase("plan", "billing", PLAN_INPUT, { projectPath: rootDir });
+    expect(other.inputErrors).toEqual(['featureName: must be "billing", the feature being run']);
+  });
+});
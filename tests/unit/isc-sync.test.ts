@@ -0,0 +1,132 @@
+/**
+ * ISC Sync Unit Tests - SpecFirst 4.0
+ *
+ * Tests writing Algorithm tracker state back into tasks.md and mirroring
+ * it into the criteria table.
+ *
+ * @module tests/unit/isc-sync
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { generateTasks, applyCriterionUpdates, parseTasksFile } from "../../artifacts/tasks";
+import { updateCriterionInTasksFile, syncTrackerToTasks } from "../../algorithm/isc-sync";
+import { validateISCFormat } from "../../gates/isc-format";
+import { getArtifactPath } from "../../lib/config";
+import { initDatabase, closeDatabase, addFeature, addCriterion, getCriteria } from "../../lib/database";
+import type { ISCCriterion, AntiCriterion } from "../../artifacts/types";
+
+const CRITERIA: ISCCriterion[] = [
+  { id: 1, criterion: "Password reset endpoint returns success for registered users", status: "⬜", phase: "Phase 1: API" },
+  { id: 2, criterion: "Reset link older than one hour is rejected", status: "⬜", phase: "Phase 1: API", verifyMethod: "Test: bun test" },
+  { id: 3, criterion: "Reset email template renders with the company branding", status: "🔄", phase: "Phase 2: Email", confidence: "E" },
+];
+
+const ANTI: AntiCriterion[] = [
+  { id: "A1", criterion: "No reset tokens are ever written to application logs", status: "👀" },
+];
+
+const TASKS = generateTasks("sync-feature", "Users can reset passwords safely.", CRITERIA, ANTI);
+
+describe("applyCriterionUpdates()", () => {
+  it("should update status and evidence of a single row in place", () => {
+    const result = applyCriterionUpdates(TASKS, [{ id: "ISC-C2", status: "✅", evidence: "bun test: 4 pass" }]);
+    const before = TASKS.split("\n");
+    const after = result.content.split("\n");
+    const changed = after.filter((line, i) => line !== before[i]);
+
+    expect(result.updated).toEqual(["ISC-C2"]);
+    expect(changed).toEqual([
+      "| ISC-C2 | Reset link older than one hour is rejected | ✅ | bun test: 4 pass | Test: bun test |",
+      "**Completed:** 1/3 verified",
+      "**Status:** IN_PROGRESS",
+    ]);
+  });
+
+  it("should keep phase grouping and pass ISC format validation", () => {
+    const { content } = applyCriterionUpdates(TASKS, [
+      { id: 1, status: "✅" },
+      { id: "2", status: "✅" },
+      { id: "ISC-C3", status: "✅", evidence: "Screenshot | reviewed\nby design" },
+    ]);
+
+    expect(content).toContain("### Phase 1: API");
+    expect(content).toContain("### Phase 2: Email");
+    expect(content).toContain("| ✅ | Screenshot / reviewed by design |");
+    expect(content).toContain("**Status:** COMPLETE");
+    expect(validateISCFormat(content).passed).toBe(true);
+  });
+
+  it("should update anti-criteria rows", () => {
+    const { content, updated } = applyCriterionUpdates(TASKS, [{ id: "A1", status: "❌" }]);
+
+    expect(updated).toEqual(["ISC-A1"]);
+    expect(parseTasksFile(content).antiCriteria[0].status).toBe("❌");
+  });
+
+  it("should report IDs without a row and leave content untouched", () => {
+    const result = applyCriterionUpdates(TASKS, [{ id: 9, status: "✅" }]);
+
+    expect(result.notFound).toEqual(["ISC-C9"]);
+    expect(result.content).toBe(TASKS);
+  });
+
+  it("should reject invalid updates", () => {
+    expect(() => applyCriterionUpdates(TASKS, [{ id: 1, status: "👀" }])).toThrow("Invalid status");
+    expect(() => applyCriterionUpdates(TASKS, [{ id: "A1", evidence: "x" }])).toThrow("no evidence column");
+  });
+});
+
+describe("ISC sync to files and database", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+  let tasksPath: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-sync-"));
+    process.env.OPENCODE_DIR = rootDir;
+    tasksPath = getArtifactPath("sync-feature", "tasks");
+    mkdirSync(dirname(tasksPath), { recursive: true });
+    writeFileSync(tasksPath, TASKS, "utf-8");
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should write updates to tasks.md", async () => {
+    const result = await updateCriterionInTasksFile(tasksPath, [{ id: 1, status: "✅", evidence: "200 OK" }]);
+
+    expect(result.updated).toEqual(["ISC-C1"]);
+    expect(parseTasksFile(readFileSync(tasksPath, "utf-8")).criteria[0]).toMatchObject({ status: "✅", evidence: "200 OK" });
+  });
+
+  it("should throw for a missing tasks.md", async () => {
+    await expect(updateCriterionInTasksFile(join(rootDir, "missing.md"), [])).rejects.toThrow("Tasks file not found");
+  });
+
+  it("should mirror criteria status into the database", async () => {
+    initDatabase(rootDir);
+    addFeature({ id: "sync-feature", name: "sync-feature" });
+    for (const c of CRITERIA) addCriterion("sync-feature", c.criterion);
+    closeDatabase();
+
+    const result = await syncTrackerToTasks(
+      "sync-feature",
+      [{ id: 2, status: "✅", evidence: "bun test: 4 pass" }, { id: 3, status: "❌" }, { id: "A1", status: "✅" }],
+      { projectPath: rootDir }
+    );
+
+    expect(result.mirrored).toBe(2);
+    const rows = getCriteria("sync-feature");
+    const byText = (text: string) => rows.find(r => r.criterion === text)!;
+    expect(byText(CRITERIA[1].criterion)).toMatchObject({ status: "verified", evidence: "bun test: 4 pass" });
+    expect(byText(CRITERIA[2].criterion).status).toBe("failed");
+    expect(byText(CRITERIA[0].criterion).status).toBe("pending");
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Phase Journal Unit Tests - SpecFirst 4.0
+ *
+ * Tests journaled phase writes and recovery of phases an earlier run left
+ * unfinished: completing them when the artifact was written, rolling them
+ * back otherwise.
+ *
+ * @module tests/unit/journal
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync, readdirSync } from "fs";
+import { tmpdir, hostname } from "os";
+import { join, dirname } from "path";
+import { createHash } from "crypto";
+import {
+  writePhase,
+  writeFileAtomic,
+  recoverPhaseJournals,
+  readPhaseJournals,
+  getJournalDir,
+  __testing as journalTesting,
+  type PhaseJournal,
+} from "../../lib/journal";
+import { initDatabase, closeDatabase, addFeature, getFeature, getCriteria, updateFeaturePhase } from "../../lib/database";
+import { getArtifactPath } from "../../lib/config";
+import { getPhaseMarkers, __testing as gitTesting } from "../../lib/git";
+import { executePhase, resumeFeature } from "../../phases/orchestrator";
+
+const FEATURE = "journal-feature";
+
+const originalEnv = { ...process.env };
+const originalCwd = process.cwd();
+let repoDir: string;
+let tasksPath: string;
+
+/**
+ * Writes the journal a run would leave behind if it died after `completed`.
+ */
+function leaveJournal(content: string, completed: PhaseJournal["completed"], overrides: Partial<PhaseJournal> = {}): PhaseJournal {
+  const journal: PhaseJournal = {
+    featureName: FEATURE,
+    phase: "implement",
+    artifactPath: tasksPath,
+    artifactSha256: createHash("sha256").update(content).digest("hex"),
+    previousContent: null,
+    database: { phase: "implement", paths: { tasksPath }, criteria: ["Users can export reports as CSV files"] },
+    completed,
+    startedAt: new Date().toISOString(),
+    pid: 999999,
+    host: hostname(),
+    ...overrides,
+  };
+  mkdirSync(getJournalDir(repoDir), { recursive: true });
+  writeFileSync(journalTesting.getJournalPath(FEATURE, repoDir), JSON.stringify(journal));
+  return journal;
+}
+
+beforeEach(async () => {
+  repoDir = mkdtempSync(join(tmpdir(), "specfirst-journal-"));
+  process.env.OPENCODE_DIR = repoDir;
+  for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+    delete process.env[key];
+  }
+  process.chdir(repoDir);
+  await gitTesting.runGit(["init", "-q"], repoDir);
+  await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+  await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+
+  tasksPath = getArtifactPath(FEATURE, "tasks", repoDir);
+  mkdirSync(dirname(tasksPath), { recursive: true });
+  initDatabase(repoDir);
+  addFeature({ id: FEATURE, name: FEATURE });
+  updateFeaturePhase(FEATURE, "plan");
+});
+
+afterEach(() => {
+  closeDatabase();
+  process.chdir(originalCwd);
+  process.env = { ...originalEnv };
+  rmSync(repoDir, { recursive: true, force: true });
+});
+
+describe("writeFileAtomic()", () => {
+  it("should replace the file without leaving a temporary file", async () => {
+    writeFileSync(tasksPath, "old\n");
+
+    await writeFileAtomic(tasksPath, "new\n");
+
+    expect(readFileSync(tasksPath, "utf-8")).toBe("new\n");
+    expect(readdirSync(dirname(tasksPath))).toEqual(["tasks.md"]);
+  });
+});
+
+describe("writePhase()", () => {
+  it("should write artifact, state and commit, then drop the journal", async () => {
+    const { commit } = await writePhase({
+      featureName: FEATURE,
+      phase: "implement",
+      artifactPath: tasksPath,
+      content: "# Tasks\n",
+      database: { phase: "implement", paths: { tasksPath }, criteria: ["Users can export reports as CSV files"] },
+    }, repoDir);
+
+    expect(commit.success).toBe(true);
+    expect(readFileSync(tasksPath, "utf-8")).toBe("# Tasks\n");
+    expect(getFeature(FEATURE)?.phase).toBe("implement");
+    expect(getCriteria(FEATURE)).toHaveLength(1);
+    expect((await getPhaseMarkers(FEATURE, repoDir))[0]).toMatchObject({ phase: "implement", status: "complete" });
+    expect((await readPhaseJournals(repoDir)).journals).toEqual([]);
+  });
+
+  it("should keep the journal when the commit fails and commit on recovery", async () => {
+    rmSync(join(repoDir, ".git"), { recursive: true, force: true });
+
+    const { commit } = await writePhase({
+      featureName: FEATURE,
+      phase: "implement",
+      artifactPath: tasksPath,
+      content: "# Tasks\n",
+      database: { phase: "implement" },
+    }, repoDir);
+
+    expect(commit.success).toBe(false);
+    expect((await readPhaseJournals(repoDir)).journals[0].completed).toEqual(["artifact", "database"]);
+
+    await gitTesting.runGit(["init", "-q"], repoDir);
+    await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+    await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+    const [recovery] = await recoverPhaseJournals(repoDir);
+
+    expect(recovery).toMatchObject({ featureName: FEATURE, phase: "implement", action: "completed", steps: ["commit"] });
+    expect((await getPhaseMarkers(FEATURE, repoDir))[0]?.phase).toBe("implement");
+    expect(existsSync(journalTesting.getJournalPath(FEATURE, repoDir))).toBe(false);
+  });
+
+  it("should refuse to replace the journal of an unfinished phase", async () => {
+    const journal = leaveJournal("# Tasks\n", ["artifact", "database"]);
+
+    const attempt = writePhase({
+      featureName: FEATURE,
+      phase: "release",
+      artifactPath: join(dirname(tasksPath), "RELEASE.md"),
+      content: "# Release\n",
+      database: { phase: "release" },
+    }, repoDir);
+
+    await expect(attempt).rejects.toThrow("has an unfinished phase");
+    expect((await readPhaseJournals(repoDir)).journals).toEqual([journal]);
+  });
+});
+
+describe("recoverPhaseJournals()", () => {
+  it("should complete a phase whose artifact was written", async () => {
+    writeFileSync(tasksPath, "# Tasks\n");
+    leaveJournal("# Tasks\n", []);
+
+    const [recovery] = await recoverPhaseJournals(repoDir);
+
+    expect(recovery).toMatchObject({ action: "completed", steps: ["database", "commit"] });
+    expect(getFeature(FEATURE)?.phase).toBe("implement");
+    expect(getFeature(FEATURE)?.tasksPath).toBe(tasksPath);
+    expect(getCriteria(FEATURE).map(c => c.criterion)).toEqual(["Users can export reports as CSV files"]);
+    expect((await getPhaseMarkers(FEATURE, repoDir))[0]).toMatchObject({ phase: "implement", status: "complete" });
+  });
+
+  it("should not store criteria twice when the transaction had committed", async () => {
+    writeFileSync(tasksPath, "# Tasks\n");
+    leaveJournal("# Tasks\n", ["artifact"]);
+    await recoverPhaseJournals(repoDir);
+    leaveJournal("# Tasks\n", ["artifact"]);
+
+    const [recovery] = await recoverPhaseJournals(repoDir);
+
+    expect(recovery.steps).toEqual(["database"]);
+    expect(getCriteria(FEATURE)).toHaveLength(1);
+  });
+
+  it("should roll back a phase whose artifact was not written", async () => {
+    writeFileSync(tasksPath, "# Old tasks\n");
+    writeFileSync(`${tasksPath}${journalTesting.TEMP_SUFFIX}`, "# Ta");
+    leaveJournal("# Tasks\n", [], { previousContent: "# Old tasks\n" });
+
+    const [recovery] = await recoverPhaseJournals(repoDir);
+
+    expect(recovery).toMatchObject({ action: "rolled-back", steps: [] });
+    expect(readFileSync(tasksPath, "utf-8")).toBe("# Old tasks\n");
+    expect(existsSync(`${tasksPath}${journalTesting.TEMP_SUFFIX}`)).toBe(false);
+    expect(getFeature(FEATURE)?.phase).toBe("plan");
+    expect(await getPhaseMarkers(FEATURE, repoDir)).toEqual([]);
+  });
+
+  it("should leave journals of running processes alone", async () => {
+    leaveJournal("# Tasks\n", [], { pid: process.ppid });
+
+    expect(await recoverPhaseJournals(repoDir)).toEqual([]);
+    expect((await readPhaseJournals(repoDir)).journals).toHaveLength(1);
+  });
+
+  it("should report unreadable journals", async () => {
+    mkdirSync(getJournalDir(repoDir), { recursive: true });
+    writeFileSync(journalTesting.getJournalPath(FEATURE, repoDir), "{");
+
+    const [recovery] = await recoverPhaseJournals(repoDir);
+
+    expect(recovery).toMatchObject({ featureName: FEATURE, action: "failed" });
+  });
+});
+
+describe("executePhase() recovery", () => {
+  it("should settle unfinished phases before running and report them", async () => {
+    writeFileSync(tasksPath, "# Tasks\n");
+    leaveJournal("# Tasks\n", ["artifact"]);
+
+    const result = await executePhase("plan", FEATURE, { risks: [] }, { projectPath: repoDir });
+
+    expect(result.inputErrors?.length).toBeGreaterThan(0);
+    expect(result.recovered).toEqual([
+      expect.objectContaining({ featureName: FEATURE, phase: "implement", action: "completed" }),
+    ]);
+    expect(getFeature(FEATURE)?.phase).toBe("implement");
+  });
+
+  it("should journal in the project path rather than the working directory", async () => {
+    const feature = "journal-elsewhere";
+    const constitutionPath = getArtifactPath(feature, "constitution", repoDir);
+    mkdirSync(dirname(constitutionPath), { recursive: true });
+    writeFileSync(constitutionPath, "# Constitution\n");
+    // A stale index lock makes the commit fail after the artifact is written
+    const lockPath = join(repoDir, ".git", "index.lock");
+    writeFileSync(lockPath, "");
+    const otherDir = mkdtempSync(join(tmpdir(), "specfirst-journal-cwd-"));
+    process.chdir(otherDir);
+    try {
+      const result = await executePhase("propose", feature, {
+        featureName: feature,
+        problemStatement: "Exports time out for large accounts. Customers retry until they give up.",
+        solutionApproaches: [{ name: "Queue", description: "Export in a background job", pros: ["Reliable"], cons: ["Slower"] }],
+        recommendedApproach: "Run exports as background jobs.",
+      }, { projectPath: repoDir });
+
+      expect(result.error).toContain("git commit failed");
+      expect((await readPhaseJournals(repoDir)).journals.map(j => j.featureName)).toEqual([feature]);
+      expect(existsSync(join(otherDir, ".specfirst"))).toBe(false);
+
+      rmSync(lockPath);
+      const [recovery] = await recoverPhaseJournals(repoDir);
+      expect(recovery).toMatchObject({ featureName: feature, phase: "propose", action: "completed", steps: ["commit"] });
+    } finally {
+      process.chdir(repoDir);
+      rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should not run the next phase while an earlier marker commit keeps failing", async () => {
+    const feature = "journal-blocked";
+    const constitutionPath = getArtifactPath(feature, "constitution", repoDir);
+    mkdirSync(dirname(constitutionPath), { recursive: true });
+    writeFileSync(constitutionPath, "# Constitution\n");
+    const lockPath = join(repoDir, ".git", "index.lock");
+    writeFileSync(lockPath, "");
+
+    await executePhase("propose", feature, {
+      featureName: feature,
+      problemStatement: "Exports time out for large accounts. Customers retry until they give up.",
+      solutionApproaches: [{ name: "Queue", description: "Export in a background job", pros: ["Reliable"], cons: ["Slower"] }],
+      recommendedApproach: "Run exports as background jobs.",
+    }, { projectPath: repoDir });
+    const blocked = await resumeFeature(feature, repoDir);
+
+    expect(blocked.success).toBe(false);
+    expect(blocked.error).toContain("unfinished propose phase");
+    expect((await readPhaseJournals(repoDir)).journals.map(j => j.phase)).toEqual(["propose"]);
+    expect(existsSync(getArtifactPath(feature, "spec", repoDir))).toBe(false);
+
+    rmSync(lockPath);
+    const resumed = await resumeFeature(feature, repoDir);
+
+    expect(resumed).toMatchObject({ success: true, phase: "specify" });
+    expect(resumed.recovered).toContainEqual(expect.objectContaining({ featureName: feature, phase: "propose", action: "completed" }));
+    expect((await getPhaseMarkers(feature, repoDir)).map(m => m.phase)).toEqual(["specify", "propose"]);
+  });
+});
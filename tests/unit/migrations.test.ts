@@ -0,0 +1,147 @@
+/**
+ * Schema Migration Unit Tests - SpecFirst 4.0
+ *
+ * Tests versioned, forward-only migrations of .specfirst/specfirst.db,
+ * including upgrades of databases created before schema_migrations existed.
+ *
+ * @module tests/unit/migrations
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  SchemaVersionError,
+  migrateDatabase,
+  readSchemaVersion,
+  getAppliedMigrations,
+  type Migration,
+} from "../../lib/migrations";
+import { initDatabase, closeDatabase, getDbPath, getSchemaVersion, addFeature, getFeature } from "../../lib/database";
+
+let tempDir: string;
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(tmpdir(), "specfirst-migrations-"));
+});
+
+afterEach(() => {
+  closeDatabase();
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+/**
+ * Opens a raw database file under tempDir, creating .specfirst/ if needed.
+ */
+function openRaw(): Database {
+  const path = getDbPath(tempDir);
+  mkdirSync(dirname(path), { recursive: true });
+  return new Database(path, { create: true });
+}
+
+describe("migrateDatabase()", () => {
+  it("should bring a new database to the latest version", () => {
+    const db = new Database(":memory:");
+    const result = migrateDatabase(db);
+
+    expect(result).toEqual({ from: 0, to: SCHEMA_VERSION, applied: MIGRATIONS.map(m => m.version) });
+    expect(getAppliedMigrations(db).map(m => m.name)).toEqual(MIGRATIONS.map(m => m.name));
+    expect(migrateDatabase(db).applied).toEqual([]);
+    db.close();
+  });
+
+  it("should refuse a database written by a newer SpecFirst", () => {
+    const db = new Database(":memory:");
+    migrateDatabase(db);
+    db.run("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', ?)", [
+      SCHEMA_VERSION + 1,
+      new Date().toISOString(),
+    ]);
+
+    expect(() => migrateDatabase(db)).toThrow(SchemaVersionError);
+    expect(() => migrateDatabase(db)).toThrow(`newer than this SpecFirst supports (${SCHEMA_VERSION})`);
+    db.close();
+  });
+
+  it("should roll back a failing migration and keep the previous version", () => {
+    const db = new Database(":memory:");
+    const broken: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: SCHEMA_VERSION + 1,
+        name: "broken",
+        up: (d) => {
+          d.exec("CREATE TABLE half_done (id TEXT)");
+          d.exec("ALTER TABLE no_such_table ADD COLUMN x TEXT");
+        },
+      },
+    ];
+
+    expect(() => migrateDatabase(db, broken)).toThrow(`Migration ${SCHEMA_VERSION + 1} (broken) failed`);
+    expect(readSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    expect(db.query("SELECT name FROM sqlite_master WHERE name = 'half_done'").get()).toBeNull();
+    db.close();
+  });
+
+  it("should reject gaps in the migration history", () => {
+    const db = new Database(":memory:");
+    migrateDatabase(db);
+    db.run("DELETE FROM schema_migrations WHERE version = 1");
+
+    expect(() => migrateDatabase(db)).toThrow("migration history is inconsistent");
+    db.close();
+  });
+});
+
+describe("initDatabase() upgrades", () => {
+  it("should report the schema version", () => {
+    initDatabase(tempDir);
+    expect(getSchemaVersion()).toBe(SCHEMA_VERSION);
+  });
+
+  it("should upgrade a pre-migration database and keep its data", () => {
+    const raw = openRaw();
+    raw.exec(`CREATE TABLE features (
+      id TEXT PRIMARY KEY, name TEXT NOT NULL, description TEXT, priority INTEGER DEFAULT 999,
+      status TEXT DEFAULT 'pending', phase TEXT DEFAULT 'none', proposal_path TEXT, spec_path TEXT,
+      plan_path TEXT, tasks_path TEXT, constitution_path TEXT, created_at TEXT NOT NULL,
+      started_at TEXT, completed_at TEXT, session_id TEXT, skip_reason TEXT,
+      prd_status TEXT DEFAULT NULL
+    )`);
+    raw.run("INSERT INTO features (id, name, created_at) VALUES ('legacy', 'Legacy', ?)", [new Date().toISOString()]);
+    raw.close();
+
+    initDatabase(tempDir);
+
+    expect(getSchemaVersion()).toBe(SCHEMA_VERSION);
+    expect(getFeature("legacy")).toMatchObject({ name: "Legacy", iteration: 0, verificationSummary: null });
+    addFeature({ id: "fresh", name: "Fresh" });
+    expect(getFeature("fresh")).not.toBeNull();
+  });
+
+  it("should refuse to open a newer database", () => {
+    initDatabase(tempDir);
+    closeDatabase();
+    const raw = openRaw();
+    raw.run("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', ?)", [
+      SCHEMA_VERSION + 5,
+      new Date().toISOString(),
+    ]);
+    raw.close();
+
+    expect(() => initDatabase(tempDir)).toThrow("Upgrade SpecFirst");
+    expect(() => getSchemaVersion()).toThrow("Database not initialized");
+  });
+
+  it("should report a corrupt database file", () => {
+    mkdirSync(join(tempDir, ".specfirst"));
+    writeFileSync(getDbPath(tempDir), "this is not a sqlite database ".repeat(200));
+
+    expect(() => initDatabase(tempDir)).toThrow("Cannot open SpecFirst database");
+  });
+});
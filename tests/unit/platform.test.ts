@@ -10,6 +10,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   detectPlatform,
   getRootDir,
@@ -20,6 +23,11 @@ import {
   getSpecsDir,
   isOpenCode,
   isClaudeCode,
+  isStandalone,
+  describePlatform,
+  getPlatforms,
+  registerPlatform,
+  __testing,
   type Platform,
 } from "../../lib/platform";
 
@@ -64,7 +72,7 @@ describe("Platform Detection", () => {
       // This test depends on actual directory structure
       // Just verify it returns a valid platform type
       const platform = detectPlatform();
-      expect(["opencode", "claudecode", "unknown"]).toContain(platform);
+      expect(getPlatforms().map(p => p.id)).toContain(platform);
     });
   });
 
@@ -86,13 +94,78 @@ describe("Platform Detection", () => {
       expect(rootDir).toBe(testDir);
     });
 
-    it("should throw error when platform cannot be detected", () => {
+    it("should fall back to the project when no platform is detected", () => {
       delete process.env.OPENCODE_DIR;
       delete process.env.PAI_DIR;
+      delete process.env.SPECFIRST_HOME;
+      delete process.env.CODEX_HOME;
       delete process.env.HOME;
       delete process.env.USERPROFILE;
       
-      expect(() => getRootDir()).toThrow();
+      expect(detectPlatform()).toBe("standalone");
+      expect(getRootDir("/work/project")).toBe("/work/project/.specfirst");
+    });
+  });
+
+  describe("platform registry", () => {
+    let homeDir: string;
+
+    beforeEach(() => {
+      homeDir = mkdtempSync(join(tmpdir(), "specfirst-home-"));
+      for (const key of ["OPENCODE_DIR", "PAI_DIR", "SPECFIRST_HOME", "CODEX_HOME", "USERPROFILE"]) {
+        delete process.env[key];
+      }
+      process.env.HOME = homeDir;
+    });
+
+    afterEach(() => {
+      __testing.resetPlatforms();
+      rmSync(homeDir, { recursive: true, force: true });
+    });
+
+    it("should use SPECFIRST_HOME for the standalone platform before any agent", () => {
+      process.env.OPENCODE_DIR = "/test/.opencode";
+      process.env.SPECFIRST_HOME = "ci-home";
+
+      const info = getPlatformInfo("/work/project");
+
+      expect(info.platform).toBe("standalone");
+      expect(info.rootDir).toBe("/work/project/ci-home");
+      expect(isStandalone()).toBe(true);
+    });
+
+    it("should detect further agent directory layouts", () => {
+      mkdirSync(join(homeDir, ".gemini"));
+      expect(detectPlatform()).toBe("gemini");
+
+      process.env.CODEX_HOME = "/opt/codex";
+      expect(getPlatformInfo()).toMatchObject({ platform: "codex", skillsDir: "/opt/codex/skills" });
+    });
+
+    it("should prefer OpenCode and Claude Code directories over other agents", () => {
+      mkdirSync(join(homeDir, ".cursor"));
+      mkdirSync(join(homeDir, ".claude"));
+
+      expect(detectPlatform()).toBe("claudecode");
+    });
+
+    it("should check registered platforms after the built-in ones", () => {
+      registerPlatform({ id: "windsurf", name: "Windsurf", envVars: ["WINDSURF_DIR"], homeDirs: [".windsurf"] });
+      process.env.WINDSURF_DIR = "/opt/windsurf";
+
+      expect(getRootDir()).toBe("/opt/windsurf");
+      expect(() => registerPlatform({ id: "windsurf", name: "Again", envVars: [], homeDirs: [] })).toThrow("already registered");
+    });
+
+    it("should describe every signal and which matched", () => {
+      mkdirSync(join(homeDir, ".codex"));
+
+      const description = describePlatform("/work/project");
+
+      expect(description).toMatchObject({ platform: "codex", name: "Codex", rootDir: join(homeDir, ".codex") });
+      expect(description.signals.filter(s => s.matched).map(s => s.source)).toEqual(["~/.codex", "project"]);
+      expect(description.signals.find(s => s.source === "OPENCODE_DIR")).toMatchObject({ kind: "env", matched: false });
+      expect(description.signals.at(-1)).toMatchObject({ kind: "fallback", rootDir: "/work/project/.specfirst" });
     });
   });
 
@@ -0,0 +1,173 @@
+/**
+ * Phase Preview Unit Tests - SpecFirst 4.0
+ *
+ * Tests unified diffs and dry-run phase execution: the preview must report
+ * the artifact, database changes and commit without writing any of them.
+ *
+ * @module tests/unit/preview
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { createUnifiedDiff } from "../../lib/diff";
+import { executePhase } from "../../phases/orchestrator";
+import { getArtifactPath } from "../../lib/config";
+import { closeDatabase, getDbPath } from "../../lib/database";
+import { __testing as gitTesting } from "../../lib/git";
+import { runCli, EXIT_CODES, type CliIO } from "../../cli/specfirst";
+
+const FEATURE = "preview-feature";
+
+const PROPOSE_INPUT = {
+  featureName: FEATURE,
+  problemStatement: "Reports take minutes to load. Users give up before they render.",
+  solutionApproaches: [
+    { name: "Caching", description: "Cache report queries", pros: ["Fast"], cons: ["Stale data"] },
+  ],
+  recommendedApproach: "Cache report queries for five minutes.",
+  antiPatterns: ["Caching per-user data globally"],
+};
+
+describe("createUnifiedDiff()", () => {
+  const labels = { oldPath: "a/spec.md", newPath: "b/spec.md" };
+
+  it("should return an empty string for equal texts", () => {
+    expect(createUnifiedDiff("one\ntwo\n", "one\ntwo\n", labels)).toBe("");
+  });
+
+  it("should diff a new file against /dev/null", () => {
+    expect(createUnifiedDiff(null, "one\ntwo\n", labels)).toBe(
+      "--- /dev/null\n+++ b/spec.md\n@@ -0,0 +1,2 @@\n+one\n+two\n"
+    );
+  });
+
+  it("should show changes with surrounding context", () => {
+    const oldText = ["a", "b", "c", "d", "e", "f", "g", "h", "i"].join("\n");
+    const newText = ["a", "b", "c", "d", "E", "f", "g", "h", "i"].join("\n");
+
+    expect(createUnifiedDiff(oldText, newText, { ...labels, context: 1 })).toBe(
+      "--- a/spec.md\n+++ b/spec.md\n@@ -4,3 +4,3 @@\n d\n-e\n+E\n f\n"
+    );
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = lines.map((line, i) => (i === 1 || i === 17 ? `${line}!` : line));
+
+    const diff = createUnifiedDiff(lines.join("\n"), changed.join("\n"), labels);
+
+    expect(diff.match(/^@@ /gm)).toHaveLength(2);
+    expect(diff).toContain("@@ -1,5 +1,5 @@");
+    expect(diff).toContain("@@ -15,6 +15,6 @@");
+  });
+});
+
+describe("executePhase() dry run", () => {
+  const originalEnv = { ...process.env };
+  const originalCwd = process.cwd();
+  let repoDir: string;
+
+  /**
+   * Counts commits in the test repository.
+   */
+  async function commitCount(): Promise<number> {
+    const result = await gitTesting.runGit(["rev-list", "--count", "--all"], repoDir);
+    return result.success ? Number(result.stdout.trim()) : 0;
+  }
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-preview-"));
+    process.env.OPENCODE_DIR = repoDir;
+    for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+      delete process.env[key];
+    }
+    process.chdir(repoDir);
+    await gitTesting.runGit(["init", "-q"], repoDir);
+    await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+    await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+
+    const constitutionPath = getArtifactPath(FEATURE, "constitution", repoDir);
+    mkdirSync(dirname(constitutionPath), { recursive: true });
+    writeFileSync(constitutionPath, "# Constitution\n");
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.chdir(originalCwd);
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should preview a new artifact without touching disk, database or git", async () => {
+    const result = await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir, dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesPassed).toEqual(["prerequisite"]);
+    expect(result.nextPhase).toBe("specify");
+
+    const preview = result.preview!;
+    expect(preview.artifactPath).toBe(getArtifactPath(FEATURE, "proposal", repoDir));
+    expect(preview.content).toContain("Cache report queries for five minutes.");
+    expect(preview.diff).toStartWith("--- /dev/null\n");
+    expect(preview.validationErrors).toEqual([]);
+    expect(preview.commitMessage).toStartWith(`SpecFirst: propose phase complete for ${FEATURE}\n`);
+    expect(preview.databaseChanges.map(c => `${c.action} ${c.table}`)).toEqual(["insert features", "update features"]);
+
+    expect(existsSync(preview.artifactPath)).toBe(false);
+    expect(existsSync(getDbPath(repoDir))).toBe(false);
+    expect(await commitCount()).toBe(0);
+  });
+
+  it("should diff against the existing artifact and report previous values", async () => {
+    await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir });
+    const artifactPath = getArtifactPath(FEATURE, "proposal", repoDir);
+    const written = readFileSync(artifactPath, "utf-8");
+    const commits = await commitCount();
+
+    const unchanged = await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir, dryRun: true });
+    expect(unchanged.preview!.diff).toBe("");
+
+    const changed = await executePhase(
+      "propose",
+      FEATURE,
+      { ...PROPOSE_INPUT, recommendedApproach: "Precompute reports nightly." },
+      { projectPath: repoDir, dryRun: true }
+    );
+    expect(changed.preview!.diff).toContain("-Cache report queries for five minutes.");
+    expect(changed.preview!.diff).toContain("+Precompute reports nightly.");
+    expect(changed.preview!.databaseChanges[0]).toMatchObject({
+      table: "features",
+      action: "update",
+      previous: { status: "in_progress", phase: "propose" },
+    });
+
+    expect(readFileSync(artifactPath, "utf-8")).toBe(written);
+    expect(await commitCount()).toBe(commits);
+  });
+
+  it("should still run the gates", async () => {
+    rmSync(getArtifactPath(FEATURE, "constitution", repoDir));
+
+    const result = await executePhase("propose", FEATURE, PROPOSE_INPUT, { projectPath: repoDir, dryRun: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toStartWith("Prerequisite gate failed");
+    expect(result.preview).toBeUndefined();
+  });
+
+  it("should print the preview as JSON from the CLI", async () => {
+    const inputPath = join(repoDir, "proposal.json");
+    writeFileSync(inputPath, JSON.stringify(PROPOSE_INPUT));
+    const out: string[] = [];
+    const io: CliIO = { stdout: (line) => out.push(line), stderr: () => {}, readStdin: async () => "" };
+
+    const code = await runCli(["propose", FEATURE, "--input", inputPath, "--project", repoDir, "--dry-run", "--json"], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(out.join("\n")).preview.diff).toStartWith("--- /dev/null");
+    expect(existsSync(getDbPath(repoDir))).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Phase Reopen Unit Tests - SpecFirst 4.0
+ *
+ * Tests reopening a completed phase: stale downstream artifacts, the reopen
+ * marker commit, SQLite phase reset and reopen-aware completion checks.
+ *
+ * @module tests/unit/reopen
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { reopenPhase } from "../../phases/orchestrator";
+import { createPhaseCommit, isPhaseComplete, __testing as gitTesting } from "../../lib/git";
+import { getArtifactPath } from "../../lib/config";
+import { parseFrontmatter, setFrontmatterFields } from "../../artifacts/frontmatter";
+import { initDatabase, closeDatabase, addFeature, getFeature, updateFeaturePhase, updateFeatureStatus } from "../../lib/database";
+
+const FEATURE = "reopen-feature";
+
+function artifact(phase: string, title = phase): string {
+  return `---\nfeature: ${FEATURE}\nphase: ${phase}\nstatus: complete\ncreated: 2026-01-01\n---\n\n# ${title}\n`;
+}
+
+describe("setFrontmatterFields()", () => {
+  it("should replace existing keys and append new ones", () => {
+    const updated = setFrontmatterFields(artifact("plan"), { status: "review", updated: "2026-02-01" });
+
+    expect(parseFrontmatter(updated)).toMatchObject({ status: "review", updated: "2026-02-01", phase: "plan" });
+    expect(updated.endsWith("# plan\n")).toBe(true);
+  });
+
+  it("should leave content without frontmatter unchanged", () => {
+    expect(setFrontmatterFields("# No frontmatter\n", { status: "review" })).toBe("# No frontmatter\n");
+  });
+});
+
+describe("reopenPhase()", () => {
+  const originalEnv = { ...process.env };
+  let repoDir: string;
+
+  async function complete(phase: "propose" | "specify" | "plan", type: "proposal" | "spec" | "plan", title?: string) {
+    const path = getArtifactPath(FEATURE, type);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, artifact(phase, title));
+    await createPhaseCommit(phase, FEATURE, path, repoDir);
+  }
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-reopen-"));
+    process.env.OPENCODE_DIR = repoDir;
+    await gitTesting.runGit(["init", "-q"], repoDir);
+    await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+    await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+
+    await complete("propose", "proposal");
+    await complete("specify", "spec");
+    await complete("plan", "plan");
+
+    initDatabase(repoDir);
+    addFeature({ id: FEATURE, name: FEATURE });
+    updateFeaturePhase(FEATURE, "plan");
+    updateFeatureStatus(FEATURE, "completed");
+    closeDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should mark downstream artifacts stale and reset the feature phase", async () => {
+    const result = await reopenPhase(FEATURE, "specify", { projectPath: repoDir, reason: "Missing SSO requirement" });
+
+    expect(result.success).toBe(true);
+    expect(result.staleArtifacts).toEqual([getArtifactPath(FEATURE, "plan")]);
+    expect(parseFrontmatter(readFileSync(getArtifactPath(FEATURE, "plan"), "utf-8")).status).toBe("review");
+    expect(parseFrontmatter(readFileSync(getArtifactPath(FEATURE, "spec"), "utf-8")).status).toBe("complete");
+    expect(getFeature(FEATURE)).toMatchObject({ phase: "propose", status: "in_progress" });
+
+    const log = await gitTesting.runGit(["log", "-1", "--format=%B"], repoDir);
+    expect(log.stdout).toContain(`SpecFirst: specify phase reopened for ${FEATURE}`);
+    expect(log.stdout).toContain("Reason: Missing SSO requirement");
+  });
+
+  it("should make the reopened phase and later phases incomplete until redone", async () => {
+    await reopenPhase(FEATURE, "specify", { projectPath: repoDir });
+
+    expect(await isPhaseComplete("propose", FEATURE, repoDir)).toBe(true);
+    expect(await isPhaseComplete("specify", FEATURE, repoDir)).toBe(false);
+    expect(await isPhaseComplete("plan", FEATURE, repoDir)).toBe(false);
+
+    await complete("specify", "spec", "specify (revised)");
+    expect(await isPhaseComplete("specify", FEATURE, repoDir)).toBe(true);
+    expect(await isPhaseComplete("plan", FEATURE, repoDir)).toBe(false);
+  });
+
+  it("should refuse to reopen a phase that is not complete", async () => {
+    const result = await reopenPhase(FEATURE, "implement", { projectPath: repoDir });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("nothing to reopen");
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Artifact Storage Unit Tests - SpecFirst 4.0
+ *
+ * Tests the memory and repo storage modes: path resolution, gates and phase
+ * commits against a repo-local artifact root, and migrating features between
+ * the two.
+ *
+ * @module tests/unit/storage
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { getConfig, getArtifactPath, createFeaturePaths, getDefaultArtifactRoot } from "../../lib/config";
+import { artifactGate } from "../../gates/artifact";
+import { prerequisiteGate } from "../../gates/prerequisite";
+import { phaseCompleteGate } from "../../gates/phase-complete";
+import { migrateStorage } from "../../phases/orchestrator";
+import { createPhaseCommit, __testing as gitTesting } from "../../lib/git";
+import { initDatabase, closeDatabase, addFeature, getFeature } from "../../lib/database";
+
+const { runGit } = gitTesting;
+
+const originalEnv = { ...process.env };
+let rootDir: string;
+let projectDir: string;
+
+/**
+ * Selects a storage mode in the project's .specfirst/config.yaml.
+ */
+function useStorage(storage: "memory" | "repo"): void {
+  mkdirSync(join(projectDir, ".specfirst"), { recursive: true });
+  writeFileSync(join(projectDir, ".specfirst", "config.yaml"), `artifacts:\n  storage: ${storage}\n`);
+}
+
+function writeArtifact(feature: string, type: "proposal" | "spec" | "constitution", phase = "propose"): string {
+  const path = getArtifactPath(feature, type, projectDir);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `---\nfeature: ${feature}\nphase: ${phase}\nstatus: complete\n---\n\n# ${type}\n`);
+  return path;
+}
+
+beforeEach(async () => {
+  rootDir = mkdtempSync(join(tmpdir(), "specfirst-storage-"));
+  projectDir = join(rootDir, "project");
+  mkdirSync(projectDir);
+  process.env.OPENCODE_DIR = rootDir;
+  for (const key of Object.keys(process.env).filter(k => k.startsWith("SPECFIRST_"))) {
+    delete process.env[key];
+  }
+  await runGit(["init", "-q", "-b", "main"], projectDir);
+  await runGit(["config", "user.email", "test@example.com"], projectDir);
+  await runGit(["config", "user.name", "Test"], projectDir);
+});
+
+afterEach(() => {
+  closeDatabase();
+  process.env = { ...originalEnv };
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe("repo storage paths", () => {
+  it("should default to memory storage under the platform", () => {
+    const config = getConfig(projectDir);
+
+    expect(config.storage).toBe("memory");
+    expect(config.getFeaturePaths("auth").specPath).toBe(join(rootDir, "MEMORY/execution/Features/auth/specs/spec.md"));
+  });
+
+  it("should resolve artifacts under specs/<feature> in the project", () => {
+    useStorage("repo");
+    const config = getConfig(projectDir);
+    const paths = config.getFeaturePaths("auth");
+
+    expect(config.artifactRoot).toBe(join(projectDir, "specs"));
+    expect(paths.specsDir).toBe(join(projectDir, "specs/auth"));
+    expect(paths.specPath).toBe(join(projectDir, "specs/auth/spec.md"));
+    expect(paths.projectDir).toBe(projectDir);
+    expect(getArtifactPath("auth", "constitution", projectDir)).toBe(join(projectDir, "CONSTITUTION.md"));
+  });
+
+  it("should keep an explicit artifact root in repo storage", () => {
+    const layout = { storage: "repo" as const, artifactRoot: join(projectDir, "docs/specs"), projectPath: projectDir };
+
+    expect(createFeaturePaths("auth", layout).tasksPath).toBe(join(projectDir, "docs/specs/auth/tasks.md"));
+    expect(getDefaultArtifactRoot("repo", projectDir)).toBe(join(projectDir, "specs"));
+  });
+});
+
+describe("gates in repo storage", () => {
+  beforeEach(() => {
+    useStorage("repo");
+  });
+
+  it("should find the constitution and artifacts in the project tree", async () => {
+    writeArtifact("auth", "constitution");
+    writeArtifact("auth", "proposal");
+
+    expect((await prerequisiteGate("auth", projectDir)).passed).toBe(true);
+    expect((await artifactGate("specify", "auth", undefined, projectDir)).passed).toBe(true);
+    expect((await artifactGate("plan", "auth", undefined, projectDir)).error).toContain(join(projectDir, "specs/auth/spec.md"));
+  });
+
+  it("should commit artifacts with project-relative paths", async () => {
+    const proposalPath = writeArtifact("auth", "proposal");
+    const result = await createPhaseCommit("propose", "auth", proposalPath, projectDir);
+
+    expect(result.success).toBe(true);
+    expect((await runGit(["log", "-1", "--format=%B"], projectDir)).stdout).toContain("Artifact: specs/auth/proposal.md");
+    expect((await runGit(["ls-files"], projectDir)).stdout).toBe("specs/auth/proposal.md");
+    expect((await phaseCompleteGate("propose", "auth", projectDir)).passed).toBe(true);
+  });
+});
+
+describe("migrateStorage()", () => {
+  beforeEach(() => {
+    initDatabase(projectDir);
+  });
+
+  it("should move memory artifacts into the repo and update the database", async () => {
+    const proposalPath = writeArtifact("auth", "proposal");
+    writeArtifact("auth", "constitution");
+    addFeature({ id: "auth", name: "Auth", proposalPath });
+    addFeature({ id: "checkout", name: "Checkout" });
+    useStorage("repo");
+
+    const result = await migrateStorage({ projectPath: projectDir });
+
+    expect(result).toMatchObject({ success: true, storage: "repo", skipped: ["checkout"] });
+    expect(result.migrated.map(m => m.featureName)).toEqual(["auth"]);
+    expect(existsSync(proposalPath)).toBe(false);
+    expect(readFileSync(join(projectDir, "specs/auth/proposal.md"), "utf-8")).toContain("feature: auth");
+    expect(existsSync(join(projectDir, "CONSTITUTION.md"))).toBe(true);
+    expect(getFeature("auth")?.proposalPath).toBe(join(projectDir, "specs/auth/proposal.md"));
+    expect((await runGit(["log", "-1", "--format=%s"], projectDir)).stdout).toBe("SpecFirst: artifacts moved to repo storage");
+  });
+
+  it("should move only the named features", async () => {
+    writeArtifact("auth", "proposal");
+    writeArtifact("billing", "proposal");
+    useStorage("repo");
+
+    const result = await migrateStorage({ projectPath: projectDir, features: ["billing"] });
+
+    expect(result.migrated.map(m => m.featureName)).toEqual(["billing"]);
+    expect(existsSync(join(projectDir, "specs/auth"))).toBe(false);
+  });
+
+  it("should refuse to overwrite existing artifacts", async () => {
+    const proposalPath = writeArtifact("auth", "proposal");
+    useStorage("repo");
+    writeArtifact("auth", "proposal");
+
+    const result = await migrateStorage({ projectPath: projectDir, features: ["auth"] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Cannot move auth");
+    expect(existsSync(proposalPath)).toBe(true);
+  });
+
+  it("should reject moving storage onto itself", async () => {
+    const result = await migrateStorage({ projectPath: projectDir, from: "memory" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already in memory storage");
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Artifact Template Unit Tests - SpecFirst 4.0
+ *
+ * Tests the template engine, override resolution and the validation that
+ * keeps overridden artifacts readable by the parsers.
+ *
+ * @module tests/unit/templates
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  renderTemplate,
+  resolveTemplate,
+  validateTemplate,
+  renderArtifact,
+  TemplateError,
+  BUILTIN_TEMPLATES_DIR,
+  type ArtifactTemplateSpec,
+} from "../../artifacts/template";
+import { proposalTemplate, parseProposal } from "../../artifacts/proposal";
+import { specTemplate } from "../../artifacts/spec";
+import { planTemplate } from "../../artifacts/plan";
+import { tasksTemplate } from "../../artifacts/tasks";
+import { getConfig, getArtifactPath } from "../../lib/config";
+import { closeDatabase } from "../../lib/database";
+import { __testing as gitTesting } from "../../lib/git";
+import { executePhase } from "../../phases/orchestrator";
+
+describe("renderTemplate()", () => {
+  it("should substitute dotted paths and the current item", () => {
+    const output = renderTemplate("{{a.b}} {{#list}}[{{.}}]{{/list}}", { a: { b: "x" }, list: [1, 2] });
+    expect(output).toBe("x [1][2]");
+  });
+
+  it("should drop lines holding only a section tag", () => {
+    const template = "Items:\n{{#items}}\n- {{name}}\n{{/items}}\n{{^items}}\n- none\n{{/items}}\nEnd\n";
+
+    expect(renderTemplate(template, { items: [{ name: "a" }, { name: "b" }] })).toBe("Items:\n- a\n- b\nEnd\n");
+    expect(renderTemplate(template, { items: [] })).toBe("Items:\n- none\nEnd\n");
+  });
+
+  it("should expose loop position and outer scopes", () => {
+    const template = "{{#rows}}{{@number}}:{{label}}{{^@last}}, {{/@last}}{{/rows}}";
+    expect(renderTemplate(template, { label: "x", rows: [{}, { label: "y" }] })).toBe("1:x, 2:y");
+  });
+
+  it("should report unbalanced sections with line numbers", () => {
+    expect(() => renderTemplate("a\n{{#items}}\nb", {})).toThrow("Line 2: Unclosed section {{#items}}");
+    expect(() => renderTemplate("{{#a}}{{/b}}", {})).toThrow("{{/b}} closes {{#a}}");
+  });
+});
+
+describe("built-in templates", () => {
+  it("should render documents the validators and parsers accept", () => {
+    for (const spec of [proposalTemplate, specTemplate, planTemplate, tasksTemplate] as ArtifactTemplateSpec[]) {
+      const content = readFileSync(join(BUILTIN_TEMPLATES_DIR, `${spec.name}.md`), "utf-8");
+      expect(validateTemplate(spec, content)).toEqual([]);
+    }
+  });
+});
+
+describe("template overrides", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-templates-"));
+    projectDir = join(rootDir, "project");
+    process.env.OPENCODE_DIR = rootDir;
+    mkdirSync(join(projectDir, ".specfirst", "templates"), { recursive: true });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const builtin = (name: string) => readFileSync(join(BUILTIN_TEMPLATES_DIR, `${name}.md`), "utf-8");
+
+  it("should prefer project overrides, then templatesDir, then built-ins", () => {
+    expect(resolveTemplate("spec", { projectPath: projectDir }).source).toBe("builtin");
+
+    mkdirSync(getConfig().templatesDir, { recursive: true });
+    writeFileSync(join(getConfig().templatesDir, "spec.md"), builtin("spec"));
+    expect(resolveTemplate("spec", { projectPath: projectDir }).source).toBe("config");
+
+    writeFileSync(join(projectDir, ".specfirst", "templates", "spec.md"), builtin("spec"));
+    expect(resolveTemplate("spec", { projectPath: projectDir })).toMatchObject({
+      source: "project",
+      path: join(projectDir, ".specfirst", "templates", "spec.md"),
+    });
+  });
+
+  it("should render artifacts from a valid override", () => {
+    const override = builtin("proposal").replace("## Recommended Approach\n", "## Recommended Approach\n\n> Reviewed by the architecture group\n");
+    writeFileSync(join(projectDir, ".specfirst", "templates", "proposal.md"), override);
+
+    const content = renderArtifact(proposalTemplate, proposalTemplate.sampleView(), { projectPath: projectDir });
+
+    expect(content).toContain("> Reviewed by the architecture group");
+    expect(parseProposal(content).recommendedApproach).toContain("Option A");
+  });
+
+  it("should reject overrides that drop required sections", () => {
+    const override = builtin("proposal").replace("## Problem Statement", "## The Problem");
+    writeFileSync(join(projectDir, ".specfirst", "templates", "proposal.md"), override);
+
+    expect(validateTemplate(proposalTemplate, override).join("\n")).toContain("Problem Statement");
+    expect(() => renderArtifact(proposalTemplate, proposalTemplate.sampleView(), { projectPath: projectDir }))
+      .toThrow(TemplateError);
+  });
+
+  it("should reject tasks overrides the parser cannot read criteria from", () => {
+    const override = builtin("tasks").replace("| {{id}} | {{text}} |", "| {{text}} | {{id}} |");
+    expect(validateTemplate(tasksTemplate, override).join("\n")).toContain("of 2 sample criteria");
+  });
+
+  it("should render phase artifacts from the project's override when run from another directory", async () => {
+    const override = builtin("proposal").replace("## Recommended Approach\n", "## Recommended Approach\n\n> Reviewed by the architecture group\n");
+    writeFileSync(join(projectDir, ".specfirst", "templates", "proposal.md"), override);
+    writeFileSync(join(projectDir, ".specfirst", "config.yaml"), "artifacts:\n  storage: repo\n");
+    const constitutionPath = getArtifactPath("template-feature", "constitution", projectDir);
+    mkdirSync(dirname(constitutionPath), { recursive: true });
+    writeFileSync(constitutionPath, "# Constitution\n");
+    await gitTesting.runGit(["init", "-q"], projectDir);
+    await gitTesting.runGit(["config", "user.email", "test@example.com"], projectDir);
+    await gitTesting.runGit(["config", "user.name", "Test"], projectDir);
+    expect(process.cwd()).not.toStartWith(projectDir);
+
+    try {
+      const result = await executePhase("propose", "template-feature", {
+        featureName: "template-feature",
+        problemStatement: "Password resets go through support. Users wait a day for access.",
+        solutionApproaches: [{ name: "Email link", description: "Send a signed reset link", pros: ["Familiar"], cons: ["Delays"] }],
+        recommendedApproach: "Send a signed reset link by email.",
+      }, { projectPath: projectDir });
+
+      expect(result.error).toBeUndefined();
+      expect(readFileSync(result.artifactPath!, "utf-8")).toContain("> Reviewed by the architecture group");
+    } finally {
+      closeDatabase();
+    }
+  });
+
+  it("should check overrides against the project's word range", () => {
+    writeFileSync(join(projectDir, ".specfirst", "config.yaml"), "criteria:\n  minWords: 10\n  maxWords: 14\n");
+
+    expect(validateTemplate(tasksTemplate, builtin("tasks"))).toEqual([]);
+    expect(validateTemplate(tasksTemplate, builtin("tasks"), { projectPath: projectDir }).join("\n")).toContain("expected 10-14");
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Traceability Unit Tests - SpecFirst 4.0
+ *
+ * Tests trace rendering in plan.md/tasks.md, the traceability matrix and
+ * the traceability gate.
+ *
+ * @module tests/unit/traceability
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import { generateSpec, parseSpec } from "../../artifacts/spec";
+import { generatePlan, parsePlan } from "../../artifacts/plan";
+import { generateTasks, parseTasksFile } from "../../artifacts/tasks";
+import {
+  buildTraceabilityMatrix,
+  formatTraceabilityMarkdown,
+  formatTraceabilityJSON,
+  parseTraceList,
+} from "../../artifacts/traceability";
+import { traceabilityGate } from "../../gates/traceability";
+import { validateISCFormat } from "../../gates/isc-format";
+import { getArtifactPath } from "../../lib/config";
+import type { ISCCriterion, ImplementationPhase } from "../../artifacts/types";
+
+const SPEC = generateSpec(
+  "trace-feature",
+  [
+    { id: "FR-001", description: "Users can reset passwords", priority: "must", verificationMethod: "Test" },
+    { id: "FR-002", description: "Reset links expire", priority: "must", verificationMethod: "Test" },
+    { id: "FR-003", description: "Reset emails are branded", priority: "could", verificationMethod: "Review" },
+  ],
+  [],
+  [{ id: "US-001", title: "Reset password", given: "a user", when: "they ask", then: "it works" }],
+  [{ id: "SC-001", description: "Fewer support tickets", verificationMethod: "Report" }]
+);
+
+const PHASES: ImplementationPhase[] = [
+  {
+    number: 1,
+    name: "Reset flow",
+    objective: "Build reset",
+    deliverables: ["Endpoint"],
+    acceptanceCriteria: ["Works"],
+    estimatedEffort: "1 day",
+    dependencies: [],
+    risks: ["Abuse"],
+    traces: ["FR-001", "US-001"],
+  },
+];
+
+const PLAN = generatePlan(
+  "trace-feature",
+  "Summary",
+  [],
+  PHASES,
+  { unitTests: "bun", integrationTests: "-", e2eTests: "-", performanceTests: "-", coverageTarget: "80%" },
+  [],
+  [],
+  "Revert"
+);
+
+const CRITERIA: ISCCriterion[] = [
+  { id: 1, criterion: "Password reset endpoint returns success for registered users", status: "⬜", traces: ["FR-001", "US-001"] },
+  { id: 2, criterion: "Reset link older than one hour is rejected", status: "⬜", traces: ["FR-002"] },
+  { id: 3, criterion: "Audit log records every password reset request made", status: "⬜" },
+];
+
+describe("parseTraceList()", () => {
+  it("should split comma-separated IDs and ignore placeholders", () => {
+    expect(parseTraceList("FR-001, SC-002")).toEqual(["FR-001", "SC-002"]);
+    expect(parseTraceList("-")).toEqual([]);
+    expect(parseTraceList("")).toEqual([]);
+  });
+});
+
+describe("Trace rendering", () => {
+  it("should render and parse phase traces in plan.md", () => {
+    expect(PLAN).toContain("**Traces:** FR-001, US-001");
+    expect(parsePlan(PLAN).implementationPhases[0].traces).toEqual(["FR-001", "US-001"]);
+  });
+
+  it("should omit the Traces line for untraced phases", () => {
+    const { traces, ...untraced } = PHASES[0];
+    const plan = generatePlan("f", "S", [], [untraced], parsePlan(PLAN).testingStrategy, [], [], "R");
+
+    expect(plan).not.toContain("**Traces:**");
+    expect(parsePlan(plan).implementationPhases[0].traces).toBeUndefined();
+  });
+
+  it("should add a Traces column to tasks.md only when used", () => {
+    const withTraces = generateTasks("f", "Ideal", CRITERIA, []);
+    const without = generateTasks("f", "Ideal", [CRITERIA[2]], []);
+
+    expect(withTraces).toContain("| Verify | Traces |");
+    expect(withTraces).toContain("| ISC-C3 | Audit log records every password reset request made | ⬜ | - | - | - |");
+    expect(without).not.toContain("Traces");
+  });
+
+  it("should parse traces back from tasks.md", () => {
+    const { criteria } = parseTasksFile(generateTasks("f", "Ideal", CRITERIA, []));
+
+    expect(criteria[0].traces).toEqual(["FR-001", "US-001"]);
+    expect(criteria[1].traces).toEqual(["FR-002"]);
+    expect(criteria[2].traces).toBeUndefined();
+  });
+
+  it("should keep tasks.md with traces valid ISC format", () => {
+    const content = generateTasks("f", "Ideal", CRITERIA, [
+      { id: "A1", criterion: "No reset tokens are ever written to application logs", status: "👀" },
+    ]);
+    expect(validateISCFormat(content).passed).toBe(true);
+  });
+});
+
+describe("buildTraceabilityMatrix()", () => {
+  const matrix = buildTraceabilityMatrix(parseSpec(SPEC), parsePlan(PLAN), CRITERIA);
+
+  it("should link spec items to phases and criteria", () => {
+    const fr1 = matrix.entries.find(e => e.id === "FR-001")!;
+
+    expect(fr1.phases).toEqual(["Phase 1: Reset flow"]);
+    expect(fr1.criteria).toEqual(["ISC-C1"]);
+    expect(fr1.covered).toBe(true);
+  });
+
+  it("should report uncovered spec items without failing MUST coverage", () => {
+    expect(matrix.entries.find(e => e.id === "FR-003")!.covered).toBe(false);
+    expect(matrix.entries.find(e => e.id === "SC-001")!.covered).toBe(false);
+    expect(matrix.uncoveredMust).toEqual([]);
+    expect(matrix.summary).toEqual({ total: 5, covered: 3, mustTotal: 2, mustCovered: 2 });
+  });
+
+  it("should flag uncovered MUST requirements", () => {
+    const partial = buildTraceabilityMatrix(parseSpec(SPEC), null, [CRITERIA[0]]);
+    expect(partial.uncoveredMust).toEqual(["FR-002"]);
+  });
+
+  it("should collect references to unknown spec IDs", () => {
+    const unknown = buildTraceabilityMatrix(parseSpec(SPEC), null, [
+      { ...CRITERIA[0], traces: ["FR-001", "FR-999"] },
+    ]);
+    expect(unknown.unknownReferences).toEqual([{ source: "ISC-C1", id: "FR-999" }]);
+  });
+
+  it("should render markdown and JSON reports", () => {
+    const markdown = formatTraceabilityMarkdown(matrix);
+
+    expect(markdown).toContain("# trace-feature - Traceability Matrix");
+    expect(markdown).toContain("| FR-001 | Users can reset passwords | MUST | Phase 1: Reset flow | ISC-C1 | ✅ |");
+    expect(markdown).toContain("**MUST Coverage:** 2/2");
+    expect(JSON.parse(formatTraceabilityJSON(matrix)).entries).toHaveLength(5);
+  });
+});
+
+describe("traceabilityGate()", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "specfirst-trace-"));
+    process.env.OPENCODE_DIR = rootDir;
+
+    for (const [type, content] of [["spec", SPEC], ["plan", PLAN]] as const) {
+      const path = getArtifactPath("trace-feature", type);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content, "utf-8");
+    }
+  });
+
+  afterAll(async () => {
+    process.env = { ...originalEnv };
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should pass when every MUST requirement is covered", async () => {
+    const result = await traceabilityGate("trace-feature", CRITERIA);
+
+    expect(result.passed).toBe(true);
+    expect(result.skipped).toBeUndefined();
+  });
+
+  it("should fail with the uncovered IDs", async () => {
+    const result = await traceabilityGate("trace-feature", [CRITERIA[2]]);
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain("FR-001, FR-002");
+    expect(result.resolution).toContain("traces");
+  });
+
+  it("should read criteria from tasks.md when none are given", async () => {
+    const tasksPath = getArtifactPath("trace-feature", "tasks");
+    await writeFile(tasksPath, generateTasks("trace-feature", "Ideal", [CRITERIA[0]], []), "utf-8");
+
+    const result = await traceabilityGate("trace-feature");
+
+    expect(result.passed).toBe(false);
+    expect(result.matrix?.uncoveredMust).toEqual(["FR-002"]);
+  });
+
+  it("should skip when spec.md is missing", async () => {
+    const result = await traceabilityGate("trace-missing", CRITERIA);
+
+    expect(result.passed).toBe(true);
+    expect(result.skipped).toBe(true);
+    expect(result.warnings[0]).toContain("spec.md not found");
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Verifier Unit Tests - SpecFirst 4.0
+ *
+ * Tests parsing and execution of ISC Verify methods and the write-back of
+ * verification results into tasks.md.
+ *
+ * @module tests/unit/verifier
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  parseVerifyMethod,
+  runVerifyStep,
+  verifyFeature,
+  formatVerificationReport,
+  type VerifyStep,
+} from "../../algorithm/verifier";
+import { generateTasks, parseTasksFile } from "../../artifacts/tasks";
+import { getArtifactPath } from "../../lib/config";
+import { closeDatabase } from "../../lib/database";
+
+describe("parseVerifyMethod()", () => {
+  it("should parse command methods", () => {
+    expect(parseVerifyMethod("CLI: bun run lint")).toEqual({ kind: "CLI", command: "bun run lint" });
+    expect(parseVerifyMethod("Static: tsc --noEmit")).toEqual({ kind: "Static", command: "tsc --noEmit" });
+  });
+
+  it("should accept test filters with or without the bun test prefix", () => {
+    expect(parseVerifyMethod("Test: auth")).toEqual({ kind: "Test", args: ["auth"] });
+    expect(parseVerifyMethod("Test: bun test tests/unit")).toEqual({ kind: "Test", args: ["tests/unit"] });
+  });
+
+  it("should parse grep patterns", () => {
+    const literal = parseVerifyMethod("Grep: !console.log( in src") as Extract<VerifyStep, { kind: "Grep" }>;
+    const regex = parseVerifyMethod("Grep: /todo/i in src/app.ts") as Extract<VerifyStep, { kind: "Grep" }>;
+
+    expect(literal.negate).toBe(true);
+    expect(literal.pattern.test("console.log(x)")).toBe(true);
+    expect(regex.pattern.test("TODO: fix")).toBe(true);
+    expect(regex.path).toBe("src/app.ts");
+  });
+
+  it("should return null for manual or malformed methods", () => {
+    expect(parseVerifyMethod("Browser: login page renders")).toBeNull();
+    expect(parseVerifyMethod("Grep: missing path")).toBeNull();
+    expect(parseVerifyMethod("just do it")).toBeNull();
+  });
+});
+
+describe("runVerifyStep()", () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), "specfirst-verify-"));
+    mkdirSync(join(projectDir, "src"));
+    writeFileSync(join(projectDir, "src", "app.ts"), "export const ok = true;\n// TODO: remove\n");
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("should pass commands that exit 0 and capture output as evidence", async () => {
+    const result = await runVerifyStep({ kind: "CLI", command: "echo all good" }, { projectPath: projectDir });
+
+    expect(result.outcome).toBe("passed");
+    expect(result.evidence).toBe("exit 0: all good");
+  });
+
+  it("should fail commands that exit non-zero", async () => {
+    const result = await runVerifyStep({ kind: "CLI", command: "echo broken >&2; exit 3" }, { projectPath: projectDir });
+
+    expect(result.outcome).toBe("failed");
+    expect(result.exitCode).toBe(3);
+    expect(result.output).toContain("broken");
+  });
+
+  it("should run commands in the project with a minimal environment", async () => {
+    process.env.SPECFIRST_SECRET_TEST = "leak";
+    const result = await runVerifyStep(
+      { kind: "CLI", command: 'pwd; echo "secret=${SPECFIRST_SECRET_TEST:-none}"' },
+      { projectPath: projectDir }
+    );
+    delete process.env.SPECFIRST_SECRET_TEST;
+
+    expect(result.output).toContain(projectDir.split("/").pop()!);
+    expect(result.output).toContain("secret=none");
+  });
+
+  it("should kill commands that exceed the timeout", async () => {
+    const result = await runVerifyStep({ kind: "CLI", command: "sleep 5" }, { projectPath: projectDir, timeoutMs: 200 });
+
+    expect(result.outcome).toBe("failed");
+    expect(result.timedOut).toBe(true);
+    expect(result.durationMs).toBeLessThan(4000);
+  });
+
+  it("should not wait for pipes held open by a detached grandchild", async () => {
+    const result = await runVerifyStep(
+      { kind: "CLI", command: "setsid sleep 3 & echo started" },
+      { projectPath: projectDir, timeoutMs: 200 }
+    );
+
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toBe("started");
+    expect(result.durationMs).toBeLessThan(2000);
+  });
+
+  it("should grep files and directories", async () => {
+    const hit = await runVerifyStep(parseVerifyMethod("Grep: TODO in src")!, { projectPath: projectDir });
+    const negated = await runVerifyStep(parseVerifyMethod("Grep: !FIXME in src/app.ts")!, { projectPath: projectDir });
+
+    expect(hit.outcome).toBe("passed");
+    expect(hit.evidence).toBe("Match at src/app.ts:2");
+    expect(negated.outcome).toBe("passed");
+  });
+
+  it("should refuse paths outside the project", async () => {
+    const result = await runVerifyStep({ kind: "Read", path: "../../etc/passwd" }, { projectPath: projectDir });
+
+    expect(result.outcome).toBe("failed");
+    expect(result.evidence).toContain("outside project");
+  });
+
+  it("should not follow symlinks out of the project", async () => {
+    const outsideDir = mkdtempSync(join(tmpdir(), "specfirst-verify-outside-"));
+    try {
+      writeFileSync(join(outsideDir, "secret.txt"), "TODO: leaked\n");
+      symlinkSync(outsideDir, join(projectDir, "outside"));
+      symlinkSync(join(outsideDir, "secret.txt"), join(projectDir, "src", "secret.txt"));
+
+      const walked = await runVerifyStep(parseVerifyMethod("Grep: leaked in .")!, { projectPath: projectDir });
+      const linkedDir = await runVerifyStep(parseVerifyMethod("Grep: leaked in outside")!, { projectPath: projectDir });
+      const linkedFile = await runVerifyStep({ kind: "Read", path: "src/secret.txt" }, { projectPath: projectDir });
+
+      expect(walked.outcome).toBe("failed");
+      expect(walked.evidence).toStartWith("No match");
+      expect(linkedDir.evidence).toContain("outside project");
+      expect(linkedFile.evidence).toContain("outside project");
+    } finally {
+      rmSync(outsideDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should check files are readable and not empty", async () => {
+    writeFileSync(join(projectDir, "empty.md"), "");
+
+    expect((await runVerifyStep({ kind: "Read", path: "src/app.ts" }, { projectPath: projectDir })).outcome).toBe("passed");
+    expect((await runVerifyStep({ kind: "Read", path: "empty.md" }, { projectPath: projectDir })).outcome).toBe("failed");
+    expect((await runVerifyStep({ kind: "Read", path: "nope.md" }, { projectPath: projectDir })).outcome).toBe("failed");
+  });
+});
+
+describe("verifyFeature()", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+  let tasksPath: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-verify-feature-"));
+    process.env.OPENCODE_DIR = rootDir;
+    writeFileSync(join(rootDir, "README.md"), "# Project\n");
+
+    tasksPath = getArtifactPath("verify-feature", "tasks");
+    mkdirSync(dirname(tasksPath), { recursive: true });
+    writeFileSync(tasksPath, generateTasks("verify-feature", "Ideal", [
+      { id: 1, criterion: "Project readme exists and describes the project clearly", status: "⬜", verifyMethod: "Read: README.md" },
+      { id: 2, criterion: "Build command completes without any errors being reported", status: "⬜", verifyMethod: "CLI: exit 1" },
+      { id: 3, criterion: "Login page renders correctly in all supported browsers", status: "⬜", verifyMethod: "Browser: open /login" },
+    ], [
+      { id: "A1", criterion: "No debugger statements remain anywhere in the project", status: "👀", verifyMethod: "Grep: !debugger in README.md" },
+    ]), "utf-8");
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should run verify steps and write statuses back to tasks.md", async () => {
+    const report = await verifyFeature("verify-feature", { projectPath: rootDir, skipDatabase: true });
+    const { criteria, antiCriteria } = parseTasksFile(readFileSync(tasksPath, "utf-8"));
+
+    expect(report.summary).toEqual({ total: 4, passed: 2, failed: 1, skipped: 1 });
+    expect(report.written).toBe(true);
+    expect(criteria.map(c => c.status)).toEqual(["✅", "❌", "⬜"]);
+    expect(criteria[0].evidence).toBe("Read README.md (2 lines)");
+    expect(criteria[1].evidence).toBe("exit 1");
+    expect(antiCriteria[0].status).toBe("✅");
+    expect(formatVerificationReport(report)).toContain("2/4 passed, 1 failed, 1 skipped");
+  });
+
+  it("should leave tasks.md untouched in dry-run mode", async () => {
+    const before = readFileSync(tasksPath, "utf-8");
+    const report = await verifyFeature("verify-feature", { projectPath: rootDir, dryRun: true, ids: [1] });
+
+    expect(report.results.map(r => r.id)).toEqual(["ISC-C1"]);
+    expect(report.written).toBe(false);
+    expect(readFileSync(tasksPath, "utf-8")).toBe(before);
+  });
+});
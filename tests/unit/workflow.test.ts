@@ -0,0 +1,221 @@
+/**
+ * Workflow Unit Tests - SpecFirst 4.0
+ *
+ * Tests workflow definitions: defaults and validation, lookup from project
+ * and workflowsDir, per-feature assignment, and the orchestrator, artifact
+ * gate and review phase driving off the selected workflow.
+ *
+ * @module tests/unit/workflow
+ * @version 4.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { join, dirname } from "path";
+import {
+  DEFAULT_WORKFLOW,
+  WorkflowError,
+  normalizeWorkflow,
+  getWorkflow,
+  listWorkflows,
+  resolveFeatureWorkflow,
+  getNextWorkflowPhase,
+  __testing as workflowTesting,
+} from "../../lib/workflow";
+import { executePhase, detectNextPhase, getWorkflowStatus } from "../../phases/orchestrator";
+import { getReviewPath } from "../../phases/review";
+import { artifactGate } from "../../gates/artifact";
+import { mapToAlgorithmPhase } from "../../algorithm/phase-integration";
+import { getArtifactPath, getConfig } from "../../lib/config";
+import { initDatabase, closeDatabase, addFeature, getFeature } from "../../lib/database";
+import { __testing as gitTesting } from "../../lib/git";
+
+const BUNDLED_WORKFLOWS_DIR = join(import.meta.dir, "../../Workflows");
+
+describe("workflow definitions", () => {
+  it("should reproduce the five-phase pipeline as the default workflow", () => {
+    expect(DEFAULT_WORKFLOW.phases.map(p => p.name)).toEqual(["propose", "specify", "plan", "implement", "release"]);
+
+    const release = DEFAULT_WORKFLOW.phases[4];
+    expect(release.requires).toEqual(["constitution", "proposal", "spec", "plan", "tasks"]);
+    expect(release.gates).toEqual(["prerequisite", "artifact", "isc-format", "traceability"]);
+    expect(release.algorithmPhase).toBe("EXECUTE");
+  });
+
+  it("should fill in defaults for custom phases", () => {
+    const workflow = normalizeWorkflow({ name: "spike", phases: ["propose", { name: "findings" }] }, "project");
+    const findings = workflow.phases[1];
+
+    expect(findings).toMatchObject({
+      handler: "review",
+      requires: ["constitution", "proposal"],
+      gates: ["prerequisite", "artifact"],
+      algorithmPhase: "VERIFY",
+    });
+    expect(mapToAlgorithmPhase("findings", workflow)).toBe("VERIFY");
+    expect(getNextWorkflowPhase(workflow, "none")).toBe("propose");
+    expect(getNextWorkflowPhase(workflow, "findings")).toBeNull();
+  });
+
+  it("should report every problem in an invalid definition", () => {
+    try {
+      normalizeWorkflow({
+        name: "broken",
+        phases: ["plan", { name: "audit", gates: ["lint"], requires: ["tasks"] }, { name: "propose", handler: "review" }],
+      }, "project");
+      throw new Error("expected WorkflowError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorkflowError);
+      const errors = (error as WorkflowError).errors.join("\n");
+      expect(errors).toContain("plan handler reads spec");
+      expect(errors).toContain('unknown gate "lint"');
+      expect(errors).toContain("requires tasks, but no earlier phase produces it");
+      expect(errors).toContain("built-in phase names must use their own handler");
+    }
+  });
+
+  it("should ship valid bundled workflows", () => {
+    const files = readdirSync(BUNDLED_WORKFLOWS_DIR).filter(f => f.endsWith(".yaml"));
+    expect(files.length).toBeGreaterThan(0);
+
+    for (const file of files) {
+      const workflow = workflowTesting.loadWorkflowFile(join(BUNDLED_WORKFLOWS_DIR, file), "config");
+      expect(`${workflow.name}.yaml`).toBe(file);
+    }
+  });
+});
+
+describe("workflow lookup", () => {
+  const originalEnv = { ...process.env };
+  let rootDir: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), "specfirst-workflows-"));
+    projectDir = join(rootDir, "project");
+    process.env.OPENCODE_DIR = rootDir;
+    mkdirSync(join(projectDir, ".specfirst", "workflows"), { recursive: true });
+    mkdirSync(getConfig().workflowsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it("should prefer project definitions over workflowsDir", () => {
+    writeFileSync(join(getConfig().workflowsDir, "bugfix.yaml"), "name: bugfix\nphases: [specify, implement, release]\n");
+    expect(getWorkflow("bugfix", { projectPath: projectDir }).source).toBe("config");
+
+    writeFileSync(join(projectDir, ".specfirst", "workflows", "bugfix.json"), '{"name": "bugfix", "phases": ["specify", "implement"]}');
+    const workflow = getWorkflow("bugfix", { projectPath: projectDir });
+
+    expect(workflow.source).toBe("project");
+    expect(workflow.phases.map(p => p.name)).toEqual(["specify", "implement"]);
+    expect(listWorkflows({ projectPath: projectDir }).map(w => w.name)).toEqual(["bugfix", "default"]);
+  });
+
+  it("should reject unknown workflows and misnamed files", () => {
+    expect(() => getWorkflow("missing", { projectPath: projectDir })).toThrow("Unknown workflow \"missing\"");
+
+    writeFileSync(join(projectDir, ".specfirst", "workflows", "fast.yaml"), "name: quick\nphases: [propose]\n");
+    expect(() => getWorkflow("fast", { projectPath: projectDir })).toThrow("must be defined in quick.yaml");
+  });
+
+  it("should resolve the workflow recorded for a feature", () => {
+    writeFileSync(join(projectDir, ".specfirst", "workflows", "bugfix.yaml"), "name: bugfix\nphases: [specify, implement, release]\n");
+    initDatabase(projectDir);
+    addFeature({ id: "login-fix", name: "login-fix", workflow: "bugfix" });
+
+    expect(resolveFeatureWorkflow("login-fix", { projectPath: projectDir }).name).toBe("bugfix");
+    expect(resolveFeatureWorkflow("other", { projectPath: projectDir }).name).toBe("default");
+  });
+
+  it("should check artifacts against the feature's workflow", async () => {
+    const workflow = normalizeWorkflow({ name: "bugfix", phases: ["specify", "implement", "release"] }, "project");
+    const constitution = getArtifactPath("login-fix", "constitution");
+    mkdirSync(dirname(constitution), { recursive: true });
+    writeFileSync(constitution, "# Constitution\n");
+
+    expect((await artifactGate("specify", "login-fix", workflow)).passed).toBe(true);
+    expect((await artifactGate("specify", "login-fix", DEFAULT_WORKFLOW)).missingArtifacts?.[0]).toContain("proposal.md");
+
+    const plan = await artifactGate("plan", "login-fix", workflow);
+    expect(plan.passed).toBe(false);
+    expect(plan.error).toContain("not part of the 'bugfix' workflow");
+  });
+});
+
+describe("review phases", () => {
+  const originalEnv = { ...process.env };
+  const originalCwd = process.cwd();
+  const FEATURE = "audit-feature";
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = mkdtempSync(join(tmpdir(), "specfirst-review-"));
+    process.env.OPENCODE_DIR = repoDir;
+    process.chdir(repoDir);
+    await gitTesting.runGit(["init", "-q"], repoDir);
+    await gitTesting.runGit(["config", "user.email", "test@example.com"], repoDir);
+    await gitTesting.runGit(["config", "user.name", "Test"], repoDir);
+
+    const constitution = getArtifactPath(FEATURE, "constitution");
+    mkdirSync(dirname(constitution), { recursive: true });
+    writeFileSync(constitution, "# Constitution\n");
+
+    mkdirSync(join(repoDir, ".specfirst", "workflows"), { recursive: true });
+    writeFileSync(join(repoDir, ".specfirst", "workflows", "audit.yaml"), [
+      "name: audit",
+      "phases:",
+      "  - name: audit-review",
+      "    checklist:",
+      "      - Access logs reviewed",
+      "",
+    ].join("\n"));
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.chdir(originalCwd);
+    process.env = { ...originalEnv };
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should assign the workflow and complete the feature when the review is approved", async () => {
+    const result = await executePhase("audit-review", FEATURE, { approved: true, reviewer: "sam" }, {
+      projectPath: repoDir,
+      workflow: "audit",
+    });
+
+    expect(result).toMatchObject({ success: true, algorithmPhase: "VERIFY", nextPhase: undefined });
+    expect(getFeature(FEATURE)).toMatchObject({ workflow: "audit", phase: "audit-review", status: "completed" });
+    expect(readFileSync(getReviewPath(FEATURE, "audit-review"), "utf-8")).toContain("- [x] Access logs reviewed");
+
+    expect(await getWorkflowStatus(FEATURE, { projectPath: repoDir })).toEqual({ "audit-review": true });
+    expect(await detectNextPhase(FEATURE, { projectPath: repoDir })).toBeNull();
+  });
+
+  it("should leave the phase open when the review requests changes", async () => {
+    const result = await executePhase("audit-review", FEATURE, { approved: false, findings: ["Logs kept too long"] }, {
+      projectPath: repoDir,
+      workflow: "audit",
+    });
+
+    expect(result.success).toBe(false);
+    expect(readFileSync(getReviewPath(FEATURE, "audit-review"), "utf-8")).toContain("- Logs kept too long");
+    expect(await detectNextPhase(FEATURE, { projectPath: repoDir })).toBe("audit-review");
+  });
+
+  it("should reject phases and workflow switches outside the assigned workflow", async () => {
+    await executePhase("audit-review", FEATURE, { approved: true }, { projectPath: repoDir, workflow: "audit" });
+
+    const invalid = await executePhase("propose", FEATURE, {}, { projectPath: repoDir });
+    expect(invalid.error).toContain('Invalid phase: "propose". Must be one of: audit-review (workflow: audit)');
+
+    const switched = await executePhase("propose", FEATURE, {}, { projectPath: repoDir, workflow: "default" });
+    expect(switched.error).toContain("cannot switch to 'default'");
+  });
+});